@@ -0,0 +1,7 @@
+-- Migration 0003: Message attachments
+--
+-- Adds an optional JSON column with the metadata of files and images attached
+-- to a message. The files themselves are stored on disk under
+-- ~/levante/attachments/<session_id>/ and are removed with the session.
+
+ALTER TABLE messages ADD COLUMN attachments TEXT;
@@ -0,0 +1,30 @@
+-- Migration 0004: Full-text search over messages
+--
+-- Adds an FTS5 index over messages.content. The index uses external content
+-- (the text stays in `messages`), so triggers keep it in sync on insert,
+-- delete and content updates. Existing history is indexed with 'rebuild'.
+-- The old B-tree index on content is dropped: it never served LIKE '%...%'.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+  content,
+  content='messages',
+  content_rowid='rowid',
+  tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+  INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+  INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+  INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+  INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+
+INSERT INTO messages_fts(messages_fts) VALUES ('rebuild');
+
+DROP INDEX IF EXISTS idx_messages_content_search;
@@ -0,0 +1,30 @@
+-- Migration 0005: Conversation branches
+--
+-- Messages form a tree instead of a flat list: regenerating an answer or
+-- editing a user message adds a sibling under the same parent, so the
+-- previous version is kept. Each session remembers the last message of the
+-- branch being shown; the branch is rebuilt by following parent_id upwards.
+
+ALTER TABLE messages ADD COLUMN parent_id TEXT;
+
+ALTER TABLE chat_sessions ADD COLUMN active_leaf_id TEXT;
+
+-- Existing histories are linear: each message's parent is the one before it
+UPDATE messages SET parent_id = (
+  SELECT p.id FROM messages p
+  WHERE p.session_id = messages.session_id
+    AND (p.created_at < messages.created_at
+      OR (p.created_at = messages.created_at AND p.rowid < messages.rowid))
+  ORDER BY p.created_at DESC, p.rowid DESC
+  LIMIT 1
+);
+
+UPDATE chat_sessions SET active_leaf_id = (
+  SELECT m.id FROM messages m
+  WHERE m.session_id = chat_sessions.id
+  ORDER BY m.created_at DESC, m.rowid DESC
+  LIMIT 1
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent
+  ON messages(parent_id);
@@ -0,0 +1,25 @@
+-- Migration 0006: Folders, pinning and tags
+--
+-- Chats can be filed into user-created folders, pinned to the top of the
+-- list and labelled with free-form tags. chat_sessions.folder_id existed
+-- since the initial schema but had no table behind it until now.
+
+CREATE TABLE IF NOT EXISTS folders (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+ALTER TABLE chat_sessions ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+
+-- JSON array of tag names
+ALTER TABLE chat_sessions ADD COLUMN tags TEXT;
+
+-- folder_id was never set by the app, but clear any dangling values
+UPDATE chat_sessions SET folder_id = NULL
+WHERE folder_id IS NOT NULL AND folder_id NOT IN (SELECT id FROM folders);
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_folder
+  ON chat_sessions(folder_id);
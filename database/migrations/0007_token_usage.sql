@@ -0,0 +1,21 @@
+-- Migration 0007: Token usage per message
+--
+-- Assistant messages record the tokens reported by the provider and the
+-- cost computed from the model pricing, for the usage dashboard and the
+-- monthly budget. Columns stay NULL for user messages and older answers.
+
+-- Model and provider that produced the answer (the session model can change)
+ALTER TABLE messages ADD COLUMN model TEXT;
+ALTER TABLE messages ADD COLUMN provider TEXT;
+
+ALTER TABLE messages ADD COLUMN input_tokens INTEGER;
+ALTER TABLE messages ADD COLUMN output_tokens INTEGER;     -- Includes reasoning tokens
+ALTER TABLE messages ADD COLUMN reasoning_tokens INTEGER;
+ALTER TABLE messages ADD COLUMN cached_input_tokens INTEGER;
+
+-- USD, NULL when the model has no pricing
+ALTER TABLE messages ADD COLUMN cost REAL;
+
+-- Usage reports scan messages by date
+CREATE INDEX IF NOT EXISTS idx_messages_usage_created
+  ON messages(created_at) WHERE input_tokens IS NOT NULL;
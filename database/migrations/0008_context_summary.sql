@@ -0,0 +1,11 @@
+-- Migration 0008: Rolling context summary on sessions
+--
+-- When a chat outgrows the model's context window, older messages can be
+-- replaced by a summary. The summary is kept on the session and extended
+-- as more messages fall out of the window.
+
+-- Summary of older messages that no longer fit in the context window
+ALTER TABLE chat_sessions ADD COLUMN context_summary TEXT;
+
+-- Id of the last message the summary covers
+ALTER TABLE chat_sessions ADD COLUMN context_summary_until TEXT;
@@ -0,0 +1,7 @@
+-- Migration 0009: Agent bound to a session
+--
+-- Agents (name, prompt, model defaults and tool set) live in
+-- ~/levante/agents.json. A session remembers which one it uses.
+
+-- Agent id from agents.json, NULL for the default assistant
+ALTER TABLE chat_sessions ADD COLUMN agent_id TEXT;
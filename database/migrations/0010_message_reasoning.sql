@@ -0,0 +1,7 @@
+-- Migration 0010: Reasoning output on messages
+--
+-- Thinking output streamed by reasoning models (Claude, o-series,
+-- DeepSeek-R1...) is kept with the answer it belongs to.
+
+-- JSON array of { "text": ..., "durationMs": ... } blocks, NULL without thinking output
+ALTER TABLE messages ADD COLUMN reasoning TEXT;
@@ -0,0 +1,7 @@
+-- Migration 0011: Web sources on messages
+--
+-- Pages found by web search while answering are kept with the answer,
+-- in the order their [n] citations refer to.
+
+-- JSON array of { "url": ..., "title": ..., "snippet": ... }, NULL without sources
+ALTER TABLE messages ADD COLUMN sources TEXT;
@@ -0,0 +1,15 @@
+-- Migration 0012: Generation parameters on chat sessions
+--
+-- Each chat can override how the model samples. NULL columns fall back to
+-- the agent, the model's defaults and then the global defaults.
+
+ALTER TABLE chat_sessions ADD COLUMN temperature REAL;
+ALTER TABLE chat_sessions ADD COLUMN max_output_tokens INTEGER;
+ALTER TABLE chat_sessions ADD COLUMN top_p REAL;
+ALTER TABLE chat_sessions ADD COLUMN seed INTEGER;
+
+-- JSON array of strings, NULL for no stop sequences
+ALTER TABLE chat_sessions ADD COLUMN stop_sequences TEXT;
+
+-- JSON object keyed by SDK provider name, e.g. { "openai": { "logprobs": true } }
+ALTER TABLE chat_sessions ADD COLUMN provider_options TEXT;
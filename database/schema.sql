@@ -1,5 +1,5 @@
 -- Levante Database Schema
--- Current as of migration version 2
+-- Current as of migration version 12
 -- Database location: ~/levante/levante.db (SQLite)
 
 -- Schema migration tracking
@@ -15,7 +15,28 @@ CREATE TABLE IF NOT EXISTS chat_sessions (
   model TEXT NOT NULL,           -- AI model used for this session
   folder_id TEXT,                -- Optional folder organization
   created_at INTEGER NOT NULL,   -- Unix timestamp
-  updated_at INTEGER NOT NULL    -- Unix timestamp (updated on new messages)
+  updated_at INTEGER NOT NULL,   -- Unix timestamp (updated on new messages)
+  active_leaf_id TEXT,           -- Last message of the branch being shown
+  pinned INTEGER NOT NULL DEFAULT 0, -- 1 when pinned to the top of the list
+  tags TEXT,                     -- JSON array of tag names (optional)
+  context_summary TEXT,          -- Summary of messages left out of the context window
+  context_summary_until TEXT,    -- Last message covered by the summary
+  agent_id TEXT,                 -- Agent from agents.json (optional)
+  temperature REAL,              -- Generation parameters; NULL uses the defaults
+  max_output_tokens INTEGER,
+  top_p REAL,
+  seed INTEGER,
+  stop_sequences TEXT,           -- JSON array of strings (optional)
+  provider_options TEXT          -- JSON object keyed by provider name (optional)
+);
+
+-- Folders: User-created groups of chat sessions
+CREATE TABLE IF NOT EXISTS folders (
+  id TEXT PRIMARY KEY,           -- Unique folder identifier
+  name TEXT NOT NULL,            -- Display name
+  position INTEGER NOT NULL DEFAULT 0, -- Sort order in the sidebar
+  created_at INTEGER NOT NULL,   -- Unix timestamp
+  updated_at INTEGER NOT NULL    -- Unix timestamp
 );
 
 -- Messages: Individual chat messages within sessions
@@ -26,6 +47,17 @@ CREATE TABLE IF NOT EXISTS messages (
   content TEXT NOT NULL,                                        -- Message content
   tool_calls TEXT,                                              -- JSON string of tool invocations (optional)
   created_at INTEGER NOT NULL,                                  -- Unix timestamp
+  attachments TEXT,                                             -- JSON array of attachment metadata (optional)
+  parent_id TEXT,                                               -- Previous message in the branch (NULL for the first)
+  model TEXT,                                                   -- Model that produced the answer (assistant only)
+  provider TEXT,                                                -- Provider type of that model
+  input_tokens INTEGER,                                         -- Prompt tokens reported by the provider
+  output_tokens INTEGER,                                        -- Completion tokens, including reasoning
+  reasoning_tokens INTEGER,                                     -- Reasoning tokens
+  cached_input_tokens INTEGER,                                  -- Prompt tokens served from cache
+  cost REAL,                                                    -- USD, NULL when the model has no pricing
+  reasoning TEXT,                                               -- JSON array of thinking output blocks (optional)
+  sources TEXT,                                                 -- JSON array of web sources cited by the answer (optional)
   FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
 );
 
@@ -33,13 +65,43 @@ CREATE TABLE IF NOT EXISTS messages (
 CREATE INDEX IF NOT EXISTS idx_messages_session_created
   ON messages(session_id, created_at);
 
-CREATE INDEX IF NOT EXISTS idx_messages_content_search
-  ON messages(content);
+CREATE INDEX IF NOT EXISTS idx_messages_parent
+  ON messages(parent_id);
+
+CREATE INDEX IF NOT EXISTS idx_messages_usage_created
+  ON messages(created_at) WHERE input_tokens IS NOT NULL;
 
 CREATE INDEX IF NOT EXISTS idx_chat_sessions_updated
   ON chat_sessions(updated_at DESC);
 
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_folder
+  ON chat_sessions(folder_id);
+
+-- Full-text search: FTS5 index over message content (external content table)
+CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+  content,
+  content='messages',
+  content_rowid='rowid',
+  tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+  INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+  INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+  INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+  INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+
 -- Note: Configuration data is stored outside the database:
 -- - User preferences: ~/levante/ui-preferences.json (encrypted via electron-store)
 -- - MCP server config: ~/levante/mcp.json
--- - Application logs: ~/levante/levante.log
\ No newline at end of file
+-- - Prompt library: ~/levante/prompt-library.json
+-- - Agents: ~/levante/agents.json
+-- - Application logs: ~/levante/levante.log
+-- - Message attachments: ~/levante/attachments/<session_id>/
\ No newline at end of file
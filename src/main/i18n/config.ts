@@ -0,0 +1,39 @@
+import i18n, { type TFunction } from 'i18next';
+
+// Import translations
+import enNotifications from '../locales/en/notifications.json';
+
+import esNotifications from '../locales/es/notifications.json';
+
+const resources = {
+  en: {
+    notifications: enNotifications,
+  },
+  es: {
+    notifications: esNotifications,
+  },
+};
+
+type Language = keyof typeof resources;
+
+// Own instance, so the main process never shares state with another i18next user
+const mainI18n = i18n.createInstance();
+void mainI18n.init({
+  resources,
+  lng: 'en',
+  fallbackLng: 'en',
+  defaultNS: 'notifications',
+  interpolation: {
+    escapeValue: false, // Shown as plain text, never as HTML
+  },
+  initAsync: false, // Resources are bundled, so translations are ready right away
+});
+
+/**
+ * Translate main-process strings (desktop notifications) in the language
+ * chosen in Settings, falling back to English
+ */
+export function getTranslator(language?: string): TFunction {
+  const supported = language && language in resources ? (language as Language) : 'en';
+  return mainI18n.getFixedT(supported);
+}
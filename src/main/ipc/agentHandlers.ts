@@ -0,0 +1,73 @@
+import { ipcMain } from 'electron';
+import { agentService } from '../services/agentService';
+import { getLogger } from '../services/logging';
+import type {
+  CreateAgentInput,
+  UpdateAgentInput,
+} from '../../types/agents';
+
+const logger = getLogger();
+
+export function setupAgentHandlers() {
+  ipcMain.removeHandler('levante/agents/list');
+  ipcMain.handle('levante/agents/list', async () => {
+    try {
+      return { success: true, data: agentService.list() };
+    } catch (error) {
+      logger.ipc.error('Failed to list agents', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.removeHandler('levante/agents/create');
+  ipcMain.handle('levante/agents/create', async (_, input: CreateAgentInput) => {
+    try {
+      return { success: true, data: agentService.create(input) };
+    } catch (error) {
+      logger.ipc.error('Failed to create agent', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.removeHandler('levante/agents/update');
+  ipcMain.handle('levante/agents/update', async (_, input: UpdateAgentInput) => {
+    try {
+      return { success: true, data: agentService.update(input) };
+    } catch (error) {
+      logger.ipc.error('Failed to update agent', {
+        id: input?.id,
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.removeHandler('levante/agents/delete');
+  ipcMain.handle('levante/agents/delete', async (_, id: string) => {
+    try {
+      return { success: true, data: agentService.delete(id) };
+    } catch (error) {
+      logger.ipc.error('Failed to delete agent', {
+        id,
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+}
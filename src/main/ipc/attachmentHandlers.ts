@@ -0,0 +1,51 @@
+import { ipcMain } from 'electron';
+import { attachmentService, type SaveAttachmentInput } from '../services/attachmentService';
+import { getLogger } from '../services/logging';
+import type { MessageAttachment } from '../../types/database';
+
+const logger = getLogger();
+
+export function setupAttachmentHandlers() {
+  // Store an attachment file for a session
+  ipcMain.removeHandler('levante/attachments/save');
+  ipcMain.handle(
+    'levante/attachments/save',
+    async (_, sessionId: string, input: SaveAttachmentInput) => {
+      try {
+        const attachment = await attachmentService.saveAttachment(sessionId, input);
+        return { success: true, data: attachment };
+      } catch (error) {
+        logger.ipc.error('Failed to save attachment', {
+          sessionId,
+          filename: input?.filename,
+          error: error instanceof Error ? error.message : error,
+        });
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  // Read an attachment back as base64
+  ipcMain.removeHandler('levante/attachments/read');
+  ipcMain.handle(
+    'levante/attachments/read',
+    async (_, attachment: MessageAttachment) => {
+      try {
+        const data = await attachmentService.readAttachment(attachment);
+        return { success: true, data };
+      } catch (error) {
+        logger.ipc.error('Failed to read attachment', {
+          attachmentId: attachment?.id,
+          error: error instanceof Error ? error.message : error,
+        });
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+}
@@ -10,6 +10,7 @@
 import { ipcMain, IpcMainInvokeEvent } from "electron";
 import { getLogger } from "../services/logging";
 import { AIService, ChatRequest } from "../services/aiService";
+import { notificationService } from "../services/notificationService";
 
 const logger = getLogger();
 
@@ -54,10 +55,13 @@ async function handleChatStream(
   });
 
   let isCancelled = false;
+  // Aborting also releases tools that are waiting for user consent
+  const abortController = new AbortController();
 
   activeStreams.set(streamId, {
     cancel: () => {
       isCancelled = true;
+      abortController.abort();
       logger.aiSdk.info("Stream cancelled", { streamId });
     },
   });
@@ -66,7 +70,7 @@ async function handleChatStream(
     try {
       logger.aiSdk.debug("Starting AI stream", { streamId });
       let chunkCount = 0;
-      for await (const chunk of aiService.streamChat(request)) {
+      for await (const chunk of aiService.streamChat(request, abortController.signal)) {
         chunkCount++;
 
         if (isCancelled) {
@@ -86,6 +90,10 @@ async function handleChatStream(
             streamId,
             totalChunks: chunkCount,
           });
+          // A stream stopped by the user also ends with a done chunk
+          if (!abortController.signal.aborted) {
+            void notificationService.notifyResponseFinished(request.sessionId, chunk.error);
+          }
           break;
         }
       }
@@ -100,6 +108,12 @@ async function handleChatStream(
         error: error instanceof Error ? error.message : "Stream error",
         done: true,
       });
+      if (!abortController.signal.aborted) {
+        void notificationService.notifyResponseFinished(
+          request.sessionId,
+          error instanceof Error ? error.message : "Stream error"
+        );
+      }
     } finally {
       activeStreams.delete(streamId);
       logger.aiSdk.debug("Stream cleanup complete", { streamId });
@@ -0,0 +1,52 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import { conversationExportService } from '../services/conversationExportService';
+import { getLogger } from '../services/logging';
+import type {
+  ConversationExportFormat,
+  ConversationExportTarget,
+} from '../../types/conversationExport';
+
+const logger = getLogger();
+
+export function setupConversationHandlers() {
+  // Export a session or folder; data is the written path, or null if cancelled
+  ipcMain.removeHandler('levante/conversations/export');
+  ipcMain.handle(
+    'levante/conversations/export',
+    async (event, target: ConversationExportTarget, format: ConversationExportFormat) => {
+      try {
+        const window = BrowserWindow.fromWebContents(event.sender);
+        const filePath = await conversationExportService.exportToFile(target, format, window);
+        return { success: true, data: filePath };
+      } catch (error) {
+        logger.ipc.error('Failed to export conversations', {
+          target,
+          format,
+          error: error instanceof Error ? error.message : error,
+        });
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  // Import a JSON export; data is null if the user cancelled the dialog
+  ipcMain.removeHandler('levante/conversations/import');
+  ipcMain.handle('levante/conversations/import', async (event) => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const result = await conversationExportService.importFromFile(window);
+      return { success: true, data: result };
+    } catch (error) {
+      logger.ipc.error('Failed to import conversations', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+}
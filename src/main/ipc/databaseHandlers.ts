@@ -8,6 +8,10 @@ import {
   UpdateChatSessionInput,
   GetMessagesQuery,
   GetChatSessionsQuery,
+  SearchMessagesQuery,
+  CreateFolderInput,
+  UpdateFolderInput,
+  UsageStatsQuery,
 } from "../../types/database";
 import { getLogger } from '../services/logging';
 
@@ -71,6 +75,38 @@ export function setupDatabaseHandlers() {
     return await chatService.deleteSession(id);
   });
 
+  ipcMain.removeHandler("levante/db/sessions/tags");
+  ipcMain.handle("levante/db/sessions/tags", async () => {
+    return await chatService.getTags();
+  });
+
+  // Folders
+  ipcMain.removeHandler("levante/db/folders/list");
+  ipcMain.handle("levante/db/folders/list", async () => {
+    return await chatService.getFolders();
+  });
+
+  ipcMain.removeHandler("levante/db/folders/create");
+  ipcMain.handle(
+    "levante/db/folders/create",
+    async (_, input: CreateFolderInput) => {
+      return await chatService.createFolder(input);
+    }
+  );
+
+  ipcMain.removeHandler("levante/db/folders/update");
+  ipcMain.handle(
+    "levante/db/folders/update",
+    async (_, input: UpdateFolderInput) => {
+      return await chatService.updateFolder(input);
+    }
+  );
+
+  ipcMain.removeHandler("levante/db/folders/delete");
+  ipcMain.handle("levante/db/folders/delete", async (_, id: string) => {
+    return await chatService.deleteFolder(id);
+  });
+
   // Messages
   ipcMain.removeHandler("levante/db/messages/create");
   ipcMain.handle(
@@ -88,11 +124,36 @@ export function setupDatabaseHandlers() {
     }
   );
 
+  ipcMain.removeHandler("levante/db/messages/active-path");
+  ipcMain.handle(
+    "levante/db/messages/active-path",
+    async (_, sessionId: string) => {
+      return await chatService.getActivePath(sessionId);
+    }
+  );
+
+  ipcMain.removeHandler("levante/db/messages/switch-branch");
+  ipcMain.handle(
+    "levante/db/messages/switch-branch",
+    async (_, sessionId: string, messageId: string) => {
+      return await chatService.switchBranch(sessionId, messageId);
+    }
+  );
+
   ipcMain.removeHandler("levante/db/messages/search");
   ipcMain.handle(
     "levante/db/messages/search",
-    async (_, searchQuery: string, sessionId?: string, limit?: number) => {
-      return await chatService.searchMessages(searchQuery, sessionId, limit);
+    async (_, query: SearchMessagesQuery) => {
+      return await chatService.searchMessages(query);
+    }
+  );
+
+  // Token usage
+  ipcMain.removeHandler("levante/db/usage/stats");
+  ipcMain.handle(
+    "levante/db/usage/stats",
+    async (_, query?: UsageStatsQuery) => {
+      return await chatService.getUsageStats(query);
     }
   );
 
@@ -1,6 +1,6 @@
 import { ipcMain } from 'electron';
 import { getLogger } from '../services/logging';
-import type { LogCategory, LogLevel, LogContext } from '../types/logger';
+import type { LogCategory, LogLevel, LogContext, LoggerConfig } from '../types/logger';
 
 interface LogMessage {
   category: LogCategory;
@@ -11,6 +11,8 @@ interface LogMessage {
 
 export function setupLoggerHandlers(): void {
   const logger = getLogger();
+  // Live tail subscriptions, by webContents id
+  const tails = new Map<number, () => void>();
 
   // Handle log messages from renderer process
   ipcMain.handle('levante/logger/log', (_event, logMessage: LogMessage) => {
@@ -43,8 +45,8 @@ export function setupLoggerHandlers(): void {
     }
   });
 
-  // Handle configuration updates from renderer process (optional for future use)
-  ipcMain.handle('levante/logger/configure', (_event, config: any) => {
+  // Handle configuration updates from renderer process (level and category toggles in Settings)
+  ipcMain.handle('levante/logger/configure', (_event, config: Partial<LoggerConfig>) => {
     try {
       logger.configure(config);
       return { success: true };
@@ -56,4 +58,41 @@ export function setupLoggerHandlers(): void {
       };
     }
   });
-}
\ No newline at end of file
+
+  ipcMain.handle('levante/logger/get-config', () => {
+    try {
+      return { success: true, data: logger.getConfig() };
+    } catch (error) {
+      logger.core.error('Logger get-config IPC handler error', { error: error instanceof Error ? error.message : error });
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      };
+    }
+  });
+
+  // Recent entries for the log viewer
+  ipcMain.handle('levante/logger/recent', () => {
+    return { success: true, data: logger.getRecentEntries() };
+  });
+
+  // Start or stop sending new entries to the calling window
+  ipcMain.handle('levante/logger/tail', (event, enabled: boolean) => {
+    const contents = event.sender;
+    const stopTail = () => {
+      tails.get(contents.id)?.();
+      tails.delete(contents.id);
+    };
+
+    stopTail();
+    if (enabled) {
+      tails.set(contents.id, logger.subscribe((record) => {
+        if (!contents.isDestroyed()) {
+          contents.send('levante/logger/entry', record);
+        }
+      }));
+      contents.once('destroyed', stopTail);
+    }
+    return { success: true };
+  });
+}
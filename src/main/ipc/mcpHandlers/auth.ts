@@ -0,0 +1,57 @@
+import { ipcMain } from "electron";
+import type { MCPServerConfig } from "../../types/mcp.js";
+import { getLogger } from "../../services/logging";
+import { mcpAuthService } from "../../services/mcpAuthService.js";
+
+const logger = getLogger();
+
+export function registerAuthHandlers(mcpService: any, configManager: any) {
+  // OAuth sign-in state of a remote server
+  ipcMain.handle("levante/mcp/auth/status", async (_, serverId: string) => {
+    try {
+      const status = await mcpAuthService.getStatus(serverId);
+      return { success: true, data: status };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Sign in in the browser, then reconnect an enabled server with the new tokens
+  ipcMain.handle("levante/mcp/auth/sign-in", async (_, serverId: string) => {
+    try {
+      const servers: MCPServerConfig[] = await configManager.listServers();
+      const server = servers.find((candidate) => candidate.id === serverId);
+      const baseUrl = server?.baseUrl || (server as any)?.url;
+
+      if (!server || !baseUrl || server.transport === "stdio") {
+        throw new Error(`Server ${serverId} is not a remote (http/sse) server`);
+      }
+
+      await mcpAuthService.signIn(serverId, baseUrl);
+
+      if (server.enabled) {
+        await mcpService.disconnectServer(serverId);
+        await mcpService.connectServer(server);
+      }
+
+      return { success: true, data: await mcpAuthService.getStatus(serverId) };
+    } catch (error: any) {
+      logger.mcp.error("MCP server sign-in failed", {
+        serverId,
+        error: error.message,
+      });
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Forget the server's tokens; the connection is closed but the server stays enabled
+  ipcMain.handle("levante/mcp/auth/sign-out", async (_, serverId: string) => {
+    try {
+      await mcpService.disconnectServer(serverId);
+      await mcpAuthService.signOut(serverId);
+      return { success: true, data: await mcpAuthService.getStatus(serverId) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+}
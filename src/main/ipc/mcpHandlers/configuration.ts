@@ -1,6 +1,9 @@
 import { ipcMain } from "electron";
 import type { MCPServerConfig } from "../../types/mcp.js";
 import { getLogger } from "../../services/logging";
+import { toolConsentService } from "../../services/toolConsentService.js";
+import { mcpAuthService } from "../../services/mcpAuthService.js";
+import type { MCPSecretsOptions } from "../../services/mcpConfigManager.js";
 
 const logger = getLogger();
 
@@ -91,6 +94,7 @@ export function registerConfigurationHandlers(
   ipcMain.handle("levante/mcp/remove-server", async (_, serverId: string) => {
     try {
       await configManager.removeServer(serverId);
+      await mcpAuthService.signOut(serverId);
       return { success: true };
     } catch (error: any) {
       return { success: false, error: error.message };
@@ -102,6 +106,12 @@ export function registerConfigurationHandlers(
     async (_, serverId: string, config) => {
       try {
         await configManager.updateServer(serverId, config);
+
+        // Edited policies replace any decision remembered for this session
+        if (config?.toolPolicies) {
+          toolConsentService.clearSessionDecisions(serverId);
+        }
+
         return { success: true };
       } catch (error: any) {
         return { success: false, error: error.message };
@@ -130,9 +140,9 @@ export function registerConfigurationHandlers(
   // Import configuration
   ipcMain.handle(
     "levante/mcp/import-configuration",
-    async (_, importedConfig) => {
+    async (_, importedConfig, options?: MCPSecretsOptions) => {
       try {
-        await configManager.importConfiguration(importedConfig);
+        await configManager.importConfiguration(importedConfig, options);
         return { success: true };
       } catch (error: any) {
         return { success: false, error: error.message };
@@ -141,9 +151,9 @@ export function registerConfigurationHandlers(
   );
 
   // Export configuration
-  ipcMain.handle("levante/mcp/export-configuration", async () => {
+  ipcMain.handle("levante/mcp/export-configuration", async (_, options?: MCPSecretsOptions) => {
     try {
-      const config = await configManager.exportConfiguration();
+      const config = await configManager.exportConfiguration(options);
       return { success: true, data: config };
     } catch (error: any) {
       return { success: false, error: error.message };
@@ -1,9 +1,16 @@
 import { ipcMain } from "electron";
-import type { MCPServerConfig } from "../../types/mcp.js";
+import type { MCPServerConfig, MCPServerState } from "../../types/mcp.js";
 import { getLogger } from "../../services/logging";
 
 const logger = getLogger();
 
+type ConnectionStatus = "connected" | "disconnected" | "connecting" | "degraded" | "crashed";
+
+// The renderer keeps calling a ready server "connected"
+function toConnectionStatus(state: MCPServerState): ConnectionStatus {
+  return state === "ready" ? "connected" : state;
+}
+
 export function registerConnectionHandlers(
   mcpService: any,
   configManager: any
@@ -13,8 +20,8 @@ export function registerConnectionHandlers(
     "levante/mcp/connect-server",
     async (_, config: MCPServerConfig) => {
       try {
-        // Connect in runtime
-        await mcpService.connectServer(config);
+        // Connect in runtime; a server that asks for OAuth opens the browser sign-in
+        await mcpService.connectServer(config, { interactive: true });
 
         // Check if server exists in disabled, move it to mcpServers
         const currentConfig = await configManager.loadConfiguration();
@@ -103,20 +110,16 @@ export function registerConnectionHandlers(
     async (_, serverId?: string) => {
       try {
         if (serverId) {
-          const isConnected = mcpService.isConnected(serverId);
           return {
             success: true,
-            data: { [serverId]: isConnected ? "connected" : "disconnected" },
+            data: { [serverId]: toConnectionStatus(mcpService.getServerState(serverId)) },
           };
         } else {
-          const connectedServers = mcpService.getConnectedServers();
           const allServers = await configManager.listServers();
-          const status: Record<string, "connected" | "disconnected"> = {};
+          const status: Record<string, ConnectionStatus> = {};
 
           allServers.forEach((server: any) => {
-            status[server.id] = connectedServers.includes(server.id)
-              ? "connected"
-              : "disconnected";
+            status[server.id] = toConnectionStatus(mcpService.getServerState(server.id));
           });
 
           return { success: true, data: status };
@@ -127,6 +130,15 @@ export function registerConnectionHandlers(
     }
   );
 
+  // Detailed state of supervised servers (errors, stderr, restarts)
+  ipcMain.handle("levante/mcp/server-statuses", async () => {
+    try {
+      return { success: true, data: mcpService.getServerStatuses() };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
   // Test connection to a server without permanently connecting
   ipcMain.handle(
     "levante/mcp/test-connection",
@@ -149,7 +161,7 @@ export function registerConnectionHandlers(
         // Race the connection test against the timeout
         const connectionTest = async () => {
           // Try to connect
-          await mcpService.connectServer(testConfig);
+          await mcpService.connectServer(testConfig, { probe: true });
 
           // Try to list tools to verify connection works
           const tools = await mcpService.listTools(testId);
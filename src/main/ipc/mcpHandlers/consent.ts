@@ -0,0 +1,65 @@
+import { ipcMain } from "electron";
+import type { ToolConsentResponse } from "../../types/mcp.js";
+import { toolConsentService } from "../../services/toolConsentService.js";
+import { getLogger } from "../../services/logging";
+
+const logger = getLogger();
+
+export function registerConsentHandlers(configManager: any) {
+  // Answer a pending tool consent request from the chat UI
+  ipcMain.handle(
+    "levante/mcp/tool-consent/respond",
+    async (_, requestId: string, response: ToolConsentResponse) => {
+      try {
+        const request = toolConsentService.respond(requestId, response);
+        if (!request) {
+          return { success: false, error: "Consent request not found or already answered" };
+        }
+
+        // "forever" decisions are stored as per-tool policies in the server config
+        if (response.scope === "forever") {
+          const server = await configManager.getServer(request.serverId);
+          if (server) {
+            await configManager.updateServer(request.serverId, {
+              toolPolicies: {
+                ...server.toolPolicies,
+                tools: {
+                  ...server.toolPolicies?.tools,
+                  [request.toolName]: response.approved ? "allow" : "deny",
+                },
+              },
+            });
+          }
+        }
+
+        return { success: true };
+      } catch (error: any) {
+        logger.mcp.error("Failed to record tool consent", {
+          requestId,
+          error: error.message,
+        });
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipcMain.handle("levante/mcp/tool-consent/pending", async () => {
+    try {
+      return { success: true, data: toolConsentService.getPendingRequests() };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle(
+    "levante/mcp/tool-consent/clear-session",
+    async (_, serverId?: string) => {
+      try {
+        toolConsentService.clearSessionDecisions(serverId);
+        return { success: true };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+  );
+}
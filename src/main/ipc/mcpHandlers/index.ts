@@ -4,9 +4,12 @@ import { getLogger } from "../../services/logging";
 import { registerConnectionHandlers } from "./connection.js";
 import { registerConfigurationHandlers } from "./configuration.js";
 import { registerToolHandlers } from "./tools.js";
+import { registerResourceHandlers } from "./resources.js";
 import { registerHealthHandlers } from "./health.js";
 import { registerExtractionHandlers } from "./extraction.js";
 import { registerRegistryHandlers } from "./registry.js";
+import { registerConsentHandlers } from "./consent.js";
+import { registerAuthHandlers } from "./auth.js";
 
 // Create singleton instances
 const mcpService = new MCPService();
@@ -18,9 +21,12 @@ export function registerMCPHandlers() {
   registerConnectionHandlers(mcpService, configManager);
   registerConfigurationHandlers(mcpService, configManager);
   registerToolHandlers(mcpService);
+  registerResourceHandlers(mcpService);
   registerHealthHandlers();
   registerExtractionHandlers(mcpService);
   registerRegistryHandlers(mcpService, configManager);
+  registerConsentHandlers(configManager);
+  registerAuthHandlers(mcpService, configManager);
 
   logger.mcp.info("MCP IPC handlers registered successfully");
 }
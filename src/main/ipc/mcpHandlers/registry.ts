@@ -1,5 +1,7 @@
 import { ipcMain } from "electron";
 import { getLogger } from "../../services/logging";
+import { fetchMCPRegistry, syncMCPRegistry } from "../../services/mcp/registry";
+import type { MCPRegistrySettings } from "../../../types/preferences";
 
 const logger = getLogger();
 
@@ -24,6 +26,32 @@ export function registerRegistryHandlers(mcpService: any, configManager: any) {
     }
   });
 
+  // Refresh the registry from the configured URL, falling back to the cached or bundled one
+  ipcMain.handle("levante/mcp/registry/sync", async (_, force?: boolean) => {
+    try {
+      const snapshot = await syncMCPRegistry({ force: Boolean(force) });
+      return { success: true, data: snapshot };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Fetch and verify a registry with unsaved settings, nothing is cached
+  ipcMain.handle(
+    "levante/mcp/registry/test",
+    async (_, settings: MCPRegistrySettings) => {
+      try {
+        const { registry, verified } = await fetchMCPRegistry(settings);
+        return {
+          success: true,
+          data: { entryCount: registry.entries.length, verified },
+        };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
   // Validate MCP package
   ipcMain.handle(
     "levante/mcp/validate-package",
@@ -0,0 +1,49 @@
+import { ipcMain } from "electron";
+
+export function registerResourceHandlers(mcpService: any) {
+  // List resources exposed by a server
+  ipcMain.handle("levante/mcp/list-resources", async (_, serverId: string) => {
+    try {
+      const resources = await mcpService.listResources(serverId);
+      return { success: true, data: resources };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Read the contents of a resource
+  ipcMain.handle(
+    "levante/mcp/read-resource",
+    async (_, serverId: string, uri: string) => {
+      try {
+        const contents = await mcpService.readResource(serverId, uri);
+        return { success: true, data: contents };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  // List prompt templates exposed by a server
+  ipcMain.handle("levante/mcp/list-prompts", async (_, serverId: string) => {
+    try {
+      const prompts = await mcpService.listPrompts(serverId);
+      return { success: true, data: prompts };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Render a server prompt with its arguments
+  ipcMain.handle(
+    "levante/mcp/get-prompt",
+    async (_, serverId: string, name: string, args?: Record<string, string>) => {
+      try {
+        const result = await mcpService.getPrompt(serverId, name, args);
+        return { success: true, data: result };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+  );
+}
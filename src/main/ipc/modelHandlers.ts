@@ -1,6 +1,7 @@
 import { ipcMain } from 'electron';
 import { ModelFetchService } from '../services/modelFetchService';
 import { getLogger } from '../services/logging';
+import type { OpenAICompatibleEndpoint } from '../../types/models';
 
 const logger = getLogger();
 
@@ -43,9 +44,9 @@ export function setupModelHandlers() {
 
   // Fetch local models
   ipcMain.removeHandler('levante/models/local');
-  ipcMain.handle('levante/models/local', async (_, endpoint: string) => {
+  ipcMain.handle('levante/models/local', async (_, endpoint: string, apiKey?: string) => {
     try {
-      const models = await ModelFetchService.fetchLocalModels(endpoint);
+      const models = await ModelFetchService.fetchLocalModels(endpoint, apiKey);
       return {
         success: true,
         data: models
@@ -149,5 +150,24 @@ export function setupModelHandlers() {
     }
   });
 
+
+  // Fetch models from a custom OpenAI-compatible provider
+  ipcMain.removeHandler('levante/models/openai-compatible');
+  ipcMain.handle('levante/models/openai-compatible', async (_, config: OpenAICompatibleEndpoint) => {
+    try {
+      const models = await ModelFetchService.fetchOpenAICompatibleModels(config);
+      return {
+        success: true,
+        data: models
+      };
+    } catch (error) {
+      logger.ipc.error('Failed to fetch OpenAI-compatible models', { baseUrl: config?.baseUrl, error: error instanceof Error ? error.message : error });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  });
+
   logger.ipc.info('Model IPC handlers registered');
-}
\ No newline at end of file
+}
@@ -0,0 +1,21 @@
+import { ipcMain } from 'electron';
+import { notificationService } from '../services/notificationService';
+import type { UIPreferences } from '../../types/preferences';
+
+export function setupNotificationHandlers() {
+  // Uses the settings being edited, so they can be tried before saving
+  ipcMain.removeHandler('levante/notifications/test');
+  ipcMain.handle('levante/notifications/test', (_, settings: UIPreferences['notifications']) => {
+    try {
+      if (!notificationService.showTest(settings)) {
+        return { success: false, error: 'Notifications are not supported on this system' };
+      }
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+}
@@ -0,0 +1,73 @@
+import { ipcMain } from 'electron';
+import { promptLibraryService } from '../services/promptLibraryService';
+import { getLogger } from '../services/logging';
+import type {
+  CreatePromptTemplateInput,
+  UpdatePromptTemplateInput,
+} from '../../types/prompts';
+
+const logger = getLogger();
+
+export function setupPromptHandlers() {
+  ipcMain.removeHandler('levante/prompts/list');
+  ipcMain.handle('levante/prompts/list', async () => {
+    try {
+      return { success: true, data: promptLibraryService.list() };
+    } catch (error) {
+      logger.ipc.error('Failed to list prompt templates', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.removeHandler('levante/prompts/create');
+  ipcMain.handle('levante/prompts/create', async (_, input: CreatePromptTemplateInput) => {
+    try {
+      return { success: true, data: promptLibraryService.create(input) };
+    } catch (error) {
+      logger.ipc.error('Failed to create prompt template', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.removeHandler('levante/prompts/update');
+  ipcMain.handle('levante/prompts/update', async (_, input: UpdatePromptTemplateInput) => {
+    try {
+      return { success: true, data: promptLibraryService.update(input) };
+    } catch (error) {
+      logger.ipc.error('Failed to update prompt template', {
+        id: input?.id,
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  ipcMain.removeHandler('levante/prompts/delete');
+  ipcMain.handle('levante/prompts/delete', async (_, id: string) => {
+    try {
+      return { success: true, data: promptLibraryService.delete(id) };
+    } catch (error) {
+      logger.ipc.error('Failed to delete prompt template', {
+        id,
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+}
@@ -0,0 +1,36 @@
+import { ipcMain } from 'electron';
+import { shortcutService } from '../services/shortcutService';
+import { getLogger } from '../services/logging';
+import type { ShortcutSettings } from '../../types/preferences';
+
+const logger = getLogger();
+
+export function setupShortcutHandlers() {
+  ipcMain.removeHandler('levante/shortcuts/get');
+  ipcMain.handle('levante/shortcuts/get', () => {
+    try {
+      return { success: true, data: shortcutService.getStatus() };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // Save, then rebind the menu and the global shortcut
+  ipcMain.removeHandler('levante/shortcuts/update');
+  ipcMain.handle('levante/shortcuts/update', (_, shortcuts: ShortcutSettings) => {
+    try {
+      return { success: true, data: shortcutService.update(shortcuts) };
+    } catch (error) {
+      logger.ipc.warn('Failed to update shortcuts', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+}
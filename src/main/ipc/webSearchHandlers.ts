@@ -0,0 +1,28 @@
+import { ipcMain } from 'electron';
+import { searchWeb } from '../services/ai/webSearch';
+import { getLogger } from '../services/logging';
+import type { WebSearchSettings } from '../../types/preferences';
+
+const logger = getLogger();
+
+const TEST_QUERY = 'Levante';
+
+export function setupWebSearchHandlers() {
+  // Run a sample query with settings that may not be saved yet
+  ipcMain.removeHandler('levante/web-search/test');
+  ipcMain.handle('levante/web-search/test', async (_, settings: WebSearchSettings) => {
+    try {
+      const results = await searchWeb(settings, TEST_QUERY);
+      return { success: true, data: { resultCount: results.length } };
+    } catch (error) {
+      logger.ipc.warn('Web search test failed', {
+        provider: settings?.provider,
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+}
@@ -14,6 +14,7 @@ import { deepLinkService } from "../services/deepLinkService";
 import { gracefulShutdown } from "./shutdown";
 import { createMainWindow } from "./window";
 import { cleanupAppHandlers } from "../ipc/appHandlers";
+import { shortcutService } from "../services/shortcutService";
 
 const logger = getLogger();
 
@@ -58,6 +59,7 @@ export function registerAppEvents(getMainWindow: () => BrowserWindow | null): vo
       // CRITICAL: Remove event listeners IMMEDIATELY to allow event loop to close
       // This must happen synchronously before any async operations
       cleanupAppHandlers();
+      shortcutService.dispose();
 
       // Use setImmediate to perform async cleanup outside the event handler
       // This allows the event loop to process the listener removal
@@ -13,6 +13,8 @@ import { getLogger } from "../services/logging";
 import { databaseService } from "../services/databaseService";
 import { preferencesService } from "../services/preferencesService";
 import { userProfileService } from "../services/userProfileService";
+import { promptLibraryService } from "../services/promptLibraryService";
+import { agentService } from "../services/agentService";
 import { configMigrationService } from "../services/configMigrationService";
 import { setupDatabaseHandlers } from "../ipc/databaseHandlers";
 import { setupPreferencesHandlers } from "../ipc/preferencesHandlers";
@@ -20,6 +22,13 @@ import { setupModelHandlers } from "../ipc/modelHandlers";
 import { setupLoggerHandlers } from "../ipc/loggerHandlers";
 import { setupWizardHandlers } from "../ipc/wizardHandlers";
 import { setupProfileHandlers } from "../ipc/profileHandlers";
+import { setupAttachmentHandlers } from "../ipc/attachmentHandlers";
+import { setupConversationHandlers } from "../ipc/conversationHandlers";
+import { setupPromptHandlers } from "../ipc/promptHandlers";
+import { setupAgentHandlers } from "../ipc/agentHandlers";
+import { setupWebSearchHandlers } from "../ipc/webSearchHandlers";
+import { setupShortcutHandlers } from "../ipc/shortcutHandlers";
+import { setupNotificationHandlers } from "../ipc/notificationHandlers";
 import { registerMCPHandlers, configManager } from "../ipc/mcpHandlers";
 import { registerDebugHandlers } from "../ipc/debugHandlers";
 import { setupChatHandlers } from "../ipc/chatHandlers";
@@ -65,6 +74,12 @@ export async function initializeServices(): Promise<void> {
   try {
     await preferencesService.initialize();
     logger.core.info("Preferences service initialized successfully");
+
+    // Logging changed in Settings replaces the environment defaults
+    const logging = preferencesService.get("logging");
+    if (logging) {
+      logger.configure({ level: logging.level, categories: logging.categories });
+    }
   } catch (error) {
     logger.core.error("Failed to initialize preferences service", {
       error: error instanceof Error ? error.message : error,
@@ -83,7 +98,27 @@ export async function initializeServices(): Promise<void> {
     // Could show error dialog or continue with degraded functionality
   }
 
-  // 5. Migrate MCP configuration to include disabled section
+  // 5. Initialize prompt library
+  try {
+    await promptLibraryService.initialize();
+    logger.core.info("Prompt library initialized successfully");
+  } catch (error) {
+    logger.core.error("Failed to initialize prompt library", {
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+
+  // 6. Initialize agents
+  try {
+    await agentService.initialize();
+    logger.core.info("Agents initialized successfully");
+  } catch (error) {
+    logger.core.error("Failed to initialize agents", {
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+
+  // 7. Migrate MCP configuration to include disabled section
   try {
     await configManager.migrateConfiguration();
     logger.core.info("MCP configuration migrated successfully");
@@ -107,6 +142,13 @@ export function registerIPCHandlers(getMainWindow: () => BrowserWindow | null):
   setupLoggerHandlers();
   setupWizardHandlers();
   setupProfileHandlers();
+  setupAttachmentHandlers();
+  setupConversationHandlers();
+  setupPromptHandlers();
+  setupAgentHandlers();
+  setupWebSearchHandlers();
+  setupShortcutHandlers();
+  setupNotificationHandlers();
   registerMCPHandlers();
   registerDebugHandlers();
 
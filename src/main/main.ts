@@ -10,7 +10,8 @@ import { initializeLogger } from "./services/logging";
 import { updateService } from "./services/updateService";
 import { deepLinkService } from "./services/deepLinkService";
 import { oauthCallbackServer } from "./services/oauthCallbackServer";
-import { createApplicationMenu } from "./menu";
+import { shortcutService } from "./services/shortcutService";
+import { notificationService } from "./services/notificationService";
 
 // Lifecycle modules
 import { initializeServices, registerIPCHandlers } from "./lifecycle/initialization";
@@ -54,8 +55,11 @@ app.whenReady().then(async () => {
   // Create main window
   mainWindow = createMainWindow();
 
-  // Create application menu
-  createApplicationMenu(mainWindow);
+  // Create application menu and bind the stored shortcuts
+  shortcutService.initialize(() => mainWindow);
+
+  // Notifications for responses and tools that finish in the background
+  notificationService.initialize(() => mainWindow);
 
   // Register main window with services
   deepLinkService.setMainWindow(mainWindow);
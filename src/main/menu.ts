@@ -1,9 +1,31 @@
 import { app, Menu, shell, BrowserWindow } from 'electron';
 import { getLogger } from './services/logging';
+import type { ConversationMenuAction } from '../types/conversationExport';
+import { DEFAULT_PREFERENCES, type ShortcutAction, type ShortcutSettings } from '../types/preferences';
 
 const logger = getLogger();
 
-export function createApplicationMenu(mainWindow: BrowserWindow | null): void {
+/**
+ * Forward a conversation action to the renderer, which knows the open chat
+ */
+function sendConversationAction(window: Electron.BaseWindow | undefined, action: ConversationMenuAction): void {
+  const target = window instanceof BrowserWindow ? window : BrowserWindow.getFocusedWindow();
+  target?.webContents.send('levante/menu/conversations', action);
+}
+
+/**
+ * Run an in-app shortcut action in the renderer. Key presses are matched by the
+ * renderer itself; this covers picking the item with the mouse.
+ */
+function sendShortcutAction(window: Electron.BaseWindow | undefined, action: ShortcutAction): void {
+  const target = window instanceof BrowserWindow ? window : BrowserWindow.getFocusedWindow();
+  target?.webContents.send('levante/shortcuts/action', action);
+}
+
+export function createApplicationMenu(
+  mainWindow: BrowserWindow | null,
+  shortcuts: ShortcutSettings = DEFAULT_PREFERENCES.shortcuts
+): void {
   const isMac = process.platform === 'darwin';
 
   const template: Electron.MenuItemConstructorOptions[] = [
@@ -40,6 +62,34 @@ export function createApplicationMenu(mainWindow: BrowserWindow | null): void {
     {
       label: 'File',
       submenu: [
+        {
+          label: 'New Chat',
+          accelerator: shortcuts.newChat || undefined,
+          click: (_item, window) => sendShortcutAction(window, 'newChat'),
+        },
+        { type: 'separator' as const },
+        {
+          label: 'Export Chat',
+          submenu: [
+            {
+              label: 'Markdown...',
+              click: (_item, window) => sendConversationAction(window, { type: 'export', format: 'markdown' }),
+            },
+            {
+              label: 'JSON...',
+              click: (_item, window) => sendConversationAction(window, { type: 'export', format: 'json' }),
+            },
+            {
+              label: 'HTML...',
+              click: (_item, window) => sendConversationAction(window, { type: 'export', format: 'html' }),
+            },
+          ],
+        },
+        {
+          label: 'Import Chats...',
+          click: (_item, window) => sendConversationAction(window, { type: 'import' }),
+        },
+        { type: 'separator' as const },
         isMac ? { role: 'close' as const } : { role: 'quit' as const },
       ],
     },
@@ -80,6 +130,17 @@ export function createApplicationMenu(mainWindow: BrowserWindow | null): void {
     {
       label: 'View',
       submenu: [
+        {
+          label: 'Toggle Sidebar',
+          accelerator: shortcuts.toggleSidebar || undefined,
+          click: (_item, window) => sendShortcutAction(window, 'toggleSidebar'),
+        },
+        {
+          label: 'Search Chats...',
+          accelerator: shortcuts.search || undefined,
+          click: (_item, window) => sendShortcutAction(window, 'search'),
+        },
+        { type: 'separator' as const },
         { role: 'reload' as const },
         { role: 'forceReload' as const },
         { role: 'toggleDevTools' as const },
@@ -0,0 +1,167 @@
+import { directoryService } from './directoryService';
+import { getLogger } from './logging';
+import {
+  DEFAULT_AGENT_ICON,
+  MAX_AGENT_PROMPT_LENGTH,
+  MAX_AGENT_STEPS,
+  type Agent,
+  type CreateAgentInput,
+  type UpdateAgentInput,
+} from '../../types/agents';
+
+interface AgentsData {
+  version: number;
+  agents: Agent[];
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_ICON_LENGTH = 16;
+
+export class AgentService {
+  private logger = getLogger();
+  private store: any;
+  private initialized = false;
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      const Store = (await import('electron-store')).default;
+
+      await directoryService.ensureBaseDir();
+
+      this.store = new Store<AgentsData>({
+        name: 'agents',
+        cwd: directoryService.getBaseDir(),
+        defaults: { version: 1, agents: [] },
+        schema: {
+          version: { type: 'number', default: 1 },
+          agents: { type: 'array', default: [] },
+        },
+      });
+
+      this.initialized = true;
+      this.logger.core.info('AgentService initialized', {
+        agentCount: this.getAgents().length,
+        storePath: this.store.path,
+      });
+    } catch (error) {
+      this.logger.core.error('Failed to initialize AgentService', {
+        error: error instanceof Error ? error.message : error,
+      });
+      throw error;
+    }
+  }
+
+  list(): Agent[] {
+    this.ensureInitialized();
+    return [...this.getAgents()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(id: string): Agent | null {
+    this.ensureInitialized();
+    return this.getAgents().find((a) => a.id === id) ?? null;
+  }
+
+  create(input: CreateAgentInput): Agent {
+    this.ensureInitialized();
+
+    const now = Date.now();
+    const agent: Agent = {
+      id: `agent-${now}-${Math.random().toString(36).substring(2, 9)}`,
+      ...this.validate(input),
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.store.set('agents', [...this.getAgents(), agent]);
+    this.logger.core.info('Agent created', { id: agent.id, name: agent.name });
+    return agent;
+  }
+
+  update(input: UpdateAgentInput): Agent {
+    this.ensureInitialized();
+
+    const agents = this.getAgents();
+    const existing = agents.find((a) => a.id === input.id);
+    if (!existing) {
+      throw new Error('Agent not found');
+    }
+
+    const { id, ...changes } = input;
+    const updated: Agent = {
+      ...existing,
+      ...this.validate({ ...existing, ...changes }),
+      updated_at: Date.now(),
+    };
+
+    this.store.set('agents', agents.map((a) => (a.id === id ? updated : a)));
+    this.logger.core.info('Agent updated', { id });
+    return updated;
+  }
+
+  /**
+   * Sessions keep their agent_id; a missing agent falls back to the global settings
+   */
+  delete(id: string): boolean {
+    this.ensureInitialized();
+
+    const agents = this.getAgents();
+    const remaining = agents.filter((a) => a.id !== id);
+    this.store.set('agents', remaining);
+
+    this.logger.core.info('Agent deleted', { id, found: remaining.length !== agents.length });
+    return remaining.length !== agents.length;
+  }
+
+  private validate(input: CreateAgentInput): Omit<Agent, 'id' | 'created_at' | 'updated_at'> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('Agent name is required');
+    }
+    if (!input.systemPrompt?.trim()) {
+      throw new Error('Agent system prompt is required');
+    }
+    if (input.systemPrompt.length > MAX_AGENT_PROMPT_LENGTH) {
+      throw new Error(`System prompt is too long (max ${MAX_AGENT_PROMPT_LENGTH} characters)`);
+    }
+
+    const temperature = input.temperature ?? null;
+    if (temperature !== null && (!Number.isFinite(temperature) || temperature < 0 || temperature > 2)) {
+      throw new Error('Temperature must be between 0 and 2');
+    }
+
+    const maxSteps = input.maxSteps ?? null;
+    if (maxSteps !== null && (!Number.isInteger(maxSteps) || maxSteps < 1 || maxSteps > MAX_AGENT_STEPS)) {
+      throw new Error(`Max steps must be a whole number between 1 and ${MAX_AGENT_STEPS}`);
+    }
+
+    const toIdList = (ids: string[] | null | undefined) =>
+      Array.isArray(ids) ? Array.from(new Set(ids.filter((id) => typeof id === 'string' && id))) : null;
+
+    return {
+      name: name.slice(0, MAX_NAME_LENGTH),
+      icon: input.icon?.trim().slice(0, MAX_ICON_LENGTH) || DEFAULT_AGENT_ICON,
+      description: input.description?.trim() || undefined,
+      systemPrompt: input.systemPrompt.trim(),
+      model: input.model || null,
+      temperature,
+      mcpServers: toIdList(input.mcpServers),
+      tools: toIdList(input.tools),
+      maxSteps,
+    };
+  }
+
+  private getAgents(): Agent[] {
+    return (this.store.get('agents') as Agent[]) || [];
+  }
+
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      throw new Error('AgentService not initialized');
+    }
+  }
+}
+
+// Singleton instance
+export const agentService = new AgentService();
@@ -0,0 +1,55 @@
+import type { UIMessage } from "ai";
+
+// Non-text/* media types that are still plain text
+const TEXT_MEDIA_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/yaml",
+  "application/x-yaml",
+  "application/javascript",
+  "application/typescript",
+  "application/sql",
+];
+
+/**
+ * Check whether an attachment can be given to the model as plain text
+ */
+export function isTextMediaType(mediaType: string): boolean {
+  return mediaType.startsWith("text/") || TEXT_MEDIA_TYPES.includes(mediaType);
+}
+
+/**
+ * Inline text attachments (CSV, Markdown, JSON...) as text parts so any model can read them.
+ * Images and other binary files stay as file parts and are sent to the provider as-is.
+ */
+export function inlineTextAttachments(messages: UIMessage[]): UIMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    parts: message.parts.map((part) => {
+      if (part.type !== "file" || !isTextMediaType(part.mediaType)) {
+        return part;
+      }
+
+      const text = decodeDataUrl(part.url);
+      if (text === null) {
+        return part;
+      }
+
+      return {
+        type: "text" as const,
+        text: `Attached file "${part.filename || "file"}":\n\n\`\`\`\n${text}\n\`\`\``,
+      };
+    }),
+  }));
+}
+
+function decodeDataUrl(url: string): string | null {
+  const match = url.match(/^data:[^,]*?(;base64)?,([\s\S]*)$/);
+  if (!match) {
+    return null;
+  }
+
+  return match[1]
+    ? Buffer.from(match[2], "base64").toString("utf-8")
+    : decodeURIComponent(match[2]);
+}
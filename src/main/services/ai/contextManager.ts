@@ -0,0 +1,278 @@
+import { generateText, type LanguageModel, type UIMessage } from "ai";
+import type { ContextStrategy } from "../../../types/preferences";
+import { getLogger } from "../logging";
+
+const logger = getLogger();
+
+// Rough average for English text and code
+const CHARS_PER_TOKEN = 4;
+// Images and PDFs are billed very differently per provider; use a flat guess
+const TOKENS_PER_ATTACHMENT = 1_500;
+// Tool definitions are sent with every request
+const TOKENS_PER_TOOL = 200;
+// Leave room for estimation errors
+const CONTEXT_USAGE_RATIO = 0.9;
+const MAX_RESERVED_OUTPUT_TOKENS = 8_000;
+
+const SUMMARY_SYSTEM_PROMPT = `You condense conversations between a user and an AI assistant.
+Write a concise summary of the conversation below so the assistant can continue it without the original messages.
+Keep names, decisions, facts, numbers, file names, code identifiers and open questions. Drop greetings and filler.
+If a previous summary is given, merge it with the new messages into a single summary.
+Answer with the summary only.`;
+
+export interface ContextCondensation {
+  strategy: "truncate" | "summarize";
+  droppedMessages: number;
+  summary?: string;
+}
+
+export interface FitToContextOptions {
+  messages: UIMessage[];
+  system: string;
+  toolCount: number;
+  contextLength?: number;
+  sessionId?: string;
+  model: LanguageModel;
+}
+
+export interface FitToContextResult {
+  messages: UIMessage[];
+  system: string;
+  condensed?: ContextCondensation;
+}
+
+/**
+ * Thrown by the "fail" strategy
+ */
+export class ContextWindowError extends Error {
+  constructor(
+    public readonly estimatedTokens: number,
+    public readonly contextLength: number
+  ) {
+    super(
+      `This conversation (~${estimatedTokens.toLocaleString()} tokens) does not fit in the model's context window (${contextLength.toLocaleString()} tokens). Start a new chat, pick a model with a larger context, or change the context strategy in Settings.`
+    );
+    this.name = "ContextWindowError";
+  }
+}
+
+/**
+ * Make a conversation fit in the model's context window.
+ *
+ * The system prompt and the current turn (the last user message and every
+ * tool call and result after it) are always sent. Older messages are dropped
+ * from the oldest, and with the "summarize" strategy replaced by a rolling
+ * summary stored on the session.
+ */
+export async function fitToContext(options: FitToContextOptions): Promise<FitToContextResult> {
+  const { messages, system, toolCount, contextLength, sessionId, model } = options;
+
+  if (!contextLength || contextLength <= 0) {
+    return { messages, system };
+  }
+
+  const reservedOutput = Math.min(Math.floor(contextLength * 0.25), MAX_RESERVED_OUTPUT_TOKENS);
+  const fixedTokens = estimateTextTokens(system) + toolCount * TOKENS_PER_TOOL;
+  const budget = Math.floor(contextLength * CONTEXT_USAGE_RATIO) - reservedOutput - fixedTokens;
+
+  const messageTokens = messages.map(estimateMessageTokens);
+  const total = messageTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+  if (total <= budget) {
+    return { messages, system };
+  }
+
+  const strategy = await getContextStrategy();
+  logger.aiSdk.info("Conversation exceeds context budget", {
+    estimatedTokens: total,
+    budget,
+    contextLength,
+    strategy,
+    messageCount: messages.length,
+  });
+
+  if (strategy === "fail") {
+    throw new ContextWindowError(total + fixedTokens, contextLength);
+  }
+
+  // The current turn starts at the last user message
+  let currentTurnStart = messages.length - 1;
+  while (currentTurnStart > 0 && messages[currentTurnStart].role !== "user") {
+    currentTurnStart--;
+  }
+
+  // Reserve part of the budget for the summary itself
+  const summaryBudget = strategy === "summarize" ? Math.floor(budget * 0.15) : 0;
+  let remaining = budget - summaryBudget;
+  for (let i = currentTurnStart; i < messages.length; i++) {
+    remaining -= messageTokens[i];
+  }
+
+  let keepFrom = currentTurnStart;
+  while (keepFrom > 0 && messageTokens[keepFrom - 1] <= remaining) {
+    keepFrom--;
+    remaining -= messageTokens[keepFrom];
+  }
+
+  // Providers expect the history to start with a user message
+  while (keepFrom < currentTurnStart && messages[keepFrom].role !== "user") {
+    keepFrom++;
+  }
+
+  if (remaining < 0) {
+    logger.aiSdk.warn("Current turn alone exceeds the context budget", {
+      budget,
+      currentTurnTokens: budget - summaryBudget - remaining,
+    });
+  }
+
+  const dropped = messages.slice(0, keepFrom);
+  const kept = messages.slice(keepFrom);
+
+  if (strategy === "summarize" && sessionId && dropped.length > 0) {
+    try {
+      const summary = await summarize(dropped, sessionId, model, summaryBudget);
+      return {
+        messages: kept,
+        system: `${system}\n\n## Summary of the earlier conversation\n\n${summary}`,
+        condensed: { strategy: "summarize", droppedMessages: dropped.length, summary },
+      };
+    } catch (error) {
+      logger.aiSdk.error("Failed to summarize conversation, truncating instead", {
+        sessionId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  return {
+    messages: kept,
+    system,
+    condensed: { strategy: "truncate", droppedMessages: dropped.length },
+  };
+}
+
+/**
+ * Extend the session's rolling summary with the dropped messages it does not cover yet
+ */
+async function summarize(
+  dropped: UIMessage[],
+  sessionId: string,
+  model: LanguageModel,
+  maxTokens: number
+): Promise<string> {
+  const { chatService } = await import("../chatService");
+  const session = (await chatService.getSession(sessionId)).data;
+
+  // The summary covers messages up to context_summary_until. Reuse it when
+  // that message is still being dropped (same branch), otherwise start over.
+  const coveredIndex = session?.context_summary_until
+    ? dropped.findIndex((message) => message.id === session.context_summary_until)
+    : -1;
+  const previousSummary = coveredIndex !== -1 ? session?.context_summary ?? null : null;
+  const newMessages = dropped.slice(coveredIndex + 1);
+  const lastDroppedId = dropped[dropped.length - 1].id;
+
+  if (previousSummary && newMessages.length === 0) {
+    return previousSummary;
+  }
+
+  const prompt = [
+    previousSummary ? `Previous summary:\n${previousSummary}\n\nNew messages:` : "Conversation:",
+    formatTranscript(newMessages),
+  ].join("\n\n");
+
+  const { text } = await generateText({
+    model,
+    system: SUMMARY_SYSTEM_PROMPT,
+    prompt,
+    maxOutputTokens: Math.max(256, maxTokens),
+  });
+
+  const summary = text.trim();
+  if (!summary) {
+    throw new Error("Model returned an empty summary");
+  }
+
+  await chatService.updateContextSummary(sessionId, summary, lastDroppedId);
+
+  logger.aiSdk.info("Conversation summarized", {
+    sessionId,
+    summarizedMessages: newMessages.length,
+    incremental: !!previousSummary,
+    summaryLength: summary.length,
+  });
+
+  return summary;
+}
+
+function formatTranscript(messages: UIMessage[]): string {
+  return messages
+    .map((message) => {
+      const lines = message.parts.flatMap((part) => {
+        if (part.type === "text") return [part.text];
+        if (part.type === "file") return [`[Attached file: ${part.filename || part.mediaType}]`];
+        if (part.type.startsWith("tool-") && "input" in part) {
+          const output = "output" in part ? truncate(JSON.stringify(part.output), 2_000) : "";
+          return [`[Tool ${part.type.slice(5)}: ${truncate(JSON.stringify(part.input), 500)}${output ? ` -> ${output}` : ""}]`];
+        }
+        return [];
+      });
+      return `${message.role.toUpperCase()}: ${lines.join("\n")}`;
+    })
+    .join("\n\n");
+}
+
+function truncate(text: string | undefined, maxLength: number): string {
+  if (!text) return "";
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: UIMessage): number {
+  return message.parts.reduce((sum, part) => {
+    if (part.type === "text" || part.type === "reasoning") {
+      return sum + estimateTextTokens(part.text);
+    }
+    if (part.type === "file") {
+      return sum + TOKENS_PER_ATTACHMENT;
+    }
+    if (part.type.startsWith("tool-")) {
+      const { input, output } = part as { input?: unknown; output?: unknown };
+      return sum + estimateTextTokens(JSON.stringify(input ?? "")) + estimateToolOutputTokens(output);
+    }
+    return sum;
+  }, 4); // Per-message overhead (role, separators)
+}
+
+// MCP results carry images and audio as base64; count those like attachments
+function estimateToolOutputTokens(output: unknown): number {
+  const content = (output as { content?: unknown } | null)?.content;
+  if (!Array.isArray(content)) {
+    return estimateTextTokens(JSON.stringify(output ?? ""));
+  }
+
+  return content.reduce((sum: number, item: { type?: string; text?: string; resource?: { text?: string } }) => {
+    if (item?.type === "text") return sum + estimateTextTokens(item.text ?? "");
+    if (item?.type === "resource" && typeof item.resource?.text === "string") {
+      return sum + estimateTextTokens(item.resource.text);
+    }
+    if (item?.type === "image" || item?.type === "audio" || item?.type === "resource") {
+      return sum + TOKENS_PER_ATTACHMENT;
+    }
+    return sum + estimateTextTokens(JSON.stringify(item ?? ""));
+  }, 0);
+}
+
+async function getContextStrategy(): Promise<ContextStrategy> {
+  try {
+    const { preferencesService } = await import("../preferencesService");
+    return preferencesService.get("ai")?.contextStrategy || "summarize";
+  } catch (error) {
+    logger.aiSdk.warn("Could not load context strategy, using default", { error });
+    return "summarize";
+  }
+}
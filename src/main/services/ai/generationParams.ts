@@ -0,0 +1,89 @@
+import type { streamText } from "ai";
+import type { GenerationParams } from "../../../types/preferences";
+import type { Agent } from "../../../types/agents";
+import { getLogger } from "../logging";
+
+const logger = getLogger();
+
+type ProviderOptions = NonNullable<Parameters<typeof streamText>[0]["providerOptions"]>;
+
+/**
+ * Generation parameters passed to streamText and generateText
+ */
+export interface ResolvedGenerationParams {
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  seed?: number;
+  stopSequences?: string[];
+  providerOptions?: ProviderOptions;
+}
+
+/**
+ * Global defaults and the model's own defaults from preferences
+ */
+export async function getGenerationDefaults(
+  modelId: string
+): Promise<{ global?: GenerationParams; model?: GenerationParams }> {
+  try {
+    const { preferencesService } = await import("../preferencesService");
+    return {
+      global: preferencesService.get("ai")?.generation,
+      model: preferencesService.get("modelSettings")?.[modelId]?.generation,
+    };
+  } catch (error) {
+    logger.aiSdk.warn("Could not load generation defaults", { modelId, error });
+    return {};
+  }
+}
+
+/**
+ * Combine the parameter levels of a request. For each parameter the first level
+ * that sets it wins: session, agent, model defaults, global defaults. Provider
+ * options are merged per provider with the same precedence.
+ */
+export function resolveGenerationParams(levels: {
+  session?: GenerationParams | null;
+  agent?: Agent | null;
+  model?: GenerationParams;
+  global?: GenerationParams;
+}): ResolvedGenerationParams {
+  const agentParams: GenerationParams | undefined =
+    levels.agent?.temperature != null ? { temperature: levels.agent.temperature } : undefined;
+  // Lowest precedence first, so later levels overwrite
+  const ordered = [levels.global, levels.model, agentParams, levels.session ?? undefined].filter(
+    (params): params is GenerationParams => !!params
+  );
+
+  const resolved: ResolvedGenerationParams = {};
+  for (const params of ordered) {
+    if (params.temperature != null) resolved.temperature = params.temperature;
+    if (params.maxOutputTokens != null) resolved.maxOutputTokens = params.maxOutputTokens;
+    if (params.topP != null) resolved.topP = params.topP;
+    if (params.seed != null) resolved.seed = params.seed;
+    if (params.stopSequences?.length) resolved.stopSequences = params.stopSequences;
+    resolved.providerOptions = mergeProviderOptions(
+      resolved.providerOptions,
+      params.providerOptions as ProviderOptions | undefined
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Merge provider options per provider; keys in `override` win
+ */
+export function mergeProviderOptions(
+  base?: ProviderOptions,
+  override?: ProviderOptions
+): ProviderOptions | undefined {
+  if (!base) return override;
+  if (!override) return base;
+
+  const merged: ProviderOptions = { ...base };
+  for (const [provider, options] of Object.entries(override)) {
+    merged[provider] = { ...base[provider], ...options };
+  }
+  return merged;
+}
@@ -1,16 +1,33 @@
-import { tool } from "ai";
+import { tool, type JSONValue, type Tool as AISDKTool } from "ai";
 import { z } from "zod/v3";
 import { mcpService, configManager } from "../../ipc/mcpHandlers";
 import { mcpHealthService } from "../mcpHealthService";
-import type { Tool } from "../../types/mcp";
+import { toolConsentService } from "../toolConsentService";
+import type { MCPContent, MCPToolOutput, Tool, ToolConsentPolicies } from "../../types/mcp";
 import { getLogger } from '../logging';
 
 const logger = getLogger();
 
+type ToolModelOutput = ReturnType<NonNullable<AISDKTool["toModelOutput"]>>;
+type ToolModelContentPart = Extract<ToolModelOutput, { type: "content" }>["value"][number];
+
+/**
+ * Restricts which servers and tools are loaded (used by agents).
+ * A null or missing list allows everything.
+ */
+export interface MCPToolFilter {
+  servers?: string[] | null;
+  tools?: string[] | null;
+}
+
 /**
- * Get all MCP tools from connected servers and convert them to AI SDK format
+ * Get all MCP tools from connected servers and convert them to AI SDK format.
+ * The session id is attached to consent requests so they can point back to the chat.
  */
-export async function getMCPTools(): Promise<Record<string, any>> {
+export async function getMCPTools(
+  filter: MCPToolFilter = {},
+  sessionId?: string
+): Promise<Record<string, any>> {
   try {
     const config = await configManager.loadConfiguration();
     const allTools: Record<string, any> = {};
@@ -20,6 +37,11 @@ export async function getMCPTools(): Promise<Record<string, any>> {
     for (const [serverId, serverConfig] of Object.entries(
       config.mcpServers
     )) {
+      // Skip servers the agent may not use, without connecting to them
+      if (filter.servers && !filter.servers.includes(serverId)) {
+        continue;
+      }
+
       try {
         // Ensure server is connected
         if (!mcpService.isConnected(serverId)) {
@@ -43,6 +65,9 @@ export async function getMCPTools(): Promise<Record<string, any>> {
           }
 
           const toolId = `${serverId}_${mcpTool.name}`;
+          if (filter.tools && !filter.tools.includes(toolId)) {
+            continue;
+          }
           logger.aiSdk.debug("Creating tool", { toolId, originalName: mcpTool.name });
 
           // Additional validation before creating tool
@@ -51,7 +76,7 @@ export async function getMCPTools(): Promise<Record<string, any>> {
             continue;
           }
 
-          const aiTool = createAISDKTool(serverId, mcpTool);
+          const aiTool = createAISDKTool(serverId, mcpTool, serverConfig.toolPolicies, sessionId);
           if (!aiTool) {
             logger.aiSdk.error("Failed to create AI SDK tool", { toolId });
             continue;
@@ -79,7 +104,8 @@ export async function getMCPTools(): Promise<Record<string, any>> {
     logger.aiSdk.debug('MCP tools loaded', {
       activeServers: Object.keys(config.mcpServers).length,
       disabledServers: disabledCount,
-      toolCount: Object.keys(allTools).length
+      toolCount: Object.keys(allTools).length,
+      filtered: !!(filter.servers || filter.tools)
     });
 
     logger.aiSdk.info("MCP tools summary", {
@@ -99,7 +125,12 @@ export async function getMCPTools(): Promise<Record<string, any>> {
 /**
  * Convert an MCP tool to AI SDK format
  */
-function createAISDKTool(serverId: string, mcpTool: Tool) {
+function createAISDKTool(
+  serverId: string,
+  mcpTool: Tool,
+  toolPolicies?: ToolConsentPolicies,
+  sessionId?: string
+) {
   logger.aiSdk.debug("Creating AI SDK tool", { serverId, toolName: mcpTool.name });
 
   // Validate tool name
@@ -167,7 +198,29 @@ function createAISDKTool(serverId: string, mcpTool: Tool) {
   const aiTool = tool({
     description: mcpTool.description || `Tool from MCP server ${serverId}`,
     inputSchema: inputSchema,
-    execute: async (args: any) => {
+    toModelOutput: toModelOutput,
+    execute: async (requestedArgs: any, { toolCallId, abortSignal }) => {
+      // Consent gate: throws when the call is denied, which surfaces as a 'tool-error'
+      const args = await toolConsentService.requestConsent(
+        serverId,
+        mcpTool.name,
+        requestedArgs,
+        {
+          policies: toolPolicies,
+          toolCallId,
+          sessionId,
+          abortSignal,
+          validateArguments: (args) => {
+            const result = inputSchema.safeParse(args);
+            return result.success
+              ? null
+              : result.error.issues
+                  .map((issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`)
+                  .join("; ");
+          },
+        }
+      );
+
       try {
         logger.aiSdk.debug("Executing MCP tool", {
           serverId,
@@ -180,39 +233,22 @@ function createAISDKTool(serverId: string, mcpTool: Tool) {
           arguments: args,
         });
 
-        logger.aiSdk.debug("Raw MCP result", { result });
-
-        // Convert MCP result to string format for AI SDK
-        if (result.content && Array.isArray(result.content)) {
-          const resultText = result.content
-            .map((item) => {
-              if (item.type === "text") {
-                return item.text || "";
-              } else if (item.type === "resource") {
-                return `[Resource: ${item.data}]`;
-              } else {
-                return `[${item.type}: ${JSON.stringify(item.data)}]`;
-              }
-            })
-            .join("\n");
-
-          logger.aiSdk.debug("Converted result text", { resultText });
-
-          // Record successful tool call
-          mcpHealthService.recordSuccess(serverId, mcpTool.name);
-
-          // AI SDK expects the raw result, not wrapped in an object
-          return resultText;
-        }
+        logger.aiSdk.debug("Raw MCP result", {
+          isError: result.isError,
+          contentTypes: result.content.map((item) => item.type)
+        });
 
-        // For non-content results, return JSON string
-        const jsonResult = JSON.stringify(result);
-        logger.aiSdk.debug("Returning JSON result", { jsonResult });
+        // The server reports failures in the result; surface them as a 'tool-error'
+        if (result.isError) {
+          throw new Error(getContentText(result.content) || "Tool returned an error");
+        }
 
         // Record successful tool call
         mcpHealthService.recordSuccess(serverId, mcpTool.name);
 
-        return jsonResult;
+        // Images, audio and resources are kept as content; toModelOutput passes them to the model
+        const output: MCPToolOutput = { content: result.content };
+        return output;
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Tool execution failed";
 
@@ -239,3 +275,66 @@ function createAISDKTool(serverId: string, mcpTool: Tool) {
 
   return aiTool;
 }
+
+/**
+ * Content parts the model sees for an MCP tool result. Images and audio are
+ * sent as media, embedded text resources inline, anything else as a
+ * description. Results stored before content was kept are plain strings.
+ * Providers that cannot take media here get it moved by moveToolResultMedia.
+ */
+function toModelOutput(output: unknown): ToolModelOutput {
+  if (typeof output === "string") {
+    return { type: "text", value: output };
+  }
+  if (!isToolOutput(output)) {
+    return { type: "json", value: (output ?? null) as JSONValue };
+  }
+
+  const parts = output.content.map((item): ToolModelContentPart => {
+    switch (item.type) {
+      case "text":
+        return { type: "text", text: item.text ?? "" };
+
+      case "image":
+      case "audio":
+        if (item.data && item.mimeType) {
+          return { type: "media", data: item.data, mediaType: item.mimeType };
+        }
+        return { type: "text", text: `[${item.type} without data]` };
+
+      case "resource": {
+        const resource = item.resource;
+        if (typeof resource?.text === "string") {
+          return { type: "text", text: `${resource.uri}:\n${resource.text}` };
+        }
+        if (resource?.blob && resource.mimeType) {
+          return { type: "media", data: resource.blob, mediaType: resource.mimeType };
+        }
+        return { type: "text", text: `[Resource: ${resource?.uri ?? "unknown"}]` };
+      }
+
+      case "resource_link":
+        return {
+          type: "text",
+          text: `[Resource link: ${item.name ? `${item.name} ` : ""}${item.uri}${item.mimeType ? ` (${item.mimeType})` : ""}]`,
+        };
+
+      default:
+        return { type: "text", text: `[${item.type}: ${JSON.stringify(item)}]` };
+    }
+  });
+
+  return { type: "content", value: parts };
+}
+
+function isToolOutput(output: unknown): output is MCPToolOutput {
+  return !!output && typeof output === "object" && Array.isArray((output as MCPToolOutput).content);
+}
+
+// Text of a result, used as the error message of failed calls
+function getContentText(content: MCPContent[]): string {
+  return content
+    .filter((item) => item.type === "text" && item.text)
+    .map((item) => item.text)
+    .join("\n");
+}
@@ -3,16 +3,21 @@ import { createAnthropic } from "@ai-sdk/anthropic";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import { createGateway } from "@ai-sdk/gateway";
-import type { ProviderConfig } from "../../../types/models";
+import { parseModelId, type ProviderConfig } from "../../../types/models";
 import { getLogger } from '../logging';
 
 const logger = getLogger();
 
 /**
  * Resolve and configure the AI model provider for a given model ID
- * Handles all provider types: OpenRouter, Vercel Gateway, Local, and Cloud providers
+ * Handles all provider types: OpenRouter, Vercel Gateway, Local, custom
+ * OpenAI-compatible endpoints and Cloud providers.
+ * Qualified IDs ("<providerId>::<modelId>") name their provider instance;
+ * plain IDs saved by older versions use the first provider listing the model.
  */
-export async function getModelProvider(modelId: string) {
+export async function getModelProvider(qualifiedModelId: string) {
+  const { providerId, modelId } = parseModelId(qualifiedModelId);
+
   try {
     // Get providers configuration from preferences via IPC
     const { preferencesService } = await import("../preferencesService");
@@ -28,8 +33,7 @@ export async function getModelProvider(modelId: string) {
         providers: providers.map(p => ({
           id: p.id,
           type: p.type,
-          hasApiKey: !!p.apiKey,
-          apiKeyPrefix: p.apiKey?.substring(0, 10)
+          hasApiKey: !!p.apiKey
         }))
       });
     } catch (error) {
@@ -48,17 +52,19 @@ export async function getModelProvider(modelId: string) {
     // Find which provider this model belongs to
     // For dynamic providers, check selectedModelIds (since models array is empty in storage)
     // For user-defined providers, check models array
-    const providerWithModel = providers.find((provider) => {
-      if (provider.modelSource === 'dynamic') {
-        // Dynamic providers save only selectedModelIds
-        return provider.selectedModelIds?.includes(modelId);
-      } else {
-        // User-defined providers have full model data
-        return provider.models.some(
-          (model) => model.id === modelId && model.isSelected !== false
-        );
-      }
-    });
+    const providerWithModel = providerId
+      ? providers.find((provider) => provider.id === providerId)
+      : providers.find((provider) => {
+        if (provider.modelSource === 'dynamic') {
+          // Dynamic providers save only selectedModelIds
+          return provider.selectedModelIds?.includes(modelId);
+        } else {
+          // User-defined providers have full model data
+          return provider.models.some(
+            (model) => model.id === modelId && model.isSelected !== false
+          );
+        }
+      });
 
     if (!providerWithModel) {
       // Log all available providers and their models for debugging
@@ -78,7 +84,9 @@ export async function getModelProvider(modelId: string) {
       });
 
       throw new Error(
-        `Model "${modelId}" not found in any configured provider. Please select the model in the Models page and ensure it is enabled.`
+        providerId
+          ? `Provider "${providerId}" for model "${modelId}" is no longer configured. Please select another model.`
+          : `Model "${modelId}" not found in any configured provider. Please select the model in the Models page and ensure it is enabled.`
       );
     }
 
@@ -89,8 +97,7 @@ export async function getModelProvider(modelId: string) {
       providerName: providerWithModel.name,
       providerId: providerWithModel.id,
       hasApiKey: !!providerWithModel.apiKey,
-      hasBaseUrl: !!providerWithModel.baseUrl,
-      apiKeyPrefix: providerWithModel.apiKey?.substring(0, 10) + '...'
+      hasBaseUrl: !!providerWithModel.baseUrl
     });
 
     // Configure provider based on type
@@ -119,6 +126,9 @@ function configureProvider(provider: ProviderConfig, modelId: string) {
     case "local":
       return configureLocalProvider(provider, modelId);
 
+    case "openai-compatible":
+      return configureOpenAICompatible(provider, modelId);
+
     case "openai":
       return configureOpenAI(provider, modelId);
 
@@ -210,17 +220,52 @@ function configureLocalProvider(provider: ProviderConfig, modelId: string) {
 
   logger.aiSdk.debug("Creating Local provider", {
     modelId,
-    baseURL: localBaseUrl
+    baseURL: localBaseUrl,
+    hasApiKey: !!provider.apiKey
   });
 
+  // LM Studio, vLLM and similar servers can require a key; Ollama ignores it
   const localProvider = createOpenAICompatible({
     name: "local",
     baseURL: localBaseUrl,
+    apiKey: provider.apiKey || undefined,
   });
 
   return localProvider(modelId);
 }
 
+/**
+ * Configure a custom OpenAI-compatible provider (DeepSeek, Mistral, Together,
+ * Azure OpenAI, LiteLLM proxies...)
+ */
+function configureOpenAICompatible(provider: ProviderConfig, modelId: string) {
+  if (!provider.baseUrl) {
+    throw new Error(
+      `Base URL missing for provider ${provider.name}`
+    );
+  }
+
+  logger.aiSdk.debug("Creating OpenAI-compatible provider", {
+    modelId,
+    providerId: provider.id,
+    baseURL: provider.baseUrl,
+    hasApiKey: !!provider.apiKey,
+    headerNames: Object.keys(provider.headers ?? {}),
+    queryParamNames: Object.keys(provider.queryParams ?? {})
+  });
+
+  // The instance id becomes the SDK provider name, so provider options reach the right instance
+  const customProvider = createOpenAICompatible({
+    name: provider.id,
+    baseURL: provider.baseUrl.replace(/\/+$/, ""),
+    apiKey: provider.apiKey || undefined,
+    headers: provider.headers,
+    queryParams: provider.queryParams,
+  });
+
+  return customProvider(modelId);
+}
+
 /**
  * Configure OpenAI provider
  */
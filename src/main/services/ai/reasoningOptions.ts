@@ -0,0 +1,101 @@
+import type { streamText, UIMessage } from "ai";
+import type { ReasoningEffort, ReasoningSetting } from "../../../types/preferences";
+import { getLogger } from "../logging";
+
+const logger = getLogger();
+
+type ProviderOptions = NonNullable<Parameters<typeof streamText>[0]["providerOptions"]>;
+
+// Thinking budget used for an effort when the setting has no explicit budget
+const EFFORT_BUDGET_TOKENS: Record<Exclude<ReasoningEffort, "off">, number> = {
+  low: 2048,
+  medium: 8192,
+  high: 24576,
+};
+
+/**
+ * Reasoning setting the user chose for a model, if any
+ */
+export async function getReasoningSetting(modelId: string): Promise<ReasoningSetting | undefined> {
+  try {
+    const { preferencesService } = await import("../preferencesService");
+    return preferencesService.get("modelSettings")?.[modelId]?.reasoning;
+  } catch (error) {
+    logger.aiSdk.warn("Could not load reasoning setting", { modelId, error });
+    return undefined;
+  }
+}
+
+/**
+ * Translate a reasoning setting into the provider options of the SDK provider
+ * serving the model. `providerName` is the first segment of the language
+ * model's provider id (e.g. "openai" for "openai.responses").
+ */
+export function buildReasoningProviderOptions(
+  providerName: string,
+  modelId: string,
+  setting?: ReasoningSetting
+): ProviderOptions | undefined {
+  const effort = setting?.effort;
+  const budgetTokens =
+    effort && effort !== "off" ? setting?.budgetTokens ?? EFFORT_BUDGET_TOKENS[effort] : 0;
+
+  switch (providerName) {
+    case "openai":
+      // Reasoning models only stream their thinking as a summary; ignored by other models
+      return {
+        openai: {
+          reasoningSummary: "auto",
+          ...(effort && effort !== "off" ? { reasoningEffort: effort } : {}),
+        },
+      };
+
+    case "anthropic":
+      if (!effort || effort === "off") return undefined;
+      return { anthropic: { thinking: { type: "enabled", budgetTokens } } };
+
+    case "google":
+      if (!effort) return undefined;
+      return {
+        google: {
+          thinkingConfig: { thinkingBudget: budgetTokens, includeThoughts: effort !== "off" },
+        },
+      };
+
+    case "openrouter":
+      if (!effort) return undefined;
+      return {
+        openrouter: {
+          reasoning:
+            effort === "off"
+              ? { enabled: false }
+              : setting?.budgetTokens
+                ? { max_tokens: setting.budgetTokens }
+                : { effort },
+        },
+      };
+
+    case "gateway": {
+      // Gateway model ids are "<provider>/<model>"; options go to the upstream provider
+      const [upstream, ...rest] = modelId.split("/");
+      if (!upstream || upstream === "gateway" || rest.length === 0) return undefined;
+      return buildReasoningProviderOptions(upstream, rest.join("/"), setting);
+    }
+
+    default:
+      // OpenAI-compatible providers (Groq, xAI, local servers) take reasoning_effort
+      if (!effort || effort === "off") return undefined;
+      return { [providerName]: { reasoningEffort: effort } };
+  }
+}
+
+/**
+ * Drop the thinking of earlier answers: it is kept for display, but providers
+ * either reject it without their signatures or do not need it to continue
+ */
+export function stripReasoningParts(messages: UIMessage[]): UIMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    parts: message.parts.filter((part) => part.type !== "reasoning"),
+  }));
+}
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProviderConfig } from '../../../types/models';
+
+const preferences = vi.hoisted(() => ({ providers: [] as Partial<ProviderConfig>[] }));
+
+vi.mock('../logging', () => {
+  const category = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { getLogger: () => ({ aiSdk: category }) };
+});
+vi.mock('../preferencesService', () => ({
+  preferencesService: { get: (key: 'providers') => preferences[key] },
+}));
+
+import { getStoredContextLength } from './retryPolicy';
+
+beforeEach(() => {
+  preferences.providers = [];
+});
+
+describe('getStoredContextLength', () => {
+  it('reads the context window of a user-defined provider model', async () => {
+    preferences.providers = [
+      { id: 'local', modelSource: 'user-defined', models: [{ id: 'llama3', contextLength: 8192 } as any] },
+    ];
+
+    await expect(getStoredContextLength('local::llama3')).resolves.toBe(8192);
+  });
+
+  it('reads the context window stored for a selected model of a dynamic provider', async () => {
+    preferences.providers = [
+      { id: 'openrouter', modelSource: 'dynamic', models: [], contextLengths: { 'openai/gpt-4o': 128000 } },
+    ];
+
+    await expect(getStoredContextLength('openrouter::openai/gpt-4o')).resolves.toBe(128000);
+  });
+
+  it('only looks at the provider named in a qualified id', async () => {
+    preferences.providers = [
+      { id: 'openrouter', modelSource: 'dynamic', models: [], contextLengths: { 'gpt-4o': 128000 } },
+      { id: 'openai', modelSource: 'dynamic', models: [], contextLengths: {} },
+    ];
+
+    await expect(getStoredContextLength('openai::gpt-4o')).resolves.toBeUndefined();
+  });
+});
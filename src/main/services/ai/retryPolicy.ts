@@ -0,0 +1,183 @@
+import { APICallError, RetryError } from "ai";
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from "../../../types/preferences";
+import { parseModelId } from "../../../types/models";
+import { getLogger } from "../logging";
+
+const logger = getLogger();
+
+// Node error codes of connections that failed or dropped
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+]);
+
+export type RetryReason = "rate_limit" | "server_error" | "network";
+
+/**
+ * An error worth retrying, or trying again with another model
+ */
+export interface RetryableFailure {
+  reason: RetryReason;
+  message: string;
+  statusCode?: number;
+  retryAfterMs?: number; // Asked for by the provider
+}
+
+/**
+ * Retry policy from the AI settings
+ */
+export async function getRetryPolicy(): Promise<RetryPolicy> {
+  try {
+    const { preferencesService } = await import("../preferencesService");
+    return { ...DEFAULT_RETRY_POLICY, ...preferencesService.get("ai")?.retry };
+  } catch (error) {
+    logger.aiSdk.warn("Could not load retry policy, using defaults", { error });
+    return DEFAULT_RETRY_POLICY;
+  }
+}
+
+/**
+ * Models to try after `modelId`, in order, without duplicates or the model itself
+ */
+export async function getFallbackModels(modelId: string): Promise<string[]> {
+  try {
+    const { preferencesService } = await import("../preferencesService");
+    const fallbacks = preferencesService.get("modelSettings")?.[modelId]?.fallbacks ?? [];
+    return Array.from(new Set(fallbacks)).filter((fallback) => fallback && fallback !== modelId);
+  } catch (error) {
+    logger.aiSdk.warn("Could not load fallback models", { modelId, error });
+    return [];
+  }
+}
+
+/**
+ * Context window of a model stored with the providers. The renderer only sends
+ * the requested model's, so fallbacks are looked up here. Dynamic providers
+ * store no model list, only the context windows of their selected models.
+ */
+export async function getStoredContextLength(modelId: string): Promise<number | undefined> {
+  try {
+    const { preferencesService } = await import("../preferencesService");
+    const { providerId, modelId: providerModelId } = parseModelId(modelId);
+    const providers = (preferencesService.get("providers") ?? [])
+      .filter((provider) => !providerId || provider.id === providerId);
+
+    for (const provider of providers) {
+      const model = provider.models?.find((candidate) => candidate.id === providerModelId);
+      const contextLength = model?.contextLength || provider.contextLengths?.[providerModelId];
+      if (contextLength) {
+        return contextLength;
+      }
+    }
+  } catch (error) {
+    logger.aiSdk.warn("Could not look up model context length", { modelId, error });
+  }
+  return undefined;
+}
+
+/**
+ * Classify an error from a provider call. Returns undefined for errors that
+ * would fail again (bad request, auth, unknown model, aborted).
+ */
+export function getRetryableFailure(error: unknown): RetryableFailure | undefined {
+  // The SDK's own retries wrap the last error
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+  const message = cause instanceof Error ? cause.message : String(cause);
+
+  if (cause instanceof Error && cause.name === "AbortError") {
+    return undefined;
+  }
+
+  if (APICallError.isInstance(cause)) {
+    const statusCode = cause.statusCode;
+    const retryAfterMs = parseRetryAfter(cause.responseHeaders);
+
+    if (statusCode === 429) {
+      return { reason: "rate_limit", message, statusCode, retryAfterMs };
+    }
+    // 529 is Anthropic's "overloaded"
+    if (statusCode !== undefined && statusCode >= 500) {
+      return { reason: "server_error", message, statusCode, retryAfterMs };
+    }
+    // Connection failures are reported without a status code
+    if (statusCode === undefined && cause.isRetryable) {
+      return { reason: "network", message };
+    }
+    return undefined;
+  }
+
+  const code = getErrorCode(cause);
+  if ((code && NETWORK_ERROR_CODES.has(code)) || message === "fetch failed") {
+    return { reason: "network", message };
+  }
+
+  return undefined;
+}
+
+/**
+ * Wait before retry number `retry` (0-based): the provider's Retry-After if
+ * given, otherwise exponential backoff. Undefined when the retries are used up
+ * or the wait would exceed the policy's maximum; the next fallback is tried then.
+ */
+export function getRetryDelayMs(
+  policy: RetryPolicy,
+  retry: number,
+  failure: RetryableFailure
+): number | undefined {
+  if (retry >= policy.maxRetries) return undefined;
+  const delayMs = failure.retryAfterMs ?? policy.initialDelayMs * 2 ** retry;
+  return delayMs <= policy.maxDelayMs ? delayMs : undefined;
+}
+
+/**
+ * Resolves after `ms`, or rejects as soon as the request is aborted
+ */
+export function waitForRetry(ms: number, abortSignal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(abortSignal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortSignal?.reason);
+    };
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Node sets the code on the error or, for fetch, on its cause
+function getErrorCode(error: unknown, depth = 0): string | undefined {
+  if (!error || typeof error !== "object" || depth > 3) return undefined;
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  return typeof code === "string" ? code : getErrorCode(cause, depth + 1);
+}
+
+// "retry-after-ms" (OpenAI) or "retry-after" in seconds or as an HTTP date
+function parseRetryAfter(headers?: Record<string, string>): number | undefined {
+  if (!headers) return undefined;
+
+  const retryAfterMs = Number.parseFloat(headers["retry-after-ms"] ?? "");
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers["retry-after"];
+  if (!retryAfter) return undefined;
+
+  const seconds = Number.parseFloat(retryAfter);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+  return Number.isFinite(ms) ? Math.max(ms, 0) : undefined;
+}
@@ -4,9 +4,15 @@ const logger = getLogger();
 
 /**
  * Calculate the maximum number of steps for AI tool execution
- * Based on the number of available tools and user configuration
+ * Based on the number of available tools and user configuration.
+ * An agent's max steps, when set, replaces the calculation.
  */
-export async function calculateMaxSteps(toolCount: number): Promise<number> {
+export async function calculateMaxSteps(toolCount: number, override?: number | null): Promise<number> {
+  if (override && override > 0) {
+    logger.aiSdk.debug("Using max steps override", { maxSteps: override, toolCount });
+    return override;
+  }
+
   // Get configuration from preferences
   let baseSteps = 5;
   let maxStepsLimit = 20;
@@ -1,15 +1,19 @@
 import { getLogger } from '../logging';
+import type { Agent } from '../../../types/agents';
 
 const logger = getLogger();
 
 /**
  * Build the system prompt for AI conversations
- * Includes personalization, web search, MCP tools, and diagram capabilities
+ * Includes personalization, web search, MCP tools, and diagram capabilities.
+ * `webSearch` should only be true when a search tool is attached to the request.
+ * An agent's prompt replaces the personality style and custom instructions.
  */
 export async function buildSystemPrompt(
   webSearch: boolean,
   enableMCP: boolean,
-  toolCount: number
+  toolCount: number,
+  agent?: Agent | null
 ): Promise<string> {
   // Add current date information
   const currentDate = new Date();
@@ -34,22 +38,24 @@ export async function buildSystemPrompt(
   let basePersonality = 'You are a helpful assistant';
 
   if (personalization?.enabled) {
-    // Apply personality style
-    switch (personalization.personality) {
-      case 'cynic':
-        basePersonality = 'You are a critical and sarcastic assistant who questions assumptions and provides realistic, sometimes cynical perspectives';
-        break;
-      case 'robot':
-        basePersonality = 'You are an efficient and blunt assistant who prioritizes directness and clarity over politeness';
-        break;
-      case 'listener':
-        basePersonality = 'You are a thoughtful and supportive assistant who carefully considers user needs and provides empathetic responses';
-        break;
-      case 'nerd':
-        basePersonality = 'You are an exploratory and enthusiastic assistant who loves diving deep into topics with curiosity and excitement';
-        break;
-      default:
-        basePersonality = 'You are a cheerful and adaptive assistant who adjusts to user needs with a positive attitude';
+    // Apply personality style (an agent brings its own persona instead)
+    if (!agent) {
+      switch (personalization.personality) {
+        case 'cynic':
+          basePersonality = 'You are a critical and sarcastic assistant who questions assumptions and provides realistic, sometimes cynical perspectives';
+          break;
+        case 'robot':
+          basePersonality = 'You are an efficient and blunt assistant who prioritizes directness and clarity over politeness';
+          break;
+        case 'listener':
+          basePersonality = 'You are a thoughtful and supportive assistant who carefully considers user needs and provides empathetic responses';
+          break;
+        case 'nerd':
+          basePersonality = 'You are an exploratory and enthusiastic assistant who loves diving deep into topics with curiosity and excitement';
+          break;
+        default:
+          basePersonality = 'You are a cheerful and adaptive assistant who adjusts to user needs with a positive attitude';
+      }
     }
 
     // Add user context if available
@@ -66,14 +72,18 @@ export async function buildSystemPrompt(
 
   let systemPrompt = `${basePersonality}. Today's date is ${dateString} and the current time is ${timeString}.`;
 
-  // Add custom instructions if provided
-  if (personalization?.enabled && personalization.customInstructions) {
+  if (agent) {
+    systemPrompt += `\n\nYou are acting as "${agent.name}". Follow these instructions:\n${agent.systemPrompt}`;
+  } else if (personalization?.enabled && personalization.customInstructions) {
+    // Add custom instructions if provided
     systemPrompt += `\n\nCUSTOM INSTRUCTIONS:\n${personalization.customInstructions}`;
   }
 
   if (webSearch) {
-    systemPrompt +=
-      " with access to web search. Provide accurate and up-to-date information.";
+    systemPrompt += `
+
+WEB SEARCH:
+You can search the web with the web_search tool. Use it for recent events, current data, or anything you are not sure about, and provide accurate and up-to-date information. Search results are numbered; when a statement relies on a result, cite it inline with its number in brackets, e.g. [1] or [2][3]. Only cite pages that were returned by your searches.`;
   }
 
   if (enableMCP && toolCount > 0) {
@@ -133,11 +143,11 @@ Always provide diagrams when users request visual representations, flowcharts, p
     hasOccupation: !!personalization?.occupation,
     hasAboutUser: !!personalization?.aboutUser,
     hasCustomInstructions: !!personalization?.customInstructions,
+    agentId: agent?.id,
     webSearch,
     enableMCP,
     toolCount,
-    promptLength: systemPrompt.length,
-    fullPrompt: systemPrompt
+    promptLength: systemPrompt.length
   });
 
   return systemPrompt;
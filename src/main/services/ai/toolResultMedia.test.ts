@@ -0,0 +1,90 @@
+import type { LanguageModel, ModelMessage } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { moveToolResultMedia, supportsToolResultMedia } from './toolResultMedia';
+
+function modelFrom(provider: string): LanguageModel {
+  return { provider } as LanguageModel;
+}
+
+const screenshotResult: ModelMessage = {
+  role: 'tool',
+  content: [
+    {
+      type: 'tool-result',
+      toolCallId: 'call-1',
+      toolName: 'browser_screenshot',
+      output: {
+        type: 'content',
+        value: [
+          { type: 'text', text: 'Took a screenshot' },
+          { type: 'media', data: 'iVBORw0KGgo=', mediaType: 'image/png' },
+          { type: 'media', data: 'UklGRg==', mediaType: 'audio/wav' },
+        ],
+      },
+    },
+  ],
+};
+
+describe('supportsToolResultMedia', () => {
+  it('accepts providers that send media in tool results', () => {
+    expect(supportsToolResultMedia(modelFrom('anthropic.messages'))).toBe(true);
+    expect(supportsToolResultMedia(modelFrom('openai.responses'))).toBe(true);
+    expect(supportsToolResultMedia(modelFrom('google.generative-ai'))).toBe(true);
+  });
+
+  it('rejects OpenAI-compatible providers, OpenAI chat and gateway ids', () => {
+    expect(supportsToolResultMedia(modelFrom('openrouter.chat'))).toBe(false);
+    expect(supportsToolResultMedia(modelFrom('openai.chat'))).toBe(false);
+    expect(supportsToolResultMedia('openai/gpt-4o')).toBe(false);
+  });
+});
+
+describe('moveToolResultMedia', () => {
+  it('replaces media with placeholders and sends images in a user message', () => {
+    const [tool, user] = moveToolResultMedia([screenshotResult]);
+
+    expect(tool).toEqual({
+      role: 'tool',
+      content: [
+        {
+          type: 'tool-result',
+          toolCallId: 'call-1',
+          toolName: 'browser_screenshot',
+          output: {
+            type: 'content',
+            value: [
+              { type: 'text', text: 'Took a screenshot' },
+              { type: 'text', text: '[Image 1 (image/png), attached in the next message]' },
+              { type: 'text', text: '[audio/wav content, which this model cannot receive]' },
+            ],
+          },
+        },
+      ],
+    });
+    expect(user).toEqual({
+      role: 'user',
+      content: [
+        { type: 'text', text: 'Image 1 from browser_screenshot:' },
+        { type: 'image', image: 'iVBORw0KGgo=', mediaType: 'image/png' },
+      ],
+    });
+  });
+
+  it('leaves messages without media untouched', () => {
+    const messages: ModelMessage[] = [
+      { role: 'user', content: 'Hello' },
+      {
+        role: 'tool',
+        content: [{ type: 'tool-result', toolCallId: 'call-2', toolName: 'search', output: { type: 'text', value: 'ok' } }],
+      },
+    ];
+
+    expect(moveToolResultMedia(messages)).toEqual(messages);
+  });
+
+  it('is stable when applied again to its own output', () => {
+    const once = moveToolResultMedia([screenshotResult]);
+
+    expect(moveToolResultMedia(once)).toEqual(once);
+  });
+});
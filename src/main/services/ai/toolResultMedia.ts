@@ -0,0 +1,66 @@
+import type { ImagePart, LanguageModel, ModelMessage, TextPart, ToolResultPart } from "ai";
+
+// SDK providers that send media in tool results as media. The others
+// (OpenAI-compatible ones, OpenAI chat) serialize the output to JSON text.
+const MEDIA_TOOL_RESULT_PROVIDERS = ["anthropic.", "openai.responses", "google."];
+
+type ToolOutputItem = Extract<ToolResultPart["output"], { type: "content" }>["value"][number];
+
+/**
+ * Whether the model's provider accepts images and audio inside tool results
+ */
+export function supportsToolResultMedia(model: LanguageModel): boolean {
+  if (typeof model === "string") {
+    return false;
+  }
+  return MEDIA_TOOL_RESULT_PROVIDERS.some((prefix) => model.provider.startsWith(prefix));
+}
+
+/**
+ * Take media out of tool results for providers that cannot receive it there,
+ * so a screenshot does not reach the model as base64 text. Each media part is
+ * replaced by a placeholder, and images are sent in a user message right
+ * after the tool results. Media other than images is left out.
+ */
+export function moveToolResultMedia(messages: ModelMessage[]): ModelMessage[] {
+  const moved: ModelMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role !== "tool") {
+      moved.push(message);
+      continue;
+    }
+
+    const images: Array<TextPart | ImagePart> = [];
+    let imageCount = 0;
+    const content = message.content.map((part) => {
+      if (part.output.type !== "content" || !part.output.value.some((item) => item.type === "media")) {
+        return part;
+      }
+
+      const value = part.output.value.map((item): ToolOutputItem => {
+        if (item.type !== "media") {
+          return item;
+        }
+        if (item.mediaType.startsWith("image/")) {
+          imageCount++;
+          images.push(
+            { type: "text", text: `Image ${imageCount} from ${part.toolName}:` },
+            { type: "image", image: item.data, mediaType: item.mediaType }
+          );
+          return { type: "text", text: `[Image ${imageCount} (${item.mediaType}), attached in the next message]` };
+        }
+        return { type: "text", text: `[${item.mediaType} content, which this model cannot receive]` };
+      });
+
+      return { ...part, output: { type: "content" as const, value } };
+    });
+
+    moved.push({ ...message, content });
+    if (images.length > 0) {
+      moved.push({ role: "user", content: images });
+    }
+  }
+
+  return moved;
+}
@@ -0,0 +1,162 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { searchWeb } from './webSearch';
+import type { WebSearchSettings } from '../../../types/preferences';
+
+interface RecordedRequest {
+  method?: string;
+  url: URL;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+type Handler = (request: RecordedRequest, res: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: RecordedRequest[];
+
+function json(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function settings(overrides: Partial<WebSearchSettings>): WebSearchSettings {
+  return {
+    provider: 'searxng',
+    searxngUrl: '',
+    maxResults: 5,
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const request = { method: req.method, url: new URL(req.url ?? '/', 'http://localhost'), headers: req.headers, body };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  handler = (_request, res) => json(res, 404, {});
+});
+
+describe('searchWeb with SearXNG', () => {
+  it('maps results and limits them to maxResults', async () => {
+    handler = (_request, res) => json(res, 200, {
+      results: [
+        { title: 'First', url: 'https://one.example', content: 'First   result' },
+        { title: '', url: 'https://two.example' },
+        { title: 'Third', url: 'https://three.example', content: 'Dropped' },
+      ],
+    });
+
+    const results = await searchWeb(settings({ searxngUrl: `${baseUrl}/searx`, maxResults: 2 }), 'levante');
+
+    expect(results).toEqual([
+      { title: 'First', url: 'https://one.example', snippet: 'First result' },
+      { title: 'https://two.example', url: 'https://two.example', snippet: undefined },
+    ]);
+    expect(requests[0].url.pathname).toBe('/searx/search');
+    expect(requests[0].url.searchParams.get('q')).toBe('levante');
+    expect(requests[0].url.searchParams.get('format')).toBe('json');
+  });
+
+  it('reports error statuses', async () => {
+    handler = (_request, res) => json(res, 403, {});
+
+    await expect(searchWeb(settings({ searxngUrl: baseUrl }), 'levante')).rejects.toThrow('SearXNG returned 403');
+  });
+
+  it('requires an instance URL', async () => {
+    await expect(searchWeb(settings({ searxngUrl: '' }), 'levante')).rejects.toThrow('SearXNG instance URL is not configured');
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('searchWeb with Brave', () => {
+  it('sends the API key and strips highlight tags', async () => {
+    handler = (_request, res) => json(res, 200, {
+      web: {
+        results: [{ title: '<strong>Levante</strong> app', url: 'https://levante.example', description: 'An <strong>AI</strong> chat' }],
+      },
+    });
+
+    const results = await searchWeb(settings({ provider: 'brave', braveApiKey: 'brave-key', baseUrl }), 'levante');
+
+    expect(results).toEqual([{ title: 'Levante app', url: 'https://levante.example', snippet: 'An AI chat' }]);
+    expect(requests[0].url.pathname).toBe('/res/v1/web/search');
+    expect(requests[0].url.searchParams.get('count')).toBe('5');
+    expect(requests[0].headers['x-subscription-token']).toBe('brave-key');
+  });
+
+  it('treats a response without web results as empty', async () => {
+    handler = (_request, res) => json(res, 200, { query: {} });
+
+    await expect(searchWeb(settings({ provider: 'brave', braveApiKey: 'brave-key', baseUrl }), 'levante')).resolves.toEqual([]);
+  });
+
+  it('reports error statuses', async () => {
+    handler = (_request, res) => json(res, 429, {});
+
+    await expect(searchWeb(settings({ provider: 'brave', braveApiKey: 'brave-key', baseUrl }), 'levante'))
+      .rejects.toThrow('Brave Search returned 429');
+  });
+
+  it('requires an API key', async () => {
+    await expect(searchWeb(settings({ provider: 'brave', baseUrl }), 'levante'))
+      .rejects.toThrow('Brave Search API key is not configured');
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('searchWeb with Tavily', () => {
+  it('posts the query with the API key', async () => {
+    handler = (_request, res) => json(res, 200, {
+      results: [{ title: 'Levante', url: 'https://levante.example', content: 'x'.repeat(600) }],
+    });
+
+    const results = await searchWeb(settings({ provider: 'tavily', tavilyApiKey: 'tvly-key', baseUrl, maxResults: 50 }), 'levante');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].snippet).toHaveLength(500);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url.pathname).toBe('/search');
+    expect(requests[0].headers.authorization).toBe('Bearer tvly-key');
+    expect(JSON.parse(requests[0].body)).toEqual({ query: 'levante', max_results: 20 });
+  });
+
+  it('reports error statuses', async () => {
+    handler = (_request, res) => json(res, 401, {});
+
+    await expect(searchWeb(settings({ provider: 'tavily', tavilyApiKey: 'tvly-key', baseUrl }), 'levante'))
+      .rejects.toThrow('Tavily returned 401');
+  });
+
+  it('requires an API key', async () => {
+    await expect(searchWeb(settings({ provider: 'tavily', baseUrl }), 'levante'))
+      .rejects.toThrow('Tavily API key is not configured');
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('searchWeb with other providers', () => {
+  it('rejects providers without a search API', async () => {
+    await expect(searchWeb(settings({ provider: 'native' }), 'levante'))
+      .rejects.toThrow('has no search API');
+  });
+});
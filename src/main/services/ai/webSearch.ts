@@ -0,0 +1,196 @@
+import { tool } from "ai";
+import { z } from "zod/v3";
+import { openai } from "@ai-sdk/openai";
+import { anthropic } from "@ai-sdk/anthropic";
+import { google } from "@ai-sdk/google";
+import { safeFetch } from "../../utils/urlValidator";
+import type { WebSearchSettings } from "../../../types/preferences";
+import { getLogger } from "../logging";
+
+const logger = getLogger();
+
+export const WEB_SEARCH_TOOL_NAME = "web_search";
+
+const SEARCH_TIMEOUT_MS = 15_000;
+const MAX_SNIPPET_LENGTH = 500;
+
+const DEFAULT_ENDPOINTS = {
+  brave: "https://api.search.brave.com",
+  tavily: "https://api.tavily.com",
+};
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  snippet?: string;
+}
+
+/**
+ * Web search settings saved in preferences, with API keys decrypted
+ */
+export async function getWebSearchSettings(): Promise<WebSearchSettings | undefined> {
+  try {
+    const { preferencesService } = await import("../preferencesService");
+    return preferencesService.get("webSearch");
+  } catch (error) {
+    logger.aiSdk.warn("Could not load web search settings", { error });
+    return undefined;
+  }
+}
+
+/**
+ * Run a query against the configured search backend.
+ * Throws when the backend is not configured or the request fails.
+ */
+export async function searchWeb(settings: WebSearchSettings, query: string): Promise<WebSearchResult[]> {
+  const maxResults = Math.min(Math.max(settings.maxResults || 5, 1), 20);
+
+  logger.aiSdk.debug("Running web search", { provider: settings.provider, query, maxResults });
+
+  switch (settings.provider) {
+    case "searxng":
+      return searchSearxng(settings, query, maxResults);
+    case "brave":
+      return searchBrave(settings, query, maxResults);
+    case "tavily":
+      return searchTavily(settings, query, maxResults);
+    default:
+      throw new Error(`Web search provider "${settings.provider}" has no search API`);
+  }
+}
+
+async function searchSearxng(settings: WebSearchSettings, query: string, maxResults: number) {
+  if (!settings.searxngUrl) {
+    throw new Error("SearXNG instance URL is not configured");
+  }
+
+  const url = new URL("search", withTrailingSlash(settings.searxngUrl));
+  url.searchParams.set("q", query);
+  url.searchParams.set("format", "json");
+
+  const data = await fetchJson(url, { headers: { Accept: "application/json" } }, "SearXNG");
+  return (Array.isArray(data.results) ? data.results : [])
+    .slice(0, maxResults)
+    .map((result: any) => toResult(result.title, result.url, result.content));
+}
+
+async function searchBrave(settings: WebSearchSettings, query: string, maxResults: number) {
+  if (!settings.braveApiKey) {
+    throw new Error("Brave Search API key is not configured");
+  }
+
+  const url = new URL("res/v1/web/search", withTrailingSlash(settings.baseUrl || DEFAULT_ENDPOINTS.brave));
+  url.searchParams.set("q", query);
+  url.searchParams.set("count", String(maxResults));
+
+  const data = await fetchJson(
+    url,
+    { headers: { Accept: "application/json", "X-Subscription-Token": settings.braveApiKey } },
+    "Brave Search"
+  );
+  return (Array.isArray(data.web?.results) ? data.web.results : [])
+    .slice(0, maxResults)
+    .map((result: any) => toResult(result.title, result.url, result.description));
+}
+
+async function searchTavily(settings: WebSearchSettings, query: string, maxResults: number) {
+  if (!settings.tavilyApiKey) {
+    throw new Error("Tavily API key is not configured");
+  }
+
+  const url = new URL("search", withTrailingSlash(settings.baseUrl || DEFAULT_ENDPOINTS.tavily));
+  const data = await fetchJson(
+    url,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${settings.tavilyApiKey}`,
+      },
+      body: JSON.stringify({ query, max_results: maxResults }),
+    },
+    "Tavily"
+  );
+  return (Array.isArray(data.results) ? data.results : [])
+    .slice(0, maxResults)
+    .map((result: any) => toResult(result.title, result.url, result.content));
+}
+
+async function fetchJson(url: URL, init: RequestInit, backend: string): Promise<any> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`${backend} URL must use http or https`);
+  }
+
+  const response = await safeFetch(url.toString(), init, SEARCH_TIMEOUT_MS);
+  if (!response.ok) {
+    throw new Error(`${backend} returned ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+function toResult(title: unknown, url: unknown, snippet: unknown): WebSearchResult {
+  const text = typeof snippet === "string" ? stripHtml(snippet) : "";
+  return {
+    title: typeof title === "string" && title ? stripHtml(title) : String(url),
+    url: String(url),
+    snippet: text ? text.slice(0, MAX_SNIPPET_LENGTH) : undefined,
+  };
+}
+
+// Brave highlights matches with <strong> tags
+function stripHtml(text: string): string {
+  return text.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith("/") ? url : `${url}/`;
+}
+
+/**
+ * Tools that give the model web access for one request: the built-in search
+ * tool backed by SearXNG, Brave or Tavily, or the provider's own search tool.
+ * Returns an empty set when the selected backend cannot be used.
+ */
+export function getWebSearchTools(settings: WebSearchSettings | undefined, providerName: string): Record<string, any> {
+  if (!settings) return {};
+
+  if (settings.provider === "native") {
+    switch (providerName) {
+      case "openai":
+        return { [WEB_SEARCH_TOOL_NAME]: openai.tools.webSearch({}) };
+      case "anthropic":
+        return { [WEB_SEARCH_TOOL_NAME]: anthropic.tools.webSearch_20250305({ maxUses: 5 }) };
+      case "google":
+        return { google_search: google.tools.googleSearch({}) };
+      default:
+        logger.aiSdk.warn("Provider has no native web search; configure a search backend in Settings", {
+          providerName,
+        });
+        return {};
+    }
+  }
+
+  // Result numbers stay stable across searches in the same answer so citations match the sources list
+  const citationNumbers = new Map<string, number>();
+
+  return {
+    [WEB_SEARCH_TOOL_NAME]: tool({
+      description:
+        "Search the web for current information. Returns numbered results; cite the ones you use with their number in brackets, e.g. [1].",
+      inputSchema: z.object({
+        query: z.string().describe("Search query"),
+      }),
+      execute: async ({ query }) => {
+        const results = await searchWeb(settings, query);
+        return {
+          results: results.map((result) => {
+            if (!citationNumbers.has(result.url)) {
+              citationNumbers.set(result.url, citationNumbers.size + 1);
+            }
+            return { number: citationNumbers.get(result.url)!, ...result };
+          }),
+        };
+      },
+    }),
+  };
+}
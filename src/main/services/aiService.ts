@@ -4,6 +4,7 @@ import {
   convertToModelMessages,
   UIMessage,
   stepCountIs,
+  type LanguageModel,
 } from "ai";
 import { getLogger } from "./logging";
 import { getModelProvider } from "./ai/providerResolver";
@@ -11,20 +12,73 @@ import { getMCPTools } from "./ai/mcpToolsAdapter";
 import { buildSystemPrompt } from "./ai/systemPromptBuilder";
 import { isToolUseNotSupportedError } from "./ai/toolErrorDetector";
 import { calculateMaxSteps } from "./ai/stepsCalculator";
+import { inlineTextAttachments } from "./ai/attachmentParts";
+import { moveToolResultMedia, supportsToolResultMedia } from "./ai/toolResultMedia";
+import { fitToContext, type ContextCondensation, type FitToContextResult } from "./ai/contextManager";
+import {
+  buildReasoningProviderOptions,
+  getReasoningSetting,
+  stripReasoningParts,
+} from "./ai/reasoningOptions";
+import { getWebSearchSettings, getWebSearchTools, WEB_SEARCH_TOOL_NAME } from "./ai/webSearch";
+import {
+  getFallbackModels,
+  getStoredContextLength,
+  getRetryableFailure,
+  getRetryDelayMs,
+  getRetryPolicy,
+  waitForRetry,
+  type RetryableFailure,
+  type RetryReason,
+} from "./ai/retryPolicy";
+import {
+  getGenerationDefaults,
+  mergeProviderOptions,
+  resolveGenerationParams,
+  type ResolvedGenerationParams,
+} from "./ai/generationParams";
+import { agentService } from "./agentService";
+import type { Agent } from "../../types/agents";
+import type { GenerationParams } from "../../types/preferences";
+import { parseModelId } from "../../types/models";
 
 export interface ChatRequest {
   messages: UIMessage[];
   model: string;
   webSearch: boolean;
   enableMCP?: boolean;
+  sessionId?: string;
+  contextLength?: number; // Known by the renderer's model list; enables context management
+  agentId?: string | null; // Agent bound to the session
+  generation?: GenerationParams | null; // Parameters set on the session
+}
+
+/**
+ * Which model answered, when it is not simply the one requested
+ */
+export interface ModelRouting {
+  requestedModel: string;
+  model: string; // Model that answered: the requested one or a fallback
+  actualModelId?: string; // Model id reported by the provider
+  retries: number;
+  reason?: RetryReason; // Last error that caused a retry or fallback
+}
+
+/**
+ * Shared by the retries and fallbacks of one streamed answer
+ */
+interface StreamAttempts {
+  contexts: Map<string, FitToContextResult>; // Fitted conversation per model and tool set
+  contextNoticeSent: boolean;
 }
 
 export interface ChatStreamChunk {
   delta?: string;
   done?: boolean;
   error?: string;
-  sources?: Array<{ url: string; title?: string }>;
-  reasoning?: string;
+  sources?: Array<{ url: string; title?: string; snippet?: string }>;
+  reasoning?: string; // Thinking output delta
+  reasoningEnd?: { durationMs: number }; // The current reasoning block is complete
   toolCall?: {
     id: string;
     name: string;
@@ -38,24 +92,180 @@ export interface ChatStreamChunk {
     status: "success" | "error";
     timestamp: number;
   };
+  usage?: {
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    reasoningTokens: number;
+    cachedInputTokens: number;
+  };
+  context?: ContextCondensation; // Older messages were left out to fit the context window
+  routing?: ModelRouting; // Sent with the usage when a fallback answered or the request was retried
 }
 
+// Stream parts after which a failed request can no longer be retried
+const OUTPUT_CHUNK_TYPES = new Set([
+  "text-delta",
+  "reasoning-delta",
+  "source",
+  "tool-call",
+  "tool-result",
+  "tool-error",
+]);
+
 export class AIService {
   private logger = getLogger();
 
+  /**
+   * Look up the session's agent; a deleted agent falls back to the global settings
+   */
+  private resolveAgent(agentId?: string | null): Agent | null {
+    if (!agentId) return null;
+
+    try {
+      const agent = agentService.get(agentId);
+      if (!agent) {
+        this.logger.aiSdk.warn("Agent not found, using global settings", { agentId });
+      }
+      return agent;
+    } catch (error) {
+      this.logger.aiSdk.warn("Could not load agent, using global settings", {
+        agentId,
+        error: error instanceof Error ? error.message : error
+      });
+      return null;
+    }
+  }
+
+  /**
+   * SDK provider serving a model, e.g. "openai" for "openai.responses"
+   */
+  private getProviderName(modelProvider: LanguageModel): string {
+    // Plain model ids go through the AI Gateway
+    return typeof modelProvider === "string" ? "gateway" : modelProvider.provider.split(".")[0];
+  }
+
+  /**
+   * Provider options for the model's reasoning setting
+   */
+  private async getProviderOptions(modelProvider: LanguageModel, model: string) {
+    const providerName = this.getProviderName(modelProvider);
+    // Settings are saved under the qualified id; providers see their own model id
+    const providerOptions = buildReasoningProviderOptions(
+      providerName,
+      parseModelId(model).modelId,
+      await getReasoningSetting(model)
+    );
+
+    if (providerOptions) {
+      this.logger.aiSdk.debug("Reasoning provider options", { model, providerOptions });
+    }
+    return providerOptions;
+  }
+
+  /**
+   * Sampling parameters of a request: the session's own, then the agent's,
+   * the model's defaults and the global defaults
+   */
+  private async getGenerationParams(
+    modelProvider: LanguageModel,
+    model: string,
+    agent: Agent | null,
+    session?: GenerationParams | null
+  ): Promise<ResolvedGenerationParams> {
+    const defaults = await getGenerationDefaults(model);
+    const params = resolveGenerationParams({ session, agent, model: defaults.model, global: defaults.global });
+
+    // Options set by the user win over the ones derived from the reasoning setting
+    params.providerOptions = mergeProviderOptions(
+      await this.getProviderOptions(modelProvider, model),
+      params.providerOptions
+    );
+
+    this.logger.aiSdk.debug("Generation parameters", { model, ...params });
+    return params;
+  }
+
+  /**
+   * Stream an answer, retrying rate limit, server and network errors with
+   * backoff and then moving down the model's fallback chain
+   */
   async *streamChat(
-    request: ChatRequest
+    request: ChatRequest,
+    abortSignal?: AbortSignal
   ): AsyncGenerator<ChatStreamChunk, void, unknown> {
-    const { messages, model, webSearch, enableMCP = false } = request;
+    const policy = await getRetryPolicy();
+    const models = [request.model, ...(await getFallbackModels(request.model))];
+    const routing: ModelRouting = { requestedModel: request.model, model: request.model, retries: 0 };
+    const attempts: StreamAttempts = { contexts: new Map(), contextNoticeSent: false };
+
+    for (let index = 0; index < models.length; index++) {
+      const model = models[index];
+      routing.model = model;
+      const contextLength = index === 0 ? request.contextLength : await getStoredContextLength(model);
+
+      for (let retry = 0; ; retry++) {
+        const failure = yield* this.streamModel({ ...request, model, contextLength }, routing, attempts, abortSignal);
+        if (!failure) return;
+
+        routing.reason = failure.reason;
+        const delayMs = getRetryDelayMs(policy, retry, failure);
+
+        if (delayMs === undefined) {
+          if (index === models.length - 1) {
+            yield { error: failure.message, done: true };
+            return;
+          }
+          this.logger.aiSdk.warn("Model unavailable, trying the next fallback", {
+            model,
+            fallback: models[index + 1],
+            reason: failure.reason,
+            statusCode: failure.statusCode
+          });
+          break;
+        }
+
+        this.logger.aiSdk.warn("Retrying request", {
+          model,
+          retry: retry + 1,
+          delayMs,
+          reason: failure.reason,
+          statusCode: failure.statusCode
+        });
+        try {
+          await waitForRetry(delayMs, abortSignal);
+        } catch {
+          // Stopped by the user while waiting
+          yield { done: true };
+          return;
+        }
+        routing.retries++;
+      }
+    }
+  }
+
+  /**
+   * Stream an answer from one model. Returns the error instead of yielding it
+   * when it can be retried and nothing was streamed yet.
+   */
+  private async *streamModel(
+    request: ChatRequest,
+    routing: ModelRouting,
+    attempts: StreamAttempts,
+    abortSignal?: AbortSignal
+  ): AsyncGenerator<ChatStreamChunk, RetryableFailure | undefined, unknown> {
+    const { messages, model, webSearch, enableMCP = false, sessionId, contextLength, agentId, generation } = request;
+    let hasOutput = false;
 
     try {
       // Get the appropriate model provider
       const modelProvider = await getModelProvider(model);
+      const agent = this.resolveAgent(agentId);
 
       // Get MCP tools if enabled
       let tools = {};
       if (enableMCP) {
-        tools = await getMCPTools();
+        tools = await getMCPTools({ servers: agent?.mcpServers, tools: agent?.tools }, sessionId);
         this.logger.aiSdk.debug("Passing tools to streamText", {
           toolCount: Object.keys(tools).length,
           toolNames: Object.keys(tools)
@@ -111,20 +321,81 @@ export class AIService {
         });
       }
 
+      // Web search runs as a tool: the configured search backend or the provider's own search
+      const mcpToolCount = Object.keys(tools).length;
+      const webSearchTools = webSearch
+        ? getWebSearchTools(await getWebSearchSettings(), this.getProviderName(modelProvider))
+        : {};
+      const hasWebSearch = Object.keys(webSearchTools).length > 0;
+      tools = { ...tools, ...webSearchTools };
+
+      // Drop or summarize older messages that no longer fit in the context window.
+      // Retries reuse the result, so a summary is generated once per model.
+      // The system prompt and tool count depend on which tools are sent
+      const contextKey = `${model}|${enableMCP}|${webSearch}`;
+      let context = attempts.contexts.get(contextKey);
+      if (!context) {
+        context = await fitToContext({
+          messages: stripReasoningParts(inlineTextAttachments(messages)),
+          system: await buildSystemPrompt(
+            hasWebSearch,
+            enableMCP,
+            mcpToolCount,
+            agent
+          ),
+          toolCount: Object.keys(tools).length,
+          contextLength,
+          sessionId,
+          model: modelProvider,
+        });
+        attempts.contexts.set(contextKey, context);
+      }
+
+      if (context.condensed && !attempts.contextNoticeSent) {
+        attempts.contextNoticeSent = true;
+        yield { context: context.condensed };
+      }
+
+      // Tools convert earlier MCP results (images, audio) with their toModelOutput.
+      // Providers that cannot take that media in tool results get it in a user
+      // message instead, for history and for the results of each new step.
+      const moveMedia = !supportsToolResultMedia(modelProvider);
+      const modelMessages = convertToModelMessages(context.messages, { tools });
+
       const result = streamText({
         model: modelProvider,
-        messages: convertToModelMessages(messages),
+        messages: moveMedia ? moveToolResultMedia(modelMessages) : modelMessages,
+        ...(moveMedia && {
+          prepareStep: ({ messages: stepMessages }) => ({ messages: moveToolResultMedia(stepMessages) }),
+        }),
         tools,
-        system: await buildSystemPrompt(
-          webSearch,
-          enableMCP,
-          Object.keys(tools).length
-        ),
-        stopWhen: stepCountIs(await calculateMaxSteps(Object.keys(tools).length)),
+        system: context.system,
+        ...(await this.getGenerationParams(modelProvider, model, agent, generation)),
+        stopWhen: stepCountIs(await calculateMaxSteps(Object.keys(tools).length, agent?.maxSteps)),
+        // Retries are done by streamChat so it can fall back to other models
+        maxRetries: 0,
+        abortSignal,
       });
 
+      // Start time of each reasoning block, by stream part id
+      const reasoningStarts = new Map<string, number>();
+
+      // Token usage summed over steps, replaced by the total once the stream finishes
+      const usage = {
+        model,
+        inputTokens: 0,
+        outputTokens: 0,
+        reasoningTokens: 0,
+        cachedInputTokens: 0,
+      };
+      let actualModelId: string | undefined;
+
       // Use full stream to handle tool calls
       for await (const chunk of result.fullStream) {
+        if (OUTPUT_CHUNK_TYPES.has(chunk.type)) {
+          hasOutput = true;
+        }
+
         //Log all chunks
         if (chunk.type !== "text-delta") {
           this.logger.aiSdk.debug("AI Stream chunk received", {
@@ -135,6 +406,7 @@ export class AIService {
 
         // Log the actual model used when we receive finish-step
         if (chunk.type === "finish-step" && chunk.response) {
+          actualModelId = chunk.response.modelId;
           this.logger.aiSdk.info("Model used in AI request", {
             requestedModelId: model,
             actualModelId: chunk.response.modelId,
@@ -147,6 +419,54 @@ export class AIService {
             yield { delta: chunk.text };
             break;
 
+          case "reasoning-start":
+            reasoningStarts.set(chunk.id, Date.now());
+            break;
+
+          case "reasoning-delta":
+            // Signature-only deltas carry no text
+            if (chunk.text) {
+              yield { reasoning: chunk.text };
+            }
+            break;
+
+          case "reasoning-end": {
+            const startedAt = reasoningStarts.get(chunk.id) ?? Date.now();
+            reasoningStarts.delete(chunk.id);
+            yield { reasoningEnd: { durationMs: Date.now() - startedAt } };
+            break;
+          }
+
+          case "source":
+            // Citations from provider-native web search
+            if (chunk.sourceType === "url") {
+              yield { sources: [{ url: chunk.url, title: chunk.title }] };
+            }
+            break;
+
+          case "finish-step":
+            usage.inputTokens += chunk.usage.inputTokens ?? 0;
+            usage.outputTokens += chunk.usage.outputTokens ?? 0;
+            usage.reasoningTokens += chunk.usage.reasoningTokens ?? 0;
+            usage.cachedInputTokens += chunk.usage.cachedInputTokens ?? 0;
+            break;
+
+          case "finish":
+            if (chunk.totalUsage) {
+              usage.inputTokens = chunk.totalUsage.inputTokens ?? usage.inputTokens;
+              usage.outputTokens = chunk.totalUsage.outputTokens ?? usage.outputTokens;
+              usage.reasoningTokens = chunk.totalUsage.reasoningTokens ?? usage.reasoningTokens;
+              usage.cachedInputTokens = chunk.totalUsage.cachedInputTokens ?? usage.cachedInputTokens;
+            }
+
+            this.logger.aiSdk.debug("Token usage", usage);
+            yield { usage: { ...usage } };
+
+            if (routing.model !== routing.requestedModel || routing.retries > 0) {
+              yield { routing: { ...routing, actualModelId } };
+            }
+            break;
+
           case "tool-call":
             this.logger.aiSdk.debug("Tool call chunk received", {
               type: chunk.type,
@@ -204,6 +524,17 @@ export class AIService {
                 timestamp: Date.now(),
               },
             };
+
+            // Results of the built-in web search become the message's sources
+            if (chunk.toolName === WEB_SEARCH_TOOL_NAME && Array.isArray(toolResult.results)) {
+              yield {
+                sources: toolResult.results.map((result: any) => ({
+                  url: result.url,
+                  title: result.title,
+                  snippet: result.snippet,
+                })),
+              };
+            }
             break;
 
           case "tool-error":
@@ -230,7 +561,7 @@ export class AIService {
             // Check if this is a tool use not supported error
             const isToolUseError = isToolUseNotSupportedError(chunk.error);
 
-            if (isToolUseError && enableMCP) {
+            if (isToolUseError && (enableMCP || hasWebSearch)) {
               this.logger.aiSdk.warn("Model does not support tool execution. Retrying without tools", {
                 model,
                 error: chunk.error
@@ -242,10 +573,12 @@ export class AIService {
               };
 
               try {
-                // Retry the same request without MCP tools
-                const retryRequest = { ...request, enableMCP: false };
-                for await (const retryChunk of this.streamChat(retryRequest)) {
-                  yield retryChunk;
+                // Retry the same request without MCP and web search tools
+                const retryRequest = { ...request, enableMCP: false, webSearch: false };
+                // The notice was already streamed, so a failure here ends the answer
+                const retryFailure = yield* this.streamModel(retryRequest, routing, attempts, abortSignal);
+                if (retryFailure) {
+                  yield { error: retryFailure.message, done: true };
                 }
                 return;
               } catch (retryError) {
@@ -261,6 +594,12 @@ export class AIService {
               }
             }
 
+            // Rate limits, server and network errors are retried by streamChat
+            const failure = hasOutput ? undefined : getRetryableFailure(chunk.error);
+            if (failure) {
+              return failure;
+            }
+
             // For other errors, extract the error message
             const errorMessage = chunk.error instanceof Error
               ? chunk.error.message
@@ -278,6 +617,11 @@ export class AIService {
 
       yield { done: true };
     } catch (error) {
+      const failure = hasOutput ? undefined : getRetryableFailure(error);
+      if (failure) {
+        return failure;
+      }
+
       // Unexpected errors that aren't handled by the stream (rare)
       this.logger.aiSdk.error("Unexpected streaming error", {
         error: error instanceof Error ? error.message : error,
@@ -292,37 +636,94 @@ export class AIService {
     }
   }
 
+  /**
+   * Generate a complete answer with the same retry and fallback policy as streamChat
+   */
   async sendSingleMessage(
     request: ChatRequest
   ): Promise<{ response: string; sources?: any[]; reasoning?: string }> {
-    const { messages, model, webSearch, enableMCP = false } = request;
+    const policy = await getRetryPolicy();
+    const models = [request.model, ...(await getFallbackModels(request.model))];
+
+    for (let index = 0; index < models.length; index++) {
+      const model = models[index];
+      for (let retry = 0; ; retry++) {
+        try {
+          return await this.generateWithModel({ ...request, model });
+        } catch (error) {
+          const failure = getRetryableFailure(error);
+          if (!failure) throw error;
+
+          const delayMs = getRetryDelayMs(policy, retry, failure);
+          if (delayMs === undefined) {
+            if (index === models.length - 1) {
+              throw new Error(failure.message);
+            }
+            this.logger.aiSdk.warn("Model unavailable, trying the next fallback", {
+              model,
+              fallback: models[index + 1],
+              reason: failure.reason,
+              statusCode: failure.statusCode
+            });
+            break;
+          }
+
+          this.logger.aiSdk.warn("Retrying request", {
+            model,
+            retry: retry + 1,
+            delayMs,
+            reason: failure.reason,
+            statusCode: failure.statusCode
+          });
+          await waitForRetry(delayMs);
+        }
+      }
+    }
+
+    throw new Error(`No model could answer the request for "${request.model}"`);
+  }
+
+  private async generateWithModel(
+    request: ChatRequest
+  ): Promise<{ response: string; sources?: any[]; reasoning?: string }> {
+    const { messages, model, webSearch, enableMCP = false, agentId, generation } = request;
 
     try {
       // Get the appropriate model provider
       const modelProvider = await getModelProvider(model);
+      const agent = this.resolveAgent(agentId);
 
       // Get MCP tools if enabled
       let tools = {};
       if (enableMCP) {
-        tools = await getMCPTools();
+        tools = await getMCPTools({ servers: agent?.mcpServers, tools: agent?.tools });
       }
 
+      const mcpToolCount = Object.keys(tools).length;
+      const webSearchTools = webSearch
+        ? getWebSearchTools(await getWebSearchSettings(), this.getProviderName(modelProvider))
+        : {};
+      tools = { ...tools, ...webSearchTools };
+
       const result = await generateText({
         model: modelProvider,
-        messages: convertToModelMessages(messages),
+        messages: convertToModelMessages(stripReasoningParts(inlineTextAttachments(messages)), { tools }),
         tools,
         system: await buildSystemPrompt(
-          webSearch,
+          Object.keys(webSearchTools).length > 0,
           enableMCP,
-          Object.keys(tools).length
+          mcpToolCount,
+          agent
         ),
-        stopWhen: stepCountIs(await calculateMaxSteps(Object.keys(tools).length)),
+        ...(await this.getGenerationParams(modelProvider, model, agent, generation)),
+        stopWhen: stepCountIs(await calculateMaxSteps(Object.keys(tools).length, agent?.maxSteps)),
+        maxRetries: 0,
       });
 
       return {
         response: result.text,
         sources: undefined,
-        reasoning: undefined,
+        reasoning: result.reasoningText,
       };
     } catch (error) {
       // Extract error details for better logging
@@ -343,16 +744,21 @@ export class AIService {
         ...errorDetails
       });
 
+      // Rate limits, server and network errors are retried by sendSingleMessage
+      if (getRetryableFailure(error)) {
+        throw error;
+      }
+
       // Check if this is a tool use not supported error
       const isToolUseError = isToolUseNotSupportedError(error);
 
-      if (isToolUseError && enableMCP) {
+      if (isToolUseError && (enableMCP || webSearch)) {
         this.logger.aiSdk.warn(`Model '${model}' does not support tool execution. Retrying without tools...`);
 
-        // Retry the same request without MCP tools
+        // Retry the same request without MCP and web search tools
         try {
-          const retryRequest = { ...request, enableMCP: false };
-          const retryResult = await this.sendSingleMessage(retryRequest);
+          const retryRequest = { ...request, enableMCP: false, webSearch: false };
+          const retryResult = await this.generateWithModel(retryRequest);
 
           return {
             response: `⚠️ **Tool Use Not Supported**\n\nThe model "${model}" doesn't support tool/function calling, which is required for MCP integration.\n\n**Recommendation:** Choose a different model that supports tools, or disable MCP for this conversation.\n\nHere's the response without tools:\n\n${retryResult.response}`,
@@ -37,7 +37,6 @@ export async function validateGateway(
       normalizedUrl,
       chatEndpoint,
       apiKeyLength: apiKey.length,
-      apiKeyPrefix: apiKey.substring(0, 8) + '...',
     });
 
     const headers = {
@@ -0,0 +1,101 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type { MessageAttachment } from '../../types/database';
+import { directoryService } from './directoryService';
+import { getLogger } from './logging';
+
+const ATTACHMENTS_DIR = 'attachments';
+const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024; // 20 MB
+
+export interface SaveAttachmentInput {
+  filename: string;
+  mediaType: string;
+  data: string; // Base64 encoded content
+}
+
+export class AttachmentService {
+  private logger = getLogger();
+
+  /**
+   * Write an attachment to ~/levante/attachments/<sessionId>/
+   */
+  async saveAttachment(sessionId: string, input: SaveAttachmentInput): Promise<MessageAttachment> {
+    const buffer = Buffer.from(input.data, 'base64');
+
+    if (buffer.length > MAX_ATTACHMENT_SIZE) {
+      throw new Error(
+        `Attachment "${input.filename}" is too large (max ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB)`
+      );
+    }
+
+    const id = randomUUID();
+    const safeName = this.sanitizeFilename(input.filename);
+    const relativePath = path.join(this.sanitizeFilename(sessionId), `${id}-${safeName}`);
+
+    await directoryService.ensureSubdir(path.join(ATTACHMENTS_DIR, this.sanitizeFilename(sessionId)));
+    await fs.writeFile(this.resolvePath(relativePath), buffer);
+
+    this.logger.core.info('Attachment saved', {
+      sessionId,
+      attachmentId: id,
+      mediaType: input.mediaType,
+      size: buffer.length
+    });
+
+    return {
+      id,
+      filename: input.filename,
+      mediaType: input.mediaType,
+      size: buffer.length,
+      path: relativePath
+    };
+  }
+
+  /**
+   * Read an attachment back as base64
+   */
+  async readAttachment(attachment: MessageAttachment): Promise<string> {
+    const buffer = await fs.readFile(this.resolvePath(attachment.path));
+    return buffer.toString('base64');
+  }
+
+  /**
+   * Remove every attachment stored for a session
+   */
+  async deleteSessionAttachments(sessionId: string): Promise<void> {
+    const sessionDir = this.resolvePath(this.sanitizeFilename(sessionId));
+
+    try {
+      await fs.rm(sessionDir, { recursive: true, force: true });
+      this.logger.core.debug('Session attachments deleted', { sessionId });
+    } catch (error) {
+      this.logger.core.warn('Failed to delete session attachments', {
+        sessionId,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  /**
+   * Resolve a stored path, refusing anything outside the attachments directory
+   */
+  private resolvePath(relativePath: string): string {
+    const baseDir = directoryService.getSubdirPath(ATTACHMENTS_DIR);
+    const resolved = path.resolve(baseDir, relativePath);
+
+    if (!resolved.startsWith(baseDir + path.sep)) {
+      throw new Error('Invalid attachment path');
+    }
+
+    return resolved;
+  }
+
+  private sanitizeFilename(name: string): string {
+    const sanitized = path.basename(name).replace(/[^\w.\-]+/g, '_');
+    return sanitized.replace(/^\.+/, '') || 'attachment';
+  }
+}
+
+// Singleton instance
+export const attachmentService = new AttachmentService();
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const execute = vi.hoisted(() => vi.fn());
+
+vi.mock('./databaseService', () => ({ databaseService: { execute } }));
+vi.mock('./attachmentService', () => ({ attachmentService: {} }));
+vi.mock('./logging', () => {
+  const category = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { getLogger: () => ({ database: category }) };
+});
+
+import { chatService } from './chatService';
+
+// messages row in SELECT * column order
+function messageRow(overrides: { session_id?: string; content?: string } = {}) {
+  return [
+    'msg-1', overrides.session_id ?? 'session-1', 'user', overrides.content ?? 'Hello',
+    null, 1_700_000_000_000, null, null,
+    null, null, null, null, null, null, null, null, null,
+  ];
+}
+
+const input = { id: 'msg-1', session_id: 'session-1', role: 'user' as const, content: 'Hello', parent_id: null };
+
+beforeEach(() => {
+  execute.mockReset();
+});
+
+describe('chatService.createMessage with an id that is already stored', () => {
+  it('returns the stored message when the same message is saved again', async () => {
+    execute
+      .mockResolvedValueOnce({ rowsAffected: 0, rows: [] })
+      .mockResolvedValueOnce({ rows: [messageRow()] });
+
+    const result = await chatService.createMessage(input);
+
+    expect(result).toMatchObject({ success: true, data: { id: 'msg-1', session_id: 'session-1', content: 'Hello' } });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails when the id belongs to a message of another session', async () => {
+    execute
+      .mockResolvedValueOnce({ rowsAffected: 0, rows: [] })
+      .mockResolvedValueOnce({ rows: [messageRow({ session_id: 'session-2' })] });
+
+    const result = await chatService.createMessage(input);
+
+    expect(result).toMatchObject({ success: false, error: 'Message msg-1 already exists with different content' });
+  });
+
+  it('fails when the stored message has different content', async () => {
+    execute
+      .mockResolvedValueOnce({ rowsAffected: 0, rows: [] })
+      .mockResolvedValueOnce({ rows: [messageRow({ content: 'Something else' })] });
+
+    const result = await chatService.createMessage(input);
+
+    expect(result.success).toBe(false);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('makes a new message the tip of the active branch', async () => {
+    execute.mockResolvedValue({ rowsAffected: 1, rows: [] });
+
+    const result = await chatService.createMessage(input);
+
+    expect(result.success).toBe(true);
+    expect(execute.mock.calls[1][0]).toContain('active_leaf_id');
+  });
+});
+
+describe('chatService.searchMessages', () => {
+  it('filters on the model stored on each message, not the session model', async () => {
+    execute.mockResolvedValue({ rows: [] });
+
+    const result = await chatService.searchMessages({ query: 'budget', model: 'openai::gpt-4o' });
+
+    expect(result.success).toBe(true);
+    const [sql, params] = execute.mock.calls[0];
+    expect(sql).toContain('m.model = ?');
+    expect(sql).not.toContain('s.model = ?');
+    expect(params).toContain('openai::gpt-4o');
+  });
+});
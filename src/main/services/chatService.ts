@@ -1,5 +1,6 @@
-import { InValue } from '@libsql/client';
+import { InValue, Row } from '@libsql/client';
 import { databaseService } from './databaseService';
+import { attachmentService } from './attachmentService';
 import {
   ChatSession,
   Message,
@@ -8,11 +9,36 @@ import {
   UpdateChatSessionInput,
   GetMessagesQuery,
   GetChatSessionsQuery,
+  SearchMessagesQuery,
+  MessageSearchResult,
+  MessagePath,
+  Folder,
+  CreateFolderInput,
+  UpdateFolderInput,
   DatabaseResult,
-  PaginatedResult
+  PaginatedResult,
+  MessageUsage,
+  UsageStats,
+  UsageStatsQuery,
+  UsageTotals,
+  UsageBreakdown
 } from '../../types/database';
+import type { GenerationParams } from '../../types/preferences';
 import { getLogger } from './logging';
-import { escapeLikePattern } from '../utils/sqlSanitizer';
+import { buildFtsMatchQuery, validateLimit, validateOffset } from '../utils/sqlSanitizer';
+
+// Chats listed in the usage breakdown
+const MAX_USAGE_SESSIONS = 20;
+
+// chat_sessions columns holding the generation parameters (migration 12)
+const GENERATION_PARAM_COLUMNS = [
+  'temperature',
+  'max_output_tokens',
+  'top_p',
+  'seed',
+  'stop_sequences',
+  'provider_options'
+] as const;
 
 export class ChatService {
   private logger = getLogger();
@@ -23,7 +49,7 @@ export class ChatService {
     
     try {
       const id = this.generateId();
-      const now = Date.now();
+      const now = input.created_at ?? Date.now();
       
       const session: ChatSession = {
         id,
@@ -31,19 +57,26 @@ export class ChatService {
         model: input.model,
         folder_id: input.folder_id ?? null, // Convert undefined to null for SQLite
         created_at: now,
-        updated_at: now
+        updated_at: now,
+        pinned: false,
+        tags: [],
+        agent_id: input.agent_id ?? null,
+        generation_params: this.normalizeGenerationParams(input.generation_params)
       };
 
       await databaseService.execute(
-        `INSERT INTO chat_sessions (id, title, model, folder_id, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO chat_sessions (id, title, model, folder_id, agent_id, created_at, updated_at,
+           temperature, max_output_tokens, top_p, seed, stop_sequences, provider_options)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           session.id as InValue,
           session.title as InValue,
           session.model as InValue,
           (session.folder_id ?? null) as InValue, // Ensure null instead of undefined
+          (session.agent_id ?? null) as InValue,
           session.created_at as InValue,
-          session.updated_at as InValue
+          session.updated_at as InValue,
+          ...this.generationParamsColumns(session.generation_params)
         ]
       );
 
@@ -74,14 +107,7 @@ export class ChatService {
         return { data: null, success: true };
       }
 
-      const session: ChatSession = {
-        id: row[0] as string,
-        title: row[1] as string,
-        model: row[2] as string,
-        folder_id: row[3] as string,
-        created_at: row[4] as number,
-        updated_at: row[5] as number
-      };
+      const session = this.mapSessionRow(row);
 
       return { data: session, success: true };
     } catch (error) {
@@ -100,36 +126,34 @@ export class ChatService {
     this.logger.database.debug('Getting chat sessions', { query });
     
     try {
-      const { folder_id, limit = 50, offset = 0 } = query;
+      const { folder_id, tag, limit = 50, offset = 0 } = query;
       
-      let sql = 'SELECT * FROM chat_sessions';
-      let countSql = 'SELECT COUNT(*) as total FROM chat_sessions';
-      const params: InValue[] = [];
+      const conditions: string[] = [];
+      const filterParams: InValue[] = [];
       
       if (folder_id) {
-        sql += ' WHERE folder_id = ?';
-        countSql += ' WHERE folder_id = ?';
-        params.push(folder_id as InValue);
+        conditions.push('folder_id = ?');
+        filterParams.push(folder_id as InValue);
       }
-      
-      sql += ' ORDER BY updated_at DESC LIMIT ? OFFSET ?';
-      params.push(limit as InValue, offset as InValue);
+
+      if (tag) {
+        conditions.push('EXISTS (SELECT 1 FROM json_each(chat_sessions.tags) WHERE value = ?)');
+        filterParams.push(tag as InValue);
+      }
+
+      const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+      const sql = `SELECT * FROM chat_sessions${where} ORDER BY pinned DESC, updated_at DESC LIMIT ? OFFSET ?`;
+      const countSql = `SELECT COUNT(*) as total FROM chat_sessions${where}`;
+      const params: InValue[] = [...filterParams, limit as InValue, offset as InValue];
 
       // Get total count
-      const countResult = await databaseService.execute(countSql, folder_id ? [folder_id as InValue] : []);
+      const countResult = await databaseService.execute(countSql, filterParams);
       const total = countResult.rows[0][0] as number;
 
       // Get sessions
       const result = await databaseService.execute(sql, params);
       
-      const sessions: ChatSession[] = result.rows.map(row => ({
-        id: row[0] as string,
-        title: row[1] as string,
-        model: row[2] as string,
-        folder_id: row[3] as string,
-        created_at: row[4] as number,
-        updated_at: row[5] as number
-      }));
+      const sessions: ChatSession[] = result.rows.map(row => this.mapSessionRow(row));
 
       const paginatedResult: PaginatedResult<ChatSession> = {
         items: sessions,
@@ -155,23 +179,36 @@ export class ChatService {
 
   async updateSession(input: UpdateChatSessionInput): Promise<DatabaseResult<ChatSession | null>> {
     try {
-      const { id, ...updates } = input;
+      const { id, title, model, folder_id, pinned, tags, agent_id, generation_params } = input;
       const updateFields: string[] = [];
       const params: InValue[] = [];
 
-      Object.entries(updates).forEach(([key, value]) => {
-        if (value !== undefined) {
-          updateFields.push(`${key} = ?`);
-          params.push(value as InValue);
-        }
-      });
+      // Security: only known columns are updated, never keys taken from the input object
+      const addField = (column: string, value: InValue) => {
+        updateFields.push(`${column} = ?`);
+        params.push(value);
+      };
+
+      if (title !== undefined) addField('title', title as InValue);
+      if (model !== undefined) addField('model', model as InValue);
+      if (folder_id !== undefined) addField('folder_id', folder_id as InValue);
+      if (pinned !== undefined) addField('pinned', (pinned ? 1 : 0) as InValue);
+      if (tags !== undefined) addField('tags', JSON.stringify(this.normalizeTags(tags)) as InValue);
+      if (agent_id !== undefined) addField('agent_id', agent_id as InValue);
+      if (generation_params !== undefined) {
+        const values = this.generationParamsColumns(this.normalizeGenerationParams(generation_params));
+        GENERATION_PARAM_COLUMNS.forEach((column, index) => addField(column, values[index]));
+      }
 
       if (updateFields.length === 0) {
         return this.getSession(id);
       }
 
-      updateFields.push('updated_at = ?');
-      params.push(Date.now() as InValue);
+      // Organizing a chat (folder, pin, tags) must not move it in the recent list
+      if (title !== undefined || model !== undefined) {
+        updateFields.push('updated_at = ?');
+        params.push(Date.now() as InValue);
+      }
       params.push(id as InValue);
 
       await databaseService.execute(
@@ -192,6 +229,34 @@ export class ChatService {
     }
   }
 
+  /**
+   * Store the rolling summary that replaces older messages when a chat
+   * outgrows the model's context window
+   */
+  async updateContextSummary(
+    sessionId: string,
+    summary: string | null,
+    untilMessageId: string | null
+  ): Promise<DatabaseResult<boolean>> {
+    try {
+      await databaseService.execute(
+        'UPDATE chat_sessions SET context_summary = ?, context_summary_until = ? WHERE id = ?',
+        [summary as InValue, untilMessageId as InValue, sessionId as InValue]
+      );
+      return { data: true, success: true };
+    } catch (error) {
+      this.logger.database.error('Failed to update context summary', {
+        sessionId,
+        error: error instanceof Error ? error.message : error
+      });
+      return {
+        data: false,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   async deleteSession(id: string): Promise<DatabaseResult<boolean>> {
     try {
       await databaseService.execute(
@@ -199,6 +264,8 @@ export class ChatService {
         [id as InValue]
       );
 
+      await attachmentService.deleteSessionAttachments(id);
+
       return { data: true, success: true };
     } catch (error) {
       this.logger.database.error('Failed to delete chat session', { 
@@ -212,18 +279,186 @@ export class ChatService {
     }
   }
 
+  // Folders
+  async getFolders(): Promise<DatabaseResult<Folder[]>> {
+    try {
+      const result = await databaseService.execute(
+        'SELECT * FROM folders ORDER BY position ASC, created_at ASC'
+      );
+
+      return { data: result.rows.map(row => this.mapFolderRow(row)), success: true };
+    } catch (error) {
+      this.logger.database.error('Failed to get folders', {
+        error: error instanceof Error ? error.message : error
+      });
+      return {
+        data: [],
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async createFolder(input: CreateFolderInput): Promise<DatabaseResult<Folder>> {
+    this.logger.database.debug('Creating folder', { name: input.name });
+
+    try {
+      const name = input.name.trim();
+      if (!name) {
+        throw new Error('Folder name is required');
+      }
+
+      const now = Date.now();
+      const positionResult = await databaseService.execute(
+        'SELECT COALESCE(MAX(position), -1) + 1 FROM folders'
+      );
+
+      const folder: Folder = {
+        id: this.generateId(),
+        name,
+        position: Number(positionResult.rows[0][0]),
+        created_at: now,
+        updated_at: now
+      };
+
+      await databaseService.execute(
+        'INSERT INTO folders (id, name, position, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+        [
+          folder.id as InValue,
+          folder.name as InValue,
+          folder.position as InValue,
+          folder.created_at as InValue,
+          folder.updated_at as InValue
+        ]
+      );
+
+      this.logger.database.info('Folder created', { folderId: folder.id });
+      return { data: folder, success: true };
+    } catch (error) {
+      this.logger.database.error('Failed to create folder', {
+        error: error instanceof Error ? error.message : error
+      });
+      return {
+        data: {} as Folder,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async updateFolder(input: UpdateFolderInput): Promise<DatabaseResult<Folder | null>> {
+    try {
+      const updateFields: string[] = [];
+      const params: InValue[] = [];
+
+      if (input.name !== undefined) {
+        const name = input.name.trim();
+        if (!name) {
+          throw new Error('Folder name is required');
+        }
+        updateFields.push('name = ?');
+        params.push(name as InValue);
+      }
+
+      if (input.position !== undefined) {
+        updateFields.push('position = ?');
+        params.push(input.position as InValue);
+      }
+
+      if (updateFields.length > 0) {
+        updateFields.push('updated_at = ?');
+        params.push(Date.now() as InValue, input.id as InValue);
+
+        await databaseService.execute(
+          `UPDATE folders SET ${updateFields.join(', ')} WHERE id = ?`,
+          params
+        );
+      }
+
+      const result = await databaseService.execute(
+        'SELECT * FROM folders WHERE id = ?',
+        [input.id as InValue]
+      );
+      const row = result.rows[0];
+
+      return { data: row ? this.mapFolderRow(row) : null, success: true };
+    } catch (error) {
+      this.logger.database.error('Failed to update folder', {
+        error: error instanceof Error ? error.message : error,
+        folderId: input.id
+      });
+      return {
+        data: null,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Delete a folder. Its chats are kept and moved out of the folder.
+   */
+  async deleteFolder(id: string): Promise<DatabaseResult<boolean>> {
+    try {
+      await databaseService.transaction([
+        { sql: 'UPDATE chat_sessions SET folder_id = NULL WHERE folder_id = ?', args: [id as InValue] },
+        { sql: 'DELETE FROM folders WHERE id = ?', args: [id as InValue] }
+      ]);
+
+      this.logger.database.info('Folder deleted', { folderId: id });
+      return { data: true, success: true };
+    } catch (error) {
+      this.logger.database.error('Failed to delete folder', {
+        error: error instanceof Error ? error.message : error,
+        folderId: id
+      });
+      return {
+        data: false,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // Tags
+  async getTags(): Promise<DatabaseResult<string[]>> {
+    try {
+      const result = await databaseService.execute(
+        `SELECT DISTINCT tag.value FROM chat_sessions, json_each(chat_sessions.tags) AS tag
+         ORDER BY tag.value COLLATE NOCASE`
+      );
+
+      return { data: result.rows.map(row => row[0] as string), success: true };
+    } catch (error) {
+      this.logger.database.error('Failed to get tags', {
+        error: error instanceof Error ? error.message : error
+      });
+      return {
+        data: [],
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   // Messages
   async createMessage(input: CreateMessageInput): Promise<DatabaseResult<Message>> {
     this.logger.database.debug('Creating new message', { 
       sessionId: input.session_id, 
       role: input.role, 
       contentLength: input.content.length,
-      hasToolCalls: !!input.tool_calls
+      hasToolCalls: !!input.tool_calls,
+      attachmentCount: input.attachments?.length || 0
     });
     
     try {
-      const id = this.generateId();
-      const now = Date.now();
+      const id = input.id || this.generateId();
+      const now = input.created_at ?? Date.now();
+
+      // Without an explicit parent the message continues the branch being shown
+      const parentId = input.parent_id !== undefined
+        ? input.parent_id
+        : await this.getActiveLeafId(input.session_id);
       
       const message: Message = {
         id,
@@ -231,26 +466,77 @@ export class ChatService {
         role: input.role,
         content: input.content,
         tool_calls: input.tool_calls ? JSON.stringify(input.tool_calls) : null,
-        created_at: now
+        created_at: now,
+        attachments: input.attachments?.length ? JSON.stringify(input.attachments) : null,
+        parent_id: parentId,
+        usage: input.usage ?? null,
+        reasoning: input.reasoning?.length ? JSON.stringify(input.reasoning) : null,
+        sources: input.sources?.length ? JSON.stringify(input.sources) : null
       };
 
-      await databaseService.execute(
-        `INSERT INTO messages (id, session_id, role, content, tool_calls, created_at) 
-         VALUES (?, ?, ?, ?, ?, ?)`,
+      const usage = message.usage;
+      // Messages keep their UI id, so saving one again (a retry after a failed
+      // save, a regenerated id) must not fail on the primary key
+      const insertResult = await databaseService.execute(
+        `INSERT INTO messages (id, session_id, role, content, tool_calls, created_at, attachments, parent_id,
+           model, provider, input_tokens, output_tokens, reasoning_tokens, cached_input_tokens, cost, reasoning, sources) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO NOTHING`,
         [
           message.id as InValue,
           message.session_id as InValue,
           message.role as InValue,
           message.content as InValue,
           message.tool_calls as InValue,
-          message.created_at as InValue
+          message.created_at as InValue,
+          message.attachments as InValue,
+          message.parent_id as InValue,
+          (usage?.model ?? null) as InValue,
+          (usage?.provider ?? null) as InValue,
+          (usage?.input_tokens ?? null) as InValue,
+          (usage?.output_tokens ?? null) as InValue,
+          (usage?.reasoning_tokens ?? null) as InValue,
+          (usage?.cached_input_tokens ?? null) as InValue,
+          (usage?.cost ?? null) as InValue,
+          message.reasoning as InValue,
+          message.sources as InValue
         ]
       );
 
-      // Update session's updated_at timestamp
+      if (insertResult.rowsAffected === 0) {
+        const existing = await databaseService.execute(
+          'SELECT * FROM messages WHERE id = ?',
+          [id as InValue]
+        );
+        const stored = existing.rows[0] ? this.mapMessageRow(existing.rows[0]) : null;
+
+        // Only the same message saved again counts as stored, never an id clash
+        if (
+          !stored ||
+          stored.session_id !== message.session_id ||
+          stored.role !== message.role ||
+          stored.content !== message.content
+        ) {
+          this.logger.database.warn('Message id already used by a different message', {
+            messageId: id,
+            sessionId: input.session_id,
+            storedSessionId: stored?.session_id
+          });
+          return {
+            data: {} as Message,
+            success: false,
+            error: `Message ${id} already exists with different content`
+          };
+        }
+
+        this.logger.database.debug('Message already stored', { messageId: id, sessionId: input.session_id });
+        return { data: stored, success: true };
+      }
+
+      // Update session's updated_at timestamp and make the new message the active branch tip
       await databaseService.execute(
-        'UPDATE chat_sessions SET updated_at = ? WHERE id = ?',
-        [now as InValue, input.session_id as InValue]
+        'UPDATE chat_sessions SET updated_at = ?, active_leaf_id = ? WHERE id = ?',
+        [now as InValue, id as InValue, input.session_id as InValue]
       );
 
       this.logger.database.info('Message created successfully', { messageId: id, sessionId: input.session_id });
@@ -285,14 +571,7 @@ export class ChatService {
         [session_id as InValue, limit as InValue, offset as InValue]
       );
       
-      const messages: Message[] = result.rows.map(row => ({
-        id: row[0] as string,
-        session_id: row[1] as string,
-        role: row[2] as 'user' | 'assistant' | 'system',
-        content: row[3] as string,
-        tool_calls: row[4] as string,
-        created_at: row[5] as number
-      }));
+      const messages: Message[] = result.rows.map(row => this.mapMessageRow(row));
 
       const paginatedResult: PaginatedResult<Message> = {
         items: messages,
@@ -314,53 +593,477 @@ export class ChatService {
     }
   }
 
-  async searchMessages(searchQuery: string, sessionId?: string, limit = 50): Promise<DatabaseResult<Message[]>> {
-    this.logger.database.debug('Searching messages', { searchQuery, sessionId, limit });
+  /**
+   * Get the messages of the branch currently shown for a session, first to last
+   */
+  /**
+   * Every message of a session, all branches included, in creation order
+   */
+  async getMessageTree(sessionId: string): Promise<DatabaseResult<Message[]>> {
+    try {
+      const messages = await this.getAllSessionMessages(sessionId);
+      return { data: messages, success: true };
+    } catch (error) {
+      this.logger.database.error('Failed to get message tree', {
+        sessionId,
+        error: error instanceof Error ? error.message : error
+      });
+      return {
+        data: [],
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async getActivePath(sessionId: string): Promise<DatabaseResult<MessagePath>> {
+    try {
+      const [messages, activeLeafId] = await Promise.all([
+        this.getAllSessionMessages(sessionId),
+        this.getActiveLeafId(sessionId)
+      ]);
+
+      const path = this.buildPath(messages, activeLeafId);
+
+      this.logger.database.debug('Active path loaded', {
+        sessionId,
+        total: messages.length,
+        pathLength: path.messages.length
+      });
+      return { data: path, success: true };
+    } catch (error) {
+      this.logger.database.error('Failed to get active path', {
+        error: error instanceof Error ? error.message : error,
+        sessionId
+      });
+      return {
+        data: { messages: [], siblings: {} },
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Show the branch containing a message. If the message is already on the active
+   * branch nothing changes; otherwise its most recent continuation becomes active.
+   */
+  async switchBranch(sessionId: string, messageId: string): Promise<DatabaseResult<MessagePath>> {
+    this.logger.database.debug('Switching branch', { sessionId, messageId });
 
     try {
-      // Security: Escape LIKE wildcards to prevent LIKE injection
-      const escapedQuery = escapeLikePattern(searchQuery);
+      const [messages, activeLeafId] = await Promise.all([
+        this.getAllSessionMessages(sessionId),
+        this.getActiveLeafId(sessionId)
+      ]);
+
+      if (!messages.some(message => message.id === messageId)) {
+        throw new Error(`Message ${messageId} not found in session ${sessionId}`);
+      }
+
+      const currentPath = this.buildPath(messages, activeLeafId);
+      if (currentPath.messages.some(message => message.id === messageId)) {
+        return { data: currentPath, success: true };
+      }
 
-      let sql = 'SELECT * FROM messages WHERE content LIKE ? ESCAPE ?';
-      const params: InValue[] = [`%${escapedQuery}%` as InValue, '\\' as InValue];
+      const leafId = this.findLatestLeaf(messages, messageId);
+      await databaseService.execute(
+        'UPDATE chat_sessions SET active_leaf_id = ? WHERE id = ?',
+        [leafId as InValue, sessionId as InValue]
+      );
 
-      if (sessionId) {
-        sql += ' AND session_id = ?';
-        params.push(sessionId as InValue);
+      this.logger.database.info('Branch switched', { sessionId, messageId, leafId });
+      return { data: this.buildPath(messages, leafId), success: true };
+    } catch (error) {
+      this.logger.database.error('Failed to switch branch', {
+        error: error instanceof Error ? error.message : error,
+        sessionId,
+        messageId
+      });
+      return {
+        data: { messages: [], siblings: {} },
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async searchMessages(query: SearchMessagesQuery): Promise<DatabaseResult<MessageSearchResult[]>> {
+    this.logger.database.debug('Searching messages', {
+      sessionId: query.session_id,
+      role: query.role,
+      model: query.model,
+      limit: query.limit
+    });
+
+    try {
+      // Security: Quote every term so user input cannot use FTS5 query syntax
+      const matchQuery = buildFtsMatchQuery(query.query);
+      if (!matchQuery) {
+        return { data: [], success: true };
       }
 
-      sql += ' ORDER BY created_at DESC LIMIT ?';
-      params.push(limit as InValue);
+      let sql = `SELECT m.*,
+          snippet(messages_fts, 0, '<mark>', '</mark>', '…', 16) AS snippet,
+          bm25(messages_fts) AS rank,
+          s.title AS session_title,
+          s.model AS session_model
+        FROM messages_fts
+        JOIN messages m ON m.rowid = messages_fts.rowid
+        JOIN chat_sessions s ON s.id = m.session_id
+        WHERE messages_fts MATCH ?`;
+      const params: InValue[] = [matchQuery as InValue];
+
+      if (query.session_id) {
+        sql += ' AND m.session_id = ?';
+        params.push(query.session_id as InValue);
+      }
+
+      if (query.role) {
+        sql += ' AND m.role = ?';
+        params.push(query.role as InValue);
+      }
+
+      if (query.model) {
+        sql += ' AND m.model = ?';
+        params.push(query.model as InValue);
+      }
+
+      if (query.date_from !== undefined) {
+        sql += ' AND m.created_at >= ?';
+        params.push(query.date_from as InValue);
+      }
+
+      if (query.date_to !== undefined) {
+        sql += ' AND m.created_at <= ?';
+        params.push(query.date_to as InValue);
+      }
+
+      sql += ' ORDER BY rank, m.created_at DESC LIMIT ? OFFSET ?';
+      params.push(validateLimit(query.limit ?? 50, 200) as InValue, validateOffset(query.offset) as InValue);
 
       const result = await databaseService.execute(sql, params);
-      
-      const messages: Message[] = result.rows.map(row => ({
-        id: row[0] as string,
-        session_id: row[1] as string,
-        role: row[2] as 'user' | 'assistant' | 'system',
-        content: row[3] as string,
-        tool_calls: row[4] as string,
-        created_at: row[5] as number
+
+      const results: MessageSearchResult[] = result.rows.map(row => ({
+        ...this.mapMessageRow(row),
+        snippet: row.snippet as string,
+        rank: row.rank as number,
+        session_title: row.session_title as string | null,
+        session_model: row.session_model as string
       }));
 
-      this.logger.database.debug('Search completed', { found: messages.length, query: searchQuery });
-      return { data: messages, success: true };
+      this.logger.database.debug('Search completed', { found: results.length });
+      return { data: results, success: true };
     } catch (error) {
-      this.logger.database.error('Failed to search messages', { 
-        error: error instanceof Error ? error.message : error, 
-        searchQuery, 
-        sessionId, 
-        limit 
+      this.logger.database.error('Failed to search messages', {
+        error: error instanceof Error ? error.message : error,
+        sessionId: query.session_id,
+        limit: query.limit
       });
-      return { 
-        data: [], 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
+      return {
+        data: [],
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
   }
 
+  /**
+   * Token usage and cost totals, grouped by local day, model and provider
+   */
+  async getUsageStats(query: UsageStatsQuery = {}): Promise<DatabaseResult<UsageStats>> {
+    try {
+      const conditions = ['input_tokens IS NOT NULL'];
+      const params: InValue[] = [];
+
+      if (query.date_from !== undefined) {
+        conditions.push('created_at >= ?');
+        params.push(query.date_from as InValue);
+      }
+
+      if (query.date_to !== undefined) {
+        conditions.push('created_at <= ?');
+        params.push(query.date_to as InValue);
+      }
+
+      if (query.session_id) {
+        conditions.push('session_id = ?');
+        params.push(query.session_id as InValue);
+      }
+
+      const where = conditions.join(' AND ');
+      const aggregates = `COUNT(*) AS messages,
+          COALESCE(SUM(input_tokens), 0) AS input_tokens,
+          COALESCE(SUM(output_tokens), 0) AS output_tokens,
+          COALESCE(SUM(reasoning_tokens), 0) AS reasoning_tokens,
+          COALESCE(SUM(cost), 0) AS cost,
+          SUM(CASE WHEN cost IS NULL THEN 1 ELSE 0 END) AS unpriced`;
+
+      const groupBy = (keyExpression: string, orderBy: string) =>
+        databaseService.execute(
+          `SELECT ${keyExpression} AS key, ${aggregates}
+           FROM messages WHERE ${where}
+           GROUP BY key ORDER BY ${orderBy}`,
+          params
+        );
+
+      const [totalsResult, byDay, byModel, byProvider, bySession] = await Promise.all([
+        databaseService.execute(`SELECT ${aggregates} FROM messages WHERE ${where}`, params),
+        groupBy(`strftime('%Y-%m-%d', created_at / 1000, 'unixepoch', 'localtime')`, 'key ASC'),
+        groupBy(`COALESCE(model, 'unknown')`, 'cost DESC, input_tokens + output_tokens DESC'),
+        groupBy(`COALESCE(provider, 'unknown')`, 'cost DESC, input_tokens + output_tokens DESC'),
+        databaseService.execute(
+          `SELECT session_id AS key, ${aggregates},
+             (SELECT title FROM chat_sessions WHERE chat_sessions.id = messages.session_id) AS label
+           FROM messages WHERE ${where}
+           GROUP BY key ORDER BY cost DESC, input_tokens + output_tokens DESC
+           LIMIT ${MAX_USAGE_SESSIONS}`,
+          params
+        )
+      ]);
+
+      const stats: UsageStats = {
+        totals: this.mapUsageTotals(totalsResult.rows[0]),
+        by_day: byDay.rows.map(row => this.mapUsageBreakdown(row)),
+        by_model: byModel.rows.map(row => this.mapUsageBreakdown(row)),
+        by_provider: byProvider.rows.map(row => this.mapUsageBreakdown(row)),
+        by_session: bySession.rows.map(row => ({
+          ...this.mapUsageBreakdown(row),
+          label: (row.label as string | null) ?? undefined
+        }))
+      };
+
+      return { data: stats, success: true };
+    } catch (error) {
+      this.logger.database.error('Failed to get usage stats', {
+        error: error instanceof Error ? error.message : error,
+        query
+      });
+      const empty: UsageTotals = {
+        messages: 0, input_tokens: 0, output_tokens: 0, reasoning_tokens: 0, cost: 0, unpriced: 0
+      };
+      return {
+        data: { totals: empty, by_day: [], by_model: [], by_provider: [], by_session: [] },
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // Branch helpers
+  private async getActiveLeafId(sessionId: string): Promise<string | null> {
+    const result = await databaseService.execute(
+      'SELECT active_leaf_id FROM chat_sessions WHERE id = ?',
+      [sessionId as InValue]
+    );
+    return (result.rows[0]?.[0] as string | null) ?? null;
+  }
+
+  private async getAllSessionMessages(sessionId: string): Promise<Message[]> {
+    const result = await databaseService.execute(
+      'SELECT * FROM messages WHERE session_id = ? ORDER BY created_at ASC, rowid ASC',
+      [sessionId as InValue]
+    );
+    return result.rows.map(row => this.mapMessageRow(row));
+  }
+
+  /**
+   * Follow the most recent child from a message down to the end of its branch
+   */
+  private findLatestLeaf(messages: Message[], fromId: string | null): string | null {
+    const children = this.groupByParent(messages);
+    const visited = new Set<string>();
+    let current = fromId;
+
+    while (true) {
+      const next = children.get(current ?? null);
+      if (!next || next.length === 0 || (current && visited.has(current))) {
+        return current;
+      }
+      if (current) visited.add(current);
+      current = next[next.length - 1].id;
+    }
+  }
+
+  /**
+   * Walk up from the leaf to the root. Falls back to the latest branch when the
+   * stored leaf is missing (e.g. sessions created before branches existed).
+   */
+  private buildPath(messages: Message[], leafId: string | null): MessagePath {
+    const byId = new Map(messages.map(message => [message.id, message]));
+    const resolvedLeafId = leafId && byId.has(leafId) ? leafId : this.findLatestLeaf(messages, null);
+
+    const path: Message[] = [];
+    const visited = new Set<string>();
+    let current = resolvedLeafId ? byId.get(resolvedLeafId) : undefined;
+
+    while (current && !visited.has(current.id)) {
+      visited.add(current.id);
+      path.unshift(current);
+      current = current.parent_id ? byId.get(current.parent_id) : undefined;
+    }
+
+    const children = this.groupByParent(messages);
+    const siblings: Record<string, string[]> = {};
+    for (const message of path) {
+      const group = children.get(message.parent_id ?? null) || [];
+      if (group.length > 1) {
+        siblings[message.id] = group.map(sibling => sibling.id);
+      }
+    }
+
+    return { messages: path, siblings };
+  }
+
+  // Children per parent id (null for first messages), oldest first
+  private groupByParent(messages: Message[]): Map<string | null, Message[]> {
+    const children = new Map<string | null, Message[]>();
+    for (const message of messages) {
+      const key = message.parent_id ?? null;
+      const group = children.get(key);
+      if (group) {
+        group.push(message);
+      } else {
+        children.set(key, [message]);
+      }
+    }
+    return children;
+  }
+
+  // Row mapping (columns are positional: SELECT * follows the migration order)
+  private mapSessionRow(row: Row): ChatSession {
+    return {
+      id: row[0] as string,
+      title: row[1] as string,
+      model: row[2] as string,
+      folder_id: row[3] as string,
+      created_at: row[4] as number,
+      updated_at: row[5] as number,
+      active_leaf_id: row[6] as string | null,
+      pinned: Boolean(row[7]),
+      tags: row[8] ? JSON.parse(row[8] as string) : [],
+      context_summary: (row[9] as string | null) ?? null,
+      context_summary_until: (row[10] as string | null) ?? null,
+      agent_id: (row[11] as string | null) ?? null,
+      generation_params: this.normalizeGenerationParams({
+        temperature: (row[12] as number | null) ?? undefined,
+        maxOutputTokens: (row[13] as number | null) ?? undefined,
+        topP: (row[14] as number | null) ?? undefined,
+        seed: (row[15] as number | null) ?? undefined,
+        stopSequences: row[16] ? JSON.parse(row[16] as string) : undefined,
+        providerOptions: row[17] ? JSON.parse(row[17] as string) : undefined
+      })
+    };
+  }
+
+  private mapFolderRow(row: Row): Folder {
+    return {
+      id: row[0] as string,
+      name: row[1] as string,
+      position: row[2] as number,
+      created_at: row[3] as number,
+      updated_at: row[4] as number
+    };
+  }
+
+  private mapMessageRow(row: Row): Message {
+    return {
+      id: row[0] as string,
+      session_id: row[1] as string,
+      role: row[2] as 'user' | 'assistant' | 'system',
+      content: row[3] as string,
+      tool_calls: row[4] as string,
+      created_at: row[5] as number,
+      attachments: row[6] as string | null,
+      parent_id: row[7] as string | null,
+      usage: this.mapUsageColumns(row),
+      reasoning: (row[15] as string | null) ?? null,
+      sources: (row[16] as string | null) ?? null
+    };
+  }
+
+  // Columns 8-14 hold token usage; messages without usage (user messages, older answers) get null
+  private mapUsageColumns(row: Row): MessageUsage | null {
+    if (row[10] === null && row[11] === null) {
+      return null;
+    }
+
+    return {
+      model: row[8] as string,
+      provider: row[9] as string | null,
+      input_tokens: (row[10] as number) ?? 0,
+      output_tokens: (row[11] as number) ?? 0,
+      reasoning_tokens: (row[12] as number) ?? 0,
+      cached_input_tokens: (row[13] as number) ?? 0,
+      cost: row[14] as number | null
+    };
+  }
+
+  private mapUsageTotals(row: Row | undefined): UsageTotals {
+    return {
+      messages: Number(row?.messages ?? 0),
+      input_tokens: Number(row?.input_tokens ?? 0),
+      output_tokens: Number(row?.output_tokens ?? 0),
+      reasoning_tokens: Number(row?.reasoning_tokens ?? 0),
+      cost: Number(row?.cost ?? 0),
+      unpriced: Number(row?.unpriced ?? 0)
+    };
+  }
+
+  private mapUsageBreakdown(row: Row): UsageBreakdown {
+    return { key: row.key as string, ...this.mapUsageTotals(row) };
+  }
+
   // Utility methods
+  private normalizeTags(tags: string[]): string[] {
+    const normalized = tags.map(tag => tag.trim()).filter(tag => tag.length > 0);
+    return Array.from(new Set(normalized));
+  }
+
+  /**
+   * Drop unset and invalid parameters; null when nothing is left
+   */
+  private normalizeGenerationParams(params?: GenerationParams | null): GenerationParams | null {
+    if (!params) return null;
+
+    const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+    const normalized: GenerationParams = {};
+
+    if (isNumber(params.temperature)) normalized.temperature = params.temperature;
+    if (isNumber(params.maxOutputTokens) && params.maxOutputTokens > 0) {
+      normalized.maxOutputTokens = Math.floor(params.maxOutputTokens);
+    }
+    if (isNumber(params.topP)) normalized.topP = params.topP;
+    if (isNumber(params.seed)) normalized.seed = Math.floor(params.seed);
+
+    const stopSequences = Array.isArray(params.stopSequences)
+      ? params.stopSequences.filter((sequence) => typeof sequence === 'string' && sequence.length > 0)
+      : [];
+    if (stopSequences.length > 0) normalized.stopSequences = stopSequences;
+
+    if (
+      params.providerOptions &&
+      typeof params.providerOptions === 'object' &&
+      Object.keys(params.providerOptions).length > 0
+    ) {
+      normalized.providerOptions = params.providerOptions;
+    }
+
+    return Object.keys(normalized).length > 0 ? normalized : null;
+  }
+
+  // Values for GENERATION_PARAM_COLUMNS, in the same order
+  private generationParamsColumns(params?: GenerationParams | null): InValue[] {
+    return [
+      params?.temperature ?? null,
+      params?.maxOutputTokens ?? null,
+      params?.topP ?? null,
+      params?.seed ?? null,
+      params?.stopSequences ? JSON.stringify(params.stopSequences) : null,
+      params?.providerOptions ? JSON.stringify(params.providerOptions) : null
+    ];
+  }
+
   private generateId(): string {
     return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
   }
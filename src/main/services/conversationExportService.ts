@@ -0,0 +1,635 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { app, BrowserWindow, dialog } from 'electron';
+import type { ChatSession, Folder, MessageAttachment, MessageReasoning, MessageSource } from '../../types/database';
+import type {
+  ConversationExportFile,
+  ConversationExportFormat,
+  ConversationExportTarget,
+  ConversationImportResult,
+  ExportedAttachment,
+  ExportedMessage,
+  ExportedSession,
+} from '../../types/conversationExport';
+import { chatService } from './chatService';
+import { attachmentService } from './attachmentService';
+import { getLogger } from './logging';
+
+const MAX_FOLDER_SESSIONS = 1000;
+const MAX_IMPORT_SIZE = 200 * 1024 * 1024; // 200 MB
+
+const FILE_EXTENSIONS: Record<ConversationExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+};
+
+const FILE_FILTERS: Record<ConversationExportFormat, Electron.FileFilter> = {
+  markdown: { name: 'Markdown', extensions: ['md'] },
+  json: { name: 'JSON', extensions: ['json'] },
+  html: { name: 'HTML', extensions: ['html'] },
+};
+
+interface StoredToolCall {
+  id?: string;
+  name?: string;
+  arguments?: unknown;
+  result?: unknown;
+  status?: string;
+}
+
+export class ConversationExportService {
+  private logger = getLogger();
+
+  /**
+   * Ask for a destination and write a session or folder in the given format.
+   * Returns the written path, or null when the user cancels the dialog.
+   */
+  async exportToFile(
+    target: ConversationExportTarget,
+    format: ConversationExportFormat,
+    window?: BrowserWindow | null
+  ): Promise<string | null> {
+    const file = await this.buildExport(target, format !== 'markdown');
+    const title = file.folder?.name || file.sessions[0]?.title || 'conversation';
+
+    const options: Electron.SaveDialogOptions = {
+      defaultPath: `${this.sanitizeFilename(title)}.${FILE_EXTENSIONS[format]}`,
+      filters: [FILE_FILTERS[format]],
+    };
+    const result = window
+      ? await dialog.showSaveDialog(window, options)
+      : await dialog.showSaveDialog(options);
+
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    await fs.writeFile(result.filePath, this.render(file, format), 'utf-8');
+
+    this.logger.core.info('Conversations exported', {
+      target: target.type,
+      format,
+      sessionCount: file.sessions.length,
+    });
+
+    return result.filePath;
+  }
+
+  /**
+   * Ask for a JSON export and recreate its sessions.
+   * Returns null when the user cancels the dialog.
+   */
+  async importFromFile(window?: BrowserWindow | null): Promise<ConversationImportResult | null> {
+    const options: Electron.OpenDialogOptions = {
+      properties: ['openFile'],
+      filters: [FILE_FILTERS.json],
+    };
+    const result = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+
+    const filePath = result.filePaths[0];
+    const stats = await fs.stat(filePath);
+    if (stats.size > MAX_IMPORT_SIZE) {
+      throw new Error(`File is too large (max ${MAX_IMPORT_SIZE / (1024 * 1024)} MB)`);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+
+    return this.importData(data);
+  }
+
+  /**
+   * Recreate the sessions of an export through chatService. New ids are
+   * generated so importing the same file twice never collides. A failed
+   * import removes what it created, so no half-imported chats are left.
+   */
+  async importData(data: unknown): Promise<ConversationImportResult> {
+    const file = this.validateExportFile(data);
+
+    let folder: Folder | null = null;
+    if (file.folder?.name) {
+      const folderResult = await chatService.createFolder({ name: file.folder.name });
+      if (!folderResult.success) {
+        throw new Error(folderResult.error || 'Failed to create folder');
+      }
+      folder = folderResult.data;
+    }
+
+    const sessions: ChatSession[] = [];
+    const createdSessionIds: string[] = [];
+    try {
+      for (const exported of file.sessions) {
+        sessions.push(await this.importSession(exported, folder?.id ?? null, createdSessionIds));
+      }
+    } catch (error) {
+      await this.rollbackImport(createdSessionIds, folder);
+      throw error;
+    }
+
+    this.logger.core.info('Conversations imported', {
+      sessionCount: sessions.length,
+      messageCount: file.sessions.reduce((total, s) => total + s.messages.length, 0),
+      folder: folder?.name,
+    });
+
+    return { sessions, folder };
+  }
+
+  private async importSession(
+    exported: ExportedSession,
+    folderId: string | null,
+    createdSessionIds: string[]
+  ): Promise<ChatSession> {
+    const sessionResult = await chatService.createSession({
+      title: exported.title,
+      model: exported.model,
+      folder_id: folderId,
+      created_at: exported.created_at,
+    });
+    if (!sessionResult.success) {
+      throw new Error(sessionResult.error || 'Failed to create session');
+    }
+    const sessionId = sessionResult.data.id;
+    createdSessionIds.push(sessionId);
+
+    // Old id -> new id, so parent links and the active branch survive the import
+    const idMap = new Map<string, string>();
+
+    for (const message of exported.messages) {
+      const attachments: MessageAttachment[] = [];
+      for (const attachment of message.attachments) {
+        if (!attachment.data) continue;
+        attachments.push(
+          await attachmentService.saveAttachment(sessionId, {
+            filename: attachment.filename,
+            mediaType: attachment.mediaType,
+            data: attachment.data,
+          })
+        );
+      }
+
+      const messageResult = await chatService.createMessage({
+        session_id: sessionId,
+        role: message.role,
+        content: message.content,
+        tool_calls: message.tool_calls,
+        attachments,
+        parent_id: message.parent_id ? idMap.get(message.parent_id) ?? null : null,
+        created_at: message.created_at,
+        usage: message.usage ?? null,
+        reasoning: message.reasoning ?? null,
+        sources: message.sources ?? null,
+      });
+      if (!messageResult.success) {
+        throw new Error(messageResult.error || 'Failed to create message');
+      }
+      idMap.set(message.id, messageResult.data.id);
+    }
+
+    const activeLeafId = exported.active_leaf_id ? idMap.get(exported.active_leaf_id) : undefined;
+    if (activeLeafId) {
+      await chatService.switchBranch(sessionId, activeLeafId);
+    }
+
+    if (exported.pinned || exported.tags.length > 0) {
+      await chatService.updateSession({ id: sessionId, pinned: exported.pinned, tags: exported.tags });
+    }
+
+    const imported = await chatService.getSession(sessionId);
+    return imported.data ?? sessionResult.data;
+  }
+
+  private async rollbackImport(sessionIds: string[], folder: Folder | null): Promise<void> {
+    // Deleting a session also removes its attachment files
+    for (const sessionId of sessionIds) {
+      const result = await chatService.deleteSession(sessionId);
+      if (!result.success) {
+        this.logger.core.warn('Failed to remove partially imported session', { sessionId, error: result.error });
+      }
+    }
+
+    if (folder) {
+      const result = await chatService.deleteFolder(folder.id);
+      if (!result.success) {
+        this.logger.core.warn('Failed to remove imported folder', { folderId: folder.id, error: result.error });
+      }
+    }
+
+    this.logger.core.info('Rolled back failed import', {
+      sessionCount: sessionIds.length,
+      folder: folder?.name,
+    });
+  }
+
+  /**
+   * Collect a session, or every session of a folder, in the lossless format
+   */
+  private async buildExport(
+    target: ConversationExportTarget,
+    includeAttachmentData: boolean
+  ): Promise<ConversationExportFile> {
+    let sessions: ChatSession[];
+    let folder: { name: string } | undefined;
+
+    if (target.type === 'folder') {
+      const foldersResult = await chatService.getFolders();
+      const found = foldersResult.data.find((f) => f.id === target.id);
+      if (!found) {
+        throw new Error('Folder not found');
+      }
+      folder = { name: found.name };
+
+      const sessionsResult = await chatService.getSessions({
+        folder_id: target.id,
+        limit: MAX_FOLDER_SESSIONS,
+      });
+      if (!sessionsResult.success) {
+        throw new Error(sessionsResult.error || 'Failed to load folder sessions');
+      }
+      sessions = sessionsResult.data.items;
+    } else {
+      const sessionResult = await chatService.getSession(target.id);
+      if (!sessionResult.data) {
+        throw new Error('Session not found');
+      }
+      sessions = [sessionResult.data];
+    }
+
+    const exportedSessions: ExportedSession[] = [];
+    for (const session of sessions) {
+      exportedSessions.push(await this.exportSession(session, includeAttachmentData));
+    }
+
+    return {
+      format: 'levante-conversations',
+      version: 1,
+      exported_at: Date.now(),
+      app_version: app.getVersion(),
+      ...(folder && { folder }),
+      sessions: exportedSessions,
+    };
+  }
+
+  private async exportSession(
+    session: ChatSession,
+    includeAttachmentData: boolean
+  ): Promise<ExportedSession> {
+    const messagesResult = await chatService.getMessageTree(session.id);
+    if (!messagesResult.success) {
+      throw new Error(messagesResult.error || 'Failed to load messages');
+    }
+
+    const messages: ExportedMessage[] = [];
+    for (const message of messagesResult.data) {
+      const attachments: ExportedAttachment[] = [];
+      for (const attachment of this.parseJsonArray<MessageAttachment>(message.attachments)) {
+        attachments.push(
+          includeAttachmentData ? await this.withAttachmentData(attachment) : attachment
+        );
+      }
+
+      messages.push({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        tool_calls: message.tool_calls ? this.parseJsonArray<object>(message.tool_calls) : null,
+        attachments,
+        parent_id: message.parent_id ?? null,
+        created_at: message.created_at,
+        usage: message.usage ?? null,
+        reasoning: message.reasoning ? this.parseJsonArray<MessageReasoning>(message.reasoning) : null,
+        sources: message.sources ? this.parseJsonArray<MessageSource>(message.sources) : null,
+      });
+    }
+
+    return {
+      id: session.id,
+      title: session.title,
+      model: session.model,
+      created_at: session.created_at,
+      updated_at: session.updated_at,
+      pinned: !!session.pinned,
+      tags: session.tags ?? [],
+      active_leaf_id: session.active_leaf_id ?? null,
+      messages,
+    };
+  }
+
+  private async withAttachmentData(attachment: MessageAttachment): Promise<ExportedAttachment> {
+    try {
+      return { ...attachment, data: await attachmentService.readAttachment(attachment) };
+    } catch (error) {
+      this.logger.core.warn('Attachment missing from export', {
+        attachmentId: attachment.id,
+        error: error instanceof Error ? error.message : error,
+      });
+      return attachment;
+    }
+  }
+
+  private validateExportFile(data: unknown): ConversationExportFile {
+    const file = data as Partial<ConversationExportFile> | null;
+
+    if (!file || typeof file !== 'object' || file.format !== 'levante-conversations') {
+      throw new Error('Not a Levante conversation export');
+    }
+    if (file.version !== 1) {
+      throw new Error(`Unsupported export version: ${String(file.version)}`);
+    }
+    if (!Array.isArray(file.sessions)) {
+      throw new Error('Export has no sessions');
+    }
+
+    const roles = ['user', 'assistant', 'system'];
+    for (const session of file.sessions) {
+      if (!session || typeof session.model !== 'string' || !Array.isArray(session.messages)) {
+        throw new Error('Export contains an invalid session');
+      }
+      session.tags = Array.isArray(session.tags) ? session.tags.filter((t) => typeof t === 'string') : [];
+      session.pinned = !!session.pinned;
+
+      for (const message of session.messages) {
+        if (
+          !message ||
+          typeof message.id !== 'string' ||
+          !roles.includes(message.role) ||
+          typeof message.content !== 'string'
+        ) {
+          throw new Error('Export contains an invalid message');
+        }
+        message.attachments = Array.isArray(message.attachments) ? message.attachments : [];
+        for (const attachment of message.attachments) {
+          if (
+            !attachment ||
+            typeof attachment.filename !== 'string' ||
+            typeof attachment.mediaType !== 'string' ||
+            (attachment.data !== undefined && typeof attachment.data !== 'string')
+          ) {
+            throw new Error('Export contains an invalid attachment');
+          }
+        }
+        message.tool_calls = Array.isArray(message.tool_calls) ? message.tool_calls : null;
+        if (typeof message.created_at !== 'number') {
+          message.created_at = Date.now();
+        }
+        if (!message.usage || typeof message.usage !== 'object' || typeof message.usage.model !== 'string') {
+          message.usage = null;
+        }
+        message.reasoning = Array.isArray(message.reasoning)
+          ? message.reasoning.filter((block) => block && typeof block.text === 'string')
+          : null;
+        message.sources = Array.isArray(message.sources)
+          ? message.sources.filter((source) => source && typeof source.url === 'string')
+          : null;
+      }
+    }
+
+    return file as ConversationExportFile;
+  }
+
+  private render(file: ConversationExportFile, format: ConversationExportFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(file, null, 2);
+      case 'html':
+        return this.renderHtml(file);
+      case 'markdown':
+        return this.renderMarkdown(file);
+    }
+  }
+
+  // Markdown and HTML show the branch being shown, like the chat view does
+  private getActiveBranch(session: ExportedSession): ExportedMessage[] {
+    const byId = new Map(session.messages.map((m) => [m.id, m]));
+    const leafId = session.active_leaf_id ?? session.messages[session.messages.length - 1]?.id;
+    const branch: ExportedMessage[] = [];
+    const seen = new Set<string>();
+
+    let current = leafId ? byId.get(leafId) : undefined;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      branch.unshift(current);
+      current = current.parent_id ? byId.get(current.parent_id) : undefined;
+    }
+
+    return branch;
+  }
+
+  private renderMarkdown(file: ConversationExportFile): string {
+    const lines: string[] = [];
+    // A folder export nests every session one heading level deeper
+    const h = file.folder ? '##' : '#';
+
+    if (file.folder) {
+      lines.push(`# ${file.folder.name}`, '');
+    }
+
+    for (const session of file.sessions) {
+      lines.push(`${h} ${session.title || 'Untitled Chat'}`, '');
+      lines.push(`- **Model:** ${session.model}`);
+      lines.push(`- **Created:** ${new Date(session.created_at).toISOString()}`);
+      if (session.tags.length > 0) {
+        lines.push(`- **Tags:** ${session.tags.join(', ')}`);
+      }
+      lines.push('');
+
+      for (const message of this.getActiveBranch(session)) {
+        lines.push('---', '');
+        lines.push(`${h}## ${this.roleLabel(message.role)}`, '');
+
+        for (const block of message.reasoning ?? []) {
+          lines.push('<details>', '<summary>Reasoning</summary>', '', block.text, '', '</details>', '');
+        }
+
+        if (message.content) {
+          lines.push(message.content, '');
+        }
+
+        if (message.sources?.length) {
+          lines.push('**Sources**', '');
+          message.sources.forEach((source, index) => {
+            lines.push(`${index + 1}. [${source.title || source.url}](${source.url})`);
+          });
+          lines.push('');
+        }
+
+        for (const attachment of message.attachments) {
+          lines.push(`- 📎 ${attachment.filename} (${attachment.mediaType})`);
+        }
+        if (message.attachments.length > 0) {
+          lines.push('');
+        }
+
+        for (const toolCall of (message.tool_calls ?? []) as StoredToolCall[]) {
+          lines.push('<details>');
+          lines.push(`<summary>Tool: ${toolCall.name ?? 'unknown'}${toolCall.status ? ` (${toolCall.status})` : ''}</summary>`, '');
+          lines.push('**Arguments**', '', this.codeBlock(this.stringify(toolCall.arguments), 'json'), '');
+          if (toolCall.result !== undefined) {
+            lines.push('**Result**', '', this.codeBlock(this.stringify(toolCall.result), 'json'), '');
+          }
+          lines.push('</details>', '');
+        }
+      }
+
+      lines.push('');
+    }
+
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+  }
+
+  private renderHtml(file: ConversationExportFile): string {
+    const esc = (value: string) =>
+      value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+    const title = file.folder?.name || file.sessions[0]?.title || 'Conversation';
+
+    const sections = file.sessions.map((session) => {
+      const messages = this.getActiveBranch(session).map((message) => {
+        const attachments = message.attachments
+          .map((attachment) => {
+            if (attachment.data && attachment.mediaType.startsWith('image/')) {
+              return `<img src="data:${esc(attachment.mediaType)};base64,${attachment.data}" alt="${esc(attachment.filename)}">`;
+            }
+            if (attachment.data) {
+              return `<a class="file" download="${esc(attachment.filename)}" href="data:${esc(attachment.mediaType)};base64,${attachment.data}">📎 ${esc(attachment.filename)}</a>`;
+            }
+            return `<span class="file">📎 ${esc(attachment.filename)}</span>`;
+          })
+          .join('');
+
+        const reasoning = (message.reasoning ?? [])
+          .map((block) => `
+      <details class="reasoning">
+        <summary>Reasoning</summary>
+        <div class="content">${esc(block.text)}</div>
+      </details>`)
+          .join('');
+
+        // Only web links become anchors, so a crafted export cannot run script
+        const sources = message.sources?.length
+          ? `
+      <div class="sources">
+        <h4>Sources</h4>
+        <ol>${message.sources
+          .map((source) => {
+            const label = esc(source.title || source.url);
+            return /^https?:\/\//i.test(source.url)
+              ? `<li><a href="${esc(source.url)}" rel="noopener noreferrer">${label}</a></li>`
+              : `<li>${label}</li>`;
+          })
+          .join('')}</ol>
+      </div>`
+          : '';
+
+        const toolCalls = ((message.tool_calls ?? []) as StoredToolCall[])
+          .map((toolCall) => `
+      <details class="tool">
+        <summary>Tool: ${esc(toolCall.name ?? 'unknown')}${toolCall.status ? ` (${esc(toolCall.status)})` : ''}</summary>
+        <h4>Arguments</h4>
+        <pre>${esc(this.stringify(toolCall.arguments))}</pre>
+        ${toolCall.result !== undefined ? `<h4>Result</h4>\n        <pre>${esc(this.stringify(toolCall.result))}</pre>` : ''}
+      </details>`)
+          .join('');
+
+        return `
+    <article class="message ${message.role}">
+      <header>${this.roleLabel(message.role)} <time>${new Date(message.created_at).toLocaleString()}</time></header>${reasoning}
+      ${message.content ? `<div class="content">${esc(message.content)}</div>` : ''}${sources}
+      ${attachments ? `<div class="attachments">${attachments}</div>` : ''}${toolCalls}
+    </article>`;
+      });
+
+      const tags = session.tags.length > 0 ? ` · ${esc(session.tags.join(', '))}` : '';
+
+      return `
+  <section>
+    <h2>${esc(session.title || 'Untitled Chat')}</h2>
+    <p class="meta">${esc(session.model)} · ${new Date(session.created_at).toLocaleString()}${tags}</p>${messages.join('')}
+  </section>`;
+    });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="generator" content="Levante ${esc(file.app_version)}">
+  <title>${esc(title)}</title>
+  <style>
+    :root { color-scheme: light dark; --border: #d4d4d8; --muted: #71717a; --user: #f4f4f5; }
+    @media (prefers-color-scheme: dark) { :root { --border: #3f3f46; --muted: #a1a1aa; --user: #27272a; } }
+    body { font-family: system-ui, -apple-system, sans-serif; line-height: 1.55; max-width: 820px; margin: 0 auto; padding: 2rem 1rem; }
+    h1 { font-size: 1.6rem; }
+    section { margin-bottom: 3rem; }
+    .meta, time { color: var(--muted); font-size: 0.85rem; }
+    .message { border-top: 1px solid var(--border); padding: 1rem 0; }
+    .message.user .content { background: var(--user); border-radius: 0.75rem; padding: 0.75rem 1rem; }
+    .message header { font-weight: 600; margin-bottom: 0.5rem; }
+    .content { white-space: pre-wrap; word-wrap: break-word; }
+    .attachments img { max-width: 100%; border-radius: 0.5rem; margin-top: 0.5rem; }
+    .file { display: inline-block; margin: 0.5rem 0.5rem 0 0; }
+    .tool { border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.5rem 0.75rem; margin-top: 0.75rem; }
+    .tool summary { cursor: pointer; font-family: ui-monospace, monospace; font-size: 0.9rem; }
+    .tool h4, .sources h4 { margin: 0.75rem 0 0.25rem; font-size: 0.8rem; color: var(--muted); }
+    .reasoning { color: var(--muted); margin-bottom: 0.75rem; }
+    .reasoning summary { cursor: pointer; font-size: 0.9rem; }
+    .reasoning .content { border-left: 2px solid var(--border); padding-left: 0.75rem; margin-top: 0.5rem; font-size: 0.9rem; }
+    .sources ol { margin: 0; padding-left: 1.5rem; font-size: 0.9rem; }
+    pre { overflow-x: auto; font-size: 0.8rem; margin: 0; white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  ${file.folder ? `<h1>${esc(file.folder.name)}</h1>` : ''}${sections.join('')}
+</body>
+</html>
+`;
+  }
+
+  private roleLabel(role: ExportedMessage['role']): string {
+    return role === 'user' ? 'User' : role === 'assistant' ? 'Assistant' : 'System';
+  }
+
+  private stringify(value: unknown): string {
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value ?? {}, null, 2);
+  }
+
+  // Use a fence longer than any backtick run in the content
+  private codeBlock(content: string, language: string): string {
+    const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    return `${fence}${language}\n${content}\n${fence}`;
+  }
+
+  private parseJsonArray<T>(value: string | null | undefined): T[] {
+    if (!value) return [];
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private sanitizeFilename(name: string): string {
+    const cleaned = name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '').trim().slice(0, 100);
+    return path.basename(cleaned) || 'conversation';
+  }
+}
+
+export const conversationExportService = new ConversationExportService();
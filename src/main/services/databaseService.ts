@@ -307,6 +307,174 @@ export class DatabaseService {
           // Re-enable foreign key constraints
           `PRAGMA foreign_keys = ON`
         ]
+      },
+      {
+        version: 3,
+        name: 'Add message attachments',
+        queries: [
+          // JSON array of attachment metadata; files live in ~/levante/attachments
+          `ALTER TABLE messages ADD COLUMN attachments TEXT`
+        ]
+      },
+      {
+        version: 4,
+        name: 'Full-text search over messages',
+        queries: [
+          // External-content FTS5 index: stores only the index, content stays in messages
+          `CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+            content,
+            content='messages',
+            content_rowid='rowid',
+            tokenize='unicode61 remove_diacritics 2'
+          )`,
+
+          // Keep the index in sync with the messages table
+          `CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+            INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+          END`,
+
+          `CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+            INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+          END`,
+
+          `CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+            INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+            INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+          END`,
+
+          // Index existing history
+          `INSERT INTO messages_fts(messages_fts) VALUES ('rebuild')`,
+
+          // The B-tree index on content never helped LIKE '%...%' scans
+          `DROP INDEX IF EXISTS idx_messages_content_search`
+        ]
+      },
+      {
+        version: 5,
+        name: 'Conversation branches',
+        queries: [
+          // Messages form a tree: regenerating or editing adds a sibling instead of overwriting
+          `ALTER TABLE messages ADD COLUMN parent_id TEXT`,
+
+          // Last message of the branch currently shown for the session
+          `ALTER TABLE chat_sessions ADD COLUMN active_leaf_id TEXT`,
+
+          // Existing histories are linear: each message's parent is the one before it
+          `UPDATE messages SET parent_id = (
+            SELECT p.id FROM messages p
+            WHERE p.session_id = messages.session_id
+              AND (p.created_at < messages.created_at
+                OR (p.created_at = messages.created_at AND p.rowid < messages.rowid))
+            ORDER BY p.created_at DESC, p.rowid DESC
+            LIMIT 1
+          )`,
+
+          `UPDATE chat_sessions SET active_leaf_id = (
+            SELECT m.id FROM messages m
+            WHERE m.session_id = chat_sessions.id
+            ORDER BY m.created_at DESC, m.rowid DESC
+            LIMIT 1
+          )`,
+
+          `CREATE INDEX IF NOT EXISTS idx_messages_parent
+           ON messages(parent_id)`
+        ]
+      },
+      {
+        version: 6,
+        name: 'Folders, pinning and tags',
+        queries: [
+          // Folders referenced by chat_sessions.folder_id
+          `CREATE TABLE IF NOT EXISTS folders (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            position INTEGER NOT NULL DEFAULT 0,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL
+          )`,
+
+          `ALTER TABLE chat_sessions ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0`,
+
+          // JSON array of tag names
+          `ALTER TABLE chat_sessions ADD COLUMN tags TEXT`,
+
+          // folder_id was never set by the app, but clear any dangling values
+          `UPDATE chat_sessions SET folder_id = NULL
+           WHERE folder_id IS NOT NULL AND folder_id NOT IN (SELECT id FROM folders)`,
+
+          `CREATE INDEX IF NOT EXISTS idx_chat_sessions_folder
+           ON chat_sessions(folder_id)`
+        ]
+      },
+      {
+        version: 7,
+        name: 'Token usage per message',
+        queries: [
+          // Model and provider that produced the answer (the session model can change)
+          `ALTER TABLE messages ADD COLUMN model TEXT`,
+          `ALTER TABLE messages ADD COLUMN provider TEXT`,
+
+          `ALTER TABLE messages ADD COLUMN input_tokens INTEGER`,
+          `ALTER TABLE messages ADD COLUMN output_tokens INTEGER`,
+          `ALTER TABLE messages ADD COLUMN reasoning_tokens INTEGER`,
+          `ALTER TABLE messages ADD COLUMN cached_input_tokens INTEGER`,
+
+          // USD, NULL when the model has no pricing
+          `ALTER TABLE messages ADD COLUMN cost REAL`,
+
+          // Usage reports scan messages by date
+          `CREATE INDEX IF NOT EXISTS idx_messages_usage_created
+           ON messages(created_at) WHERE input_tokens IS NOT NULL`
+        ]
+      },
+      {
+        version: 8,
+        name: 'Rolling context summary on sessions',
+        queries: [
+          // Summary of older messages that no longer fit in the context window
+          `ALTER TABLE chat_sessions ADD COLUMN context_summary TEXT`,
+          // Id of the last message the summary covers
+          `ALTER TABLE chat_sessions ADD COLUMN context_summary_until TEXT`
+        ]
+      },
+      {
+        version: 9,
+        name: 'Agent bound to a session',
+        queries: [
+          // Agent id from agents.json; no foreign key since agents live outside the database
+          `ALTER TABLE chat_sessions ADD COLUMN agent_id TEXT`
+        ]
+      },
+      {
+        version: 10,
+        name: 'Reasoning output on messages',
+        queries: [
+          // JSON array of { text, durationMs } blocks; null for messages without thinking output
+          `ALTER TABLE messages ADD COLUMN reasoning TEXT`
+        ]
+      },
+      {
+        version: 11,
+        name: 'Web sources on messages',
+        queries: [
+          // JSON array of { url, title, snippet } in citation order; null for answers without sources
+          `ALTER TABLE messages ADD COLUMN sources TEXT`
+        ]
+      },
+      {
+        version: 12,
+        name: 'Generation parameters on chat sessions',
+        queries: [
+          // Null columns fall back to the agent, model and global defaults
+          `ALTER TABLE chat_sessions ADD COLUMN temperature REAL`,
+          `ALTER TABLE chat_sessions ADD COLUMN max_output_tokens INTEGER`,
+          `ALTER TABLE chat_sessions ADD COLUMN top_p REAL`,
+          `ALTER TABLE chat_sessions ADD COLUMN seed INTEGER`,
+          // JSON array of strings
+          `ALTER TABLE chat_sessions ADD COLUMN stop_sequences TEXT`,
+          // JSON object keyed by SDK provider name, e.g. { "openai": { ... } }
+          `ALTER TABLE chat_sessions ADD COLUMN provider_options TEXT`
+        ]
       }
     ];
   }
@@ -2,11 +2,12 @@ import { BrowserWindow } from 'electron';
 import type { MCPServerConfig } from '../types/mcp.js';
 import { getLogger } from './logging';
 import { validateMCPCommand } from './mcp/packageValidator';
+import { MAX_PROMPT_CONTENT_LENGTH, type CreatePromptTemplateInput } from '../../types/prompts';
 
 const logger = getLogger();
 
 export interface DeepLinkAction {
-  type: 'mcp-add' | 'chat-new';
+  type: 'mcp-add' | 'chat-new' | 'prompt-add';
   data: Record<string, unknown>;
 }
 
@@ -53,6 +54,8 @@ export class DeepLinkService {
         return this.parseMCPAddLink(params);
       } else if (category === 'chat' && action === 'new') {
         return this.parseChatNewLink(params);
+      } else if (category === 'prompt' && action === 'add') {
+        return this.parsePromptAddLink(params);
       }
 
       logger.core.warn('Unknown deep link action', { category, action });
@@ -234,6 +237,49 @@ export class DeepLinkService {
     };
   }
 
+  /**
+   * Parse prompt template sharing deep link
+   * Format: levante://prompt/add?name=Review&content=Review%20{{code}}&description=...&tags=a,b&model=openai/gpt-4o&mcp=true&webSearch=false
+   */
+  private parsePromptAddLink(params: Record<string, string>): DeepLinkAction | null {
+    const { name, content, description, tags, model, mcp, webSearch } = params;
+
+    if (!name || !content) {
+      logger.core.warn('Missing required parameters for prompt add', { params: Object.keys(params) });
+      return null;
+    }
+
+    if (content.length > MAX_PROMPT_CONTENT_LENGTH) {
+      logger.core.warn('Prompt content too long in deep link', { length: content.length });
+      return null;
+    }
+
+    // Booleans stay null when missing so inserting the prompt keeps the current toggles
+    const parseFlag = (value: string | undefined) =>
+      value === 'true' ? true : value === 'false' ? false : null;
+
+    const prompt: CreatePromptTemplateInput = {
+      name,
+      content,
+      description: description || undefined,
+      tags: tags ? tags.split(',').map((tag) => tag.trim()).filter(Boolean) : [],
+      defaultModel: model || null,
+      enableMCP: parseFlag(mcp),
+      webSearch: parseFlag(webSearch),
+    };
+
+    logger.core.info('Parsed prompt add deep link', {
+      name,
+      contentLength: content.length,
+      tagCount: prompt.tags?.length ?? 0
+    });
+
+    return {
+      type: 'prompt-add',
+      data: { prompt }
+    };
+  }
+
   /**
    * Handle a deep link action by sending it to the renderer
    */
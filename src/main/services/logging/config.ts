@@ -1,4 +1,4 @@
-import type { LoggerConfig, LogLevel } from "../../types/logger";
+import type { LoggerConfig, LogLevel, LogRotationConfig } from "../../types/logger";
 
 const LOG_LEVELS: Record<LogLevel, number> = {
   debug: 0,
@@ -7,6 +7,12 @@ const LOG_LEVELS: Record<LogLevel, number> = {
   error: 3,
 };
 
+const DEFAULT_ROTATION: LogRotationConfig = {
+  maxSizeMB: 10,
+  maxFiles: 5,
+  maxAgeDays: 14,
+};
+
 export class LoggerConfigService {
   private config: LoggerConfig;
   private isInitialized: boolean = false;
@@ -33,6 +39,7 @@ export class LoggerConfigService {
         console: true,
         file: true,
         filePath: "levante.log", // Will be resolved to ~/levante/levante.log
+        rotation: { ...DEFAULT_ROTATION },
       },
     };
   }
@@ -63,6 +70,11 @@ export class LoggerConfigService {
         console: true,
         file: this.parseBoolean(env.LOG_TO_FILE, true), // Default to true for testing
         filePath: env.LOG_FILE_PATH || "./logs/levante.log",
+        rotation: {
+          maxSizeMB: this.parseNumber(env.LOG_MAX_SIZE_MB, DEFAULT_ROTATION.maxSizeMB),
+          maxFiles: this.parseNumber(env.LOG_MAX_FILES, DEFAULT_ROTATION.maxFiles),
+          maxAgeDays: this.parseNumber(env.LOG_MAX_AGE_DAYS, DEFAULT_ROTATION.maxAgeDays),
+        },
       },
     };
   }
@@ -75,6 +87,12 @@ export class LoggerConfigService {
     return value.toLowerCase() === "true";
   }
 
+  private parseNumber(value: string | undefined, defaultValue: number): number {
+    if (value === undefined) return defaultValue;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : defaultValue;
+  }
+
   private parseLogLevel(
     value: string | undefined,
     defaultValue: LogLevel
@@ -93,7 +111,16 @@ export class LoggerConfigService {
   }
 
   public updateConfig(updates: Partial<LoggerConfig>): void {
-    this.config = { ...this.config, ...updates };
+    if (!this.isInitialized) {
+      this.initializeFromEnvironment();
+    }
+    // Categories and output are merged so a single category can be toggled
+    this.config = {
+      ...this.config,
+      ...updates,
+      categories: { ...this.config.categories, ...updates.categories },
+      output: { ...this.config.output, ...updates.output },
+    };
   }
 
   public isEnabled(): boolean {
@@ -1,11 +1,13 @@
 export { Logger, createLogger, getLogger, initializeLogger } from './logger';
 export { LoggerConfigService } from './config';
-export { ConsoleTransport, FileTransport } from './transports';
+export { ConsoleTransport, FileTransport, MemoryTransport } from './transports';
 export type {
   LogLevel,
   LogCategory,
   LogContext,
   LogEntry,
+  LogRecord,
+  LogRotationConfig,
   CategoryLogger,
   LoggerConfig,
   LogTransport,
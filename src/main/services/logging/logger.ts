@@ -6,10 +6,12 @@ import type {
   LogContext,
   LogEntry,
   LogTransport,
-  LoggerConfig
+  LoggerConfig,
+  LogRecord
 } from '../../types/logger';
 import { LoggerConfigService } from './config';
-import { ConsoleTransport, FileTransport } from './transports';
+import { ConsoleTransport, FileTransport, MemoryTransport } from './transports';
+import { redactSensitiveData } from '../../utils/sensitiveDataDetector';
 
 class CategoryLoggerImpl implements CategoryLogger {
   constructor(
@@ -37,6 +39,8 @@ class CategoryLoggerImpl implements CategoryLogger {
 export class Logger implements LoggerService {
   private configService: LoggerConfigService;
   private transports: LogTransport[] = [];
+  // Recent entries for the log viewer; kept across reconfiguration
+  private memoryTransport = new MemoryTransport();
 
   // Category loggers
   public readonly aiSdk: CategoryLogger;
@@ -69,8 +73,10 @@ export class Logger implements LoggerService {
     }
     
     if (config.output.file && config.output.filePath) {
-      this.transports.push(new FileTransport(config.output.filePath));
+      this.transports.push(new FileTransport(config.output.filePath, config.output.rotation));
     }
+
+    this.transports.push(this.memoryTransport);
   }
 
   public log(category: LogCategory, level: LogLevel, message: string, context?: LogContext): void {
@@ -82,8 +88,9 @@ export class Logger implements LoggerService {
       timestamp: new Date(),
       category,
       level,
-      message,
-      context,
+      // Keys and tokens must never reach the console, the log file or the viewer
+      message: redactSensitiveData(message),
+      context: context ? redactSensitiveData(context) : undefined,
     };
 
     for (const transport of this.transports) {
@@ -106,6 +113,24 @@ export class Logger implements LoggerService {
     this.transports = [];
     this.setupTransports();
   }
+
+  public getConfig(): LoggerConfig {
+    return this.configService.getConfig();
+  }
+
+  /**
+   * Most recent entries, oldest first
+   */
+  public getRecentEntries(): LogRecord[] {
+    return this.memoryTransport.getRecords();
+  }
+
+  /**
+   * Call listener with every entry written from now on
+   */
+  public subscribe(listener: (record: LogRecord) => void): () => void {
+    return this.memoryTransport.subscribe(listener);
+  }
 }
 
 // Singleton instance
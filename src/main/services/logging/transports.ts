@@ -1,4 +1,4 @@
-import type { LogTransport, LogEntry, LogLevel } from '../../types/logger';
+import type { LogTransport, LogEntry, LogLevel, LogRecord, LogRotationConfig } from '../../types/logger';
 import * as fs from 'fs';
 import * as path from 'path';
 import { directoryService } from '../directoryService';
@@ -89,14 +89,18 @@ export class ConsoleTransport implements LogTransport {
 
 export class FileTransport implements LogTransport {
   private readonly resolvedFilePath: string;
+  private currentSize = 0;
+  private currentDay = '';
 
-  constructor(private readonly filePath?: string) {
+  constructor(private readonly filePath?: string, private readonly rotation?: LogRotationConfig) {
     // Use DirectoryService for consistent path management
     this.resolvedFilePath = filePath 
       ? this.resolveFilePath(filePath)
       : directoryService.getLogsPath();
     
     this.ensureDirectoryExists();
+    this.loadFileState();
+    this.pruneRotatedFiles();
   }
 
   private resolveFilePath(filePath: string): string {
@@ -117,12 +121,31 @@ export class FileTransport implements LogTransport {
     }
   }
 
+  private loadFileState(): void {
+    try {
+      const stats = fs.statSync(this.resolvedFilePath);
+      this.currentSize = stats.size;
+      this.currentDay = this.formatDay(stats.mtime);
+    } catch {
+      // No log file yet
+      this.currentSize = 0;
+      this.currentDay = this.formatDay(new Date());
+    }
+  }
+
   write(entry: LogEntry): void {
     try {
-      const logLine = this.formatEntry(entry);
+      const logLine = this.formatEntry(entry) + '\n';
+      const lineSize = Buffer.byteLength(logLine, 'utf8');
+
+      if (this.shouldRotate(entry.timestamp, lineSize)) {
+        this.rotate();
+      }
       
       // Append to file synchronously (for simplicity and reliability)
-      fs.appendFileSync(this.resolvedFilePath, logLine + '\n', 'utf8');
+      fs.appendFileSync(this.resolvedFilePath, logLine, 'utf8');
+      this.currentSize += lineSize;
+      this.currentDay = this.formatDay(entry.timestamp);
     } catch (error) {
       // Fallback to console if file writing fails
       console.error('Failed to write to log file:', error);
@@ -131,6 +154,72 @@ export class FileTransport implements LogTransport {
     }
   }
 
+  private shouldRotate(timestamp: Date, lineSize: number): boolean {
+    if (!this.rotation || this.currentSize === 0) return false;
+
+    const maxBytes = this.rotation.maxSizeMB * 1024 * 1024;
+    return this.currentSize + lineSize > maxBytes || this.formatDay(timestamp) !== this.currentDay;
+  }
+
+  /**
+   * Shift levante.log to levante.log.1, levante.log.1 to levante.log.2 and so
+   * on, dropping the files past maxFiles
+   */
+  private rotate(): void {
+    const maxFiles = Math.max(1, this.rotation!.maxFiles);
+
+    try {
+      fs.rmSync(this.rotatedFilePath(maxFiles), { force: true });
+      for (let index = maxFiles - 1; index >= 1; index--) {
+        const source = this.rotatedFilePath(index);
+        if (fs.existsSync(source)) {
+          fs.renameSync(source, this.rotatedFilePath(index + 1));
+        }
+      }
+      fs.renameSync(this.resolvedFilePath, this.rotatedFilePath(1));
+    } catch (error) {
+      console.error('Failed to rotate log file:', error);
+    }
+
+    this.currentSize = 0;
+    this.pruneRotatedFiles();
+  }
+
+  /**
+   * Delete rotated files beyond maxFiles or older than maxAgeDays
+   */
+  private pruneRotatedFiles(): void {
+    if (!this.rotation) return;
+
+    const directory = path.dirname(this.resolvedFilePath);
+    const prefix = path.basename(this.resolvedFilePath) + '.';
+    const oldest = Date.now() - this.rotation.maxAgeDays * 24 * 60 * 60 * 1000;
+
+    try {
+      for (const name of fs.readdirSync(directory)) {
+        if (!name.startsWith(prefix)) continue;
+
+        const index = Number(name.slice(prefix.length));
+        if (!Number.isInteger(index) || index < 1) continue;
+
+        const filePath = path.join(directory, name);
+        if (index > this.rotation.maxFiles || fs.statSync(filePath).mtimeMs < oldest) {
+          fs.rmSync(filePath, { force: true });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to clean up rotated log files:', error);
+    }
+  }
+
+  private rotatedFilePath(index: number): string {
+    return `${this.resolvedFilePath}.${index}`;
+  }
+
+  private formatDay(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
   private formatEntry(entry: LogEntry): string {
     const timestamp = this.formatTimestamp(entry.timestamp);
     const category = `[${entry.category.toUpperCase()}]`;
@@ -156,4 +245,60 @@ export class FileTransport implements LogTransport {
       return '[Context serialization failed]';
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Keeps the most recent entries in memory for the log viewer and passes new
+ * ones to listeners for live tail
+ */
+export class MemoryTransport implements LogTransport {
+  private records: LogRecord[] = [];
+  private listeners = new Set<(record: LogRecord) => void>();
+  private nextId = 1;
+
+  constructor(private readonly capacity: number = 1000) {}
+
+  write(entry: LogEntry): void {
+    const record: LogRecord = {
+      id: this.nextId++,
+      timestamp: entry.timestamp.toISOString(),
+      category: entry.category,
+      level: entry.level,
+      message: entry.message,
+      context: this.formatContext(entry.context),
+    };
+
+    this.records.push(record);
+    if (this.records.length > this.capacity) {
+      this.records.splice(0, this.records.length - this.capacity);
+    }
+
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(record);
+      } catch (error) {
+        console.error('Log listener error:', error);
+      }
+    }
+  }
+
+  getRecords(): LogRecord[] {
+    return [...this.records];
+  }
+
+  subscribe(listener: (record: LogRecord) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private formatContext(context?: Record<string, any>): string | undefined {
+    if (!context || Object.keys(context).length === 0) return undefined;
+    try {
+      return JSON.stringify(context, null, 2);
+    } catch {
+      return '[Context serialization failed]';
+    }
+  }
+}
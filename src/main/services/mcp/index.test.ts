@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MCPServerConfig } from '../../types/mcp.js';
+
+const createTransport = vi.hoisted(() => vi.fn());
+
+vi.mock('electron', () => ({ BrowserWindow: { getAllWindows: () => [] } }));
+vi.mock('../logging', () => {
+  const category = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { getLogger: () => ({ mcp: category }) };
+});
+vi.mock('./transports.js', () => ({ createTransport, handleConnectionError: async (error: Error) => error }));
+vi.mock('./diagnostics.js', () => ({ diagnoseSystem: vi.fn() }));
+vi.mock('./registry.js', () => ({ loadMCPRegistry: vi.fn() }));
+vi.mock('../mcpAuthService', () => ({
+  MCPAuthorizationRequiredError: class extends Error {},
+  mcpAuthService: {},
+}));
+
+import { MCPConnectionCancelledError, MCPService } from './index';
+
+interface FakeClient {
+  connect: ReturnType<typeof vi.fn>;
+  close: ReturnType<typeof vi.fn>;
+  setNotificationHandler: ReturnType<typeof vi.fn>;
+  onclose?: () => void;
+}
+
+const config: MCPServerConfig = { id: 'files', transport: 'http', baseUrl: 'https://mcp.example/mcp' };
+
+let service: MCPService;
+
+// A client whose connect waits until `finish` is called
+function pendingClient() {
+  let finish!: (error?: Error) => void;
+  const client: FakeClient = {
+    connect: vi.fn(() => new Promise<void>((resolve, reject) => {
+      finish = (error) => (error ? reject(error) : resolve());
+    })),
+    close: vi.fn(async () => undefined),
+    setNotificationHandler: vi.fn(),
+  };
+  createTransport.mockResolvedValueOnce({ client, transport: {} });
+  return { client, finish: (error?: Error) => finish(error) };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  createTransport.mockReset();
+  service = new MCPService();
+});
+
+describe('MCPService restarts after a disconnect', () => {
+  it('closes a restart that finishes after the user disconnected', async () => {
+    const first = pendingClient();
+    const connecting = service.connectServer(config);
+    await vi.advanceTimersByTimeAsync(0);
+    first.finish();
+    await connecting;
+
+    // Crash, then disconnect while the automatic restart is connecting
+    const restart = pendingClient();
+    first.client.onclose?.();
+    await vi.advanceTimersByTimeAsync(1000);
+    await service.disconnectServer('files');
+    restart.finish();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(restart.client.close).toHaveBeenCalled();
+    expect(service.isConnected('files')).toBe(false);
+    expect(service.getServerState('files')).toBe('disconnected');
+    expect(createTransport).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not schedule another restart when the cancelled restart fails', async () => {
+    const first = pendingClient();
+    const connecting = service.connectServer(config);
+    await vi.advanceTimersByTimeAsync(0);
+    first.finish();
+    await connecting;
+
+    const restart = pendingClient();
+    first.client.onclose?.();
+    await vi.advanceTimersByTimeAsync(1000);
+    await service.disconnectServer('files');
+    restart.finish(new Error('spawn failed'));
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(service.getServerState('files')).toBe('disconnected');
+    expect(service.getServerStatuses()).toEqual([]);
+    expect(createTransport).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a manual connect that the user disconnected meanwhile', async () => {
+    const pending = pendingClient();
+    const connecting = service.connectServer(config);
+    await vi.advanceTimersByTimeAsync(0);
+    await service.disconnectServer('files');
+    pending.finish();
+
+    await expect(connecting).rejects.toBeInstanceOf(MCPConnectionCancelledError);
+    expect(pending.client.close).toHaveBeenCalled();
+    expect(service.isConnected('files')).toBe(false);
+  });
+});
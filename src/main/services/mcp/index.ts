@@ -1,6 +1,15 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
 import type {
+  MCPPrompt,
+  MCPPromptResult,
+  MCPResource,
+  MCPResourceContent,
   MCPServerConfig,
+  MCPServerState,
+  MCPServerStatus,
   Tool,
   ToolCall,
   ToolResult,
@@ -10,17 +19,75 @@ import { createTransport, handleConnectionError } from "./transports.js";
 import { diagnoseSystem } from "./diagnostics.js";
 import { loadMCPRegistry } from "./registry.js";
 import type { MCPRegistry } from "./types";
+import { MCPAuthorizationRequiredError, mcpAuthService } from "../mcpAuthService";
+import { ConnectionSupervisor } from "./supervisor.js";
+
+// Upper bound on paginated list requests, in case a server never stops returning cursors
+const MAX_LIST_PAGES = 20;
+
+export interface ConnectOptions {
+  // Open the browser when the server asks for a sign-in. Only for connections
+  // the user started; background reconnects report MCPAuthorizationRequiredError.
+  interactive?: boolean;
+  // One-off connection such as a connection test: no status events and no restarts
+  probe?: boolean;
+  // Automatic restart after a crash, which counts against the restart budget
+  restart?: boolean;
+}
+
+/**
+ * The server was disconnected while the connection was being set up
+ */
+export class MCPConnectionCancelledError extends Error {
+  constructor(public readonly serverId: string) {
+    super(`Server "${serverId}" was disconnected while connecting`);
+    this.name = "MCPConnectionCancelledError";
+  }
+}
 
 export class MCPService {
   private logger = getLogger();
   private clients: Map<string, Client> = new Map();
+  // Configurations of supervised servers, to restart them after a crash
+  private configs: Map<string, MCPServerConfig> = new Map();
+  private toolsCache: Map<string, Tool[]> = new Map();
+  private supervisor = new ConnectionSupervisor((serverId) => this.restartServer(serverId));
 
-  async connectServer(config: MCPServerConfig): Promise<Client> {
+  private getClient(serverId: string): Client {
+    const client = this.clients.get(serverId);
+    if (!client) {
+      throw new Error(
+        `Client ${serverId} not found. Make sure to connect first.`
+      );
+    }
+    return client;
+  }
+
+  async connectServer(config: MCPServerConfig, options: ConnectOptions = {}): Promise<Client> {
     const transportType = config.transport || (config as any).type;
     const baseUrl = config.baseUrl || (config as any).url;
+    const supervised = !options.probe;
+
+    if (supervised) {
+      // Connecting by hand replaces a pending automatic restart
+      if (options.restart) {
+        this.supervisor.cancelRestart(config.id);
+      } else {
+        this.supervisor.resetRestarts(config.id);
+      }
+      this.supervisor.setState(config.id, "connecting");
+    }
 
     try {
       const { client, transport } = await createTransport(config);
+      if (transport instanceof StdioClientTransport) {
+        if (supervised) {
+          this.supervisor.captureStderr(config.id, transport.stderr);
+        } else {
+          // Nobody reads a probe's stderr, drain it so the pipe never fills up
+          transport.stderr?.on("data", () => undefined);
+        }
+      }
 
       // Connect to the server with detailed error handling
       this.logger.mcp.info("Attempting to connect to server", {
@@ -41,6 +108,17 @@ export class MCPService {
               : connectionError,
         });
 
+        // The server wants an OAuth sign-in that stored tokens could not cover
+        if (connectionError instanceof UnauthorizedError) {
+          await client.close().catch(() => undefined);
+
+          if (options.interactive && baseUrl) {
+            await mcpAuthService.signIn(config.id, baseUrl);
+            return await this.connectServer(config, { probe: options.probe });
+          }
+          throw new MCPAuthorizationRequiredError(config.id);
+        }
+
         // Provide more specific error messages
         if (connectionError instanceof Error) {
           throw await handleConnectionError(
@@ -54,8 +132,24 @@ export class MCPService {
         throw connectionError;
       }
 
-      // Store the client
+      // Disconnected by the user while connecting, e.g. during an automatic restart
+      if (supervised && !this.supervisor.isSupervised(config.id)) {
+        await client.close().catch(() => undefined);
+        throw new MCPConnectionCancelledError(config.id);
+      }
+
+      // Store the client. A reconnect replaces the previous one, whose close
+      // is then not mistaken for a crash
+      const previous = this.clients.get(config.id);
       this.clients.set(config.id, client);
+      this.toolsCache.delete(config.id);
+      if (previous) {
+        await previous.close().catch(() => undefined);
+      }
+
+      if (supervised) {
+        this.supervise(config, client);
+      }
 
       this.logger.mcp.info("Successfully connected to MCP server", {
         serverId: config.id,
@@ -66,10 +160,72 @@ export class MCPService {
         serverId: config.id,
         error: error instanceof Error ? error.message : error,
       });
+      if (!supervised) {
+        throw error;
+      }
+      // A server disconnected meanwhile is not marked crashed, which would restart it
+      if (!this.supervisor.isSupervised(config.id)) {
+        throw error instanceof MCPConnectionCancelledError ? error : new MCPConnectionCancelledError(config.id);
+      }
+      this.supervisor.setState(
+        config.id,
+        "crashed",
+        error instanceof Error ? error.message : String(error)
+      );
       throw error;
     }
   }
 
+  /**
+   * Watch a new connection: unexpected closes restart the server, transport
+   * errors mark it degraded and tool list changes drop the cached list.
+   */
+  private supervise(config: MCPServerConfig, client: Client): void {
+    const serverId = config.id;
+    this.configs.set(serverId, config);
+
+    client.onclose = () => {
+      // Closed by disconnectServer or replaced by a newer connection
+      if (this.clients.get(serverId) !== client) return;
+
+      this.clients.delete(serverId);
+      this.toolsCache.delete(serverId);
+      this.logger.mcp.warn("MCP server connection closed unexpectedly", { serverId });
+      this.supervisor.setState(serverId, "crashed", "Connection closed unexpectedly");
+      this.supervisor.scheduleRestart(serverId);
+    };
+
+    client.onerror = (error) => {
+      if (this.clients.get(serverId) !== client) return;
+
+      this.logger.mcp.warn("MCP server transport error", {
+        serverId,
+        error: error.message,
+      });
+      this.supervisor.setState(serverId, "degraded", error.message);
+    };
+
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      this.logger.mcp.info("MCP server tool list changed", { serverId });
+      this.toolsCache.delete(serverId);
+      this.supervisor.notifyToolsChanged(serverId);
+    });
+
+    this.supervisor.setState(serverId, "ready");
+  }
+
+  private async restartServer(serverId: string): Promise<void> {
+    try {
+      await this.reconnectServer(serverId, { restart: true });
+    } catch (error) {
+      // Background restarts cannot open a sign-in, so they stop there. A
+      // server disconnected in the meantime is not restarted either.
+      if (!(error instanceof MCPAuthorizationRequiredError || error instanceof MCPConnectionCancelledError)) {
+        this.supervisor.scheduleRestart(serverId);
+      }
+    }
+  }
+
   async listTools(serverId: string): Promise<Tool[]> {
     const client = this.clients.get(serverId);
     if (!client) {
@@ -78,13 +234,25 @@ export class MCPService {
       );
     }
 
+    const cached = this.toolsCache.get(serverId);
+    if (cached) {
+      return cached;
+    }
+
     try {
       const response = await client.listTools();
-      return response.tools.map((tool) => ({
+      const tools = response.tools.map((tool) => ({
         name: tool.name,
         description: tool.description || "",
         inputSchema: tool.inputSchema,
       }));
+
+      // Only servers that announce changes can keep their list cached
+      if (client.getServerCapabilities()?.tools?.listChanged) {
+        this.toolsCache.set(serverId, tools);
+      }
+      this.supervisor.markHealthy(serverId);
+      return tools;
     } catch (error) {
       this.logger.mcp.error("Failed to list tools from server", {
         serverId,
@@ -108,6 +276,7 @@ export class MCPService {
         arguments: toolCall.arguments,
       });
 
+      this.supervisor.markHealthy(serverId);
       return {
         content: Array.isArray(response.content) ? response.content : [],
         isError: Boolean(response.isError),
@@ -122,12 +291,147 @@ export class MCPService {
     }
   }
 
+  /**
+   * List resources (files, tables, documents...) exposed by a server.
+   * Servers without the resources capability return an empty list.
+   */
+  async listResources(serverId: string): Promise<MCPResource[]> {
+    const client = this.getClient(serverId);
+    if (!client.getServerCapabilities()?.resources) {
+      return [];
+    }
+
+    try {
+      const resources: MCPResource[] = [];
+      let cursor: string | undefined;
+
+      for (let page = 0; page < MAX_LIST_PAGES; page++) {
+        const response = await client.listResources(cursor ? { cursor } : undefined);
+        for (const resource of response.resources) {
+          resources.push({
+            uri: resource.uri,
+            name: resource.name,
+            title: typeof resource.title === "string" ? resource.title : undefined,
+            description: resource.description,
+            mimeType: resource.mimeType,
+          });
+        }
+
+        cursor = response.nextCursor;
+        if (!cursor) break;
+      }
+
+      return resources;
+    } catch (error) {
+      this.logger.mcp.error("Failed to list resources from server", {
+        serverId,
+        error: error instanceof Error ? error.message : error,
+      });
+      throw error;
+    }
+  }
+
+  async readResource(serverId: string, uri: string): Promise<MCPResourceContent[]> {
+    const client = this.getClient(serverId);
+
+    try {
+      const response = await client.readResource({ uri });
+      return response.contents.map((content) => ({
+        uri: content.uri,
+        mimeType: content.mimeType,
+        text: typeof content.text === "string" ? content.text : undefined,
+        blob: typeof content.blob === "string" ? content.blob : undefined,
+      }));
+    } catch (error) {
+      this.logger.mcp.error("Failed to read resource from server", {
+        serverId,
+        uri,
+        error: error instanceof Error ? error.message : error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List prompt templates exposed by a server.
+   * Servers without the prompts capability return an empty list.
+   */
+  async listPrompts(serverId: string): Promise<MCPPrompt[]> {
+    const client = this.getClient(serverId);
+    if (!client.getServerCapabilities()?.prompts) {
+      return [];
+    }
+
+    try {
+      const prompts: MCPPrompt[] = [];
+      let cursor: string | undefined;
+
+      for (let page = 0; page < MAX_LIST_PAGES; page++) {
+        const response = await client.listPrompts(cursor ? { cursor } : undefined);
+        for (const prompt of response.prompts) {
+          prompts.push({
+            name: prompt.name,
+            title: typeof prompt.title === "string" ? prompt.title : undefined,
+            description: prompt.description,
+            arguments: prompt.arguments?.map((arg) => ({
+              name: arg.name,
+              description: arg.description,
+              required: arg.required,
+            })),
+          });
+        }
+
+        cursor = response.nextCursor;
+        if (!cursor) break;
+      }
+
+      return prompts;
+    } catch (error) {
+      this.logger.mcp.error("Failed to list prompts from server", {
+        serverId,
+        error: error instanceof Error ? error.message : error,
+      });
+      throw error;
+    }
+  }
+
+  async getPrompt(
+    serverId: string,
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<MCPPromptResult> {
+    const client = this.getClient(serverId);
+
+    try {
+      const response = await client.getPrompt({ name, arguments: args });
+      return {
+        description: response.description,
+        messages: response.messages.map((message) => ({
+          role: message.role,
+          content: message.content as MCPPromptResult["messages"][number]["content"],
+        })),
+      };
+    } catch (error) {
+      this.logger.mcp.error("Failed to get prompt from server", {
+        serverId,
+        name,
+        error: error instanceof Error ? error.message : error,
+      });
+      throw error;
+    }
+  }
+
   async disconnectServer(serverId: string): Promise<void> {
+    this.configs.delete(serverId);
+    this.toolsCache.delete(serverId);
+    this.supervisor.forget(serverId);
+
     const client = this.clients.get(serverId);
     if (client) {
+      // Removed before closing so the close is not taken for a crash
+      this.clients.delete(serverId);
       try {
         await client.close();
-        this.clients.delete(serverId);
         this.logger.mcp.info("Successfully disconnected from MCP server", {
           serverId,
         });
@@ -136,8 +440,6 @@ export class MCPService {
           serverId,
           error: error instanceof Error ? error.message : error,
         });
-        // Still remove from clients map even if disconnect failed
-        this.clients.delete(serverId);
       }
     }
   }
@@ -150,8 +452,21 @@ export class MCPService {
     return Array.from(this.clients.keys());
   }
 
+  getServerState(serverId: string): MCPServerState {
+    return (
+      this.supervisor.getStatus(serverId)?.state ??
+      (this.isConnected(serverId) ? "ready" : "disconnected")
+    );
+  }
+
+  getServerStatuses(): MCPServerStatus[] {
+    return this.supervisor.getStatuses();
+  }
+
   async disconnectAll(): Promise<void> {
-    const disconnectPromises = Array.from(this.clients.keys()).map(
+    // Crashed servers waiting for a restart have no client but a pending timer
+    const serverIds = new Set(Array.from(this.clients.keys()).concat(Array.from(this.configs.keys())));
+    const disconnectPromises = Array.from(serverIds).map(
       (serverId) => this.disconnectServer(serverId)
     );
 
@@ -174,11 +489,17 @@ export class MCPService {
     }
   }
 
-  // Reconnect method for health checks (Phase 5)
-  async reconnectServer(serverId: string): Promise<void> {
-    // Implementation will depend on stored config
+  /**
+   * Reconnect a supervised server with the configuration it last connected with
+   */
+  async reconnectServer(serverId: string, options: ConnectOptions = {}): Promise<void> {
+    const config = this.configs.get(serverId);
+    if (!config) {
+      throw new Error(`Server ${serverId} has no connection to restore`);
+    }
+
     this.logger.mcp.info("Reconnecting to server", { serverId });
-    // This will be implemented in Phase 5 with config persistence
+    await this.connectServer(config, options);
   }
 
   // Get MCP registry information
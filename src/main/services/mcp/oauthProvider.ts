@@ -0,0 +1,129 @@
+import { randomBytes } from "crypto";
+import { UnauthorizedError, type OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import type {
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import { getLogger } from "../logging";
+import { safeOpenExternal } from "../../utils/urlSecurity";
+
+const logger = getLogger();
+
+// Placeholder until the first sign-in registers a real redirect
+const DEFAULT_REDIRECT_URL = "http://localhost:3000/callback";
+
+/**
+ * Where the provider keeps what a server handed out (see mcpAuthService)
+ */
+export interface ServerAuthStorage {
+  getClientInformation(serverId: string): Promise<{ information: OAuthClientInformationFull; redirectUrl: string } | undefined>;
+  saveClientInformation(serverId: string, information: OAuthClientInformationFull, redirectUrl: string): Promise<void>;
+  getTokens(serverId: string): Promise<OAuthTokens | undefined>;
+  saveTokens(serverId: string, tokens: OAuthTokens): Promise<void>;
+  getCodeVerifier(serverId: string): Promise<string | undefined>;
+  saveCodeVerifier(serverId: string, codeVerifier: string): Promise<void>;
+  invalidate(serverId: string, scope: "all" | "client" | "tokens" | "verifier"): Promise<void>;
+  markAuthorizationRequired(serverId: string): void;
+}
+
+/**
+ * OAuth 2.1 client of one remote MCP server. The MCP SDK drives discovery,
+ * dynamic client registration, PKCE, the code exchange and token refresh;
+ * this class stores the results and opens the browser.
+ *
+ * Without a redirect URL the provider is non-interactive: it can use and
+ * refresh stored tokens, but a server that needs a new login is only flagged
+ * and nothing is registered, so background connections never open a browser.
+ */
+export class LevanteOAuthProvider implements OAuthClientProvider {
+  private readonly stateValue = randomBytes(16).toString("hex");
+
+  constructor(
+    private readonly serverId: string,
+    private readonly storage: ServerAuthStorage,
+    private readonly interactiveRedirectUrl?: string
+  ) {}
+
+  get redirectUrl(): string {
+    return this.interactiveRedirectUrl ?? DEFAULT_REDIRECT_URL;
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: "Levante",
+      client_uri: "https://github.com/levante-hub/levante",
+      redirect_uris: [this.redirectUrl],
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: "none",
+    };
+  }
+
+  get isInteractive(): boolean {
+    return this.interactiveRedirectUrl !== undefined;
+  }
+
+  state(): string {
+    return this.stateValue;
+  }
+
+  async clientInformation(): Promise<OAuthClientInformationFull | undefined> {
+    const stored = await this.storage.getClientInformation(this.serverId);
+    if (!stored) return undefined;
+
+    // The callback port can change between logins; a client registered for
+    // another redirect is registered again
+    if (this.isInteractive && stored.redirectUrl !== this.redirectUrl) {
+      logger.mcp.info("OAuth redirect changed, registering client again", { serverId: this.serverId });
+      return undefined;
+    }
+    return stored.information;
+  }
+
+  async saveClientInformation(information: OAuthClientInformationFull): Promise<void> {
+    if (!this.isInteractive) this.requireSignIn();
+    await this.storage.saveClientInformation(this.serverId, information, this.redirectUrl);
+  }
+
+  async tokens(): Promise<OAuthTokens | undefined> {
+    return this.storage.getTokens(this.serverId);
+  }
+
+  async saveTokens(tokens: OAuthTokens): Promise<void> {
+    await this.storage.saveTokens(this.serverId, tokens);
+  }
+
+  async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+    if (!this.isInteractive) this.requireSignIn();
+
+    const result = await safeOpenExternal(authorizationUrl.toString(), "mcp-oauth");
+    if (!result.success) {
+      throw new Error(result.error || "Could not open the sign-in page");
+    }
+  }
+
+  async saveCodeVerifier(codeVerifier: string): Promise<void> {
+    if (!this.isInteractive) this.requireSignIn();
+    await this.storage.saveCodeVerifier(this.serverId, codeVerifier);
+  }
+
+  async codeVerifier(): Promise<string> {
+    const codeVerifier = await this.storage.getCodeVerifier(this.serverId);
+    if (!codeVerifier) {
+      throw new Error("No code verifier saved for this sign-in");
+    }
+    return codeVerifier;
+  }
+
+  async invalidateCredentials(scope: "all" | "client" | "tokens" | "verifier"): Promise<void> {
+    await this.storage.invalidate(this.serverId, scope);
+  }
+
+  // Stops a background connection where a browser sign-in would start
+  private requireSignIn(): never {
+    logger.mcp.info("MCP server requires sign-in", { serverId: this.serverId });
+    this.storage.markAuthorizationRequired(this.serverId);
+    throw new UnauthorizedError("Sign-in required");
+  }
+}
@@ -0,0 +1,291 @@
+import { createHash, generateKeyPairSync, sign } from 'crypto';
+import { createServer, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MCPRegistrySettings } from '../../../types/preferences';
+
+const preferences = vi.hoisted(() => ({ mcpRegistry: {} as Partial<MCPRegistrySettings> }));
+const store = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('../logging', () => {
+  const category = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { getLogger: () => ({ mcp: category }) };
+});
+vi.mock('../directoryService', () => ({
+  directoryService: { ensureBaseDir: vi.fn(async () => undefined), getBaseDir: () => '/levante' },
+}));
+vi.mock('../preferencesService', () => ({
+  preferencesService: { get: (key: 'mcpRegistry') => preferences[key] },
+}));
+vi.mock('electron-store', () => ({
+  default: class {
+    get(key: string) {
+      return store.get(key);
+    }
+    set(key: string, value: unknown) {
+      store.set(key, value);
+    }
+  },
+}));
+
+import { fetchMCPRegistry, syncMCPRegistry } from './registry';
+
+type Handler = (url: URL, res: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: URL[];
+
+const levanteRegistry = JSON.stringify({
+  version: '2.0.0',
+  entries: [{ id: 'files', name: 'Files', status: 'active', configuration: { template: { type: 'stdio', command: 'npx' } } }],
+});
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+function sha256(body: string): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+function signature(body: string): string {
+  return sign(null, Buffer.from(body), privateKey).toString('base64');
+}
+
+function officialPage(name: string, nextCursor?: string) {
+  return JSON.stringify({
+    servers: [{ server: { name, version: '1.0.0', remotes: [{ type: 'streamable-http', url: 'https://mcp.example/mcp' }] } }],
+    metadata: nextCursor ? { nextCursor } : {},
+  });
+}
+
+// Serve `body` at /registry.json and `sig` at /registry.json.sig
+function serve(body: string, sig?: string) {
+  handler = (url, res) => {
+    if (url.pathname === '/registry.json') {
+      res.end(body);
+    } else if (url.pathname === '/registry.json.sig' && sig !== undefined) {
+      res.end(sig);
+    } else {
+      res.writeHead(404).end();
+    }
+  };
+}
+
+function settings(overrides: Partial<MCPRegistrySettings> = {}): MCPRegistrySettings {
+  return { url: `${baseUrl}/registry.json`, format: 'levante', refreshHours: 24, ...overrides };
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    requests.push(url);
+    handler(url, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  store.clear();
+  handler = (_url, res) => res.writeHead(404).end();
+});
+
+describe('fetchMCPRegistry verification', () => {
+  it('accepts a body matching the configured hash', async () => {
+    serve(levanteRegistry);
+
+    const { registry, verified } = await fetchMCPRegistry(settings({ sha256: `sha256:${sha256(levanteRegistry)}` }));
+
+    expect(verified).toBe(true);
+    expect(registry.entries.map((entry) => entry.id)).toEqual(['files']);
+  });
+
+  it('rejects a body that does not match the configured hash', async () => {
+    serve(levanteRegistry);
+
+    await expect(fetchMCPRegistry(settings({ sha256: sha256('something else') })))
+      .rejects.toThrow('Registry hash mismatch');
+  });
+
+  it('accepts a valid detached signature', async () => {
+    serve(levanteRegistry, signature(levanteRegistry));
+
+    await expect(fetchMCPRegistry(settings({ publicKey: publicKeyPem }))).resolves.toMatchObject({ verified: true });
+  });
+
+  it('rejects a signature made for another body', async () => {
+    serve(levanteRegistry, signature('{"entries":[]}'));
+
+    await expect(fetchMCPRegistry(settings({ publicKey: publicKeyPem })))
+      .rejects.toThrow('Registry signature does not match the configured public key');
+  });
+
+  it('rejects a registry whose signature is missing', async () => {
+    serve(levanteRegistry);
+
+    await expect(fetchMCPRegistry(settings({ publicKey: publicKeyPem }))).rejects.toThrow('HTTP 404');
+  });
+
+  it('reports an unverified registry when nothing is configured', async () => {
+    serve(levanteRegistry);
+
+    await expect(fetchMCPRegistry(settings())).resolves.toMatchObject({ verified: false });
+  });
+});
+
+describe('fetchMCPRegistry pagination and limits', () => {
+  it('follows the cursor of an official registry listing', async () => {
+    handler = (url, res) => {
+      const cursor = url.searchParams.get('cursor');
+      res.end(cursor ? officialPage('example/second') : officialPage('example/first', 'page-2'));
+    };
+
+    const { registry } = await fetchMCPRegistry(settings({ format: 'official' }));
+
+    expect(registry.entries.map((entry) => entry.id)).toEqual(['example-first', 'example-second']);
+    expect(requests.map((url) => url.searchParams.get('limit'))).toEqual(['100', '100']);
+    expect(requests[1].searchParams.get('cursor')).toBe('page-2');
+  });
+
+  it('rejects a paginated listing when verification is configured', async () => {
+    const page = officialPage('example/first', 'page-2');
+    handler = (_url, res) => res.end(page);
+
+    await expect(fetchMCPRegistry(settings({ format: 'official', sha256: sha256(page) })))
+      .rejects.toThrow('must be served as a single document without pagination');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('stops following pages after the page limit', async () => {
+    handler = (url, res) => {
+      const page = Number(url.searchParams.get('cursor') ?? 0);
+      res.end(officialPage(`example/server-${page}`, String(page + 1)));
+    };
+
+    const { registry } = await fetchMCPRegistry(settings({ format: 'official' }));
+
+    expect(requests).toHaveLength(20);
+    expect(registry.entries).toHaveLength(20);
+  });
+
+  it('rejects a response whose declared length is too large', async () => {
+    const body = ' '.repeat(11 * 1024 * 1024);
+    handler = (_url, res) => {
+      res.writeHead(200, { 'Content-Length': Buffer.byteLength(body) });
+      res.end(body);
+    };
+
+    await expect(fetchMCPRegistry(settings())).rejects.toThrow('The registry response is too large');
+  });
+
+  it('rejects a streamed response that grows too large', async () => {
+    const chunk = ' '.repeat(1024 * 1024);
+    handler = (_url, res) => {
+      for (let i = 0; i < 11; i++) res.write(chunk);
+      res.end();
+    };
+
+    await expect(fetchMCPRegistry(settings())).rejects.toThrow('The registry response is too large');
+  });
+
+  it('rejects plain http to other hosts', async () => {
+    await expect(fetchMCPRegistry(settings({ url: 'http://registry.example/registry.json' })))
+      .rejects.toThrow('The registry URL must use https');
+  });
+});
+
+describe('syncMCPRegistry cache', () => {
+  it('does not serve a copy cached with other verification settings', async () => {
+    serve(levanteRegistry);
+    preferences.mcpRegistry = settings();
+    await syncMCPRegistry();
+
+    preferences.mcpRegistry = settings({ sha256: sha256(levanteRegistry) });
+    const snapshot = await syncMCPRegistry();
+
+    expect(snapshot.status).toMatchObject({ source: 'remote', verified: true });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('serves a fresh copy cached with the same verification settings', async () => {
+    serve(levanteRegistry);
+    preferences.mcpRegistry = settings({ sha256: sha256(levanteRegistry) });
+    await syncMCPRegistry();
+
+    const snapshot = await syncMCPRegistry();
+
+    expect(snapshot.status).toMatchObject({ source: 'cache', verified: true });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('does not fall back to an unverified copy when verification fails', async () => {
+    serve(levanteRegistry);
+    preferences.mcpRegistry = settings({ sha256: sha256(levanteRegistry) });
+    store.set('registry', {
+      url: settings().url,
+      format: 'levante',
+      verification: sha256(JSON.stringify([sha256(levanteRegistry), ''])),
+      fetchedAt: Date.now(),
+      verified: false,
+      registry: { version: '1', lastUpdated: '', entries: [{ id: 'planted', name: 'Planted', status: 'active' }], deprecated: [] },
+    });
+    serve('{"entries":[]}');
+
+    const snapshot = await syncMCPRegistry();
+
+    expect(snapshot.status).toMatchObject({ source: 'bundled', verified: false });
+    expect(snapshot.status.error).toContain('Registry hash mismatch');
+    expect(snapshot.registry.entries.map((entry) => entry.id)).not.toContain('planted');
+  });
+
+  it('falls back to the verified copy when a later sync fails verification', async () => {
+    serve(levanteRegistry);
+    preferences.mcpRegistry = settings({ sha256: sha256(levanteRegistry) });
+    await syncMCPRegistry();
+
+    serve('{"entries":[]}');
+    const snapshot = await syncMCPRegistry({ force: true });
+
+    expect(snapshot.status).toMatchObject({ source: 'cache', verified: true });
+    expect(snapshot.status.error).toContain('Registry hash mismatch');
+    expect(snapshot.registry.entries.map((entry) => entry.id)).toEqual(['files']);
+  });
+
+  it('runs a forced sync with the new settings when a sync is already running', async () => {
+    preferences.mcpRegistry = settings();
+    let received!: () => void;
+    const firstRequest = new Promise<void>((resolve) => (received = resolve));
+    handler = (_url, res) => {
+      received();
+      setTimeout(() => res.end(levanteRegistry), 50);
+    };
+    const running = syncMCPRegistry();
+    await firstRequest;
+
+    // Saved while the first sync is still fetching
+    preferences.mcpRegistry = settings({ sha256: sha256('something else') });
+    const forced = syncMCPRegistry({ force: true });
+
+    await expect(running).resolves.toMatchObject({ status: { source: 'remote', verified: false } });
+    const snapshot = await forced;
+    expect(snapshot.status.error).toContain('Registry hash mismatch');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('shares a running sync with callers that do not force one', async () => {
+    preferences.mcpRegistry = settings();
+    serve(levanteRegistry);
+
+    const [first, second] = await Promise.all([syncMCPRegistry({ force: true }), syncMCPRegistry()]);
+
+    expect(second).toBe(first);
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -1,15 +1,62 @@
 import path from "path";
 import fs from "fs/promises";
+import { createHash, createPublicKey, verify } from "crypto";
+import type Store from "electron-store";
+import { DEFAULT_PREFERENCES, type MCPRegistrySettings } from "../../../types/preferences";
+import type { MCPRegistryStatus } from "../../types/mcp.js";
+import { directoryService } from "../directoryService";
 import { getLogger } from "../logging";
+import { getNextCursor, normalizeOfficialRegistry, parseLevanteRegistry } from "./registryFormat.js";
 
 const logger = getLogger();
 
+const FETCH_TIMEOUT_MS = 15000;
+// Upper bound for a registry response, remote data is kept in memory and on disk
+const MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+// Pages followed in a paginated official registry listing
+const MAX_PAGES = 20;
+const OFFICIAL_PAGE_SIZE = "100";
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+export interface MCPRegistryField {
+  key: string;
+  label: string;
+  type: "text" | "password" | "select" | "number" | "boolean" | "textarea";
+  required: boolean;
+  description: string;
+  placeholder?: string;
+  options?: string[];
+  defaultValue?: any;
+}
+
 export interface MCPRegistryEntry {
   id: string;
   name: string;
-  npmPackage: string;
+  npmPackage?: string;
+  pypiPackage?: string;
   status: string;
-  version?: string;
+  version?: string; // Latest version
+  versions?: string[]; // Published versions, newest first
+  description?: string;
+  category?: string;
+  icon?: string;
+  repository?: string;
+  transport?: {
+    type: "stdio" | "http" | "sse";
+    autoDetect: boolean;
+  };
+  configuration?: {
+    fields: MCPRegistryField[];
+    defaults?: Record<string, any>;
+    template?: {
+      type: "stdio" | "http" | "sse";
+      command?: string;
+      args?: string[];
+      env?: Record<string, string>;
+      baseUrl?: string;
+      headers?: Record<string, string>;
+    };
+  };
 }
 
 export interface MCPDeprecatedEntry {
@@ -27,13 +74,350 @@ export interface MCPRegistry {
   deprecated: MCPDeprecatedEntry[];
 }
 
-// Cache for the registry to avoid reading the file multiple times
+export interface MCPRegistrySnapshot {
+  registry: MCPRegistry;
+  status: MCPRegistryStatus;
+}
+
+/**
+ * Last successful sync, kept in mcp-registry-cache.json for offline starts
+ */
+interface CachedRegistry {
+  url: string;
+  format: MCPRegistrySettings["format"];
+  verification?: string; // verificationKey of the settings it was synced with
+  fetchedAt: number;
+  verified: boolean;
+  registry: MCPRegistry;
+}
+
+type RegistryCacheStore = Store<{ registry?: CachedRegistry }>;
+
+// Cache for the bundled registry to avoid reading the file multiple times
 let registryCache: MCPRegistry | null = null;
+// Registry currently in use, set by the last sync
+let currentSnapshot: MCPRegistrySnapshot | null = null;
+let pendingSync: Promise<MCPRegistrySnapshot> | null = null;
+let cacheStore: RegistryCacheStore | null = null;
 
 /**
- * Load MCP registry from file or return fallback data
+ * Registry currently in use: the last synced one, else the cached copy of the
+ * configured registry, else the one bundled with the app
  */
 export async function loadMCPRegistry(): Promise<MCPRegistry> {
+  if (currentSnapshot) {
+    return currentSnapshot.registry;
+  }
+
+  const settings = await getRegistrySettings();
+  const cached = settings.url ? await readCache(settings) : null;
+  return cached?.registry ?? (await loadBundledRegistry());
+}
+
+/**
+ * Refresh the registry from the configured URL. A cached copy younger than
+ * `refreshHours` is used as is unless `force` is set. When the remote
+ * registry cannot be fetched or verified, the cached copy and then the
+ * bundled registry are used instead and the status carries the error.
+ */
+export async function syncMCPRegistry(options: { force?: boolean } = {}): Promise<MCPRegistrySnapshot> {
+  if (!pendingSync) {
+    return startSync(Promise.resolve(), Boolean(options.force));
+  }
+  // The settings may have changed since the running sync read them
+  if (options.force) {
+    return startSync(pendingSync, true);
+  }
+  return pendingSync;
+}
+
+function startSync(after: Promise<unknown>, force: boolean): Promise<MCPRegistrySnapshot> {
+  const sync: Promise<MCPRegistrySnapshot> = after
+    .catch(() => undefined)
+    .then(() => runSync(force))
+    .finally(() => {
+      if (pendingSync === sync) {
+        pendingSync = null;
+      }
+    });
+  pendingSync = sync;
+  return sync;
+}
+
+/**
+ * Fetch, verify and parse a remote registry without caching it
+ */
+export async function fetchMCPRegistry(
+  settings: MCPRegistrySettings
+): Promise<{ registry: MCPRegistry; verified: boolean }> {
+  const url = parseRegistryUrl(settings.url);
+
+  if (settings.format === "official" && !url.searchParams.has("limit")) {
+    url.searchParams.set("limit", OFFICIAL_PAGE_SIZE);
+  }
+
+  const body = await fetchText(url);
+  const verified = await verifyRegistryBody(body, url, settings);
+  const pages = [parseJson(body)];
+
+  if (settings.format === "official") {
+    let cursor = getNextCursor(pages[0]);
+    // A hash or signature only covers the document it was made for
+    if (cursor && requiresVerification(settings)) {
+      throw new Error("A verified registry must be served as a single document without pagination");
+    }
+
+    while (cursor) {
+      if (pages.length >= MAX_PAGES) {
+        logger.mcp.warn("MCP registry has more pages than are fetched, the list is incomplete", {
+          url: url.origin,
+          pages: pages.length,
+        });
+        break;
+      }
+      const pageUrl = new URL(url);
+      pageUrl.searchParams.set("cursor", cursor);
+      const page = parseJson(await fetchText(pageUrl));
+      pages.push(page);
+      cursor = getNextCursor(page);
+    }
+  }
+
+  const registry = settings.format === "official"
+    ? normalizeOfficialRegistry(pages)
+    : parseLevanteRegistry(pages[0]);
+
+  if (registry.entries.length === 0) {
+    throw new Error("The registry has no servers that can be installed");
+  }
+
+  return { registry, verified };
+}
+
+async function runSync(force: boolean): Promise<MCPRegistrySnapshot> {
+  const settings = await getRegistrySettings();
+  const url = settings.url?.trim();
+
+  if (!url) {
+    const registry = await loadBundledRegistry();
+    currentSnapshot = {
+      registry,
+      status: { source: "bundled", verified: false, entryCount: registry.entries.length },
+    };
+    return currentSnapshot;
+  }
+
+  const cached = await readCache(settings);
+  const cacheAge = cached ? Date.now() - cached.fetchedAt : Infinity;
+  if (!force && cached && cacheAge < settings.refreshHours * 60 * 60 * 1000) {
+    currentSnapshot = fromCache(cached);
+    return currentSnapshot;
+  }
+
+  try {
+    const { registry, verified } = await fetchMCPRegistry(settings);
+    const fetchedAt = Date.now();
+    await writeCache({
+      url,
+      format: settings.format,
+      verification: verificationKey(settings),
+      fetchedAt,
+      verified,
+      registry,
+    });
+
+    logger.mcp.info("MCP registry synced", {
+      url,
+      format: settings.format,
+      entries: registry.entries.length,
+      verified,
+    });
+
+    currentSnapshot = {
+      registry,
+      status: { source: "remote", url, fetchedAt, verified, entryCount: registry.entries.length },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.mcp.warn("MCP registry sync failed, using the last known registry", {
+      url,
+      error: message,
+      fallback: cached ? "cache" : "bundled",
+    });
+
+    if (cached) {
+      currentSnapshot = fromCache(cached, message);
+    } else {
+      const registry = await loadBundledRegistry();
+      currentSnapshot = {
+        registry,
+        status: { source: "bundled", url, verified: false, entryCount: registry.entries.length, error: message },
+      };
+    }
+  }
+
+  return currentSnapshot;
+}
+
+/**
+ * Check the response against the configured hash and signature. Returns
+ * whether anything was checked; throws when a check fails.
+ */
+async function verifyRegistryBody(body: string, url: URL, settings: MCPRegistrySettings): Promise<boolean> {
+  let verified = false;
+
+  const expectedHash = expectedSha256(settings);
+  if (expectedHash) {
+    const actualHash = createHash("sha256").update(body).digest("hex");
+    if (actualHash !== expectedHash) {
+      throw new Error(`Registry hash mismatch: expected ${expectedHash}, got ${actualHash}`);
+    }
+    verified = true;
+  }
+
+  const publicKey = settings.publicKey?.trim();
+  if (publicKey) {
+    const signatureUrl = new URL(url);
+    signatureUrl.pathname += ".sig";
+    const signature = Buffer.from((await fetchText(signatureUrl)).trim(), "base64");
+
+    const key = createPublicKey(publicKey);
+    // Ed25519 and Ed448 sign the message itself, RSA and ECDSA a SHA-256 digest
+    const algorithm = key.asymmetricKeyType === "ed25519" || key.asymmetricKeyType === "ed448" ? null : "sha256";
+    if (!verify(algorithm, Buffer.from(body), key, signature)) {
+      throw new Error("Registry signature does not match the configured public key");
+    }
+    verified = true;
+  }
+
+  return verified;
+}
+
+function requiresVerification(settings: MCPRegistrySettings): boolean {
+  return Boolean(expectedSha256(settings) || settings.publicKey?.trim());
+}
+
+function expectedSha256(settings: MCPRegistrySettings): string | undefined {
+  return settings.sha256?.trim().toLowerCase().replace(/^sha256[:-]/, "");
+}
+
+// Fingerprint of the hash and public key a registry is checked against
+function verificationKey(settings: MCPRegistrySettings): string {
+  if (!requiresVerification(settings)) return "";
+  return createHash("sha256")
+    .update(JSON.stringify([expectedSha256(settings) ?? "", settings.publicKey?.trim() ?? ""]))
+    .digest("hex");
+}
+
+function parseRegistryUrl(value?: string): URL {
+  if (!value?.trim()) {
+    throw new Error("No registry URL is configured");
+  }
+
+  const url = new URL(value.trim());
+  const isLoopback = LOOPBACK_HOSTS.includes(url.hostname);
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && isLoopback)) {
+    throw new Error("The registry URL must use https (plain http is only allowed for localhost)");
+  }
+  return url;
+}
+
+async function fetchText(url: URL): Promise<string> {
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Registry request to ${url.origin}${url.pathname} failed: HTTP ${response.status}`);
+  }
+
+  const length = Number(response.headers.get("content-length") ?? 0);
+  if (length > MAX_RESPONSE_BYTES) {
+    throw new Error("The registry response is too large");
+  }
+  const text = await response.text();
+  if (text.length > MAX_RESPONSE_BYTES) {
+    throw new Error("The registry response is too large");
+  }
+  return text;
+}
+
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new Error("The registry response is not valid JSON");
+  }
+}
+
+async function getRegistrySettings(): Promise<MCPRegistrySettings> {
+  const { preferencesService } = await import("../preferencesService");
+  return { ...DEFAULT_PREFERENCES.mcpRegistry, ...preferencesService.get("mcpRegistry") };
+}
+
+async function getCacheStore(): Promise<RegistryCacheStore> {
+  if (!cacheStore) {
+    const Store = (await import("electron-store")).default;
+    await directoryService.ensureBaseDir();
+    cacheStore = new Store<{ registry?: CachedRegistry }>({
+      name: "mcp-registry-cache",
+      cwd: directoryService.getBaseDir(),
+    });
+  }
+  return cacheStore;
+}
+
+// A copy synced from another URL, format, hash or key belongs to another
+// registry. When verification is required, an unverified copy is never used.
+async function readCache(settings: MCPRegistrySettings): Promise<CachedRegistry | null> {
+  try {
+    const cached = (await getCacheStore()).get("registry");
+    if (
+      cached &&
+      cached.url === settings.url?.trim() &&
+      cached.format === settings.format &&
+      (cached.verification ?? "") === verificationKey(settings) &&
+      (cached.verified || !requiresVerification(settings))
+    ) {
+      return cached;
+    }
+  } catch (error) {
+    logger.mcp.warn("Failed to read the MCP registry cache", {
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+  return null;
+}
+
+async function writeCache(cached: CachedRegistry): Promise<void> {
+  try {
+    (await getCacheStore()).set("registry", cached);
+  } catch (error) {
+    logger.mcp.warn("Failed to write the MCP registry cache", {
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+}
+
+function fromCache(cached: CachedRegistry, error?: string): MCPRegistrySnapshot {
+  return {
+    registry: cached.registry,
+    status: {
+      source: "cache",
+      url: cached.url,
+      fetchedAt: cached.fetchedAt,
+      verified: cached.verified,
+      entryCount: cached.registry.entries.length,
+      error,
+    },
+  };
+}
+
+/**
+ * Load the registry bundled with the app or return fallback data
+ */
+async function loadBundledRegistry(): Promise<MCPRegistry> {
   if (registryCache) {
     return registryCache;
   }
@@ -0,0 +1,316 @@
+import type {
+  MCPDeprecatedEntry,
+  MCPRegistry,
+  MCPRegistryEntry,
+  MCPRegistryField,
+} from "./registry.js";
+
+const OFFICIAL_META_KEY = "io.modelcontextprotocol.registry/official";
+
+// Entry ids become server ids in mcp.json
+const ENTRY_ID_PATTERN = /^[a-zA-Z0-9._-]+$/;
+
+/**
+ * Input (environment variable or header) of the official registry format.
+ * Older registry versions use snake_case field names.
+ */
+interface OfficialInput {
+  name: string;
+  description?: string;
+  isRequired?: boolean;
+  is_required?: boolean;
+  isSecret?: boolean;
+  is_secret?: boolean;
+  default?: string;
+}
+
+interface OfficialPackage {
+  registryType?: string;
+  registry_name?: string;
+  identifier?: string;
+  name?: string;
+  version?: string;
+  environmentVariables?: OfficialInput[];
+  environment_variables?: OfficialInput[];
+}
+
+interface OfficialRemote {
+  type?: string;
+  transport_type?: string;
+  url?: string;
+  headers?: OfficialInput[];
+}
+
+interface OfficialServer {
+  name?: string;
+  title?: string;
+  description?: string;
+  version?: string;
+  version_detail?: { version?: string; is_latest?: boolean };
+  repository?: { url?: string };
+  packages?: OfficialPackage[];
+  remotes?: OfficialRemote[];
+  status?: string;
+  _meta?: Record<string, any>;
+}
+
+interface OfficialRelease {
+  server: OfficialServer;
+  version: string;
+  isLatest: boolean;
+  status: string;
+}
+
+/**
+ * Order two version strings, numerically where the parts are numbers.
+ * Pre-releases sort before the release they lead up to.
+ */
+export function compareVersions(a: string, b: string): number {
+  const [mainA, preA] = splitVersion(a);
+  const [mainB, preB] = splitVersion(b);
+  const partsA = mainA.split(".");
+  const partsB = mainB.split(".");
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const x = partsA[i] ?? "0";
+    const y = partsB[i] ?? "0";
+    const diff = /^\d+$/.test(x) && /^\d+$/.test(y)
+      ? Number(x) - Number(y)
+      : x.localeCompare(y);
+    if (diff !== 0) return Math.sign(diff);
+  }
+
+  if (preA === preB) return 0;
+  if (!preA) return 1;
+  if (!preB) return -1;
+  return preA.localeCompare(preB, undefined, { numeric: true });
+}
+
+/**
+ * Read a registry document in Levante's own format (the format of the bundled
+ * mcpRegistry.json). Entries that cannot be installed are dropped.
+ */
+export function parseLevanteRegistry(document: unknown): MCPRegistry {
+  if (!isRecord(document) || !Array.isArray(document.entries)) {
+    throw new Error("Not a Levante registry: the document has no entries list");
+  }
+
+  const entries = document.entries.filter((entry: unknown): entry is MCPRegistryEntry => {
+    return isRecord(entry)
+      && typeof entry.id === "string"
+      && ENTRY_ID_PATTERN.test(entry.id)
+      && typeof entry.name === "string"
+      && isRecord(entry.configuration?.template)
+      && ["stdio", "http", "sse"].includes(entry.configuration.template.type);
+  });
+
+  const deprecated = Array.isArray(document.deprecated)
+    ? document.deprecated.filter((entry: unknown): entry is MCPDeprecatedEntry =>
+        isRecord(entry) && typeof entry.npmPackage === "string"
+      )
+    : [];
+
+  return {
+    version: String(document.version ?? "1.0.0"),
+    lastUpdated: String(document.lastUpdated ?? ""),
+    entries: entries.map((entry) => ({
+      ...entry,
+      versions: Array.isArray(entry.versions)
+        ? entry.versions.filter((version): version is string => typeof version === "string")
+        : undefined,
+    })),
+    deprecated,
+  };
+}
+
+/**
+ * Cursor of the next page of an official registry response, if any
+ */
+export function getNextCursor(document: unknown): string | undefined {
+  if (!isRecord(document) || !isRecord(document.metadata)) return undefined;
+  const cursor = document.metadata.nextCursor ?? document.metadata.next_cursor;
+  return typeof cursor === "string" && cursor !== "" ? cursor : undefined;
+}
+
+/**
+ * Convert the pages of an official MCP registry listing (GET /v0/servers)
+ * into registry entries. The registry lists every published version of a
+ * server separately; they are grouped into one entry per server.
+ */
+export function normalizeOfficialRegistry(pages: unknown[]): MCPRegistry {
+  const releases = new Map<string, OfficialRelease[]>();
+
+  for (const page of pages) {
+    if (!isRecord(page) || !Array.isArray(page.servers)) {
+      throw new Error("Not an MCP registry response: the document has no servers list");
+    }
+
+    for (const item of page.servers) {
+      const release = readRelease(item);
+      if (!release) continue;
+      const name = release.server.name!;
+      releases.set(name, [...(releases.get(name) ?? []), release]);
+    }
+  }
+
+  const entries: MCPRegistryEntry[] = [];
+  const deprecated: MCPDeprecatedEntry[] = [];
+
+  for (const [name, serverReleases] of Array.from(releases.entries())) {
+    serverReleases.sort((a, b) => compareVersions(b.version, a.version));
+    const latest = serverReleases.find((release) => release.isLatest) ?? serverReleases[0];
+    if (latest.status === "deleted") continue;
+
+    const entry = toEntry(name, latest, serverReleases);
+    if (!entry) continue;
+
+    if (latest.status === "deprecated") {
+      if (entry.npmPackage) {
+        deprecated.push({
+          id: entry.id,
+          name: entry.name,
+          npmPackage: entry.npmPackage,
+          reason: "Deprecated in the MCP registry.",
+          alternative: "Check the server's repository for a replacement",
+        });
+      }
+      continue;
+    }
+
+    entries.push(entry);
+  }
+
+  return {
+    version: "v0",
+    lastUpdated: new Date().toISOString(),
+    entries,
+    deprecated,
+  };
+}
+
+function readRelease(item: unknown): OfficialRelease | null {
+  if (!isRecord(item)) return null;
+
+  // Current responses wrap each server as { server, _meta }, older ones list servers directly
+  const server: OfficialServer = isRecord(item.server) ? item.server : item;
+  if (typeof server.name !== "string" || server.name === "") return null;
+
+  const meta = (isRecord(item._meta) ? item._meta : server._meta)?.[OFFICIAL_META_KEY] ?? {};
+  const version = server.version ?? server.version_detail?.version ?? "";
+
+  return {
+    server,
+    version,
+    isLatest: Boolean(meta.isLatest ?? meta.is_latest ?? server.version_detail?.is_latest),
+    status: String(meta.status ?? server.status ?? "active"),
+  };
+}
+
+function toEntry(
+  name: string,
+  latest: OfficialRelease,
+  releases: OfficialRelease[]
+): MCPRegistryEntry | null {
+  const { server } = latest;
+  const id = name.replace(/[^a-zA-Z0-9._-]+/g, "-");
+  const displayName = server.title || name.split("/").pop() || name;
+  const base = {
+    id,
+    name: displayName,
+    description: server.description ?? "",
+    status: "active",
+    repository: server.repository?.url,
+  };
+
+  const pkg = server.packages?.find((candidate) =>
+    ["npm", "pypi"].includes(candidate.registryType ?? candidate.registry_name ?? "")
+  );
+  if (pkg) {
+    const identifier = pkg.identifier ?? pkg.name;
+    if (!identifier) return null;
+
+    const registryType = pkg.registryType ?? pkg.registry_name;
+    const version = pkg.version ?? latest.version;
+    const inputs = pkg.environmentVariables ?? pkg.environment_variables ?? [];
+    const spec = registryType === "npm" ? `${identifier}@${version}` : `${identifier}==${version}`;
+
+    return {
+      ...base,
+      npmPackage: registryType === "npm" ? identifier : undefined,
+      pypiPackage: registryType === "pypi" ? identifier : undefined,
+      version,
+      versions: Array.from(new Set(releases.map((release) => release.version).filter(Boolean))),
+      category: registryType === "npm" ? "npm" : "python",
+      icon: "package",
+      transport: { type: "stdio", autoDetect: false },
+      configuration: {
+        fields: inputs.map(toField),
+        template: {
+          type: "stdio",
+          command: registryType === "npm" ? "npx" : "uvx",
+          args: registryType === "npm" ? ["-y", spec] : [spec],
+          env: toValues(inputs),
+        },
+      },
+    };
+  }
+
+  const remote = server.remotes?.find((candidate) =>
+    ["streamable-http", "http", "sse"].includes(candidate.type ?? candidate.transport_type ?? "")
+  );
+  if (remote?.url) {
+    const type = (remote.type ?? remote.transport_type) === "sse" ? "sse" : "http";
+    const headers = remote.headers ?? [];
+
+    return {
+      ...base,
+      version: latest.version || undefined,
+      category: "remote",
+      icon: "globe",
+      transport: { type, autoDetect: false },
+      configuration: {
+        fields: headers.map(toField),
+        template: {
+          type,
+          baseUrl: remote.url,
+          headers: toValues(headers),
+        },
+      },
+    };
+  }
+
+  // Docker images, binaries and other package types have no launcher here
+  return null;
+}
+
+function toField(input: OfficialInput): MCPRegistryField {
+  return {
+    key: input.name,
+    label: input.name,
+    type: input.isSecret ?? input.is_secret ? "password" : "text",
+    required: Boolean(input.isRequired ?? input.is_required),
+    description: input.description ?? "",
+    defaultValue: input.default,
+  };
+}
+
+// Required inputs start out empty so they show up in the server's configuration
+function toValues(inputs: OfficialInput[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const input of inputs) {
+    if (input.default !== undefined || input.isRequired || input.is_required) {
+      values[input.name] = input.default ?? "";
+    }
+  }
+  return values;
+}
+
+function splitVersion(version: string): [string, string] {
+  const clean = version.trim().replace(/^v/, "").split("+")[0];
+  const dash = clean.indexOf("-");
+  return dash === -1 ? [clean, ""] : [clean.slice(0, dash), clean.slice(dash + 1)];
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
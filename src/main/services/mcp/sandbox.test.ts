@@ -0,0 +1,93 @@
+import os from 'os';
+import path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('child_process', () => ({
+  execFile: (_file: string, args: string[], callback: (error: Error | null, result?: { stdout: string }) => void) =>
+    callback(null, { stdout: `/usr/bin/${args[0]}\n` }),
+}));
+vi.mock('../logging', () => {
+  const category = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { getLogger: () => ({ mcp: category }) };
+});
+vi.mock('../directoryService', () => ({
+  directoryService: {
+    ensureSubdir: vi.fn(async (subdir: string) => path.join('/levante', subdir)),
+  },
+}));
+
+import { applySandbox } from './sandbox';
+
+const home = os.homedir();
+
+function options(command: string, serverId = 'files') {
+  return {
+    serverId,
+    command,
+    resolvedCommand: `/usr/bin/${command}`,
+    args: ['some-server'],
+    serverEnv: {},
+    path: '/usr/bin',
+    runtimeDirs: [],
+  };
+}
+
+// The [flag, source] pairs of the bwrap mounts
+function mounts(args: string[]): Array<[string, string]> {
+  return args.flatMap((arg, index) => (arg.includes('bind') ? [[arg, args[index + 1]] as [string, string]] : []));
+}
+
+beforeEach(() => {
+  vi.spyOn(process, 'platform', 'get').mockReturnValue('linux');
+});
+
+describe('applySandbox with bubblewrap', () => {
+  it('mounts the npm cache read-only and gives the server its own cache', async () => {
+    const launch = await applySandbox({ enabled: true }, options('npx'));
+
+    expect(mounts(launch.args)).toContainEqual(['--ro-bind-try', path.join(home, '.npm')]);
+    expect(mounts(launch.args)).toContainEqual(['--bind', '/levante/sandbox/files']);
+    expect(mounts(launch.args).filter(([flag]) => flag === '--bind-try')).toEqual([]);
+    expect(launch.env.npm_config_cache).toBe('/levante/sandbox/files/npm');
+  });
+
+  it('mounts the uv directories read-only and gives the server its own cache', async () => {
+    const launch = await applySandbox({ enabled: true }, options('uvx'));
+
+    expect(mounts(launch.args)).toContainEqual(['--ro-bind-try', path.join(home, '.cache', 'uv')]);
+    expect(mounts(launch.args)).toContainEqual(['--ro-bind-try', path.join(home, '.local', 'share', 'uv')]);
+    expect(launch.env.UV_CACHE_DIR).toBe('/levante/sandbox/files/uv');
+  });
+
+  it('mounts the server cache after the allowed paths', async () => {
+    const launch = await applySandbox(
+      { enabled: true, allowedPaths: [{ path: '~/levante', writable: false }] },
+      options('npx')
+    );
+    const flags = mounts(launch.args).map(([flag]) => flag);
+
+    expect(flags.indexOf('--bind')).toBeGreaterThan(flags.lastIndexOf('--ro-bind-try'));
+  });
+
+  it('keeps server ids to a single directory name', async () => {
+    const launch = await applySandbox({ enabled: true }, options('npx', '../../.ssh'));
+
+    expect(launch.env.npm_config_cache).toBe('/levante/sandbox/ssh/npm');
+  });
+
+  it('lets the server configuration override the cache location', async () => {
+    const launch = await applySandbox(
+      { enabled: true },
+      { ...options('npx'), serverEnv: { npm_config_cache: '/data/npm' } }
+    );
+
+    expect(launch.env.npm_config_cache).toBe('/data/npm');
+  });
+
+  it('adds no cache for other commands', async () => {
+    const launch = await applySandbox({ enabled: true }, options('python3'));
+
+    expect(mounts(launch.args).filter(([flag]) => flag === '--bind')).toEqual([]);
+    expect(launch.env.npm_config_cache).toBeUndefined();
+  });
+});
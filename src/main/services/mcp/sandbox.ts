@@ -0,0 +1,293 @@
+import { promisify } from "util";
+import { execFile } from "child_process";
+import { realpathSync } from "fs";
+import os from "os";
+import path from "path";
+import type { MCPSandboxPolicy } from "../../types/mcp.js";
+import { getLogger } from "../logging";
+import { directoryService } from "../directoryService";
+
+const execFileAsync = promisify(execFile);
+const logger = getLogger();
+
+/**
+ * Host variables a sandboxed server gets when its policy has no allowlist
+ */
+export const DEFAULT_SANDBOX_ENV = ["HOME", "LANG", "LC_ALL", "TERM", "TMPDIR", "USER"];
+
+// System directories mounted read-only so runtimes and their libraries work
+const SYSTEM_PATHS = ["/usr", "/bin", "/sbin", "/lib", "/lib32", "/lib64", "/etc", "/opt"];
+
+// Per-server package caches, under the Levante directory
+const SANDBOX_DIR = "sandbox";
+
+// Variables describing the host layout, meaningless inside a container
+const HOST_ONLY_ENV = ["PATH", "HOME", "USER", "TMPDIR", "SHELL"];
+
+const DEFAULT_IMAGES: Record<string, string> = {
+  npx: "docker.io/library/node:lts-slim",
+  node: "docker.io/library/node:lts-slim",
+  uvx: "ghcr.io/astral-sh/uv:python3.12-bookworm-slim",
+  uv: "ghcr.io/astral-sh/uv:python3.12-bookworm-slim",
+  python: "docker.io/library/python:3.12-slim",
+  python3: "docker.io/library/python:3.12-slim",
+};
+
+export interface SandboxLaunch {
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+}
+
+interface PackageCache {
+  sharedPaths: string[]; // The user's caches, mounted read-only
+  env: (cacheDir: string) => Record<string, string>; // Points the tool at the server's own cache
+}
+
+interface SandboxOptions {
+  serverId: string;
+  command: string; // As configured, e.g. "npx"
+  resolvedCommand: string; // Host path from resolveCommand
+  args: string[];
+  serverEnv: Record<string, string>;
+  path: string; // PATH the server would get without a sandbox
+  runtimeDirs: string[]; // Directories of the detected Node.js runtime
+}
+
+/**
+ * Wrap a stdio server command so it runs under the server's sandbox policy.
+ * The server only gets the allowlisted host variables instead of process.env.
+ * Throws when the sandbox runtime is missing rather than running unsandboxed.
+ */
+export async function applySandbox(
+  policy: MCPSandboxPolicy,
+  options: SandboxOptions
+): Promise<SandboxLaunch> {
+  validateSandboxPolicy(policy);
+
+  const runtime = policy.runtime ?? "bubblewrap";
+  logger.mcp.info("Starting MCP server in sandbox", {
+    serverId: options.serverId,
+    runtime,
+    network: Boolean(policy.network),
+    allowedPaths: policy.allowedPaths?.length ?? 0,
+  });
+
+  return runtime === "container"
+    ? wrapWithContainer(policy, options)
+    : wrapWithBubblewrap(policy, options);
+}
+
+/**
+ * Reject policies that cannot be mounted as declared
+ */
+export function validateSandboxPolicy(policy: MCPSandboxPolicy): void {
+  for (const entry of policy.allowedPaths ?? []) {
+    const resolved = expandHome(entry.path);
+    if (!path.isAbsolute(resolved)) {
+      throw new Error(`Sandbox path must be absolute: ${entry.path}`);
+    }
+    if (resolved === path.parse(resolved).root) {
+      throw new Error("The sandbox cannot be given the whole filesystem");
+    }
+    if (policy.runtime === "container" && resolved.includes(":")) {
+      throw new Error(`Container sandbox paths cannot contain ":": ${entry.path}`);
+    }
+  }
+}
+
+async function wrapWithBubblewrap(
+  policy: MCPSandboxPolicy,
+  options: SandboxOptions
+): Promise<SandboxLaunch> {
+  if (process.platform !== "linux") {
+    throw new Error("The bubblewrap sandbox is only available on Linux. Use the container runtime instead.");
+  }
+
+  const bwrap = await findExecutable("bwrap");
+  if (!bwrap) {
+    throw new Error("bubblewrap (bwrap) is not installed. Install it or disable the sandbox for this server.");
+  }
+
+  const args = ["--die-with-parent", "--new-session", "--unshare-all"];
+  if (policy.network) {
+    args.push("--share-net");
+  }
+  args.push("--proc", "/proc", "--dev", "/dev", "--tmpfs", "/tmp");
+
+  for (const dir of SYSTEM_PATHS) {
+    args.push("--ro-bind-try", dir, dir);
+  }
+  for (const dir of runtimePaths(options)) {
+    args.push("--ro-bind-try", dir, dir);
+  }
+  // The user's package caches are read-only so a server cannot plant packages
+  // for other servers or the host. Downloads go to a cache of its own instead.
+  const cache = packageCache(options.command);
+  for (const dir of cache?.sharedPaths ?? []) {
+    args.push("--ro-bind-try", dir, dir);
+  }
+
+  const allowedPaths = (policy.allowedPaths ?? []).map((entry) => ({
+    path: expandHome(entry.path),
+    writable: Boolean(entry.writable),
+  }));
+  for (const entry of allowedPaths) {
+    args.push(entry.writable ? "--bind-try" : "--ro-bind-try", entry.path, entry.path);
+  }
+
+  // Mounted last so an allowed path above it cannot make it read-only
+  let cacheEnv: Record<string, string> = {};
+  if (cache) {
+    const cacheDir = await directoryService.ensureSubdir(path.join(SANDBOX_DIR, safeDirName(options.serverId)));
+    args.push("--bind", cacheDir, cacheDir);
+    cacheEnv = cache.env(cacheDir);
+  }
+
+  const workdir = allowedPaths.find((entry) => entry.writable)?.path ?? "/tmp";
+  args.push("--chdir", workdir, "--", options.resolvedCommand, ...options.args);
+
+  return {
+    command: bwrap,
+    args,
+    env: { ...pickHostEnv(policy), ...cacheEnv, ...options.serverEnv, PATH: options.path },
+  };
+}
+
+async function wrapWithContainer(
+  policy: MCPSandboxPolicy,
+  options: SandboxOptions
+): Promise<SandboxLaunch> {
+  const engine = (await findExecutable("podman")) ?? (await findExecutable("docker"));
+  if (!engine) {
+    throw new Error("Neither podman nor docker is installed. Install one or disable the sandbox for this server.");
+  }
+
+  const command = options.command.split(" ")[0];
+  const image = policy.image || DEFAULT_IMAGES[path.basename(command)];
+  if (!image) {
+    throw new Error(`No container image is known for "${command}". Set an image in the sandbox settings.`);
+  }
+
+  const args = [
+    "run",
+    "--rm",
+    "-i",
+    "--cap-drop=ALL",
+    "--security-opt=no-new-privileges",
+  ];
+  if (!policy.network) {
+    args.push("--network=none");
+  }
+
+  const allowedPaths = (policy.allowedPaths ?? []).map((entry) => ({
+    path: expandHome(entry.path),
+    writable: Boolean(entry.writable),
+  }));
+  for (const entry of allowedPaths) {
+    args.push("-v", `${entry.path}:${entry.path}${entry.writable ? "" : ":ro"}`);
+  }
+  const workdir = allowedPaths.find((entry) => entry.writable)?.path;
+  if (workdir) {
+    args.push("-w", workdir);
+  }
+
+  // Passed by name so values never appear in the process list
+  const containerEnv = {
+    ...pickHostEnv(policy, HOST_ONLY_ENV),
+    ...options.serverEnv,
+  };
+  for (const name of Object.keys(containerEnv)) {
+    args.push("-e", name);
+  }
+
+  const commandArgs = options.command.split(" ").slice(1).concat(options.args);
+  args.push(image, command, ...commandArgs);
+
+  return {
+    command: engine,
+    args,
+    // The engine itself needs the user's environment (runtime dir, config)
+    env: { ...(process.env as Record<string, string>), ...containerEnv, PATH: options.path },
+  };
+}
+
+function pickHostEnv(policy: MCPSandboxPolicy, exclude: string[] = []): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of policy.envAllowlist ?? DEFAULT_SANDBOX_ENV) {
+    const value = process.env[name];
+    if (value !== undefined && !exclude.includes(name)) {
+      env[name] = value;
+    }
+  }
+  return env;
+}
+
+// Installation prefixes of the command and of Node.js, e.g. ~/.nvm/versions/node/v20
+function runtimePaths(options: SandboxOptions): string[] {
+  const binDirs = [
+    path.dirname(options.resolvedCommand),
+    path.dirname(realpathOrSelf(options.resolvedCommand)),
+    ...options.runtimeDirs,
+  ];
+  const home = os.homedir();
+  const isSystemPath = (dir: string) =>
+    SYSTEM_PATHS.some((system) => dir === system || dir.startsWith(`${system}/`));
+
+  const prefixes = binDirs
+    .filter((dir) => path.isAbsolute(dir) && !isSystemPath(dir))
+    .map((dir) => {
+      const prefix = path.dirname(dir);
+      // A prefix of "/" or the home directory would expose everything, keep the bin directory then
+      return prefix === path.parse(prefix).root || prefix === home ? dir : prefix;
+    });
+
+  return Array.from(new Set(prefixes));
+}
+
+function packageCache(command: string): PackageCache | null {
+  const home = os.homedir();
+  const name = path.basename(command.split(" ")[0]);
+
+  if (name === "npx" || name === "npm" || name === "node") {
+    return {
+      sharedPaths: [path.join(home, ".npm")],
+      env: (cacheDir) => ({ npm_config_cache: path.join(cacheDir, "npm") }),
+    };
+  }
+  if (name === "uvx" || name === "uv") {
+    return {
+      sharedPaths: [path.join(home, ".cache", "uv"), path.join(home, ".local", "share", "uv")],
+      env: (cacheDir) => ({ UV_CACHE_DIR: path.join(cacheDir, "uv") }),
+    };
+  }
+  return null;
+}
+
+// Server ids come from mcp.json, keep them to a single safe path segment
+function safeDirName(serverId: string): string {
+  return path.basename(serverId).replace(/[^\w.\-]+/g, "_").replace(/^\.+/, "") || "server";
+}
+
+function expandHome(value: string): string {
+  if (value === "~") return os.homedir();
+  if (value.startsWith("~/")) return path.join(os.homedir(), value.slice(2));
+  return path.normalize(value);
+}
+
+function realpathOrSelf(value: string): string {
+  try {
+    return realpathSync(value);
+  } catch {
+    return value;
+  }
+}
+
+async function findExecutable(name: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync("which", [name]);
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
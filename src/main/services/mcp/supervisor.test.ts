@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('electron', () => ({ BrowserWindow: { getAllWindows: () => [] } }));
+vi.mock('../logging', () => {
+  const category = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { getLogger: () => ({ mcp: category }) };
+});
+
+import { ConnectionSupervisor } from './supervisor';
+
+let supervisor: ConnectionSupervisor;
+let restart: ReturnType<typeof vi.fn>;
+
+// Crash the server and let the scheduled restart bring it back
+async function crashAndRestart(serverId: string): Promise<boolean> {
+  supervisor.setState(serverId, 'crashed', 'Connection closed unexpectedly');
+  if (!supervisor.scheduleRestart(serverId)) return false;
+  await vi.runOnlyPendingTimersAsync();
+  supervisor.setState(serverId, 'ready');
+  return true;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  restart = vi.fn(async () => undefined);
+  supervisor = new ConnectionSupervisor(restart);
+  supervisor.setState('files', 'ready');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ConnectionSupervisor restarts', () => {
+  it('gives up on a server that crashes right after every restart', async () => {
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      expect(await crashAndRestart('files')).toBe(true);
+      expect(supervisor.getStatus('files')?.restarts).toBe(attempt);
+    }
+
+    expect(await crashAndRestart('files')).toBe(false);
+    expect(restart).toHaveBeenCalledTimes(5);
+  });
+
+  it('resets the restart count once a server stays ready', async () => {
+    await crashAndRestart('files');
+    await crashAndRestart('files');
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(supervisor.getStatus('files')?.restarts).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(supervisor.getStatus('files')?.restarts).toBe(0);
+  });
+
+  it('does not reset the count for a server that crashed again', async () => {
+    await crashAndRestart('files');
+    await vi.advanceTimersByTimeAsync(30_000);
+    supervisor.setState('files', 'crashed', 'Connection closed unexpectedly');
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(supervisor.getStatus('files')?.restarts).toBe(1);
+  });
+
+  it('resets the count and the pending restart on a manual connect', async () => {
+    await crashAndRestart('files');
+    supervisor.setState('files', 'crashed', 'Connection closed unexpectedly');
+    supervisor.scheduleRestart('files');
+
+    supervisor.resetRestarts('files');
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(supervisor.getStatus('files')?.restarts).toBe(0);
+    expect(restart).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,208 @@
+import { BrowserWindow } from "electron";
+import type { Stream } from "stream";
+import type { MCPServerState, MCPServerStatus } from "../../types/mcp.js";
+import { getLogger } from "../logging";
+
+// Lines of stderr kept per server
+const STDERR_LINES = 50;
+// Automatic restarts after a crash before the server is left crashed
+const MAX_RESTARTS = 5;
+const INITIAL_RESTART_DELAY_MS = 1000;
+const MAX_RESTART_DELAY_MS = 60000;
+// Time a restarted server must stay ready to get its restart budget back
+const STABLE_READY_MS = 60000;
+
+/**
+ * Keeps the live state of every server connection and pushes each change to
+ * the renderer. Crashed servers are restarted with exponential backoff through
+ * the `restart` callback until they are ready again or out of attempts. The
+ * attempts only reset once a server stays ready for a while or is connected
+ * by hand, so a server that crashes right after starting gives up.
+ */
+export class ConnectionSupervisor {
+  private logger = getLogger();
+  private statuses: Map<string, MCPServerStatus> = new Map();
+  private restartTimers: Map<string, NodeJS.Timeout> = new Map();
+  private stableTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(private readonly restart: (serverId: string) => Promise<void>) {}
+
+  getStatus(serverId: string): MCPServerStatus | undefined {
+    return this.statuses.get(serverId);
+  }
+
+  /**
+   * Whether the server is still wanted, i.e. not disconnected since it was started
+   */
+  isSupervised(serverId: string): boolean {
+    return this.statuses.has(serverId);
+  }
+
+  getStatuses(): MCPServerStatus[] {
+    return Array.from(this.statuses.values());
+  }
+
+  setState(serverId: string, state: MCPServerState, error?: string): void {
+    const previous = this.statuses.get(serverId);
+    if (previous?.state === state && previous.error === error) return;
+
+    this.update(serverId, { state, error, nextRestartAt: undefined });
+
+    if (state === "ready") {
+      this.watchStability(serverId);
+    } else if (state !== "degraded") {
+      this.cancelStabilityWatch(serverId);
+    }
+  }
+
+  /**
+   * Give a server its full restart budget back, for connections started by hand
+   */
+  resetRestarts(serverId: string): void {
+    this.cancelRestart(serverId);
+    this.cancelStabilityWatch(serverId);
+    if ((this.statuses.get(serverId)?.restarts ?? 0) > 0) {
+      this.update(serverId, { restarts: 0 });
+    }
+  }
+
+  /**
+   * Recover from `degraded` once a request goes through again
+   */
+  markHealthy(serverId: string): void {
+    if (this.statuses.get(serverId)?.state === "degraded") {
+      this.setState(serverId, "ready");
+    }
+  }
+
+  /**
+   * Keep the tail of what a stdio server writes to stderr
+   */
+  captureStderr(serverId: string, stream: Stream | null): void {
+    stream?.on("data", (chunk: Buffer | string) => {
+      const lines = chunk
+        .toString()
+        .split(/\r?\n/)
+        .filter((line) => line.trim() !== "");
+      // Output arriving after a disconnect belongs to no connection anymore
+      if (lines.length === 0 || !this.statuses.has(serverId)) return;
+
+      this.logger.mcp.debug("MCP server stderr", { serverId, lines });
+
+      const stderr = [...(this.statuses.get(serverId)?.stderr ?? []), ...lines];
+      this.update(serverId, { stderr: stderr.slice(-STDERR_LINES) });
+    });
+  }
+
+  /**
+   * Schedule the next restart of a crashed server. Returns false when the
+   * server is out of attempts and stays crashed.
+   */
+  scheduleRestart(serverId: string): boolean {
+    this.cancelRestart(serverId);
+
+    const restarts = this.statuses.get(serverId)?.restarts ?? 0;
+    if (restarts >= MAX_RESTARTS) {
+      this.logger.mcp.warn("MCP server crashed too often, giving up restarts", {
+        serverId,
+        restarts,
+      });
+      this.update(serverId, { nextRestartAt: undefined });
+      return false;
+    }
+
+    const delay = Math.min(INITIAL_RESTART_DELAY_MS * 2 ** restarts, MAX_RESTART_DELAY_MS);
+    this.logger.mcp.info("Scheduling MCP server restart", {
+      serverId,
+      attempt: restarts + 1,
+      delayMs: delay,
+    });
+
+    this.restartTimers.set(
+      serverId,
+      setTimeout(() => {
+        this.restartTimers.delete(serverId);
+        void this.restart(serverId);
+      }, delay)
+    );
+    this.update(serverId, { restarts: restarts + 1, nextRestartAt: Date.now() + delay });
+    return true;
+  }
+
+  cancelRestart(serverId: string): void {
+    const timer = this.restartTimers.get(serverId);
+    if (timer) {
+      clearTimeout(timer);
+      this.restartTimers.delete(serverId);
+    }
+  }
+
+  /**
+   * Stop supervising a server that was disconnected on purpose
+   */
+  forget(serverId: string): void {
+    this.cancelRestart(serverId);
+    this.cancelStabilityWatch(serverId);
+    if (!this.statuses.has(serverId)) return;
+
+    this.statuses.delete(serverId);
+    this.broadcast("levante/mcp/server-status", {
+      serverId,
+      state: "disconnected",
+      stderr: [],
+      restarts: 0,
+      updatedAt: Date.now(),
+    } satisfies MCPServerStatus);
+  }
+
+  notifyToolsChanged(serverId: string): void {
+    this.broadcast("levante/mcp/tools-changed", serverId);
+  }
+
+  /**
+   * Reset the restart count of a restarted server that stays ready
+   */
+  private watchStability(serverId: string): void {
+    if (this.stableTimers.has(serverId) || !this.statuses.get(serverId)?.restarts) return;
+
+    this.stableTimers.set(
+      serverId,
+      setTimeout(() => {
+        this.stableTimers.delete(serverId);
+        if (this.statuses.get(serverId)?.state === "ready") {
+          this.update(serverId, { restarts: 0 });
+        }
+      }, STABLE_READY_MS)
+    );
+  }
+
+  private cancelStabilityWatch(serverId: string): void {
+    const timer = this.stableTimers.get(serverId);
+    if (timer) {
+      clearTimeout(timer);
+      this.stableTimers.delete(serverId);
+    }
+  }
+
+  private update(serverId: string, changes: Partial<Omit<MCPServerStatus, "serverId">>): void {
+    const status: MCPServerStatus = {
+      serverId,
+      state: "connecting",
+      stderr: [],
+      restarts: 0,
+      ...this.statuses.get(serverId),
+      ...changes,
+      updatedAt: Date.now(),
+    };
+    this.statuses.set(serverId, status);
+    this.broadcast("levante/mcp/server-status", status);
+  }
+
+  private broadcast(channel: string, payload: unknown): void {
+    BrowserWindow.getAllWindows().forEach((window) => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, payload);
+      }
+    });
+  }
+}
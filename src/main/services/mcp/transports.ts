@@ -6,9 +6,17 @@ import type { MCPServerConfig } from "../../types/mcp.js";
 import { getLogger } from "../logging";
 import { resolveCommand, detectNodePaths, getEnhancedPath } from "./commandResolver.js";
 import { loadMCPRegistry } from "./registry.js";
+import { mcpAuthService } from "../mcpAuthService";
+import { decryptMCPServerSecrets } from "../../utils/encryption";
+import { applySandbox } from "./sandbox.js";
 
 const logger = getLogger();
 
+// A static Authorization header means the server is not authorized with OAuth
+function hasAuthorizationHeader(headers?: Record<string, string>): boolean {
+  return Object.keys(headers || {}).some((name) => name.toLowerCase() === "authorization");
+}
+
 export async function createTransport(config: MCPServerConfig): Promise<{
   client: Client;
   transport: any;
@@ -18,6 +26,10 @@ export async function createTransport(config: MCPServerConfig): Promise<{
   const transportType = config.transport || (config as any).type;
   const baseUrl = config.baseUrl || (config as any).url;
 
+  // Credentials are stored encrypted in mcp.json and only decrypted here
+  const { env: serverEnv, headers }: Pick<MCPServerConfig, "env" | "headers"> =
+    decryptMCPServerSecrets(config);
+
   // Create client with capabilities
   const client = new Client(
     {
@@ -59,15 +71,30 @@ export async function createTransport(config: MCPServerConfig): Promise<{
 
       const env = {
         ...process.env,
-        ...config.env,
+        ...serverEnv,
         // Ensure Node.js paths are available
         PATH: finalPath,
       };
 
+      // A sandboxed server only gets the environment its policy allows
+      const launch = config.sandbox?.enabled
+        ? await applySandbox(config.sandbox, {
+            serverId: config.id,
+            command: config.command,
+            resolvedCommand: resolved.command,
+            args: resolved.args,
+            serverEnv: serverEnv || {},
+            path: finalPath,
+            runtimeDirs: detectedPaths,
+          })
+        : { command: resolved.command, args: resolved.args, env };
+
       transport = new StdioClientTransport({
-        command: resolved.command,
-        args: resolved.args,
-        env,
+        command: launch.command,
+        args: launch.args,
+        env: launch.env as Record<string, string>,
+        // Captured by the connection supervisor instead of going to our own stderr
+        stderr: "pipe",
       });
       break;
 
@@ -79,13 +106,16 @@ export async function createTransport(config: MCPServerConfig): Promise<{
       logger.mcp.debug("Creating HTTP transport", {
         serverId: config.id,
         baseUrl: baseUrl,
-        hasHeaders: !!(config.headers && Object.keys(config.headers).length > 0),
+        hasHeaders: !!(headers && Object.keys(headers).length > 0),
       });
 
       transport = new StreamableHTTPClientTransport(new URL(baseUrl), {
         requestInit: {
-          headers: config.headers || {},
+          headers: headers || {},
         },
+        authProvider: hasAuthorizationHeader(headers)
+          ? undefined
+          : await mcpAuthService.createProvider(config.id, baseUrl),
       });
       break;
 
@@ -97,13 +127,16 @@ export async function createTransport(config: MCPServerConfig): Promise<{
       logger.mcp.debug("Creating SSE transport", {
         serverId: config.id,
         baseUrl: baseUrl,
-        hasHeaders: !!(config.headers && Object.keys(config.headers).length > 0),
+        hasHeaders: !!(headers && Object.keys(headers).length > 0),
       });
 
       transport = new SSEClientTransport(new URL(baseUrl), {
         requestInit: {
-          headers: config.headers || {},
+          headers: headers || {},
         },
+        authProvider: hasAuthorizationHeader(headers)
+          ? undefined
+          : await mcpAuthService.createProvider(config.id, baseUrl),
       });
       break;
 
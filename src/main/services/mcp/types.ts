@@ -1,7 +1,7 @@
 export interface MCPRegistryEntry {
   id: string;
   name: string;
-  npmPackage: string;
+  npmPackage?: string;
   status: string;
   version?: string;
 }
@@ -0,0 +1,286 @@
+import { auth } from '@modelcontextprotocol/sdk/client/auth.js';
+import type { OAuthClientInformationFull, OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js';
+import type { MCPAuthStatus } from '../types/mcp.js';
+import { directoryService } from './directoryService';
+import { getLogger } from './logging';
+import { oauthCallbackServer } from './oauthCallbackServer';
+import { LevanteOAuthProvider, type ServerAuthStorage } from './mcp/oauthProvider';
+import { decryptValue, encryptValue } from '../utils/encryption';
+
+/**
+ * What a server handed out during sign-in. Secrets are stored encrypted.
+ */
+interface StoredServerAuth {
+  serverUrl: string;
+  redirectUrl?: string; // Redirect the client was registered with
+  clientInformation?: string; // Encrypted JSON
+  tokens?: string; // Encrypted JSON
+  expiresAt?: number;
+  scope?: string;
+  codeVerifier?: string; // Encrypted, kept until the code is exchanged
+  updatedAt: number;
+}
+
+interface MCPAuthData {
+  version: number;
+  servers: Record<string, StoredServerAuth>;
+}
+
+/**
+ * Thrown when a server needs a browser sign-in that cannot happen in the background
+ */
+export class MCPAuthorizationRequiredError extends Error {
+  constructor(public readonly serverId: string) {
+    super(`Server "${serverId}" requires you to sign in. Use "Sign in" in the server settings to authorize Levante.`);
+    this.name = 'MCPAuthorizationRequiredError';
+  }
+}
+
+/**
+ * OAuth credentials of remote MCP servers, kept in mcp-auth.json apart from
+ * mcp.json so exported configurations never carry tokens
+ */
+export class MCPAuthService implements ServerAuthStorage {
+  private logger = getLogger();
+  private store: any;
+  private initialized = false;
+  private authorizationRequired: Set<string> = new Set();
+  private signIns: Map<string, Promise<void>> = new Map();
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    const Store = (await import('electron-store')).default;
+    await directoryService.ensureBaseDir();
+
+    this.store = new Store<MCPAuthData>({
+      name: 'mcp-auth',
+      cwd: directoryService.getBaseDir(),
+      defaults: { version: 1, servers: {} },
+    });
+    this.initialized = true;
+  }
+
+  /**
+   * OAuth provider for a connection to `serverUrl`. Pass `redirectUrl` to let
+   * it open the browser; without it a needed sign-in is only flagged.
+   */
+  async createProvider(serverId: string, serverUrl: string, redirectUrl?: string): Promise<LevanteOAuthProvider> {
+    await this.initialize();
+
+    // Credentials issued for another URL belong to another server
+    const entry = this.getEntry(serverId);
+    if (entry && entry.serverUrl !== serverUrl) {
+      this.logger.mcp.info('MCP server URL changed, discarding its credentials', { serverId });
+      this.setEntry(serverId, undefined);
+    }
+
+    // Only a browser sign-in starts storing credentials
+    if (redirectUrl && !this.getEntry(serverId)) {
+      this.setEntry(serverId, { serverUrl, updatedAt: Date.now() });
+    }
+
+    return new LevanteOAuthProvider(serverId, this, redirectUrl);
+  }
+
+  async getStatus(serverId: string): Promise<MCPAuthStatus> {
+    await this.initialize();
+    const entry = this.getEntry(serverId);
+
+    return {
+      serverId,
+      signedIn: Boolean(entry?.tokens),
+      authorizationRequired: this.authorizationRequired.has(serverId),
+      expiresAt: entry?.expiresAt,
+      scope: entry?.scope,
+    };
+  }
+
+  /**
+   * Sign in to a server in the browser. Resolves once tokens are stored; a
+   * second call while the browser is open waits for the same sign-in.
+   */
+  signIn(serverId: string, serverUrl: string): Promise<void> {
+    const running = this.signIns.get(serverId);
+    if (running) return running;
+
+    const signIn = this.runSignIn(serverId, serverUrl).finally(() => {
+      this.signIns.delete(serverId);
+      oauthCallbackServer.stopWhenIdle(5000);
+    });
+    this.signIns.set(serverId, signIn);
+    return signIn;
+  }
+
+  /**
+   * Forget the tokens and client registration of a server
+   */
+  async signOut(serverId: string): Promise<void> {
+    await this.initialize();
+    this.authorizationRequired.delete(serverId);
+    this.setEntry(serverId, undefined);
+    this.logger.mcp.info('Signed out of MCP server', { serverId });
+  }
+
+  isAuthorizationRequired(serverId: string): boolean {
+    return this.authorizationRequired.has(serverId);
+  }
+
+  // ServerAuthStorage
+
+  async getClientInformation(serverId: string) {
+    await this.initialize();
+    const entry = this.getEntry(serverId);
+    const information = this.readSecret<OAuthClientInformationFull>(serverId, entry?.clientInformation);
+    return information && entry?.redirectUrl ? { information, redirectUrl: entry.redirectUrl } : undefined;
+  }
+
+  async saveClientInformation(serverId: string, information: OAuthClientInformationFull, redirectUrl: string): Promise<void> {
+    await this.updateEntry(serverId, (entry) => ({
+      ...entry,
+      redirectUrl,
+      clientInformation: encryptValue(JSON.stringify(information)),
+    }));
+  }
+
+  async getTokens(serverId: string): Promise<OAuthTokens | undefined> {
+    await this.initialize();
+    return this.readSecret<OAuthTokens>(serverId, this.getEntry(serverId)?.tokens);
+  }
+
+  async saveTokens(serverId: string, tokens: OAuthTokens): Promise<void> {
+    const previous = await this.getTokens(serverId);
+
+    // Refresh responses may leave out the refresh token, which stays valid then
+    const next: OAuthTokens = {
+      ...tokens,
+      refresh_token: tokens.refresh_token ?? previous?.refresh_token,
+    };
+
+    await this.updateEntry(serverId, (entry) => ({
+      ...entry,
+      tokens: encryptValue(JSON.stringify(next)),
+      expiresAt: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined,
+      scope: tokens.scope,
+    }));
+    this.authorizationRequired.delete(serverId);
+  }
+
+  async getCodeVerifier(serverId: string): Promise<string | undefined> {
+    await this.initialize();
+    const codeVerifier = this.getEntry(serverId)?.codeVerifier;
+    return codeVerifier ? decryptValue(codeVerifier) : undefined;
+  }
+
+  async saveCodeVerifier(serverId: string, codeVerifier: string): Promise<void> {
+    await this.updateEntry(serverId, (entry) => ({ ...entry, codeVerifier: encryptValue(codeVerifier) }));
+  }
+
+  async invalidate(serverId: string, scope: 'all' | 'client' | 'tokens' | 'verifier'): Promise<void> {
+    await this.initialize();
+    if (!this.getEntry(serverId)) return;
+
+    this.logger.mcp.info('Invalidating MCP server credentials', { serverId, scope });
+
+    await this.updateEntry(serverId, (entry) => {
+      const next = { ...entry };
+      if (scope === 'all' || scope === 'client') {
+        delete next.clientInformation;
+        delete next.redirectUrl;
+      }
+      if (scope === 'all' || scope === 'tokens') {
+        delete next.tokens;
+        delete next.expiresAt;
+        delete next.scope;
+      }
+      if (scope === 'all' || scope === 'verifier') {
+        delete next.codeVerifier;
+      }
+      return next;
+    });
+  }
+
+  markAuthorizationRequired(serverId: string): void {
+    this.authorizationRequired.add(serverId);
+  }
+
+  private async runSignIn(serverId: string, serverUrl: string): Promise<void> {
+    const { callbackUrl } = await oauthCallbackServer.start();
+    const provider = await this.createProvider(serverId, serverUrl, `${callbackUrl}/callback`);
+    const state = provider.state();
+
+    this.logger.mcp.info('Starting MCP server sign-in', { serverId });
+
+    // Listen before the browser opens, an existing browser session can redirect at once
+    const code = oauthCallbackServer.waitForCode(state);
+    code.catch(() => {
+      // Awaited below, or cancelled when no browser sign-in is needed
+    });
+
+    let result;
+    try {
+      // Discovery, client registration and the redirect to the browser
+      result = await auth(provider, { serverUrl });
+    } catch (error) {
+      oauthCallbackServer.cancelAuthorization(state);
+      throw error;
+    }
+
+    // Stored tokens could simply be refreshed
+    if (result === 'AUTHORIZED') {
+      oauthCallbackServer.cancelAuthorization(state);
+    } else {
+      const exchanged = await auth(provider, { serverUrl, authorizationCode: await code });
+      if (exchanged !== 'AUTHORIZED') {
+        throw new Error('The server did not accept the sign-in');
+      }
+    }
+
+    await this.invalidate(serverId, 'verifier');
+    this.authorizationRequired.delete(serverId);
+    this.logger.mcp.info('Signed in to MCP server', { serverId });
+  }
+
+  private getEntry(serverId: string): StoredServerAuth | undefined {
+    const servers: Record<string, StoredServerAuth> = this.store.get('servers') || {};
+    return Object.prototype.hasOwnProperty.call(servers, serverId) ? servers[serverId] : undefined;
+  }
+
+  // Server ids can contain dots, so the whole map is written instead of a dotted key
+  private setEntry(serverId: string, entry: StoredServerAuth | undefined): void {
+    const servers: Record<string, StoredServerAuth> = { ...(this.store.get('servers') || {}) };
+    if (entry) {
+      servers[serverId] = entry;
+    } else {
+      delete servers[serverId];
+    }
+    this.store.set('servers', servers);
+  }
+
+  private async updateEntry(
+    serverId: string,
+    update: (entry: StoredServerAuth) => StoredServerAuth
+  ): Promise<void> {
+    await this.initialize();
+    const entry = this.getEntry(serverId);
+    if (!entry) {
+      throw new Error(`No sign-in in progress for server ${serverId}`);
+    }
+    this.setEntry(serverId, { ...update(entry), updatedAt: Date.now() });
+  }
+
+  private readSecret<T>(serverId: string, value: string | undefined): T | undefined {
+    if (!value) return undefined;
+
+    try {
+      return JSON.parse(decryptValue(value)) as T;
+    } catch {
+      // Encrypted on another machine or with another keychain
+      this.logger.mcp.warn('Could not read stored MCP credentials', { serverId });
+      return undefined;
+    }
+  }
+}
+
+// Export singleton instance
+export const mcpAuthService = new MCPAuthService();
@@ -0,0 +1,81 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const safeStorage = vi.hoisted(() => ({
+  isEncryptionAvailable: vi.fn(() => false),
+  // Like the real safeStorage, encrypting the same value twice gives different ciphertexts
+  encryptString: vi.fn((value: string) => Buffer.from(`${Math.random()}:${value}`)),
+  decryptString: vi.fn((value: Buffer) => value.toString().replace(/^[\d.]+:/, '')),
+}));
+
+const paths = vi.hoisted(() => ({ config: '' }));
+
+vi.mock('electron', () => ({ safeStorage }));
+vi.mock('./logging', () => {
+  const category = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { getLogger: () => ({ core: category, mcp: category }) };
+});
+vi.mock('./directoryService', () => ({
+  directoryService: { getMcpConfigPath: () => paths.config },
+}));
+
+import { MCPConfigurationManager } from './mcpConfigManager';
+
+const plaintextConfig = {
+  mcpServers: {
+    github: {
+      command: 'npx',
+      args: ['-y', 'server-github'],
+      env: { GITHUB_TOKEN: 'ghp_plaintext-token-value', GIT_AUTHOR_NAME: 'Levante Bot' },
+    },
+  },
+  disabled: {},
+};
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'levante-mcp-'));
+  paths.config = path.join(tempDir, 'mcp.json');
+  await fs.writeFile(paths.config, JSON.stringify(plaintextConfig, null, 2), 'utf-8');
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+  vi.clearAllMocks();
+});
+
+describe('MCPConfigurationManager.loadConfiguration', () => {
+  it('leaves plaintext credentials alone when encryption is unavailable', async () => {
+    safeStorage.isEncryptionAvailable.mockReturnValue(false);
+    const manager = new MCPConfigurationManager();
+    const save = vi.spyOn(manager, 'saveConfiguration');
+    const before = await fs.readFile(paths.config, 'utf-8');
+
+    const first = await manager.loadConfiguration();
+    const second = await manager.loadConfiguration();
+
+    expect(save).not.toHaveBeenCalled();
+    expect(await fs.readFile(paths.config, 'utf-8')).toBe(before);
+    expect(first).toEqual(plaintextConfig);
+    expect(second).toEqual(plaintextConfig);
+  });
+
+  it('encrypts plaintext credentials once when encryption is available', async () => {
+    safeStorage.isEncryptionAvailable.mockReturnValue(true);
+    const manager = new MCPConfigurationManager();
+    const save = vi.spyOn(manager, 'saveConfiguration');
+
+    const first = await manager.loadConfiguration();
+    await manager.loadConfiguration();
+
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(safeStorage.encryptString).toHaveBeenCalledTimes(1);
+    expect(first.mcpServers.github.env?.GITHUB_TOKEN).toMatch(/^ENCRYPTED:/);
+    expect(first.mcpServers.github.env?.GIT_AUTHOR_NAME).toBe('Levante Bot');
+    const stored = JSON.parse(await fs.readFile(paths.config, 'utf-8'));
+    expect(stored.mcpServers.github.env.GITHUB_TOKEN).toBe(first.mcpServers.github.env?.GITHUB_TOKEN);
+  });
+});
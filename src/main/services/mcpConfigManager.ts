@@ -3,6 +3,29 @@ import * as path from 'path';
 import type { MCPConfiguration, MCPServerConfig } from '../types/mcp.js';
 import { getLogger } from './logging';
 import { directoryService } from './directoryService';
+import {
+  decryptMCPServerSecrets,
+  encryptMCPServerSecrets,
+  hasPlaintextMCPServerSecrets,
+  isEncryptionAvailable,
+  stripMCPServerSecrets
+} from '../utils/encryption';
+
+export interface MCPSecretsOptions {
+  stripSecrets?: boolean; // Blank out env vars and headers that hold credentials
+}
+
+// Apply `transform` to every server, enabled or disabled
+function mapServers(config: MCPConfiguration, transform: (server: any) => any): MCPConfiguration {
+  const mapAll = (servers: Record<string, any> = {}) =>
+    Object.fromEntries(Object.entries(servers).map(([id, server]) => [id, transform(server)]));
+
+  return {
+    ...config,
+    mcpServers: mapAll(config.mcpServers),
+    disabled: mapAll(config.disabled)
+  };
+}
 
 export class MCPConfigurationManager {
   private logger = getLogger();
@@ -75,6 +98,18 @@ export class MCPConfigurationManager {
         config.disabled = {};
       }
 
+      // Credentials added by hand or by older versions are encrypted on first read.
+      // Without encryption they would stay plaintext and be rewritten on every load.
+      const servers = [...Object.values(config.mcpServers), ...Object.values(config.disabled)];
+      if (isEncryptionAvailable() && servers.some(hasPlaintextMCPServerSecrets)) {
+        this.logger.mcp.info("Encrypting plaintext credentials in MCP configuration");
+        // Values that are already encrypted are written as they are, so the
+        // file and the returned config hold the same ciphertexts
+        const encrypted = mapServers(config, encryptMCPServerSecrets);
+        await this.saveConfiguration(encrypted);
+        return encrypted;
+      }
+
       return config;
     } catch (error) {
       if ((error as any).code === 'ENOENT') {
@@ -93,11 +128,15 @@ export class MCPConfigurationManager {
     }
   }
 
+  /**
+   * Write mcp.json. Env vars and headers that look like credentials are
+   * stored encrypted; only createTransport decrypts them.
+   */
   async saveConfiguration(config: MCPConfiguration): Promise<void> {
     try {
       await fs.writeFile(
-        this.configPath, 
-        JSON.stringify(config, null, 2), 
+        this.configPath,
+        JSON.stringify(mapServers(config, encryptMCPServerSecrets), null, 2),
         'utf-8'
       );
       this.logger.mcp.info("MCP configuration saved successfully", { configPath: this.configPath });
@@ -214,7 +253,7 @@ export class MCPConfigurationManager {
   }
 
   // Import configuration from another file or object
-  async importConfiguration(importedConfig: MCPConfiguration): Promise<void> {
+  async importConfiguration(importedConfig: MCPConfiguration, options: MCPSecretsOptions = {}): Promise<void> {
     // Validate imported config
     if (!importedConfig.mcpServers || typeof importedConfig.mcpServers !== 'object') {
       throw new Error('Invalid configuration format');
@@ -223,7 +262,9 @@ export class MCPConfigurationManager {
     // Normalize imported servers (add missing 'type' field for Claude Desktop compatibility)
     const normalizedServers: Record<string, any> = {};
     for (const [serverId, serverConfig] of Object.entries(importedConfig.mcpServers)) {
-      const normalized: any = { ...serverConfig };
+      const normalized: any = options.stripSecrets
+        ? stripMCPServerSecrets(serverConfig)
+        : { ...serverConfig };
 
       // Auto-detect transport type if missing
       // We use 'type' for compatibility
@@ -255,19 +296,24 @@ export class MCPConfigurationManager {
       },
       disabled: {
         ...currentConfig.disabled,
-        ...(importedConfig.disabled || {})
+        ...(options.stripSecrets
+          ? mapServers({ mcpServers: {}, disabled: importedConfig.disabled }, stripMCPServerSecrets).disabled
+          : importedConfig.disabled || {})
       }
     };
 
     await this.saveConfiguration(mergedConfig);
     this.logger.mcp.info('Configuration imported successfully', {
-      importedCount: Object.keys(normalizedServers).length
+      importedCount: Object.keys(normalizedServers).length,
+      stripSecrets: Boolean(options.stripSecrets)
     });
   }
 
-  // Export current configuration
-  async exportConfiguration(): Promise<MCPConfiguration> {
-    return await this.loadConfiguration();
+  // Export current configuration. Encrypted values only open on this machine,
+  // so they are exported in plaintext unless secrets are stripped.
+  async exportConfiguration(options: MCPSecretsOptions = {}): Promise<MCPConfiguration> {
+    const config = await this.loadConfiguration();
+    return mapServers(config, options.stripSecrets ? stripMCPServerSecrets : decryptMCPServerSecrets);
   }
 
   /**
@@ -1,5 +1,6 @@
 import { getLogger } from './logging';
-import { validateLocalEndpoint, validatePublicUrl, logBlockedUrl, safeFetch } from '../utils/urlValidator';
+import { validateLocalEndpoint, validatePublicUrl, validateUrl, logBlockedUrl, safeFetch } from '../utils/urlValidator';
+import type { OpenAICompatibleEndpoint } from '../../types/models';
 
 interface ModelResponse {
   object: string;
@@ -84,7 +85,7 @@ export class ModelFetchService {
   }
 
   // Fetch local models (Ollama)
-  static async fetchLocalModels(endpoint: string): Promise<any[]> {
+  static async fetchLocalModels(endpoint: string, apiKey?: string): Promise<any[]> {
     try {
       // Security: Validate endpoint URL to prevent SSRF attacks
       const validation = validateLocalEndpoint(endpoint);
@@ -95,12 +96,15 @@ export class ModelFetchService {
 
       const url = `${endpoint}/api/tags`;
 
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json'
+      };
+      if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+      }
+
       // Security: Use safeFetch with 30s timeout to prevent hanging on malicious endpoints
-      const response = await safeFetch(url, {
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
+      const response = await safeFetch(url, { headers });
 
       if (!response.ok) {
         throw new Error(`Local API error: ${response.statusText}`);
@@ -239,4 +243,51 @@ export class ModelFetchService {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  // Fetch models from a custom OpenAI-compatible endpoint (GET <baseUrl>/models)
+  static async fetchOpenAICompatibleModels(
+    config: OpenAICompatibleEndpoint
+  ): Promise<any[]> {
+    try {
+      if (!config.baseUrl) {
+        throw new Error('Base URL is required');
+      }
+
+      // Security: Allow localhost proxies but not other internal addresses
+      const validation = validateUrl(config.baseUrl, { allowLocalhost: true });
+      if (!validation.valid) {
+        logBlockedUrl(config.baseUrl, validation.error || 'Invalid URL', 'fetchOpenAICompatibleModels');
+        throw new Error(validation.error || 'Invalid base URL');
+      }
+
+      const url = new URL(`${config.baseUrl.replace(/\/+$/, '')}/models`);
+      for (const [name, value] of Object.entries(config.queryParams ?? {})) {
+        url.searchParams.set(name, value);
+      }
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json'
+      };
+      if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+      }
+
+      const response = await safeFetch(url.toString(), {
+        headers: { ...headers, ...config.headers }
+      });
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data: ModelResponse = await response.json();
+      return data.data || [];
+    } catch (error) {
+      logger.models.error("Failed to fetch OpenAI-compatible models", {
+        error: error instanceof Error ? error.message : error,
+        baseUrl: config.baseUrl
+      });
+      throw error;
+    }
+  }
+}
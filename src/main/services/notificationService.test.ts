@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const shown = vi.hoisted(() => [] as Array<{ title: string; body: string }>);
+const preferences = vi.hoisted(() => ({ language: 'en' as string, notifications: {} }));
+
+vi.mock('electron', () => ({
+  Notification: class {
+    static isSupported() {
+      return true;
+    }
+    constructor(private readonly options: { title: string; body: string }) {}
+    on() {}
+    show() {
+      shown.push({ title: this.options.title, body: this.options.body });
+    }
+  },
+}));
+vi.mock('./logging', () => {
+  const category = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { getLogger: () => ({ core: category }) };
+});
+vi.mock('./preferencesService', () => ({
+  preferencesService: { get: (key: 'language' | 'notifications') => preferences[key] },
+}));
+vi.mock('./chatService', () => ({
+  chatService: { getSession: vi.fn(async () => ({ success: true, data: { title: 'Trip plans' } })) },
+}));
+
+import { NotificationService } from './notificationService';
+
+let service: NotificationService;
+
+beforeEach(() => {
+  shown.length = 0;
+  preferences.language = 'en';
+  // No window, so notifications go to the desktop
+  service = new NotificationService();
+});
+
+describe('NotificationService texts', () => {
+  it('uses English by default', async () => {
+    await service.notifyResponseFinished('session-1');
+
+    expect(shown).toEqual([{ title: 'Response ready', body: '"Trip plans" has a new answer' }]);
+  });
+
+  it('uses the language chosen in Settings', async () => {
+    preferences.language = 'es';
+
+    await service.notifyResponseFinished('session-1');
+    service.notifyToolConsent({ sessionId: 'session-1', toolName: 'read_file', serverId: 'files' } as any);
+
+    expect(shown).toEqual([
+      { title: 'Respuesta lista', body: '"Trip plans" tiene una nueva respuesta' },
+      { title: 'Una herramienta necesita tu aprobación', body: '"read_file" de files está esperando para ejecutarse' },
+    ]);
+  });
+
+  it('falls back to English for languages without translations', async () => {
+    preferences.language = 'fr';
+
+    await service.notifyResponseFinished(undefined, 'Rate limit exceeded');
+
+    expect(shown).toEqual([{ title: 'Response failed', body: 'Rate limit exceeded' }]);
+  });
+});
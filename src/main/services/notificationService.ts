@@ -0,0 +1,198 @@
+import { BrowserWindow, Notification } from 'electron';
+import { getLogger } from './logging';
+import { preferencesService } from './preferencesService';
+import { chatService } from './chatService';
+import { getTranslator } from '../i18n/config';
+import { DEFAULT_PREFERENCES, type UIPreferences } from '../../types/preferences';
+import type { InAppNotification, NotificationKind } from '../../types/notifications';
+import type { ToolConsentRequest } from '../types/mcp';
+
+type NotificationSettings = UIPreferences['notifications'];
+
+interface PendingNotification {
+  kind: NotificationKind;
+  sessionId?: string;
+  sessionTitle?: string;
+  error?: string;
+  title: string;
+  body: string;
+}
+
+const MAX_BODY_LENGTH = 200;
+
+/**
+ * Tells the user when a response or a tool needs them while Levante is in the
+ * background: a native notification when the window is unfocused, a toast in
+ * the renderer otherwise. Clicking either one opens the chat it came from.
+ */
+export class NotificationService {
+  private logger = getLogger();
+  private getMainWindow: () => BrowserWindow | null = () => null;
+  // Electron drops the click handler of notifications that are garbage collected
+  private shown: Set<Notification> = new Set();
+
+  initialize(getMainWindow: () => BrowserWindow | null): void {
+    this.getMainWindow = getMainWindow;
+    if (!Notification.isSupported()) {
+      this.logger.core.warn('Desktop notifications are not supported on this system');
+    }
+  }
+
+  /**
+   * A streamed response finished, with or without an error
+   */
+  async notifyResponseFinished(sessionId: string | undefined, error?: string): Promise<void> {
+    try {
+      const sessionTitle = sessionId ? await this.getSessionTitle(sessionId) : null;
+      const t = this.getTranslator();
+
+      this.notify({
+        kind: error ? 'error' : 'response',
+        sessionId,
+        sessionTitle: sessionTitle ?? undefined,
+        error,
+        title: t(error ? 'response_failed' : 'response_ready'),
+        body: error || (sessionTitle ? t('response_ready_in', { title: sessionTitle }) : t('response_finished')),
+      }, true);
+    } catch (notifyError) {
+      this.logger.core.error('Failed to notify finished response', {
+        sessionId,
+        error: notifyError instanceof Error ? notifyError.message : notifyError
+      });
+    }
+  }
+
+  /**
+   * A tool is waiting for the user's permission. The consent dialog already
+   * shows in the window, so only the desktop notification is used.
+   */
+  notifyToolConsent(request: ToolConsentRequest): void {
+    const t = this.getTranslator();
+    this.notify({
+      kind: 'tool-consent',
+      sessionId: request.sessionId,
+      title: t('tool_consent'),
+      body: t('tool_consent_body', { tool: request.toolName, server: request.serverId }),
+    }, false);
+  }
+
+  /**
+   * Show a notification right away, with settings not saved yet. Returns
+   * false when the system does not support notifications.
+   */
+  showTest(settings: NotificationSettings): boolean {
+    if (!Notification.isSupported()) {
+      return false;
+    }
+
+    const t = this.getTranslator();
+    this.showDesktop({
+      kind: 'response',
+      title: t('test_title'),
+      body: t('test_body'),
+    }, settings.soundEnabled);
+    return true;
+  }
+
+  private notify(notification: PendingNotification, inApp: boolean): void {
+    const settings = this.getSettings();
+
+    if (this.isWindowFocused()) {
+      if (inApp && settings.showInApp && notification.sessionId) {
+        this.sendInApp({
+          kind: notification.kind,
+          sessionId: notification.sessionId,
+          sessionTitle: notification.sessionTitle,
+          error: notification.error && truncate(notification.error),
+        });
+      }
+      return;
+    }
+
+    if (settings.showDesktop && Notification.isSupported()) {
+      this.showDesktop(notification, settings.soundEnabled);
+    }
+  }
+
+  private showDesktop(notification: PendingNotification, soundEnabled: boolean): void {
+    const desktopNotification = new Notification({
+      title: notification.title,
+      body: truncate(notification.body),
+      silent: !soundEnabled,
+    });
+
+    desktopNotification.on('click', () => {
+      this.shown.delete(desktopNotification);
+      this.openSession(notification.sessionId);
+    });
+    desktopNotification.on('close', () => {
+      this.shown.delete(desktopNotification);
+    });
+
+    this.shown.add(desktopNotification);
+    desktopNotification.show();
+
+    this.logger.core.debug('Desktop notification shown', {
+      kind: notification.kind,
+      sessionId: notification.sessionId
+    });
+  }
+
+  private sendInApp(notification: InAppNotification): void {
+    const mainWindow = this.getMainWindow();
+    if (!mainWindow || mainWindow.isDestroyed()) return;
+
+    mainWindow.webContents.send('levante/notifications/in-app', notification);
+  }
+
+  /**
+   * Bring Levante to the front and open the chat the notification came from
+   */
+  private openSession(sessionId?: string): void {
+    const mainWindow = this.getMainWindow();
+    if (!mainWindow || mainWindow.isDestroyed()) {
+      this.logger.core.warn('Main window not available for notification click');
+      return;
+    }
+
+    if (mainWindow.isMinimized()) {
+      mainWindow.restore();
+    }
+    mainWindow.show();
+    mainWindow.focus();
+
+    if (sessionId) {
+      mainWindow.webContents.send('levante/notifications/open-session', sessionId);
+    }
+  }
+
+  private isWindowFocused(): boolean {
+    const mainWindow = this.getMainWindow();
+    return Boolean(
+      mainWindow &&
+      !mainWindow.isDestroyed() &&
+      mainWindow.isVisible() &&
+      !mainWindow.isMinimized() &&
+      mainWindow.isFocused()
+    );
+  }
+
+  private getSettings(): NotificationSettings {
+    return { ...DEFAULT_PREFERENCES.notifications, ...preferencesService.get('notifications') };
+  }
+
+  private getTranslator() {
+    return getTranslator(preferencesService.get('language'));
+  }
+
+  private async getSessionTitle(sessionId: string): Promise<string | null> {
+    const result = await chatService.getSession(sessionId);
+    return result.success ? result.data?.title || null : null;
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH - 1)}…` : text;
+}
+
+export const notificationService = new NotificationService();
@@ -4,10 +4,25 @@ import { getLogger } from './logging';
 
 const logger = getLogger();
 
+// How long a sign-in in the browser may take
+const AUTHORIZATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface PendingAuthorization {
+  resolve: (code: string) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Local redirect target for OAuth logins. The OpenRouter login in the renderer
+ * receives its code through the `levante/oauth/callback` event; flows run by
+ * the main process (MCP servers) wait for their `state` with waitForCode().
+ */
 export class OAuthCallbackServer {
   private server: Server | null = null;
   private port: number = 0;
   private mainWindow: BrowserWindow | null = null;
+  private pendingAuthorizations: Map<string, PendingAuthorization> = new Map();
 
   setMainWindow(window: BrowserWindow): void {
     this.mainWindow = window;
@@ -72,6 +87,36 @@ export class OAuthCallbackServer {
     });
   }
 
+  /**
+   * Wait for the redirect that carries `state` and return its authorization
+   * code. Rejects if the user denies access or does not finish in time.
+   */
+  waitForCode(state: string, timeoutMs: number = AUTHORIZATION_TIMEOUT_MS): Promise<string> {
+    this.cancelAuthorization(state);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingAuthorizations.delete(state);
+        reject(new Error('Authorization timed out. Try signing in again.'));
+        this.stopWhenIdle(0);
+      }, timeoutMs);
+
+      this.pendingAuthorizations.set(state, { resolve, reject, timer });
+    });
+  }
+
+  /**
+   * Stop waiting for `state`, e.g. when a new sign-in replaces it
+   */
+  cancelAuthorization(state: string): void {
+    const pending = this.pendingAuthorizations.get(state);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingAuthorizations.delete(state);
+    pending.reject(new Error('Authorization cancelled'));
+  }
+
   /**
    * Stop the OAuth callback server
    */
@@ -98,6 +143,40 @@ export class OAuthCallbackServer {
     });
   }
 
+  /**
+   * Stop after `delayMs` unless another login is still waiting for its redirect
+   */
+  stopWhenIdle(delayMs: number): void {
+    setTimeout(() => {
+      if (this.server && this.pendingAuthorizations.size === 0) {
+        this.stop().catch(() => {
+          // Already logged by stop()
+        });
+      }
+    }, delayMs);
+  }
+
+  // Take the login waiting for the request's state, if any
+  private takePendingAuthorization(url: URL): PendingAuthorization | undefined {
+    const state = url.searchParams.get('state');
+    const pending = state ? this.pendingAuthorizations.get(state) : undefined;
+    if (pending && state) {
+      clearTimeout(pending.timer);
+      this.pendingAuthorizations.delete(state);
+    }
+    return pending;
+  }
+
+  private focusMainWindow(): void {
+    if (!this.mainWindow) return;
+
+    if (this.mainWindow.isMinimized()) {
+      this.mainWindow.restore();
+    }
+    this.mainWindow.show();
+    this.mainWindow.focus();
+  }
+
   /**
    * Handle incoming HTTP requests
    */
@@ -106,7 +185,7 @@ export class OAuthCallbackServer {
 
     logger.core.info('OAuth callback received', {
       path: url.pathname,
-      query: Object.fromEntries(url.searchParams.entries())
+      params: Array.from(url.searchParams.keys())
     });
 
     // Handle callback endpoint (accept both /callback and / as valid paths)
@@ -114,6 +193,7 @@ export class OAuthCallbackServer {
       const code = url.searchParams.get('code');
       const error = url.searchParams.get('error');
       const errorDescription = url.searchParams.get('error_description');
+      const pending = code || error ? this.takePendingAuthorization(url) : undefined;
 
       if (error) {
         logger.core.error('OAuth authorization error', {
@@ -159,8 +239,10 @@ export class OAuthCallbackServer {
           </html>
         `);
 
-        // Send error to renderer
-        if (this.mainWindow) {
+        // Send error to whoever started the login
+        if (pending) {
+          pending.reject(new Error(errorDescription || error));
+        } else if (this.mainWindow) {
           this.mainWindow.webContents.send('levante/oauth/callback', {
             success: false,
             error: errorDescription || error
@@ -168,9 +250,7 @@ export class OAuthCallbackServer {
         }
 
         // Stop server after a delay
-        setTimeout(() => {
-          this.stop();
-        }, 2000);
+        this.stopWhenIdle(2000);
 
         return;
       }
@@ -288,26 +368,20 @@ export class OAuthCallbackServer {
         </html>
       `);
 
-      // Send code to renderer
-      if (this.mainWindow) {
+      // Send code to whoever started the login
+      if (pending) {
+        pending.resolve(code);
+      } else if (this.mainWindow) {
         this.mainWindow.webContents.send('levante/oauth/callback', {
           success: true,
           provider: 'openrouter',
           code
         });
-
-        // Focus the main window
-        if (this.mainWindow.isMinimized()) {
-          this.mainWindow.restore();
-        }
-        this.mainWindow.show();
-        this.mainWindow.focus();
       }
+      this.focusMainWindow();
 
       // Stop server after a delay to allow browser to display success page
-      setTimeout(() => {
-        this.stop();
-      }, 5000);
+      this.stopWhenIdle(5000);
     } else {
       // Unknown endpoint
       res.writeHead(404, { 'Content-Type': 'text/plain' });
@@ -2,7 +2,12 @@ import { BrowserWindow } from 'electron';
 import { UIPreferences, PreferenceKey, DEFAULT_PREFERENCES, PreferenceChangeEvent } from '../../types/preferences';
 import { getLogger } from './logging';
 import { directoryService } from './directoryService';
-import { encryptProvidersApiKeys, decryptProvidersApiKeys } from '../utils/encryption';
+import {
+  encryptProvidersApiKeys,
+  decryptProvidersApiKeys,
+  encryptWebSearchApiKeys,
+  decryptWebSearchApiKeys
+} from '../utils/encryption';
 
 export class PreferencesService {
   private logger = getLogger();
@@ -97,12 +102,20 @@ export class PreferencesService {
         shortcuts: {
           type: 'object',
           properties: {
-            newChat: { type: 'string', default: 'Cmd+N' },
-            toggleSidebar: { type: 'string', default: 'Cmd+B' },
-            search: { type: 'string', default: 'Cmd+F' }
+            newChat: { type: 'string', default: 'CmdOrCtrl+N' },
+            toggleSidebar: { type: 'string', default: 'CmdOrCtrl+B' },
+            search: { type: 'string', default: 'CmdOrCtrl+K' },
+            globalNewChat: { type: 'string', default: 'CmdOrCtrl+Shift+Space' },
+            globalEnabled: { type: 'boolean', default: false }
           },
           required: ['newChat', 'toggleSidebar', 'search'],
-          default: { newChat: 'Cmd+N', toggleSidebar: 'Cmd+B', search: 'Cmd+F' }
+          default: {
+            newChat: 'CmdOrCtrl+N',
+            toggleSidebar: 'CmdOrCtrl+B',
+            search: 'CmdOrCtrl+K',
+            globalNewChat: 'CmdOrCtrl+Shift+Space',
+            globalEnabled: false
+          }
         },
         providers: {
           type: 'array',
@@ -112,6 +125,35 @@ export class PreferencesService {
           type: ['string', 'null'],
           default: null
         },
+        modelSettings: {
+          type: 'object',
+          default: {}
+        },
+        webSearch: {
+          type: 'object',
+          properties: {
+            provider: { type: 'string', enum: ['native', 'searxng', 'brave', 'tavily'], default: 'native' },
+            searxngUrl: { type: 'string', default: '' },
+            braveApiKey: { type: 'string' },
+            tavilyApiKey: { type: 'string' },
+            baseUrl: { type: 'string' },
+            maxResults: { type: 'number', minimum: 1, maximum: 20, default: 5 }
+          },
+          required: ['provider', 'searxngUrl', 'maxResults'],
+          default: { provider: 'native', searxngUrl: '', maxResults: 5 }
+        },
+        mcpRegistry: {
+          type: 'object',
+          properties: {
+            url: { type: 'string' },
+            format: { type: 'string', enum: ['levante', 'official'], default: 'levante' },
+            sha256: { type: 'string' },
+            publicKey: { type: 'string' },
+            refreshHours: { type: 'number', minimum: 1, default: 24 }
+          },
+          required: ['format', 'refreshHours'],
+          default: { format: 'levante', refreshHours: 24 }
+        },
         security: {
           type: 'object',
           properties: {
@@ -119,6 +161,15 @@ export class PreferencesService {
           },
           required: ['encryptApiKeys'],
           default: { encryptApiKeys: false }
+        },
+        budget: {
+          type: 'object',
+          properties: {
+            monthlyLimit: { type: ['number', 'null'], minimum: 0, default: null },
+            warnAtPercent: { type: 'number', minimum: 1, maximum: 100, default: 80 }
+          },
+          required: ['monthlyLimit', 'warnAtPercent'],
+          default: { monthlyLimit: null, warnAtPercent: 80 }
         }
       }
     });
@@ -151,6 +202,9 @@ export class PreferencesService {
     if (key === 'providers' && Array.isArray(value) && shouldEncrypt) {
       value = decryptProvidersApiKeys(value);
     }
+    if (key === 'webSearch' && shouldEncrypt) {
+      value = decryptWebSearchApiKeys(value);
+    }
 
     // Use models category for provider/model related preferences
     const isModelRelated = key === 'providers' || key === 'activeProvider';
@@ -158,7 +212,7 @@ export class PreferencesService {
 
     logger.debug("Retrieved preference", {
       key,
-      value: isModelRelated ? this.summarizeModelData(value) : value
+      value: isModelRelated ? this.summarizeModelData(value) : this.withoutSecrets(key, value)
     });
 
     return value;
@@ -196,6 +250,13 @@ export class PreferencesService {
           // Store the converted providers
           this.store.set('providers', updatedProviders);
         }
+
+        const webSearch = this.store.get('webSearch');
+        if (webSearch) {
+          this.store.set('webSearch', newSecuritySettings.encryptApiKeys
+            ? encryptWebSearchApiKeys(webSearch)
+            : decryptWebSearchApiKeys(webSearch));
+        }
       }
     }
 
@@ -204,6 +265,9 @@ export class PreferencesService {
     if (key === 'providers' && Array.isArray(value) && shouldEncrypt) {
       valueToStore = encryptProvidersApiKeys(value) as any;
     }
+    if (key === 'webSearch' && shouldEncrypt) {
+      valueToStore = encryptWebSearchApiKeys(value);
+    }
 
     // Use models category for provider/model related preferences
     const isModelRelated = key === 'providers' || key === 'activeProvider';
@@ -211,8 +275,8 @@ export class PreferencesService {
 
     logger.debug("Setting preference", {
       key,
-      previousValue: isModelRelated ? this.summarizeModelData(previousValue) : previousValue,
-      newValue: isModelRelated ? this.summarizeModelData(value) : value
+      previousValue: isModelRelated ? this.summarizeModelData(previousValue) : this.withoutSecrets(key, previousValue),
+      newValue: isModelRelated ? this.summarizeModelData(value) : this.withoutSecrets(key, value)
     });
 
     this.store.set(key, valueToStore);
@@ -255,6 +319,9 @@ export class PreferencesService {
     if (Array.isArray(preferences.providers) && shouldEncrypt) {
       preferences.providers = decryptProvidersApiKeys(preferences.providers);
     }
+    if (preferences.webSearch && shouldEncrypt) {
+      preferences.webSearch = decryptWebSearchApiKeys(preferences.webSearch);
+    }
 
     this.logger.preferences.debug("Retrieved all preferences", { count: Object.keys(preferences).length });
     return preferences;
@@ -348,6 +415,19 @@ export class PreferencesService {
     // For other model-related data, return as-is (it's probably short)
     return value;
   }
+
+  /**
+   * Hide the web search API keys from logs
+   */
+  private withoutSecrets(key: PreferenceKey, value: any): any {
+    if (key !== 'webSearch' || !value) return value;
+
+    return {
+      ...value,
+      braveApiKey: value.braveApiKey ? '[set]' : undefined,
+      tavilyApiKey: value.tavilyApiKey ? '[set]' : undefined
+    };
+  }
 }
 
 // Singleton instance
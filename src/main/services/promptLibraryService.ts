@@ -0,0 +1,148 @@
+import { directoryService } from './directoryService';
+import { getLogger } from './logging';
+import {
+  MAX_PROMPT_CONTENT_LENGTH,
+  type CreatePromptTemplateInput,
+  type PromptTemplate,
+  type UpdatePromptTemplateInput,
+} from '../../types/prompts';
+
+interface PromptLibraryData {
+  version: number;
+  prompts: PromptTemplate[];
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_TAGS = 20;
+
+export class PromptLibraryService {
+  private logger = getLogger();
+  private store: any;
+  private initialized = false;
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      const Store = (await import('electron-store')).default;
+
+      await directoryService.ensureBaseDir();
+
+      // Stored next to ui-preferences.json so it can be backed up and shared by hand
+      this.store = new Store<PromptLibraryData>({
+        name: 'prompt-library',
+        cwd: directoryService.getBaseDir(),
+        defaults: { version: 1, prompts: [] },
+        schema: {
+          version: { type: 'number', default: 1 },
+          prompts: { type: 'array', default: [] },
+        },
+      });
+
+      this.initialized = true;
+      this.logger.core.info('PromptLibraryService initialized', {
+        promptCount: this.getPrompts().length,
+        storePath: this.store.path,
+      });
+    } catch (error) {
+      this.logger.core.error('Failed to initialize PromptLibraryService', {
+        error: error instanceof Error ? error.message : error,
+      });
+      throw error;
+    }
+  }
+
+  list(): PromptTemplate[] {
+    this.ensureInitialized();
+    return [...this.getPrompts()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  create(input: CreatePromptTemplateInput): PromptTemplate {
+    this.ensureInitialized();
+
+    const now = Date.now();
+    const prompt: PromptTemplate = {
+      id: `prompt-${now}-${Math.random().toString(36).substring(2, 9)}`,
+      ...this.validate(input),
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.store.set('prompts', [...this.getPrompts(), prompt]);
+    this.logger.core.info('Prompt template created', { id: prompt.id, name: prompt.name });
+    return prompt;
+  }
+
+  update(input: UpdatePromptTemplateInput): PromptTemplate {
+    this.ensureInitialized();
+
+    const prompts = this.getPrompts();
+    const existing = prompts.find((p) => p.id === input.id);
+    if (!existing) {
+      throw new Error('Prompt template not found');
+    }
+
+    const { id, ...changes } = input;
+    const updated: PromptTemplate = {
+      ...existing,
+      ...this.validate({ ...existing, ...changes }),
+      updated_at: Date.now(),
+    };
+
+    this.store.set('prompts', prompts.map((p) => (p.id === id ? updated : p)));
+    this.logger.core.info('Prompt template updated', { id });
+    return updated;
+  }
+
+  delete(id: string): boolean {
+    this.ensureInitialized();
+
+    const prompts = this.getPrompts();
+    const remaining = prompts.filter((p) => p.id !== id);
+    this.store.set('prompts', remaining);
+
+    this.logger.core.info('Prompt template deleted', { id, found: remaining.length !== prompts.length });
+    return remaining.length !== prompts.length;
+  }
+
+  /**
+   * Normalize user input; templates can also arrive from deep links
+   */
+  private validate(input: CreatePromptTemplateInput): Omit<PromptTemplate, 'id' | 'created_at' | 'updated_at'> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('Prompt name is required');
+    }
+    if (!input.content?.trim()) {
+      throw new Error('Prompt content is required');
+    }
+    if (input.content.length > MAX_PROMPT_CONTENT_LENGTH) {
+      throw new Error(`Prompt content is too long (max ${MAX_PROMPT_CONTENT_LENGTH} characters)`);
+    }
+
+    const tags = (input.tags ?? []).map((tag) => tag.trim()).filter((tag) => tag.length > 0);
+
+    return {
+      name: name.slice(0, MAX_NAME_LENGTH),
+      description: input.description?.trim() || undefined,
+      content: input.content,
+      defaultModel: input.defaultModel || null,
+      enableMCP: typeof input.enableMCP === 'boolean' ? input.enableMCP : null,
+      webSearch: typeof input.webSearch === 'boolean' ? input.webSearch : null,
+      tags: Array.from(new Set(tags)).slice(0, MAX_TAGS),
+    };
+  }
+
+  private getPrompts(): PromptTemplate[] {
+    return (this.store.get('prompts') as PromptTemplate[]) || [];
+  }
+
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      throw new Error('PromptLibraryService not initialized');
+    }
+  }
+}
+
+// Singleton instance
+export const promptLibraryService = new PromptLibraryService();
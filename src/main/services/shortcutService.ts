@@ -0,0 +1,114 @@
+import { BrowserWindow, clipboard, globalShortcut } from 'electron';
+import { getLogger } from './logging';
+import { preferencesService } from './preferencesService';
+import { createApplicationMenu } from '../menu';
+import { findShortcutConflicts, resolveShortcuts, type ShortcutStatus } from '../../types/shortcuts';
+import type { ShortcutSettings } from '../../types/preferences';
+
+/**
+ * Binds the stored shortcuts: in-app ones through the application menu (the
+ * renderer matches the same accelerators on keydown) and the optional global
+ * shortcut through globalShortcut
+ */
+export class ShortcutService {
+  private logger = getLogger();
+  private getMainWindow: () => BrowserWindow | null = () => null;
+  private registeredGlobal: string | null = null;
+
+  initialize(getMainWindow: () => BrowserWindow | null): void {
+    this.getMainWindow = getMainWindow;
+    this.apply(this.getShortcuts());
+  }
+
+  getShortcuts(): ShortcutSettings {
+    return resolveShortcuts(preferencesService.get('shortcuts'));
+  }
+
+  getStatus(): ShortcutStatus {
+    const shortcuts = this.getShortcuts();
+    return {
+      shortcuts,
+      globalRegistered: !shortcuts.globalEnabled || this.registeredGlobal !== null,
+    };
+  }
+
+  /**
+   * Save and bind new shortcuts. Conflicting shortcuts are rejected.
+   */
+  update(shortcuts: ShortcutSettings): ShortcutStatus {
+    const problems = findShortcutConflicts(shortcuts, process.platform === 'darwin');
+    const [slot, problem] = Object.entries(problems)[0] ?? [];
+    if (problem) {
+      throw new Error(`Shortcut for ${slot} cannot be used: ${problem.type}`);
+    }
+
+    preferencesService.set('shortcuts', shortcuts);
+    this.apply(shortcuts);
+
+    const status = this.getStatus();
+    for (const window of BrowserWindow.getAllWindows()) {
+      if (!window.isDestroyed()) {
+        window.webContents.send('levante/shortcuts/changed', status);
+      }
+    }
+    return status;
+  }
+
+  /**
+   * Release the global shortcut; called when the app quits
+   */
+  dispose(): void {
+    globalShortcut.unregisterAll();
+    this.registeredGlobal = null;
+  }
+
+  private apply(shortcuts: ShortcutSettings): void {
+    createApplicationMenu(this.getMainWindow(), shortcuts);
+
+    if (this.registeredGlobal) {
+      globalShortcut.unregister(this.registeredGlobal);
+      this.registeredGlobal = null;
+    }
+
+    if (!shortcuts.globalEnabled || !shortcuts.globalNewChat) return;
+
+    try {
+      if (globalShortcut.register(shortcuts.globalNewChat, () => this.openQuickChat())) {
+        this.registeredGlobal = shortcuts.globalNewChat;
+        this.logger.core.info('Global shortcut registered', { accelerator: shortcuts.globalNewChat });
+      } else {
+        this.logger.core.warn('Global shortcut is taken by another application', {
+          accelerator: shortcuts.globalNewChat
+        });
+      }
+    } catch (error) {
+      this.logger.core.error('Failed to register global shortcut', {
+        accelerator: shortcuts.globalNewChat,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  /**
+   * Bring Levante to the front and start a new chat with the clipboard text
+   */
+  private openQuickChat(): void {
+    const mainWindow = this.getMainWindow();
+    if (!mainWindow || mainWindow.isDestroyed()) {
+      this.logger.core.warn('Main window not available for global shortcut');
+      return;
+    }
+
+    if (mainWindow.isMinimized()) {
+      mainWindow.restore();
+    }
+    mainWindow.show();
+    mainWindow.focus();
+
+    const text = clipboard.readText().trim();
+    this.logger.core.info('Opening new chat from global shortcut', { textLength: text.length });
+    mainWindow.webContents.send('levante/shortcuts/quick-chat', { text });
+  }
+}
+
+export const shortcutService = new ShortcutService();
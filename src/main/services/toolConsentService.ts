@@ -0,0 +1,246 @@
+import { BrowserWindow } from 'electron';
+import { randomUUID } from 'crypto';
+import type {
+  ToolConsentPolicies,
+  ToolConsentPolicy,
+  ToolConsentRequest,
+  ToolConsentResponse,
+} from '../types/mcp.js';
+import { getLogger } from './logging';
+import { notificationService } from './notificationService';
+
+/**
+ * Checks arguments edited by the user against the tool's input schema.
+ * Returns an error message, or null when they are valid.
+ */
+export type ToolArgumentsValidator = (args: Record<string, any>) => string | null;
+
+interface PendingConsent {
+  request: ToolConsentRequest;
+  resolve: (response: ToolConsentResponse) => void;
+  validateArguments?: ToolArgumentsValidator;
+}
+
+/**
+ * Thrown when a tool call is blocked by policy or rejected by the user
+ */
+export class ToolConsentDeniedError extends Error {
+  constructor(
+    public readonly serverId: string,
+    public readonly toolName: string,
+    reason: 'policy' | 'user'
+  ) {
+    super(
+      reason === 'policy'
+        ? `Tool "${toolName}" from server "${serverId}" is blocked by its permission policy`
+        : `The user denied permission to run tool "${toolName}" from server "${serverId}"`
+    );
+    this.name = 'ToolConsentDeniedError';
+  }
+}
+
+/**
+ * Thrown when the user approves a tool call with arguments that do not fit
+ * the tool. The request stays pending so the user can correct them.
+ */
+export class InvalidToolArgumentsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidToolArgumentsError';
+  }
+}
+
+export class ToolConsentService {
+  private logger = getLogger();
+  // Decisions remembered until the app restarts (scope "session" and "forever")
+  private rememberedDecisions: Map<string, ToolConsentPolicy> = new Map();
+  private pending: Map<string, PendingConsent> = new Map();
+
+  /**
+   * Resolve the effective policy for a tool.
+   * Remembered decisions win over per-tool policies, which win over the server default.
+   */
+  resolvePolicy(
+    serverId: string,
+    toolName: string,
+    policies?: ToolConsentPolicies
+  ): ToolConsentPolicy {
+    const remembered = this.rememberedDecisions.get(this.getKey(serverId, toolName));
+    if (remembered) {
+      return remembered;
+    }
+
+    return policies?.tools?.[toolName] || policies?.default || 'ask';
+  }
+
+  /**
+   * Gate a tool execution behind the configured policy, asking the user when needed.
+   * Resolves with the arguments to run the tool with (possibly edited by the user).
+   */
+  async requestConsent(
+    serverId: string,
+    toolName: string,
+    args: Record<string, any>,
+    options: {
+      policies?: ToolConsentPolicies;
+      toolCallId?: string;
+      sessionId?: string;
+      abortSignal?: AbortSignal;
+      validateArguments?: ToolArgumentsValidator;
+    } = {}
+  ): Promise<Record<string, any>> {
+    const policy = this.resolvePolicy(serverId, toolName, options.policies);
+
+    if (policy === 'allow') {
+      return args;
+    }
+
+    if (policy === 'deny') {
+      this.logger.mcp.info('Tool call blocked by policy', { serverId, toolName });
+      throw new ToolConsentDeniedError(serverId, toolName, 'policy');
+    }
+
+    // The stream was stopped before the tool got here
+    if (options.abortSignal?.aborted) {
+      throw new ToolConsentDeniedError(serverId, toolName, 'user');
+    }
+
+    const windows = BrowserWindow.getAllWindows().filter(window => !window.isDestroyed());
+    if (windows.length === 0) {
+      this.logger.mcp.warn('No window available to ask for tool consent', { serverId, toolName });
+      throw new ToolConsentDeniedError(serverId, toolName, 'user');
+    }
+
+    const request: ToolConsentRequest = {
+      requestId: randomUUID(),
+      serverId,
+      toolName,
+      toolCallId: options.toolCallId,
+      sessionId: options.sessionId,
+      arguments: args,
+      timestamp: Date.now(),
+    };
+
+    // A cancelled stream must not leave the tool waiting forever
+    const onAbort = () => {
+      this.respond(request.requestId, { approved: false, scope: 'once' });
+    };
+
+    let response: ToolConsentResponse;
+    try {
+      response = await new Promise<ToolConsentResponse>((resolve) => {
+        this.pending.set(request.requestId, {
+          request,
+          resolve,
+          validateArguments: options.validateArguments
+        });
+        options.abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+        this.logger.mcp.info('Requesting tool consent', {
+          requestId: request.requestId,
+          serverId,
+          toolName
+        });
+
+        windows.forEach(window => {
+          window.webContents.send('levante/mcp/tool-consent/request', request);
+        });
+        notificationService.notifyToolConsent(request);
+      });
+    } finally {
+      options.abortSignal?.removeEventListener('abort', onAbort);
+    }
+
+    if (response.scope !== 'once') {
+      this.rememberedDecisions.set(
+        this.getKey(serverId, toolName),
+        response.approved ? 'allow' : 'deny'
+      );
+    }
+
+    if (!response.approved) {
+      throw new ToolConsentDeniedError(serverId, toolName, 'user');
+    }
+
+    return response.arguments ?? args;
+  }
+
+  /**
+   * Settle a pending consent request. Returns the request, or null if it was already settled.
+   * Throws InvalidToolArgumentsError, leaving the request pending, when approved
+   * arguments are not an object or do not match the tool's input schema.
+   */
+  respond(requestId: string, response: ToolConsentResponse): ToolConsentRequest | null {
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      return null;
+    }
+
+    if (response.approved && response.arguments !== undefined) {
+      const error = this.checkArguments(response.arguments, entry.validateArguments);
+      if (error) {
+        this.logger.mcp.warn('Rejected edited tool arguments', {
+          requestId,
+          serverId: entry.request.serverId,
+          toolName: entry.request.toolName,
+          error
+        });
+        throw new InvalidToolArgumentsError(error);
+      }
+    }
+
+    this.pending.delete(requestId);
+    entry.resolve(response);
+
+    this.logger.mcp.info('Tool consent resolved', {
+      requestId,
+      serverId: entry.request.serverId,
+      toolName: entry.request.toolName,
+      approved: response.approved,
+      scope: response.scope
+    });
+
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed()) {
+        window.webContents.send('levante/mcp/tool-consent/resolved', requestId);
+      }
+    });
+
+    return entry.request;
+  }
+
+  /**
+   * Get requests still waiting for an answer (e.g. after a renderer reload)
+   */
+  getPendingRequests(): ToolConsentRequest[] {
+    return Array.from(this.pending.values()).map(entry => entry.request);
+  }
+
+  /**
+   * Forget decisions remembered for this session
+   */
+  clearSessionDecisions(serverId?: string): void {
+    if (!serverId) {
+      this.rememberedDecisions.clear();
+      return;
+    }
+
+    Array.from(this.rememberedDecisions.keys())
+      .filter(key => key.startsWith(`${serverId}::`))
+      .forEach(key => this.rememberedDecisions.delete(key));
+  }
+
+  private checkArguments(args: unknown, validate?: ToolArgumentsValidator): string | null {
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      return 'expected a JSON object';
+    }
+    return validate ? validate(args as Record<string, any>) : null;
+  }
+
+  private getKey(serverId: string, toolName: string): string {
+    return `${serverId}::${toolName}`;
+  }
+}
+
+// Export singleton instance
+export const toolConsentService = new ToolConsentService();
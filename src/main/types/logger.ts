@@ -21,6 +21,29 @@ export interface CategoryLogger {
   error(message: string, context?: LogContext): void;
 }
 
+/**
+ * A log entry as shown in the log viewer, with its context serialized
+ */
+export interface LogRecord {
+  id: number;
+  timestamp: string;
+  category: LogCategory;
+  level: LogLevel;
+  message: string;
+  context?: string;
+}
+
+/**
+ * When the log file is rotated: once it grows past maxSizeMB and when the day
+ * changes. Rotated files (levante.log.1, .2, ...) beyond maxFiles or older
+ * than maxAgeDays are deleted.
+ */
+export interface LogRotationConfig {
+  maxSizeMB: number;
+  maxFiles: number;
+  maxAgeDays: number;
+}
+
 export interface LoggerConfig {
   enabled: boolean;
   level: LogLevel;
@@ -31,6 +54,7 @@ export interface LoggerConfig {
     console: boolean;
     file: boolean;
     filePath?: string;
+    rotation?: LogRotationConfig;
   };
 }
 
@@ -7,9 +7,105 @@ export interface MCPServerConfig {
   baseUrl?: string;
   headers?: Record<string, string>;
   transport: 'stdio' | 'http' | 'sse';
+  toolPolicies?: ToolConsentPolicies;
+  sandbox?: MCPSandboxPolicy; // stdio only
+  registry?: MCPServerOrigin; // Set when added from the Store
   enabled?: boolean;  // Added by listServers(), not stored in JSON
 }
 
+/**
+ * Registry entry a server was installed from
+ */
+export interface MCPServerOrigin {
+  entryId: string;
+  version?: string;
+  pinned?: boolean; // Installed at a chosen version, no update is offered
+}
+
+/**
+ * Isolation of a stdio server process. Without an enabled policy the server
+ * runs with the user's permissions and full environment.
+ */
+export interface MCPSandboxPolicy {
+  enabled: boolean;
+  runtime?: 'bubblewrap' | 'container'; // Default: bubblewrap (Linux only)
+  allowedPaths?: MCPSandboxPath[]; // Host paths the server can see
+  network?: boolean; // Default: no network access
+  envAllowlist?: string[]; // Host variables passed through, besides the server's own env
+  image?: string; // Container image; defaults to one matching the command
+}
+
+export interface MCPSandboxPath {
+  path: string;
+  writable?: boolean;
+}
+
+export type ToolConsentPolicy = 'allow' | 'ask' | 'deny';
+
+export type ToolConsentScope = 'once' | 'session' | 'forever';
+
+export interface ToolConsentPolicies {
+  default?: ToolConsentPolicy;
+  tools?: Record<string, ToolConsentPolicy>;
+}
+
+export interface ToolConsentRequest {
+  requestId: string;
+  serverId: string;
+  toolName: string;
+  toolCallId?: string;
+  sessionId?: string; // Chat that ran the tool
+  arguments: Record<string, any>;
+  timestamp: number;
+}
+
+export interface ToolConsentResponse {
+  approved: boolean;
+  scope: ToolConsentScope;
+  arguments?: Record<string, any>;
+}
+
+/**
+ * OAuth sign-in state of a remote (http/sse) server
+ */
+export interface MCPAuthStatus {
+  serverId: string;
+  signedIn: boolean; // Tokens are stored for the server
+  authorizationRequired: boolean; // The server asked for a sign-in that has not happened yet
+  expiresAt?: number; // When the access token expires; it is refreshed on the next 401
+  scope?: string;
+}
+
+/**
+ * Lifecycle of a server connection as seen by the connection supervisor:
+ * `degraded` means the transport reported errors but the connection is up,
+ * `crashed` means it closed unexpectedly or could not be opened.
+ */
+export type MCPServerState = 'connecting' | 'ready' | 'degraded' | 'crashed' | 'disconnected';
+
+export interface MCPServerStatus {
+  serverId: string;
+  state: MCPServerState;
+  error?: string;
+  stderr: string[]; // Last lines a stdio server wrote to stderr
+  restarts: number; // Restarts attempted since the server was last stable or connected by hand
+  nextRestartAt?: number; // When the next automatic restart runs
+  updatedAt: number;
+}
+
+/**
+ * Where the registry in use came from. `error` explains why the last sync
+ * fell back to the cached or bundled registry.
+ */
+export interface MCPRegistryStatus {
+  source: 'remote' | 'cache' | 'bundled';
+  url?: string;
+  fetchedAt?: number;
+  verified: boolean; // Checked against the configured hash or signature
+  entryCount: number;
+  error?: string;
+}
+
 export interface MCPConfiguration {
   mcpServers: Record<string, Omit<MCPServerConfig, 'id'>>;
   disabled?: Record<string, Omit<MCPServerConfig, 'id'>>;
@@ -31,12 +127,66 @@ export interface ToolCall {
 }
 
 export interface ToolResult {
-  content: Array<{
-    type: string;
-    text?: string;
-    data?: any;
-  }>;
-  isError?: boolean;
+  content: MCPContent[];
+  isError?: boolean; // The tool failed; content describes the error
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string; // Base64-encoded binary content
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+/**
+ * One item of a tool result or prompt message
+ */
+export interface MCPContent {
+  type: string; // text, image, audio, resource or resource_link
+  text?: string;
+  data?: string; // Base64-encoded image or audio
+  mimeType?: string;
+  resource?: MCPResourceContent; // Embedded resource
+  uri?: string; // resource_link
+  name?: string; // resource_link
+}
+
+/**
+ * What an MCP tool returns to the chat: the content items of its result
+ */
+export interface MCPToolOutput {
+  content: MCPContent[];
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPContent;
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
 }
 
 export interface MCPMetricsReport {
@@ -1,5 +1,6 @@
 import { safeStorage } from 'electron';
 import { getLogger } from '../services/logging';
+import { isSensitiveConfigEntry } from './sensitiveDataDetector';
 
 const logger = getLogger();
 
@@ -14,6 +15,11 @@ const logger = getLogger();
  */
 export const ENCRYPTED_FIELDS = [
   'providers[].apiKey',  // API keys in provider configs
+  'providers[].headers.*',  // Custom headers may carry keys (e.g. Azure api-key)
+  'webSearch.braveApiKey',
+  'webSearch.tavilyApiKey',
+  'mcpServers.*.env.*',  // mcp.json: only values that look like credentials
+  'mcpServers.*.headers.*',
 ];
 
 /**
@@ -77,6 +83,14 @@ export function decryptValue(ciphertext: string): string {
   }
 }
 
+/**
+ * Whether values can be encrypted on this system. Without it (e.g. Linux
+ * with no keyring) encryptValue stores values in plaintext.
+ */
+export function isEncryptionAvailable(): boolean {
+  return safeStorage.isEncryptionAvailable();
+}
+
 /**
  * Check if a value is encrypted
  */
@@ -85,7 +99,7 @@ export function isEncrypted(value: string): boolean {
 }
 
 /**
- * Encrypt API key in provider config
+ * Encrypt API key and custom header values in provider config
  */
 export function encryptProviderApiKey(provider: any): any {
   if (!provider) return provider;
@@ -99,11 +113,20 @@ export function encryptProviderApiKey(provider: any): any {
     }
   }
 
+  if (encrypted.headers && typeof encrypted.headers === 'object') {
+    encrypted.headers = Object.fromEntries(
+      Object.entries(encrypted.headers).map(([name, value]) => [
+        name,
+        typeof value === 'string' && value && !isEncrypted(value) ? encryptValue(value) : value,
+      ])
+    );
+  }
+
   return encrypted;
 }
 
 /**
- * Decrypt API key in provider config
+ * Decrypt API key and custom header values in provider config
  */
 export function decryptProviderApiKey(provider: any): any {
   if (!provider) return provider;
@@ -118,6 +141,15 @@ export function decryptProviderApiKey(provider: any): any {
     // If not encrypted, leave as-is (already plaintext)
   }
 
+  if (decrypted.headers && typeof decrypted.headers === 'object') {
+    decrypted.headers = Object.fromEntries(
+      Object.entries(decrypted.headers).map(([name, value]) => [
+        name,
+        typeof value === 'string' && isEncrypted(value) ? decryptValue(value) : value,
+      ])
+    );
+  }
+
   return decrypted;
 }
 
@@ -138,3 +170,95 @@ export function decryptProvidersApiKeys(providers: any[]): any[] {
 
   return providers.map(decryptProviderApiKey);
 }
+
+// API keys of the web search backends
+const WEB_SEARCH_KEY_FIELDS = ['braveApiKey', 'tavilyApiKey'] as const;
+
+/**
+ * Encrypt the API keys in the web search settings
+ */
+export function encryptWebSearchApiKeys(settings: any): any {
+  if (!settings || typeof settings !== 'object') return settings;
+
+  const encrypted = { ...settings };
+  for (const field of WEB_SEARCH_KEY_FIELDS) {
+    if (typeof encrypted[field] === 'string' && encrypted[field] && !isEncrypted(encrypted[field])) {
+      encrypted[field] = encryptValue(encrypted[field]);
+    }
+  }
+  return encrypted;
+}
+
+/**
+ * Decrypt the API keys in the web search settings
+ */
+export function decryptWebSearchApiKeys(settings: any): any {
+  if (!settings || typeof settings !== 'object') return settings;
+
+  const decrypted = { ...settings };
+  for (const field of WEB_SEARCH_KEY_FIELDS) {
+    if (typeof decrypted[field] === 'string' && isEncrypted(decrypted[field])) {
+      decrypted[field] = decryptValue(decrypted[field]);
+    }
+  }
+  return decrypted;
+}
+
+// Parts of an MCP server config that can hold credentials
+const MCP_SECRET_FIELDS = ['env', 'headers'] as const;
+
+// Apply `transform` to the credential entries of an MCP server config
+function mapMCPServerSecrets(
+  server: any,
+  transform: (value: string, name: string) => string
+): any {
+  if (!server || typeof server !== 'object') return server;
+
+  const mapped = { ...server };
+  for (const field of MCP_SECRET_FIELDS) {
+    if (!mapped[field] || typeof mapped[field] !== 'object') continue;
+
+    mapped[field] = Object.fromEntries(
+      Object.entries(mapped[field]).map(([name, value]) => [
+        name,
+        typeof value === 'string' && (isEncrypted(value) || isSensitiveConfigEntry(name, value))
+          ? transform(value, name)
+          : value,
+      ])
+    );
+  }
+  return mapped;
+}
+
+/**
+ * Encrypt env vars and headers of an MCP server that look like credentials
+ */
+export function encryptMCPServerSecrets(server: any): any {
+  return mapMCPServerSecrets(server, (value) => (isEncrypted(value) ? value : encryptValue(value)));
+}
+
+/**
+ * Decrypt the encrypted env vars and headers of an MCP server
+ */
+export function decryptMCPServerSecrets(server: any): any {
+  return mapMCPServerSecrets(server, (value) => (isEncrypted(value) ? decryptValue(value) : value));
+}
+
+/**
+ * Blank out the credentials of an MCP server, for configs that are shared
+ */
+export function stripMCPServerSecrets(server: any): any {
+  return mapMCPServerSecrets(server, () => '');
+}
+
+/**
+ * Whether an MCP server still has credentials stored in plaintext
+ */
+export function hasPlaintextMCPServerSecrets(server: any): boolean {
+  let found = false;
+  mapMCPServerSecrets(server, (value) => {
+    found = found || !isEncrypted(value);
+    return value;
+  });
+  return found;
+}
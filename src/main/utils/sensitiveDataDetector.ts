@@ -1,7 +1,5 @@
 import { getLogger } from '../services/logging';
 
-const logger = getLogger();
-
 export interface SensitivePattern {
   pattern: RegExp;
   type: string;
@@ -108,6 +106,12 @@ const WHITELIST_PATTERNS: RegExp[] = [
   /@[\w-]+\/.*token/gi, // npm package names with 'token'
 ];
 
+/**
+ * Names of env vars and headers that hold credentials. "auth" only counts as
+ * a whole word (BASIC_AUTH, X-Auth-Token), not inside GIT_AUTHOR_NAME.
+ */
+const SENSITIVE_NAME_PATTERN = /api[-_]?key|access[-_]?key|private[-_]?key|token|secret|password|passwd|credential|(?:^|[-_.])auth(?:$|[-_.])|authorization|cookie/i;
+
 /**
  * Check if a match is whitelisted
  */
@@ -148,7 +152,7 @@ export function detectSensitiveData(text: string): DetectionResult {
         position: match.index,
       });
 
-      logger.core.debug('Sensitive data detected', {
+      getLogger().core.debug('Sensitive data detected', {
         type,
         confidence,
         position: match.index,
@@ -163,6 +167,20 @@ export function detectSensitiveData(text: string): DetectionResult {
   };
 }
 
+/**
+ * Whether an env var or header of a server config holds a credential, judged
+ * by its name (GITHUB_TOKEN, Authorization) or by a secret format in its value
+ */
+export function isSensitiveConfigEntry(name: string, value: string): boolean {
+  if (!value.trim()) return false;
+
+  if (SENSITIVE_NAME_PATTERN.test(name) && !isWhitelisted(name, name, 0)) {
+    return true;
+  }
+
+  return detectSensitiveData(`${name}=${value}`).hasSensitiveData;
+}
+
 /**
  * Sanitize text by replacing sensitive data with placeholders
  */
@@ -198,7 +216,7 @@ export function sanitizeSensitiveData(text: string): {
       sanitized = sanitized.substring(0, match.index) + placeholder + sanitized.substring(match.index + match[0].length);
       replacements++;
 
-      logger.core.info('Sanitized sensitive data', {
+      getLogger().core.info('Sanitized sensitive data', {
         type,
         position: match.index,
         placeholder,
@@ -215,6 +233,79 @@ export function sanitizeSensitiveData(text: string): {
   };
 }
 
+const REDACTED = '[REDACTED]';
+
+// Nesting depth past which log context values are left as they are
+const MAX_REDACTION_DEPTH = 6;
+
+/**
+ * Credentials written inline in log messages and context strings. Values
+ * must contain a letter so counts like "tokens: 1200" are kept.
+ */
+const INLINE_CREDENTIAL_PATTERNS: RegExp[] = [
+  /(bearer\s+)[a-zA-Z0-9._~+/-]+=*/gi,
+  /((?:api[_-]?key|token|secret|password)\s*[=:]\s*["']?)(?=[^\s"'&,;]*[a-zA-Z])[^\s"'&,;]{8,}/gi,
+  /([?&](?:code|access_token|refresh_token|id_token|client_secret)=)[^&\s"']+/gi,
+];
+
+/**
+ * Context keys that match SENSITIVE_NAME_PATTERN but describe a credential
+ * rather than hold it (authType, tokenUrl, author)
+ */
+const DESCRIPTIVE_KEY_PATTERN = /(type|method|status|url|uri|endpoint|count|length|expires(at|in)?)$|^author$/i;
+
+/**
+ * Replace credentials in a log message or context value with [REDACTED]:
+ * strings in a known secret format, bearer tokens and key=value credentials,
+ * and the values of context keys named like credentials (apiKey, token).
+ *
+ * Unlike sanitizeSensitiveData this never logs, so the logger can call it on
+ * every entry.
+ */
+export function redactSensitiveData<T>(value: T, depth: number = 0): T {
+  if (typeof value === 'string') {
+    return redactString(value) as T;
+  }
+  if (depth >= MAX_REDACTION_DEPTH || value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactSensitiveData(item, depth + 1)) as T;
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype && Object.getPrototypeOf(value) !== null) {
+    // Errors, dates and class instances are serialized by the transports as they are
+    return value;
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    redacted[key] = isSensitiveKey(key) && typeof item === 'string' && item !== ''
+      ? REDACTED
+      : redactSensitiveData(item, depth + 1);
+  }
+  return redacted as T;
+}
+
+function redactString(text: string): string {
+  let redacted = text;
+
+  for (const { pattern, confidence } of SENSITIVE_PATTERNS) {
+    if (confidence !== 'high') continue;
+    redacted = redacted.replace(new RegExp(pattern.source, pattern.flags), REDACTED);
+  }
+  for (const pattern of INLINE_CREDENTIAL_PATTERNS) {
+    redacted = redacted.replace(new RegExp(pattern.source, pattern.flags), `$1${REDACTED}`);
+  }
+
+  return redacted;
+}
+
+function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_NAME_PATTERN.test(key)
+    && !DESCRIPTIVE_KEY_PATTERN.test(key)
+    && !WHITELIST_PATTERNS.some(pattern => new RegExp(pattern.source, 'i').test(key));
+}
+
 /**
  * Get confidence level for detections
  */
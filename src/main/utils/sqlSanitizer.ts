@@ -82,6 +82,39 @@ export function createLikePattern(
   return { pattern, escapeChar };
 }
 
+/**
+ * Builds a safe FTS5 MATCH expression from free-form user input
+ *
+ * Security: FTS5 has its own query syntax (AND/OR/NOT, NEAR, column filters,
+ * quotes, '*', '^'). Raw user input can raise syntax errors or change the
+ * query meaning, so every term is quoted as a literal string.
+ *
+ * Every term must match; the last one matches as a prefix so results
+ * update while the user is still typing.
+ *
+ * Example:
+ * - `electron "ipc` becomes `"electron" """ipc"*` (inner quotes are doubled)
+ *
+ * @param value - User search input
+ * @returns MATCH expression, or null when the input has no searchable terms
+ */
+export function buildFtsMatchQuery(value: string): string | null {
+  const terms = (value || '')
+    .split(/\s+/)
+    .map(term => term.trim())
+    .filter(term => term.length > 0)
+    .slice(0, 32); // Cap very long pastes
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const quoted = terms.map(term => `"${term.replace(/"/g, '""')}"`);
+  quoted[quoted.length - 1] += '*';
+
+  return quoted.join(' ');
+}
+
 /**
  * Validates and sanitizes SQL identifiers (table/column names)
  *
@@ -0,0 +1,17 @@
+import { ipcRenderer } from 'electron';
+import type {
+  CreateAgentInput,
+  UpdateAgentInput,
+} from '../../types/agents';
+
+export const agentsApi = {
+  list: () => ipcRenderer.invoke('levante/agents/list'),
+
+  create: (input: CreateAgentInput) =>
+    ipcRenderer.invoke('levante/agents/create', input),
+
+  update: (input: UpdateAgentInput) =>
+    ipcRenderer.invoke('levante/agents/update', input),
+
+  delete: (id: string) => ipcRenderer.invoke('levante/agents/delete', id),
+};
@@ -0,0 +1,10 @@
+import { ipcRenderer } from 'electron';
+import type { MessageAttachment } from '../../types/database';
+
+export const attachmentsApi = {
+  save: (sessionId: string, input: { filename: string; mediaType: string; data: string }) =>
+    ipcRenderer.invoke('levante/attachments/save', sessionId, input),
+
+  read: (attachment: MessageAttachment) =>
+    ipcRenderer.invoke('levante/attachments/read', attachment)
+};
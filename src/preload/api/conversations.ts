@@ -0,0 +1,25 @@
+import { ipcRenderer } from 'electron';
+import type {
+  ConversationExportFormat,
+  ConversationExportTarget,
+  ConversationMenuAction,
+} from '../../types/conversationExport';
+
+export const conversationsApi = {
+  export: (target: ConversationExportTarget, format: ConversationExportFormat) =>
+    ipcRenderer.invoke('levante/conversations/export', target, format),
+
+  import: () => ipcRenderer.invoke('levante/conversations/import'),
+
+  onMenuAction: (callback: (action: ConversationMenuAction) => void) => {
+    const listener = (_event: any, action: ConversationMenuAction) => {
+      callback(action);
+    };
+    ipcRenderer.on('levante/menu/conversations', listener);
+
+    // Return cleanup function
+    return () => {
+      ipcRenderer.removeListener('levante/menu/conversations', listener);
+    };
+  },
+};
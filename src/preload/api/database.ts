@@ -5,6 +5,10 @@ import {
   UpdateChatSessionInput,
   GetMessagesQuery,
   GetChatSessionsQuery,
+  SearchMessagesQuery,
+  CreateFolderInput,
+  UpdateFolderInput,
+  UsageStatsQuery,
   DatabaseResult,
   PaginatedResult,
   ChatSession,
@@ -28,7 +32,24 @@ export const databaseApi = {
       ipcRenderer.invoke('levante/db/sessions/update', input),
 
     delete: (id: string) =>
-      ipcRenderer.invoke('levante/db/sessions/delete', id)
+      ipcRenderer.invoke('levante/db/sessions/delete', id),
+
+    tags: () =>
+      ipcRenderer.invoke('levante/db/sessions/tags')
+  },
+
+  folders: {
+    list: () =>
+      ipcRenderer.invoke('levante/db/folders/list'),
+
+    create: (input: CreateFolderInput) =>
+      ipcRenderer.invoke('levante/db/folders/create', input),
+
+    update: (input: UpdateFolderInput) =>
+      ipcRenderer.invoke('levante/db/folders/update', input),
+
+    delete: (id: string) =>
+      ipcRenderer.invoke('levante/db/folders/delete', id)
   },
 
   messages: {
@@ -38,8 +59,19 @@ export const databaseApi = {
     list: (query: GetMessagesQuery) =>
       ipcRenderer.invoke('levante/db/messages/list', query),
 
-    search: (searchQuery: string, sessionId?: string, limit?: number) =>
-      ipcRenderer.invoke('levante/db/messages/search', searchQuery, sessionId, limit)
+    activePath: (sessionId: string) =>
+      ipcRenderer.invoke('levante/db/messages/active-path', sessionId),
+
+    switchBranch: (sessionId: string, messageId: string) =>
+      ipcRenderer.invoke('levante/db/messages/switch-branch', sessionId, messageId),
+
+    search: (query: SearchMessagesQuery) =>
+      ipcRenderer.invoke('levante/db/messages/search', query)
+  },
+
+  usage: {
+    stats: (query?: UsageStatsQuery) =>
+      ipcRenderer.invoke('levante/db/usage/stats', query)
   },
 
   generateTitle: (message: string) =>
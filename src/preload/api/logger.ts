@@ -1,5 +1,5 @@
 import { ipcRenderer } from 'electron';
-import type { LogCategory, LogLevel, LogContext } from '../types';
+import type { LogCategory, LogLevel, LogContext, LogRecord, LoggerConfig } from '../types';
 
 export const loggerApi = {
   log: (category: LogCategory, level: LogLevel, message: string, context?: LogContext) =>
@@ -8,6 +8,27 @@ export const loggerApi = {
   isEnabled: (category: LogCategory, level: LogLevel) =>
     ipcRenderer.invoke('levante/logger/isEnabled', category, level),
 
-  configure: (config: any) =>
-    ipcRenderer.invoke('levante/logger/configure', config)
+  configure: (config: Partial<LoggerConfig>) =>
+    ipcRenderer.invoke('levante/logger/configure', config),
+
+  getConfig: () =>
+    ipcRenderer.invoke('levante/logger/get-config'),
+
+  getRecent: () =>
+    ipcRenderer.invoke('levante/logger/recent'),
+
+  // Live tail: main only sends entries while a listener is registered
+  onEntry: (callback: (record: LogRecord) => void) => {
+    const listener = (_event: any, record: LogRecord) => {
+      callback(record);
+    };
+    ipcRenderer.on('levante/logger/entry', listener);
+    ipcRenderer.invoke('levante/logger/tail', true);
+
+    // Return cleanup function
+    return () => {
+      ipcRenderer.removeListener('levante/logger/entry', listener);
+      ipcRenderer.invoke('levante/logger/tail', false);
+    };
+  }
 };
@@ -1,5 +1,13 @@
 import { ipcRenderer } from 'electron';
-import type { MCPServerConfig, MCPConfiguration, MCPToolCall } from '../types';
+import type {
+  MCPServerConfig,
+  MCPConfiguration,
+  MCPToolCall,
+  MCPServerStatus,
+  ToolConsentRequest,
+  ToolConsentResponse
+} from '../types';
+import type { MCPRegistrySettings } from '../../types/preferences';
 
 export const mcpApi = {
   connectServer: (config: MCPServerConfig) =>
@@ -20,9 +28,24 @@ export const mcpApi = {
   callTool: (serverId: string, toolCall: MCPToolCall) =>
     ipcRenderer.invoke('levante/mcp/call-tool', serverId, toolCall),
 
+  listResources: (serverId: string) =>
+    ipcRenderer.invoke('levante/mcp/list-resources', serverId),
+
+  readResource: (serverId: string, uri: string) =>
+    ipcRenderer.invoke('levante/mcp/read-resource', serverId, uri),
+
+  listPrompts: (serverId: string) =>
+    ipcRenderer.invoke('levante/mcp/list-prompts', serverId),
+
+  getPrompt: (serverId: string, name: string, args?: Record<string, string>) =>
+    ipcRenderer.invoke('levante/mcp/get-prompt', serverId, name, args),
+
   connectionStatus: (serverId?: string) =>
     ipcRenderer.invoke('levante/mcp/connection-status', serverId),
 
+  serverStatuses: () =>
+    ipcRenderer.invoke('levante/mcp/server-statuses'),
+
   loadConfiguration: () =>
     ipcRenderer.invoke('levante/mcp/load-configuration'),
 
@@ -50,11 +73,11 @@ export const mcpApi = {
   testConnection: (config: MCPServerConfig) =>
     ipcRenderer.invoke('levante/mcp/test-connection', config),
 
-  importConfiguration: (config: MCPConfiguration) =>
-    ipcRenderer.invoke('levante/mcp/import-configuration', config),
+  importConfiguration: (config: MCPConfiguration, options?: { stripSecrets?: boolean }) =>
+    ipcRenderer.invoke('levante/mcp/import-configuration', config, options),
 
-  exportConfiguration: () =>
-    ipcRenderer.invoke('levante/mcp/export-configuration'),
+  exportConfiguration: (options?: { stripSecrets?: boolean }) =>
+    ipcRenderer.invoke('levante/mcp/export-configuration', options),
 
   getConfigPath: () =>
     ipcRenderer.invoke('levante/mcp/get-config-path'),
@@ -65,6 +88,12 @@ export const mcpApi = {
   getRegistry: () =>
     ipcRenderer.invoke('levante/mcp/get-registry'),
 
+  syncRegistry: (force?: boolean) =>
+    ipcRenderer.invoke('levante/mcp/registry/sync', force),
+
+  testRegistry: (settings: MCPRegistrySettings) =>
+    ipcRenderer.invoke('levante/mcp/registry/test', settings),
+
   validatePackage: (packageName: string) =>
     ipcRenderer.invoke('levante/mcp/validate-package', packageName),
 
@@ -90,5 +119,69 @@ export const mcpApi = {
     ipcRenderer.invoke('levante/mcp/check-structured-output-support'),
 
   verifyPackage: (packageName: string) =>
-    ipcRenderer.invoke('levante/mcp/verify-package', packageName)
+    ipcRenderer.invoke('levante/mcp/verify-package', packageName),
+
+  // OAuth sign-in of remote servers
+  getAuthStatus: (serverId: string) =>
+    ipcRenderer.invoke('levante/mcp/auth/status', serverId),
+
+  signIn: (serverId: string) =>
+    ipcRenderer.invoke('levante/mcp/auth/sign-in', serverId),
+
+  signOut: (serverId: string) =>
+    ipcRenderer.invoke('levante/mcp/auth/sign-out', serverId),
+
+  // Tool consent
+  respondToolConsent: (requestId: string, response: ToolConsentResponse) =>
+    ipcRenderer.invoke('levante/mcp/tool-consent/respond', requestId, response),
+
+  getPendingToolConsents: () =>
+    ipcRenderer.invoke('levante/mcp/tool-consent/pending'),
+
+  clearToolConsentSession: (serverId?: string) =>
+    ipcRenderer.invoke('levante/mcp/tool-consent/clear-session', serverId),
+
+  onToolConsentRequest: (callback: (request: ToolConsentRequest) => void) => {
+    const listener = (_event: any, request: ToolConsentRequest) => {
+      callback(request);
+    };
+    ipcRenderer.on('levante/mcp/tool-consent/request', listener);
+
+    return () => {
+      ipcRenderer.removeListener('levante/mcp/tool-consent/request', listener);
+    };
+  },
+
+  onToolConsentResolved: (callback: (requestId: string) => void) => {
+    const listener = (_event: any, requestId: string) => {
+      callback(requestId);
+    };
+    ipcRenderer.on('levante/mcp/tool-consent/resolved', listener);
+
+    return () => {
+      ipcRenderer.removeListener('levante/mcp/tool-consent/resolved', listener);
+    };
+  },
+
+  onServerStatus: (callback: (status: MCPServerStatus) => void) => {
+    const listener = (_event: any, status: MCPServerStatus) => {
+      callback(status);
+    };
+    ipcRenderer.on('levante/mcp/server-status', listener);
+
+    return () => {
+      ipcRenderer.removeListener('levante/mcp/server-status', listener);
+    };
+  },
+
+  onToolsChanged: (callback: (serverId: string) => void) => {
+    const listener = (_event: any, serverId: string) => {
+      callback(serverId);
+    };
+    ipcRenderer.on('levante/mcp/tools-changed', listener);
+
+    return () => {
+      ipcRenderer.removeListener('levante/mcp/tools-changed', listener);
+    };
+  }
 };
@@ -1,12 +1,13 @@
 import { ipcRenderer } from 'electron';
+import type { OpenAICompatibleEndpoint } from '../../types/models';
 
 export const modelsApi = {
   fetchOpenRouter: (apiKey?: string) =>
     ipcRenderer.invoke('levante/models/openrouter', apiKey),
   fetchGateway: (apiKey: string, baseUrl?: string) =>
     ipcRenderer.invoke('levante/models/gateway', apiKey, baseUrl),
-  fetchLocal: (endpoint: string) =>
-    ipcRenderer.invoke('levante/models/local', endpoint),
+  fetchLocal: (endpoint: string, apiKey?: string) =>
+    ipcRenderer.invoke('levante/models/local', endpoint, apiKey),
   fetchOpenAI: (apiKey: string) =>
     ipcRenderer.invoke('levante/models/openai', apiKey),
   fetchGoogle: (apiKey: string) =>
@@ -17,4 +18,6 @@ export const modelsApi = {
     ipcRenderer.invoke('levante/models/groq', apiKey),
   fetchXAI: (apiKey: string) =>
     ipcRenderer.invoke('levante/models/xai', apiKey),
+  fetchOpenAICompatible: (config: OpenAICompatibleEndpoint) =>
+    ipcRenderer.invoke('levante/models/openai-compatible', config),
 };
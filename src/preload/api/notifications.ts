@@ -0,0 +1,34 @@
+import { ipcRenderer } from 'electron';
+import type { UIPreferences } from '../../types/preferences';
+import type { InAppNotification } from '../../types/notifications';
+
+export const notificationsApi = {
+  test: (settings: UIPreferences['notifications']) =>
+    ipcRenderer.invoke('levante/notifications/test', settings),
+
+  // A response finished while another chat or page was open
+  onInApp: (callback: (notification: InAppNotification) => void) => {
+    const listener = (_event: any, notification: InAppNotification) => {
+      callback(notification);
+    };
+    ipcRenderer.on('levante/notifications/in-app', listener);
+
+    // Return cleanup function
+    return () => {
+      ipcRenderer.removeListener('levante/notifications/in-app', listener);
+    };
+  },
+
+  // A desktop notification was clicked
+  onOpenSession: (callback: (sessionId: string) => void) => {
+    const listener = (_event: any, sessionId: string) => {
+      callback(sessionId);
+    };
+    ipcRenderer.on('levante/notifications/open-session', listener);
+
+    // Return cleanup function
+    return () => {
+      ipcRenderer.removeListener('levante/notifications/open-session', listener);
+    };
+  },
+};
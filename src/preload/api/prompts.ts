@@ -0,0 +1,17 @@
+import { ipcRenderer } from 'electron';
+import type {
+  CreatePromptTemplateInput,
+  UpdatePromptTemplateInput,
+} from '../../types/prompts';
+
+export const promptsApi = {
+  list: () => ipcRenderer.invoke('levante/prompts/list'),
+
+  create: (input: CreatePromptTemplateInput) =>
+    ipcRenderer.invoke('levante/prompts/create', input),
+
+  update: (input: UpdatePromptTemplateInput) =>
+    ipcRenderer.invoke('levante/prompts/update', input),
+
+  delete: (id: string) => ipcRenderer.invoke('levante/prompts/delete', id),
+};
@@ -0,0 +1,49 @@
+import { ipcRenderer } from 'electron';
+import type { ShortcutAction, ShortcutSettings } from '../../types/preferences';
+import type { ShortcutStatus } from '../../types/shortcuts';
+
+export const shortcutsApi = {
+  get: () =>
+    ipcRenderer.invoke('levante/shortcuts/get'),
+
+  update: (shortcuts: ShortcutSettings) =>
+    ipcRenderer.invoke('levante/shortcuts/update', shortcuts),
+
+  // Actions picked from the application menu
+  onAction: (callback: (action: ShortcutAction) => void) => {
+    const listener = (_event: any, action: ShortcutAction) => {
+      callback(action);
+    };
+    ipcRenderer.on('levante/shortcuts/action', listener);
+
+    // Return cleanup function
+    return () => {
+      ipcRenderer.removeListener('levante/shortcuts/action', listener);
+    };
+  },
+
+  onChanged: (callback: (status: ShortcutStatus) => void) => {
+    const listener = (_event: any, status: ShortcutStatus) => {
+      callback(status);
+    };
+    ipcRenderer.on('levante/shortcuts/changed', listener);
+
+    // Return cleanup function
+    return () => {
+      ipcRenderer.removeListener('levante/shortcuts/changed', listener);
+    };
+  },
+
+  // Global shortcut pressed: start a new chat with the clipboard text
+  onQuickChat: (callback: (data: { text: string }) => void) => {
+    const listener = (_event: any, data: { text: string }) => {
+      callback(data);
+    };
+    ipcRenderer.on('levante/shortcuts/quick-chat', listener);
+
+    // Return cleanup function
+    return () => {
+      ipcRenderer.removeListener('levante/shortcuts/quick-chat', listener);
+    };
+  },
+};
@@ -0,0 +1,7 @@
+import { ipcRenderer } from 'electron';
+import type { WebSearchSettings } from '../../types/preferences';
+
+export const webSearchApi = {
+  test: (settings: WebSearchSettings) =>
+    ipcRenderer.invoke('levante/web-search/test', settings),
+};
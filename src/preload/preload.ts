@@ -5,12 +5,40 @@ import {
   UpdateChatSessionInput,
   GetMessagesQuery,
   GetChatSessionsQuery,
+  SearchMessagesQuery,
+  MessageSearchResult,
+  MessagePath,
+  Folder,
+  CreateFolderInput,
+  UpdateFolderInput,
+  UsageStats,
+  UsageStatsQuery,
   DatabaseResult,
   PaginatedResult,
   ChatSession,
-  Message
+  Message,
+  MessageAttachment
 } from '../types/database';
-import { UIPreferences, PreferenceKey } from '../types/preferences';
+import { UIPreferences, PreferenceKey, WebSearchSettings, MCPRegistrySettings, ShortcutAction, ShortcutSettings } from '../types/preferences';
+import type { ShortcutStatus } from '../types/shortcuts';
+import type { InAppNotification } from '../types/notifications';
+import type { OpenAICompatibleEndpoint } from '../types/models';
+import type {
+  ConversationExportFormat,
+  ConversationExportTarget,
+  ConversationImportResult,
+  ConversationMenuAction
+} from '../types/conversationExport';
+import type {
+  CreatePromptTemplateInput,
+  PromptTemplate,
+  UpdatePromptTemplateInput
+} from '../types/prompts';
+import type {
+  Agent,
+  CreateAgentInput,
+  UpdateAgentInput
+} from '../types/agents';
 import type {
   ChatRequest,
   ChatStreamChunk,
@@ -19,12 +47,23 @@ import type {
   MCPTool,
   MCPToolCall,
   MCPToolResult,
+  MCPResource,
+  MCPResourceContent,
+  MCPPrompt,
+  MCPPromptResult,
   MCPServerHealth,
   MCPHealthReport,
+  MCPAuthStatus,
+  MCPServerStatus,
+  MCPRegistryStatus,
+  ToolConsentRequest,
+  ToolConsentResponse,
   DeepLinkAction,
   LogCategory,
   LogLevel,
   LogContext,
+  LogRecord,
+  LoggerConfig,
   UserProfile,
   WizardCompletionData,
   ValidationResult,
@@ -38,6 +77,13 @@ import { modelsApi } from './api/models';
 import { databaseApi } from './api/database';
 import { preferencesApi } from './api/preferences';
 import { mcpApi } from './api/mcp';
+import { attachmentsApi } from './api/attachments';
+import { conversationsApi } from './api/conversations';
+import { promptsApi } from './api/prompts';
+import { agentsApi } from './api/agents';
+import { webSearchApi } from './api/webSearch';
+import { shortcutsApi } from './api/shortcuts';
+import { notificationsApi } from './api/notifications';
 import { loggerApi } from './api/logger';
 import { wizardApi } from './api/wizard';
 import { profileApi } from './api/profile';
@@ -53,9 +99,19 @@ export type {
   MCPTool,
   MCPToolCall,
   MCPToolResult,
+  MCPResource,
+  MCPResourceContent,
+  MCPPrompt,
+  MCPPromptResult,
   MCPServerHealth,
   MCPHealthReport,
+  MCPAuthStatus,
+  MCPServerStatus,
+  MCPRegistryStatus,
   DeepLinkAction,
+  LogCategory,
+  LogLevel,
+  LogRecord,
 };
 
 // Define the API interface for type safety
@@ -83,12 +139,13 @@ export interface LevanteAPI {
   models: {
     fetchOpenRouter: (apiKey?: string) => Promise<{ success: boolean; data?: any[]; error?: string }>;
     fetchGateway: (apiKey: string, baseUrl?: string) => Promise<{ success: boolean; data?: any[]; error?: string }>;
-    fetchLocal: (endpoint: string) => Promise<{ success: boolean; data?: any[]; error?: string }>;
+    fetchLocal: (endpoint: string, apiKey?: string) => Promise<{ success: boolean; data?: any[]; error?: string }>;
     fetchOpenAI: (apiKey: string) => Promise<{ success: boolean; data?: any[]; error?: string }>;
     fetchGoogle: (apiKey: string) => Promise<{ success: boolean; data?: any[]; error?: string }>;
     fetchAnthropic: (apiKey: string) => Promise<{ success: boolean; data?: any[]; error?: string }>;
     fetchGroq: (apiKey: string) => Promise<{ success: boolean; data?: any[]; error?: string }>;
     fetchXAI: (apiKey: string) => Promise<{ success: boolean; data?: any[]; error?: string }>;
+    fetchOpenAICompatible: (config: OpenAICompatibleEndpoint) => Promise<{ success: boolean; data?: any[]; error?: string }>;
   };
 
   // Database functionality
@@ -100,11 +157,23 @@ export interface LevanteAPI {
       list: (query?: GetChatSessionsQuery) => Promise<DatabaseResult<PaginatedResult<ChatSession>>>;
       update: (input: UpdateChatSessionInput) => Promise<DatabaseResult<ChatSession | null>>;
       delete: (id: string) => Promise<DatabaseResult<boolean>>;
+      tags: () => Promise<DatabaseResult<string[]>>;
+    };
+    folders: {
+      list: () => Promise<DatabaseResult<Folder[]>>;
+      create: (input: CreateFolderInput) => Promise<DatabaseResult<Folder>>;
+      update: (input: UpdateFolderInput) => Promise<DatabaseResult<Folder | null>>;
+      delete: (id: string) => Promise<DatabaseResult<boolean>>;
     };
     messages: {
       create: (input: CreateMessageInput) => Promise<DatabaseResult<Message>>;
       list: (query: GetMessagesQuery) => Promise<DatabaseResult<PaginatedResult<Message>>>;
-      search: (searchQuery: string, sessionId?: string, limit?: number) => Promise<DatabaseResult<Message[]>>;
+      activePath: (sessionId: string) => Promise<DatabaseResult<MessagePath>>;
+      switchBranch: (sessionId: string, messageId: string) => Promise<DatabaseResult<MessagePath>>;
+      search: (query: SearchMessagesQuery) => Promise<DatabaseResult<MessageSearchResult[]>>;
+    };
+    usage: {
+      stats: (query?: UsageStatsQuery) => Promise<DatabaseResult<UsageStats>>;
     };
     generateTitle: (message: string) => Promise<{ success: boolean; data?: string; error?: string }>;
   };
@@ -134,7 +203,12 @@ export interface LevanteAPI {
     disableServer: (serverId: string) => Promise<{ success: boolean; error?: string }>;
     listTools: (serverId: string) => Promise<{ success: boolean; data?: MCPTool[]; error?: string }>;
     callTool: (serverId: string, toolCall: MCPToolCall) => Promise<{ success: boolean; data?: MCPToolResult; error?: string }>;
-    connectionStatus: (serverId?: string) => Promise<{ success: boolean; data?: Record<string, 'connected' | 'disconnected'>; error?: string }>;
+    listResources: (serverId: string) => Promise<{ success: boolean; data?: MCPResource[]; error?: string }>;
+    readResource: (serverId: string, uri: string) => Promise<{ success: boolean; data?: MCPResourceContent[]; error?: string }>;
+    listPrompts: (serverId: string) => Promise<{ success: boolean; data?: MCPPrompt[]; error?: string }>;
+    getPrompt: (serverId: string, name: string, args?: Record<string, string>) => Promise<{ success: boolean; data?: MCPPromptResult; error?: string }>;
+    connectionStatus: (serverId?: string) => Promise<{ success: boolean; data?: Record<string, 'connected' | 'disconnected' | 'connecting' | 'degraded' | 'crashed'>; error?: string }>;
+    serverStatuses: () => Promise<{ success: boolean; data?: MCPServerStatus[]; error?: string }>;
     loadConfiguration: () => Promise<{ success: boolean; data?: MCPConfiguration; error?: string }>;
     refreshConfiguration: () => Promise<{ success: boolean; data?: { serverResults: Record<string, { success: boolean; error?: string }>; config: MCPConfiguration }; error?: string }>;
     saveConfiguration: (config: MCPConfiguration) => Promise<{ success: boolean; error?: string }>;
@@ -144,11 +218,13 @@ export interface LevanteAPI {
     getServer: (serverId: string) => Promise<{ success: boolean; data?: MCPServerConfig | null; error?: string }>;
     listServers: () => Promise<{ success: boolean; data?: MCPServerConfig[]; error?: string }>;
     testConnection: (config: MCPServerConfig) => Promise<{ success: boolean; data?: MCPTool[]; error?: string }>;
-    importConfiguration: (config: MCPConfiguration) => Promise<{ success: boolean; error?: string }>;
-    exportConfiguration: () => Promise<{ success: boolean; data?: MCPConfiguration; error?: string }>;
+    importConfiguration: (config: MCPConfiguration, options?: { stripSecrets?: boolean }) => Promise<{ success: boolean; error?: string }>;
+    exportConfiguration: (options?: { stripSecrets?: boolean }) => Promise<{ success: boolean; data?: MCPConfiguration; error?: string }>;
     getConfigPath: () => Promise<{ success: boolean; data?: string; error?: string }>;
     diagnoseSystem: () => Promise<{ success: boolean; data?: { success: boolean; issues: string[]; recommendations: string[] }; error?: string }>;
     getRegistry: () => Promise<{ success: boolean; data?: any; error?: string }>;
+    syncRegistry: (force?: boolean) => Promise<{ success: boolean; data?: { registry: any; status: MCPRegistryStatus }; error?: string }>;
+    testRegistry: (settings: MCPRegistrySettings) => Promise<{ success: boolean; data?: { entryCount: number; verified: boolean }; error?: string }>;
     validatePackage: (packageName: string) => Promise<{ success: boolean; data?: { valid: boolean; status: string; message: string; alternative?: string }; error?: string }>;
     cleanupDeprecated: () => Promise<{ success: boolean; data?: { cleanedCount: number }; error?: string }>;
     healthReport: () => Promise<{ success: boolean; data?: MCPHealthReport; error?: string }>;
@@ -158,13 +234,26 @@ export interface LevanteAPI {
     extractConfig: (text: string) => Promise<{ success: boolean; data?: any; error?: string; suggestion?: string }>;
     checkStructuredOutputSupport: () => Promise<{ success: boolean; data?: { supported: boolean; currentModel: string; currentProvider: string; supportedModels: any[] }; error?: string }>;
     verifyPackage: (packageName: string) => Promise<{ success: boolean; data?: { exists: boolean; status: number }; error?: string }>;
+    getAuthStatus: (serverId: string) => Promise<{ success: boolean; data?: MCPAuthStatus; error?: string }>;
+    signIn: (serverId: string) => Promise<{ success: boolean; data?: MCPAuthStatus; error?: string }>;
+    signOut: (serverId: string) => Promise<{ success: boolean; data?: MCPAuthStatus; error?: string }>;
+    respondToolConsent: (requestId: string, response: ToolConsentResponse) => Promise<{ success: boolean; error?: string }>;
+    getPendingToolConsents: () => Promise<{ success: boolean; data?: ToolConsentRequest[]; error?: string }>;
+    clearToolConsentSession: (serverId?: string) => Promise<{ success: boolean; error?: string }>;
+    onToolConsentRequest: (callback: (request: ToolConsentRequest) => void) => () => void;
+    onToolConsentResolved: (callback: (requestId: string) => void) => () => void;
+    onServerStatus: (callback: (status: MCPServerStatus) => void) => () => void;
+    onToolsChanged: (callback: (serverId: string) => void) => () => void;
   };
 
   // Logger functionality
   logger: {
     log: (category: LogCategory, level: LogLevel, message: string, context?: LogContext) => Promise<{ success: boolean; error?: string }>;
     isEnabled: (category: LogCategory, level: LogLevel) => Promise<{ success: boolean; data?: boolean; error?: string }>;
-    configure: (config: any) => Promise<{ success: boolean; error?: string }>;
+    configure: (config: Partial<LoggerConfig>) => Promise<{ success: boolean; error?: string }>;
+    getConfig: () => Promise<{ success: boolean; data?: LoggerConfig; error?: string }>;
+    getRecent: () => Promise<{ success: boolean; data?: LogRecord[]; error?: string }>;
+    onEntry: (callback: (record: LogRecord) => void) => () => void;
   };
 
   // Debug functionality
@@ -191,6 +280,56 @@ export interface LevanteAPI {
     openDirectory: () => Promise<{ success: boolean; data?: string; error?: string }>;
     getDirectoryInfo: () => Promise<{ success: boolean; data?: { baseDir: string; exists: boolean; files: string[]; totalFiles: number }; error?: string }>;
   };
+
+  // Attachments functionality
+  attachments: {
+    save: (sessionId: string, input: { filename: string; mediaType: string; data: string }) => Promise<{ success: boolean; data?: MessageAttachment; error?: string }>;
+    read: (attachment: MessageAttachment) => Promise<{ success: boolean; data?: string; error?: string }>;
+  };
+
+  // Conversation export/import
+  conversations: {
+    export: (target: ConversationExportTarget, format: ConversationExportFormat) => Promise<{ success: boolean; data?: string | null; error?: string }>;
+    import: () => Promise<{ success: boolean; data?: ConversationImportResult | null; error?: string }>;
+    onMenuAction: (callback: (action: ConversationMenuAction) => void) => () => void;
+  };
+
+  // Prompt library
+  prompts: {
+    list: () => Promise<{ success: boolean; data?: PromptTemplate[]; error?: string }>;
+    create: (input: CreatePromptTemplateInput) => Promise<{ success: boolean; data?: PromptTemplate; error?: string }>;
+    update: (input: UpdatePromptTemplateInput) => Promise<{ success: boolean; data?: PromptTemplate; error?: string }>;
+    delete: (id: string) => Promise<{ success: boolean; data?: boolean; error?: string }>;
+  };
+
+  // Agents
+  agents: {
+    list: () => Promise<{ success: boolean; data?: Agent[]; error?: string }>;
+    create: (input: CreateAgentInput) => Promise<{ success: boolean; data?: Agent; error?: string }>;
+    update: (input: UpdateAgentInput) => Promise<{ success: boolean; data?: Agent; error?: string }>;
+    delete: (id: string) => Promise<{ success: boolean; data?: boolean; error?: string }>;
+  };
+
+  // Web search
+  webSearch: {
+    test: (settings: WebSearchSettings) => Promise<{ success: boolean; data?: { resultCount: number }; error?: string }>;
+  };
+
+  // Keyboard shortcuts
+  shortcuts: {
+    get: () => Promise<{ success: boolean; data?: ShortcutStatus; error?: string }>;
+    update: (shortcuts: ShortcutSettings) => Promise<{ success: boolean; data?: ShortcutStatus; error?: string }>;
+    onAction: (callback: (action: ShortcutAction) => void) => () => void;
+    onChanged: (callback: (status: ShortcutStatus) => void) => () => void;
+    onQuickChat: (callback: (data: { text: string }) => void) => () => void;
+  };
+
+  // Notifications
+  notifications: {
+    test: (settings: UIPreferences['notifications']) => Promise<{ success: boolean; error?: string }>;
+    onInApp: (callback: (notification: InAppNotification) => void) => () => void;
+    onOpenSession: (callback: (sessionId: string) => void) => () => void;
+  };
 }
 
 // Assemble the complete API from modules
@@ -227,6 +366,21 @@ const api: LevanteAPI = {
 
   // Profile API
   profile: profileApi,
+
+  // Attachments API
+  attachments: attachmentsApi,
+
+  // Conversations API
+  conversations: conversationsApi,
+  prompts: promptsApi,
+  agents: agentsApi,
+  webSearch: webSearchApi,
+
+  // Shortcuts API
+  shortcuts: shortcutsApi,
+
+  // Notifications API
+  notifications: notificationsApi,
 };
 
 // Use `contextBridge` APIs to expose Electron APIs to
@@ -1,21 +1,27 @@
 import { UIMessage } from 'ai';
-import type { LogCategory, LogLevel, LogContext } from '../../main/types/logger';
+import type { LogCategory, LogLevel, LogContext, LogRecord, LoggerConfig } from '../../main/types/logger';
 import type { UserProfile, WizardCompletionData } from '../../types/userProfile';
 import type { ValidationResult, ProviderValidationConfig } from '../../types/wizard';
+import type { GenerationParams } from '../../types/preferences';
 
 export interface ChatRequest {
   messages: UIMessage[];
   model: string;
   webSearch: boolean;
   enableMCP?: boolean;
+  sessionId?: string;
+  contextLength?: number;
+  agentId?: string | null;
+  generation?: GenerationParams | null;
 }
 
 export interface ChatStreamChunk {
   delta?: string;
   done?: boolean;
   error?: string;
-  sources?: Array<{ url: string; title?: string }>;
-  reasoning?: string;
+  sources?: Array<{ url: string; title?: string; snippet?: string }>;
+  reasoning?: string; // Thinking output delta
+  reasoningEnd?: { durationMs: number }; // The current reasoning block is complete
   toolCall?: {
     id: string;
     name: string;
@@ -29,6 +35,25 @@ export interface ChatStreamChunk {
     status: 'success' | 'error';
     timestamp: number;
   };
+  usage?: {
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    reasoningTokens: number;
+    cachedInputTokens: number;
+  };
+  context?: {
+    strategy: 'truncate' | 'summarize';
+    droppedMessages: number;
+    summary?: string;
+  };
+  routing?: {
+    requestedModel: string;
+    model: string; // Model that answered: the requested one or a fallback
+    actualModelId?: string; // Model id reported by the provider
+    retries: number;
+    reason?: 'rate_limit' | 'server_error' | 'network';
+  };
 }
 
 // MCP Types for preload
@@ -41,6 +66,100 @@ export interface MCPServerConfig {
   baseUrl?: string;
   headers?: Record<string, string>;
   transport: 'stdio' | 'http' | 'sse';
+  toolPolicies?: ToolConsentPolicies;
+  sandbox?: MCPSandboxPolicy; // stdio only
+  registry?: MCPServerOrigin; // Set when added from the Store
+}
+
+/**
+ * Registry entry a server was installed from
+ */
+export interface MCPServerOrigin {
+  entryId: string;
+  version?: string;
+  pinned?: boolean; // Installed at a chosen version, no update is offered
+}
+
+/**
+ * Isolation of a stdio server process. Without an enabled policy the server
+ * runs with the user's permissions and full environment.
+ */
+export interface MCPSandboxPolicy {
+  enabled: boolean;
+  runtime?: 'bubblewrap' | 'container'; // Default: bubblewrap (Linux only)
+  allowedPaths?: MCPSandboxPath[]; // Host paths the server can see
+  network?: boolean; // Default: no network access
+  envAllowlist?: string[]; // Host variables passed through, besides the server's own env
+  image?: string; // Container image; defaults to one matching the command
+}
+
+export interface MCPSandboxPath {
+  path: string;
+  writable?: boolean;
+}
+
+export type ToolConsentPolicy = 'allow' | 'ask' | 'deny';
+
+export type ToolConsentScope = 'once' | 'session' | 'forever';
+
+export interface ToolConsentPolicies {
+  default?: ToolConsentPolicy;
+  tools?: Record<string, ToolConsentPolicy>;
+}
+
+export interface ToolConsentRequest {
+  requestId: string;
+  serverId: string;
+  toolName: string;
+  toolCallId?: string;
+  sessionId?: string; // Chat that ran the tool
+  arguments: Record<string, any>;
+  timestamp: number;
+}
+
+export interface ToolConsentResponse {
+  approved: boolean;
+  scope: ToolConsentScope;
+  arguments?: Record<string, any>;
+}
+
+/**
+ * OAuth sign-in state of a remote (http/sse) server
+ */
+export interface MCPAuthStatus {
+  serverId: string;
+  signedIn: boolean; // Tokens are stored for the server
+  authorizationRequired: boolean; // The server asked for a sign-in that has not happened yet
+  expiresAt?: number; // When the access token expires; it is refreshed on the next 401
+  scope?: string;
+}
+
+/**
+ * Live state of a server connection, pushed by the main process on every change
+ */
+export type MCPServerState = 'connecting' | 'ready' | 'degraded' | 'crashed' | 'disconnected';
+
+export interface MCPServerStatus {
+  serverId: string;
+  state: MCPServerState;
+  error?: string;
+  stderr: string[]; // Last lines a stdio server wrote to stderr
+  restarts: number; // Restarts attempted since the server was last ready
+  nextRestartAt?: number; // When the next automatic restart runs
+  updatedAt: number;
+}
+
+/**
+ * Where the registry in use came from. `error` explains why the last sync
+ * fell back to the cached or bundled registry.
+ */
+export interface MCPRegistryStatus {
+  source: 'remote' | 'cache' | 'bundled';
+  url?: string;
+  fetchedAt?: number;
+  verified: boolean; // Checked against the configured hash or signature
+  entryCount: number;
+  error?: string;
 }
 
 export interface MCPConfiguration {
@@ -71,6 +190,50 @@ export interface MCPToolResult {
   isError?: boolean;
 }
 
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string; // Base64-encoded binary content
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: {
+    type: string; // text, image, audio or resource
+    text?: string;
+    data?: string;
+    mimeType?: string;
+    resource?: MCPResourceContent;
+  };
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
 export interface MCPServerHealth {
   serverId: string;
   status: 'healthy' | 'unhealthy' | 'unknown';
@@ -94,7 +257,7 @@ export interface MCPHealthReport {
 
 // Deep link types
 export interface DeepLinkAction {
-  type: 'mcp-add' | 'chat-new';
+  type: 'mcp-add' | 'chat-new' | 'prompt-add';
   data: Record<string, unknown>;
 }
 
@@ -102,6 +265,8 @@ export type {
   LogCategory,
   LogLevel,
   LogContext,
+  LogRecord,
+  LoggerConfig,
   UserProfile,
   WizardCompletionData,
   ValidationResult,
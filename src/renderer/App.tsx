@@ -4,22 +4,34 @@ import ChatPage from '@/pages/ChatPage'
 import SettingsPage from '@/pages/SettingsPage'
 import ModelPage from '@/pages/ModelPage'
 import StorePage from '@/pages/StorePage'
+import UsagePage from '@/pages/UsagePage'
+import { DebugPanel } from '@/components/DebugPanel'
 import { OnboardingWizard } from '@/pages/OnboardingWizard'
 import { MCPDeepLinkModal } from '@/components/mcp/deep-link/MCPDeepLinkModal'
+import { MessageSearchDialog } from '@/components/chat/MessageSearchDialog'
+import { PromptTemplateDialog } from '@/components/chat/PromptTemplateDialog'
 import { useChatStore, initializeChatStore } from '@/stores/chatStore'
+import { initializeToolConsentStore } from '@/stores/toolConsentStore'
+import { initializeMCPStatusListener } from '@/stores/mcpStore'
+import { initializeShortcutStore } from '@/stores/shortcutStore'
+import { usePromptStore } from '@/stores/promptStore'
 import { modelService } from '@/services/modelService'
+import { useConversationTransfer } from '@/hooks/useConversationTransfer'
+import { useShortcutHandlers } from '@/hooks/useShortcutHandlers'
 import { logger } from '@/services/logger'
 import { useTranslation } from 'react-i18next'
 import { toast, Toaster } from 'sonner'
 import '@/i18n/config' // Initialize i18n
 import type { DeepLinkAction } from '@preload/preload'
 import type { MCPServerConfig } from '@/types/mcp'
+import type { MessageSearchResult } from '../types/database'
+import type { CreatePromptTemplateInput } from '../types/prompts'
 
 function App() {
   const [currentPage, setCurrentPage] = useState('chat')
   const [wizardCompleted, setWizardCompleted] = useState<boolean | null>(null)
   const [theme, setTheme] = useState<'light' | 'dark' | 'system'>('system')
-  const { i18n } = useTranslation()
+  const { t, i18n } = useTranslation()
 
   // MCP Deep Link Modal state
   const [mcpModalOpen, setMcpModalOpen] = useState(false)
@@ -29,6 +41,12 @@ function App() {
     sourceUrl?: string;
   }>({ config: null, name: '' })
 
+  // Shared prompt template (levante://prompt/add) awaiting confirmation
+  const [sharedPrompt, setSharedPrompt] = useState<CreatePromptTemplateInput | null>(null)
+
+  // Message search palette state
+  const [searchOpen, setSearchOpen] = useState(false)
+
   // Load theme and language from ui-preferences.json
   useEffect(() => {
     const loadUserPreferences = async () => {
@@ -175,6 +193,102 @@ function App() {
   const loadSession = useChatStore((state) => state.loadSession)
   const deleteSession = useChatStore((state) => state.deleteSession)
   const setPendingPrompt = useChatStore((state) => state.setPendingPrompt)
+  const openMessage = useChatStore((state) => state.openMessage)
+  const { exportConversation, importConversations } = useConversationTransfer()
+
+  // New chat and the message search palette, from their shortcuts or the menu
+  useShortcutHandlers({
+    newChat: () => {
+      startNewChat();
+      setCurrentPage('chat');
+    },
+    search: () => setSearchOpen((open) => !open),
+  });
+
+  // Global shortcut: a new chat pre-filled with the clipboard text
+  useEffect(() => {
+    return window.levante.shortcuts.onQuickChat(({ text }) => {
+      setCurrentPage('chat');
+      startNewChat();
+      if (text) {
+        setPendingPrompt(text);
+      }
+    });
+  }, [startNewChat, setPendingPrompt]);
+
+  // Export / import entries from the File menu
+  useEffect(() => {
+    return window.levante.conversations.onMenuAction(async (action) => {
+      if (action.type === 'import') {
+        const result = await importConversations();
+        if (result) setCurrentPage('chat');
+        return;
+      }
+
+      const sessionId = useChatStore.getState().currentSession?.id;
+      if (!sessionId) {
+        toast.error(t('conversation_transfer.no_chat_open', { ns: 'chat' }));
+        return;
+      }
+      await exportConversation({ type: 'session', id: sessionId }, action.format);
+    });
+  }, [exportConversation, importConversations, t]);
+
+  // A desktop notification was clicked: open the chat it came from
+  useEffect(() => {
+    return window.levante.notifications.onOpenSession((sessionId) => {
+      loadSession(sessionId);
+      setCurrentPage('chat');
+    });
+  }, [loadSession]);
+
+  // A response finished while the window was focused; skipped when its chat is on screen
+  useEffect(() => {
+    return window.levante.notifications.onInApp((notification) => {
+      const viewing = useChatStore.getState().currentSession?.id === notification.sessionId;
+      if (currentPage === 'chat' && viewing) return;
+
+      const failed = notification.kind === 'error';
+      const title = t(failed ? 'notifications.response_failed' : 'notifications.response_ready', { ns: 'chat' });
+      const description = notification.sessionTitle
+        ? t(failed ? 'notifications.response_failed_in' : 'notifications.response_ready_in', {
+            ns: 'chat',
+            title: notification.sessionTitle,
+          })
+        : notification.error;
+      const options = {
+        description,
+        action: {
+          label: t('notifications.open', { ns: 'chat' }),
+          onClick: () => {
+            loadSession(notification.sessionId);
+            setCurrentPage('chat');
+          },
+        },
+      };
+
+      if (failed) {
+        toast.error(title, options);
+      } else {
+        toast.success(title, options);
+      }
+    });
+  }, [currentPage, loadSession, t]);
+
+  // Listen for MCP tool consent requests
+  useEffect(() => {
+    return initializeToolConsentStore();
+  }, []);
+
+  // Keep MCP server status live
+  useEffect(() => {
+    return initializeMCPStatusListener();
+  }, []);
+
+  // Keep the shortcuts in sync with Settings
+  useEffect(() => {
+    return initializeShortcutStore();
+  }, []);
 
   // Handle deep links
   useEffect(() => {
@@ -269,6 +383,13 @@ function App() {
               }
             }, 500);
           }
+        } else if (action.type === 'prompt-add') {
+          const { prompt } = action.data as { prompt: CreatePromptTemplateInput };
+
+          logger.core.info('Opening shared prompt from deep link', { name: prompt.name });
+
+          // Let the user review the template before it is saved
+          setSharedPrompt(prompt);
         }
       } catch (error) {
         logger.core.error('Error handling deep link action', {
@@ -295,6 +416,10 @@ function App() {
         return 'Model'
       case 'store':
         return 'Store'
+      case 'usage':
+        return 'Usage'
+      case 'debug':
+        return 'Debug'
       default:
         return ''
     }
@@ -303,9 +428,11 @@ function App() {
   const renderPage = () => {
     switch (currentPage) {
       case 'chat': return <ChatPage />
-      case 'settings': return <SettingsPage />
+      case 'settings': return <SettingsPage onOpenLogViewer={() => setCurrentPage('debug')} />
       case 'model': return <ModelPage />
       case 'store': return <StorePage />
+      case 'usage': return <UsagePage />
+      case 'debug': return <DebugPanel />
       default: return <ChatPage />
     }
   }
@@ -322,6 +449,12 @@ function App() {
     setCurrentPage('chat');
   };
 
+  // Jump to a message picked in the search palette
+  const handleOpenSearchResult = (result: MessageSearchResult) => {
+    openMessage(result.session_id, result.id);
+    setCurrentPage('chat');
+  };
+
   // Get sidebar content for current page
   const getSidebarContent = () => {
     // Show ChatList sidebar in all pages
@@ -332,7 +465,8 @@ function App() {
         handleLoadSession, // Navigate to chat when loading session
         handleNewChat, // Navigate to chat when starting new chat
         deleteSession,
-        false // loading state
+        false, // loading state
+        () => setSearchOpen(true)
       );
     }
     return null;
@@ -377,6 +511,25 @@ function App() {
         sourceUrl={mcpModalConfig.sourceUrl}
       />
 
+      {/* Shared Prompt Template Confirmation */}
+      <PromptTemplateDialog
+        open={!!sharedPrompt}
+        mode="shared"
+        initial={sharedPrompt ?? undefined}
+        onOpenChange={(open) => !open && setSharedPrompt(null)}
+        onSubmit={async (input) => {
+          await usePromptStore.getState().createPrompt(input)
+          toast.success(t('prompts.shared_added', { ns: 'chat', name: input.name }))
+        }}
+      />
+
+      {/* Message Search Palette */}
+      <MessageSearchDialog
+        open={searchOpen}
+        onOpenChange={setSearchOpen}
+        onSelectResult={handleOpenSearchResult}
+      />
+
       <MainLayout
         title={getPageTitle(currentPage)}
         currentPage={currentPage}
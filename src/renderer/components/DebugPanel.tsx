@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { ScrollArea } from './ui/scroll-area';
+import { LogViewer } from './LogViewer';
 
 interface DirectoryInfo {
   baseDir: string;
@@ -224,6 +225,8 @@ export function DebugPanel() {
           </CardContent>
         </Card>
       )}
+
+      <LogViewer />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import type { LogCategory, LogLevel, LogRecord } from '@preload/preload';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const CATEGORIES: LogCategory[] = ['ai-sdk', 'mcp', 'database', 'ipc', 'preferences', 'models', 'core'];
+const MAX_RECORDS = 1000;
+
+const LEVEL_CLASSES: Record<LogLevel, string> = {
+  debug: 'text-cyan-600',
+  info: 'text-green-600',
+  warn: 'text-yellow-600',
+  error: 'text-red-600',
+};
+
+/**
+ * Recent log entries of the main process, filtered by category, level and
+ * text, with live tail
+ */
+export function LogViewer() {
+  const [records, setRecords] = useState<LogRecord[]>([]);
+  const [category, setCategory] = useState<LogCategory | 'all'>('all');
+  const [minLevel, setMinLevel] = useState<LogLevel>('debug');
+  const [query, setQuery] = useState('');
+  const [live, setLive] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!live) return;
+
+    let cancelled = false;
+
+    // Catch up on what was logged while paused, then follow new entries
+    window.levante.logger.getRecent().then((response) => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setRecords(response.data.slice(-MAX_RECORDS));
+        setError(null);
+      } else {
+        setError(response.error || 'Failed to load log entries');
+      }
+    });
+
+    const cleanup = window.levante.logger.onEntry((record) => {
+      setRecords((previous) => {
+        if (previous.some((item) => item.id === record.id)) return previous;
+        return [...previous, record].slice(-MAX_RECORDS);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      cleanup();
+    };
+  }, [live]);
+
+  const visible = useMemo(() => {
+    const minIndex = LEVELS.indexOf(minLevel);
+    const text = query.trim().toLowerCase();
+
+    return records.filter((record) =>
+      (category === 'all' || record.category === category) &&
+      LEVELS.indexOf(record.level) >= minIndex &&
+      (!text || `${record.message} ${record.context ?? ''}`.toLowerCase().includes(text))
+    );
+  }, [records, category, minLevel, query]);
+
+  // Keep the newest entry in view while tailing
+  useEffect(() => {
+    if (live && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [visible, live]);
+
+  return (
+    <Card className="border-none">
+      <CardHeader>
+        <CardTitle>Logs</CardTitle>
+        <CardDescription>
+          Recent entries that pass the logging settings. Keys and tokens are redacted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={category} onValueChange={(value) => setCategory(value as LogCategory | 'all')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All categories</SelectItem>
+              {CATEGORIES.map((item) => (
+                <SelectItem key={item} value={item}>{item}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={minLevel} onValueChange={(value) => setMinLevel(value as LogLevel)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LEVELS.map((level) => (
+                <SelectItem key={level} value={level}>{level} and up</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter text"
+            className="w-48"
+          />
+
+          <Button variant="outline" size="sm" onClick={() => setLive(!live)}>
+            {live ? 'Pause' : 'Resume live tail'}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setRecords([])}>
+            Clear
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            {visible.length} of {records.length} entries
+          </span>
+        </div>
+
+        {error && <p className="text-sm text-red-700">Error: {error}</p>}
+
+        <div ref={listRef} className="h-96 overflow-auto rounded border p-2 font-mono text-xs">
+          {visible.map((record) => (
+            <div key={record.id} className="py-0.5">
+              <span className="text-muted-foreground">
+                {new Date(record.timestamp).toLocaleTimeString()}
+              </span>{' '}
+              <span className="text-purple-600">[{record.category.toUpperCase()}]</span>{' '}
+              <span className={LEVEL_CLASSES[record.level]}>[{record.level.toUpperCase()}]</span>{' '}
+              {record.message}
+              {record.context && (
+                <details className="ml-4">
+                  <summary className="cursor-pointer text-muted-foreground">context</summary>
+                  <pre className="whitespace-pre-wrap break-all">{record.context}</pre>
+                </details>
+              )}
+            </div>
+          ))}
+          {visible.length === 0 && (
+            <p className="text-muted-foreground">No log entries</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,7 +8,7 @@ import {
 } from '@/components/ui/collapsible';
 import { cn } from '@/lib/utils';
 import { BrainIcon, ChevronDownIcon } from 'lucide-react';
-import type { ComponentProps } from 'react';
+import type { ComponentProps, ReactNode } from 'react';
 import { createContext, memo, useContext, useEffect, useState } from 'react';
 import { Response } from './response';
 
@@ -114,12 +114,17 @@ export type ReasoningTriggerProps = ComponentProps<
   typeof CollapsibleTrigger
 > & {
   title?: string;
+  getThinkingMessage?: (isStreaming: boolean, duration: number) => ReactNode;
 };
 
+const defaultGetThinkingMessage = (isStreaming: boolean, duration: number) =>
+  isStreaming || duration === 0 ? <p>Thinking...</p> : <p>Thought for {duration} seconds</p>;
+
 export const ReasoningTrigger = memo(
   ({
     className,
     title = 'Reasoning',
+    getThinkingMessage = defaultGetThinkingMessage,
     children,
     ...props
   }: ReasoningTriggerProps) => {
@@ -136,11 +141,7 @@ export const ReasoningTrigger = memo(
         {children ?? (
           <>
             <BrainIcon className="size-4" />
-            {isStreaming || duration === 0 ? (
-              <p>Thinking...</p>
-            ) : (
-              <p>Thought for {duration} seconds</p>
-            )}
+            {getThinkingMessage(isStreaming, duration)}
             <ChevronDownIcon
               className={cn(
                 'size-4 text-muted-foreground transition-transform',
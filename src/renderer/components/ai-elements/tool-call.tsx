@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
 import {
   Collapsible,
@@ -11,9 +12,21 @@ import {
   CheckCircle2,
   XCircle,
   Clock,
-  Copy
+  Copy,
+  ShieldAlert
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToolConsentStore } from '@/stores/toolConsentStore';
+import { isMediaContent, toMediaUrl } from '@/lib/mcpContent';
+import type { MCPContent, ToolConsentRequest, ToolConsentScope } from '@/types/mcp';
 
 // ═══════════════════════════════════════════════════════
 // TIPOS
@@ -26,6 +39,7 @@ export interface ToolCallData {
   result?: {
     success: boolean;
     content?: string;
+    mcpContent?: MCPContent[] | null; // Items of an MCP result (text, images, audio, resources)
     error?: string;
   };
   status: 'pending' | 'running' | 'success' | 'error';
@@ -85,8 +99,22 @@ const statusConfig = {
  */
 export function ToolCall({ toolCall, className }: ToolCallProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const consentRequest = useToolConsentStore(
+    (state) => Object.values(state.requests).find(request => request.toolCallId === toolCall.id)
+  );
   const statusInfo = statusConfig[toolCall.status];
   const StatusIcon = statusInfo.icon;
+  const mediaItems = toolCall.result?.mcpContent?.filter(isMediaContent) ?? [];
+
+  // Tool en espera de aprobación: mostrar tarjeta de consentimiento
+  if (consentRequest) {
+    return (
+      <ToolConsentCard
+        request={consentRequest}
+        className={className}
+      />
+    );
+  }
 
   return (
     <Collapsible
@@ -125,6 +153,11 @@ export function ToolCall({ toolCall, className }: ToolCallProps) {
         />
       </CollapsibleTrigger>
 
+      {/* Imágenes y audio del resultado, visibles sin desplegar */}
+      {mediaItems.length > 0 && (
+        <ToolResultMedia items={mediaItems} className="mt-2 ml-5" />
+      )}
+
       {/* CONTENT: Detalles expandibles */}
       <CollapsibleContent
         className={cn(
@@ -202,7 +235,9 @@ function ArgumentsSection({ arguments: args }: { arguments: Record<string, any>
 
 function ResultSection({ result }: { result: NonNullable<ToolCallData['result']> }) {
   const copyToClipboard = () => {
-    const content = result.success ? result.content : result.error;
+    const content = result.success
+      ? (result.mcpContent ? getContentText(result.mcpContent) : result.content)
+      : result.error;
     if (content) {
       navigator.clipboard.writeText(content);
     }
@@ -243,7 +278,9 @@ function ResultSection({ result }: { result: NonNullable<ToolCallData['result']>
               : 'text-red-800 dark:text-red-200'
           )}>
             {result.success
-              ? (typeof result.content === 'string' ? result.content : JSON.stringify(result.content, null, 2))
+              ? (result.mcpContent
+                ? <ToolResultContent items={result.mcpContent} />
+                : (typeof result.content === 'string' ? result.content : JSON.stringify(result.content, null, 2)))
               : (typeof result.error === 'string' ? result.error : JSON.stringify(result.error, null, 2))
             }
           </pre>
@@ -253,6 +290,86 @@ function ResultSection({ result }: { result: NonNullable<ToolCallData['result']>
   );
 }
 
+// Texto de un resultado MCP, para copiarlo
+function getContentText(items: MCPContent[]): string {
+  return items
+    .map((item) => item.text ?? item.resource?.text ?? '')
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Imágenes y audio de un resultado MCP (capturas de pantalla, audio generado...)
+ */
+function ToolResultMedia({ items, className }: { items: MCPContent[]; className?: string }) {
+  const { t } = useTranslation('chat');
+
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {items.map((item, index) => {
+        const url = toMediaUrl(item);
+        if (!url) return null;
+        const mimeType = item.resource?.mimeType ?? item.mimeType ?? '';
+        const label = item.resource?.uri ?? t('tool_result.media', { type: mimeType });
+
+        return mimeType.startsWith('audio/') ? (
+          <audio key={index} controls src={url} className="h-10 max-w-full" title={label} />
+        ) : (
+          <a key={index} href={url} target="_blank" rel="noreferrer" title={label}>
+            <img
+              src={url}
+              alt={label}
+              className="max-h-80 max-w-full rounded border border-border/50 object-contain"
+            />
+          </a>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Elementos de texto y recursos de un resultado MCP; imágenes y audio se muestran arriba
+ */
+function ToolResultContent({ items }: { items: MCPContent[] }) {
+  const { t } = useTranslation('chat');
+
+  return (
+    <>
+      {items.map((item, index) => {
+        const separator = index > 0 ? '\n' : '';
+
+        if (item.type === 'text') {
+          return <span key={index}>{separator}{item.text}</span>;
+        }
+        if (isMediaContent(item)) {
+          const mimeType = item.resource?.mimeType ?? item.mimeType;
+          return <span key={index} className="opacity-70">{separator}[{t('tool_result.media', { type: mimeType })}]</span>;
+        }
+        if (item.type === 'resource' && item.resource) {
+          return (
+            <span key={index}>
+              {separator}
+              <span className="opacity-70">{item.resource.uri}{item.resource.mimeType ? ` (${item.resource.mimeType})` : ''}</span>
+              {typeof item.resource.text === 'string'
+                ? `\n${item.resource.text}`
+                : `\n${t('tool_result.binary_resource')}`}
+            </span>
+          );
+        }
+        if (item.type === 'resource_link') {
+          return (
+            <span key={index} className="opacity-70">
+              {separator}{t('tool_result.resource_link', { name: item.name ?? item.uri, uri: item.uri })}
+            </span>
+          );
+        }
+        return <span key={index}>{separator}{JSON.stringify(item, null, 2)}</span>;
+      })}
+    </>
+  );
+}
+
 function MetadataSection({ toolCall }: { toolCall: ToolCallData }) {
   const statusInfo = statusConfig[toolCall.status];
   const StatusIcon = statusInfo.icon;
@@ -287,6 +404,154 @@ function MetadataSection({ toolCall }: { toolCall: ToolCallData }) {
   );
 }
 
+// ═══════════════════════════════════════════════════════
+// TARJETA DE CONSENTIMIENTO
+// ═══════════════════════════════════════════════════════
+
+/**
+ * ToolConsentCard - Aprobación de una tool MCP antes de ejecutarla
+ *
+ * Permite aprobar, denegar o editar los argumentos, y recordar la
+ * decisión una vez, durante la sesión o para siempre.
+ */
+export function ToolConsentCard({
+  request,
+  className
+}: {
+  request: ToolConsentRequest;
+  className?: string;
+}) {
+  const { t } = useTranslation('chat');
+  const { approve, deny } = useToolConsentStore();
+  const [scope, setScope] = useState<ToolConsentScope>('once');
+  const [isEditing, setIsEditing] = useState(false);
+  const [argsText, setArgsText] = useState(() => JSON.stringify(request.arguments, null, 2));
+  const [argsError, setArgsError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleApprove = async () => {
+    let args: Record<string, any> | undefined;
+
+    if (isEditing) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(argsText);
+      } catch {
+        setArgsError(t('tool_consent.invalid_arguments'));
+        return;
+      }
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        setArgsError(t('tool_consent.arguments_not_object'));
+        return;
+      }
+      args = parsed as Record<string, any>;
+    }
+
+    setIsSubmitting(true);
+    const error = await approve(request.requestId, scope, args);
+    if (error) {
+      setArgsError(t('tool_consent.arguments_rejected', { error }));
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeny = async () => {
+    setIsSubmitting(true);
+    await deny(request.requestId, scope);
+  };
+
+  return (
+    <div
+      className={cn(
+        'not-prose my-2 rounded-lg border border-amber-300/60 dark:border-amber-700/60',
+        'bg-amber-50/50 dark:bg-amber-950/20 p-3 space-y-3 text-sm',
+        className
+      )}
+    >
+      <div className="flex items-start gap-2">
+        <ShieldAlert className="w-4 h-4 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+        <div className="space-y-0.5">
+          <div className="font-medium">{t('tool_consent.title')}</div>
+          <div className="text-xs text-muted-foreground">
+            {t('tool_consent.description', { tool: request.toolName, server: request.serverId })}
+          </div>
+        </div>
+      </div>
+
+      {/* Argumentos (editables) */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+            {t('tool_consent.arguments')}
+          </h4>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsEditing(!isEditing)}
+            className="h-6 px-2 text-xs text-muted-foreground hover:text-foreground"
+            disabled={isSubmitting}
+          >
+            {isEditing ? t('tool_consent.cancel_edit') : t('tool_consent.edit_arguments')}
+          </Button>
+        </div>
+
+        {isEditing ? (
+          <Textarea
+            value={argsText}
+            onChange={(e) => {
+              setArgsText(e.target.value);
+              setArgsError(null);
+            }}
+            className="font-mono text-xs min-h-[120px]"
+          />
+        ) : (
+          <div className="bg-background/50 rounded border border-border/50 p-2">
+            <pre className="text-xs font-mono text-foreground/80 whitespace-pre-wrap overflow-x-auto">
+              {JSON.stringify(request.arguments, null, 2)}
+            </pre>
+          </div>
+        )}
+
+        {argsError && (
+          <p className="text-xs text-red-600 dark:text-red-400">{argsError}</p>
+        )}
+      </div>
+
+      {/* Acciones */}
+      <div className="flex items-center gap-2">
+        <Select value={scope} onValueChange={(value) => setScope(value as ToolConsentScope)}>
+          <SelectTrigger className="h-8 w-[180px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="once">{t('tool_consent.scope.once')}</SelectItem>
+            <SelectItem value="session">{t('tool_consent.scope.session')}</SelectItem>
+            <SelectItem value="forever">{t('tool_consent.scope.forever')}</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDeny}
+            disabled={isSubmitting}
+          >
+            {t('tool_consent.deny')}
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleApprove}
+            disabled={isSubmitting}
+          >
+            {t('tool_consent.approve')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ═══════════════════════════════════════════════════════
 // COMPONENTE PARA MÚLTIPLES TOOL CALLS
 // ═══════════════════════════════════════════════════════
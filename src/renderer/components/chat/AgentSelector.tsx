@@ -0,0 +1,90 @@
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bot, Check, ChevronDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useTranslation } from 'react-i18next';
+import { useAgentStore } from '@/stores/agentStore';
+
+interface AgentSelectorProps {
+  agentId: string | null;
+  onAgentChange: (agentId: string | null) => void;
+  className?: string;
+}
+
+/**
+ * Pick the agent the current chat talks to; "Default assistant" uses the global settings
+ */
+export function AgentSelector({ agentId, onAgentChange, className }: AgentSelectorProps) {
+  const { t } = useTranslation('chat');
+  const agents = useAgentStore((state) => state.agents);
+  const loaded = useAgentStore((state) => state.loaded);
+  const loadAgents = useAgentStore((state) => state.loadAgents);
+
+  useEffect(() => {
+    if (!loaded) loadAgents();
+  }, [loaded, loadAgents]);
+
+  const selected = agents.find((agent) => agent.id === agentId) ?? null;
+
+  // Nothing to choose from until the user creates an agent
+  if (agents.length === 0 && !agentId) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            'gap-1.5 rounded-lg text-muted-foreground max-w-[180px]',
+            selected && 'text-foreground',
+            className
+          )}
+          type="button"
+          title={t('agent_selector.label')}
+        >
+          {selected ? <span>{selected.icon}</span> : <Bot size={16} />}
+          <span className="truncate">
+            {selected?.name ?? (agentId ? t('agent_selector.missing') : t('agent_selector.default'))}
+          </span>
+          <ChevronDown size={14} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-72">
+        <DropdownMenuLabel>{t('agent_selector.label')}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => onAgentChange(null)} className="gap-2">
+          <Bot size={16} className="text-muted-foreground" />
+          <span className="flex-1">{t('agent_selector.default')}</span>
+          {!agentId && <Check size={14} />}
+        </DropdownMenuItem>
+        {agents.map((agent) => (
+          <DropdownMenuItem
+            key={agent.id}
+            onSelect={() => onAgentChange(agent.id)}
+            className="items-start gap-2"
+          >
+            <span className="w-4 text-center">{agent.icon}</span>
+            <div className="flex-1 min-w-0">
+              <div className="truncate">{agent.name}</div>
+              {agent.description && (
+                <div className="line-clamp-1 text-xs text-muted-foreground">{agent.description}</div>
+              )}
+            </div>
+            {agent.id === agentId && <Check size={14} className="mt-0.5" />}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,58 @@
+import { AlertTriangle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatCost } from '@/lib/usage';
+import type { BudgetWarning } from '@/hooks/useBudgetGuard';
+
+interface BudgetWarningDialogProps {
+  warning: BudgetWarning | null;
+  onResolve: (proceed: boolean) => void;
+}
+
+/**
+ * Asks for confirmation before a send that would go over the monthly budget
+ */
+export function BudgetWarningDialog({ warning, onResolve }: BudgetWarningDialogProps) {
+  const { t } = useTranslation('usage');
+
+  return (
+    <Dialog open={!!warning} onOpenChange={(open) => !open && onResolve(false)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            {t('budget.warning_title')}
+          </DialogTitle>
+          <DialogDescription>
+            {warning &&
+              t('budget.warning_description', {
+                spent: formatCost(warning.spent),
+                limit: formatCost(warning.limit),
+              })}
+          </DialogDescription>
+        </DialogHeader>
+        {warning?.estimate != null && (
+          <p className="text-sm text-muted-foreground">
+            {t('budget.estimate', { cost: formatCost(warning.estimate) })}
+          </p>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve(false)}>
+            {t('budget.cancel')}
+          </Button>
+          <Button variant="destructive" onClick={() => onResolve(true)}>
+            {t('budget.send_anyway')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
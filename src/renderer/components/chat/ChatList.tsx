@@ -1,16 +1,48 @@
-import { useState, useEffect } from 'react';
-import { Search, MessageSquare, Plus, Trash2, MoreVertical } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Search,
+  MessageSquare,
+  Plus,
+  Trash2,
+  MoreVertical,
+  TextSearch,
+  Pin,
+  PinOff,
+  Folder as FolderIcon,
+  FolderPlus,
+  FolderInput,
+  ChevronRight,
+  Pencil,
+  Tag,
+  X,
+  Download,
+  Upload
+} from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu';
 import { useTranslation } from 'react-i18next';
-import { ChatSession } from '../../../types/database';
+import { ChatSession, Folder } from '../../../types/database';
+import type { ConversationExportTarget } from '../../../types/conversationExport';
+import { useChatStore } from '@/stores/chatStore';
+import { useShortcutStore, IS_MAC } from '@/stores/shortcutStore';
+import { formatShortcut } from '../../../types/shortcuts';
+import { useConversationTransfer } from '@/hooks/useConversationTransfer';
 import { cn } from '@/lib/utils';
+import { FolderNameDialog, SessionTagsDialog } from './ChatListDialogs';
+
+// dataTransfer type used when dragging a chat onto a folder or the pinned section
+const SESSION_DRAG_TYPE = 'application/x-levante-session';
 
 interface ChatListProps {
   sessions: ChatSession[];
@@ -19,36 +51,93 @@ interface ChatListProps {
   onNewChat: () => void;
   onDeleteChat: (sessionId: string) => void;
   loading?: boolean;
+  onSearchMessages?: () => void;
 }
 
+type FolderDialogState =
+  | { mode: 'create'; sessionId?: string }
+  | { mode: 'rename'; folder: Folder };
+
 export function ChatList({
   sessions,
   currentSessionId,
   onSessionSelect,
   onNewChat,
   onDeleteChat,
-  loading = false
+  loading = false,
+  onSearchMessages
 }: ChatListProps) {
   const { t } = useTranslation('chat');
+  const folders = useChatStore((state) => state.folders);
+  const allTags = useChatStore((state) => state.tags);
+  const createFolder = useChatStore((state) => state.createFolder);
+  const renameFolder = useChatStore((state) => state.renameFolder);
+  const deleteFolder = useChatStore((state) => state.deleteFolder);
+  const moveSessionToFolder = useChatStore((state) => state.moveSessionToFolder);
+  const setSessionPinned = useChatStore((state) => state.setSessionPinned);
+  const setSessionTags = useChatStore((state) => state.setSessionTags);
+  const searchShortcut = useShortcutStore((state) => state.shortcuts.search);
+  const { exportConversation, importConversations } = useConversationTransfer();
+
   const [searchQuery, setSearchQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
   const [filteredSessions, setFilteredSessions] = useState<ChatSession[]>(sessions);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+  const [dragging, setDragging] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [folderDialog, setFolderDialog] = useState<FolderDialogState | null>(null);
+  const [tagsSession, setTagsSession] = useState<ChatSession | null>(null);
 
-  // Filter sessions based on search query
+  // Drop the tag filter when its last chat loses the tag
   useEffect(() => {
-    if (!searchQuery.trim()) {
-      setFilteredSessions(sessions);
-    } else {
-      const query = searchQuery.toLowerCase();
-      const filtered = sessions.filter(session =>
+    if (tagFilter && !allTags.includes(tagFilter)) {
+      setTagFilter(null);
+    }
+  }, [allTags, tagFilter]);
+
+  // Filter sessions based on search query and selected tag
+  useEffect(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const filtered = sessions.filter(session => {
+      if (tagFilter && !session.tags?.includes(tagFilter)) {
+        return false;
+      }
+      if (!query) {
+        return true;
+      }
+      return (
         session.title?.toLowerCase().includes(query) ||
-        session.model.toLowerCase().includes(query)
+        session.model.toLowerCase().includes(query) ||
+        session.tags?.some(tag => tag.toLowerCase().includes(query))
       );
-      setFilteredSessions(filtered);
+    });
+    setFilteredSessions(filtered);
+  }, [sessions, searchQuery, tagFilter]);
+
+  const isFiltering = !!searchQuery.trim() || !!tagFilter;
+
+  // Pinned chats are listed once, in their own section, regardless of folder
+  const { pinnedSessions, sessionsByFolder, unfiledSessions } = useMemo(() => {
+    const folderIds = new Set(folders.map(folder => folder.id));
+    const byFolder: Record<string, ChatSession[]> = {};
+    const pinned: ChatSession[] = [];
+    const unfiled: ChatSession[] = [];
+
+    for (const session of filteredSessions) {
+      if (session.pinned) {
+        pinned.push(session);
+      } else if (session.folder_id && folderIds.has(session.folder_id)) {
+        (byFolder[session.folder_id] ||= []).push(session);
+      } else {
+        unfiled.push(session);
+      }
     }
-  }, [sessions, searchQuery]);
+
+    return { pinnedSessions: pinned, sessionsByFolder: byFolder, unfiledSessions: unfiled };
+  }, [filteredSessions, folders]);
 
   // Group sessions by date
-  const groupedSessions = filteredSessions.reduce((groups, session) => {
+  const groupedSessions = unfiledSessions.reduce((groups, session) => {
     const date = new Date(session.created_at);
     const today = new Date();
     const yesterday = new Date(today);
@@ -81,15 +170,205 @@ export function ChatList({
     return order.indexOf(a) - order.indexOf(b);
   });
 
-  const formatTime = (timestamp: number) => {
-    const date = new Date(timestamp);
-    return date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
+  const toggleFolder = (folderId: string) => {
+    setCollapsedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
     });
   };
 
+  const handleFolderDialogSubmit = async (name: string) => {
+    if (!folderDialog) return;
+
+    if (folderDialog.mode === 'rename') {
+      await renameFolder(folderDialog.folder.id, name);
+      return;
+    }
+
+    const folder = await createFolder(name);
+    if (folder && folderDialog.sessionId) {
+      await moveSessionToFolder(folderDialog.sessionId, folder.id);
+    }
+  };
+
+  /**
+   * Drag and drop handlers for a drop zone.
+   * target is 'pinned', 'unfiled' or a folder id.
+   */
+  const dropZoneProps = (target: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(SESSION_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      if (dropTarget !== target) setDropTarget(target);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+        setDropTarget(current => (current === target ? null : current));
+      }
+    },
+    onDrop: async (e: React.DragEvent) => {
+      const sessionId = e.dataTransfer.getData(SESSION_DRAG_TYPE);
+      setDropTarget(null);
+      if (!sessionId) return;
+      e.preventDefault();
+
+      const session = sessions.find(s => s.id === sessionId);
+      if (!session) return;
+
+      if (target === 'pinned') {
+        if (!session.pinned) await setSessionPinned(sessionId, true);
+        return;
+      }
+
+      // Dropping outside the pinned section unpins the chat
+      if (session.pinned) await setSessionPinned(sessionId, false);
+
+      const folderId = target === 'unfiled' ? null : target;
+      if ((session.folder_id ?? null) !== folderId) {
+        await moveSessionToFolder(sessionId, folderId);
+      }
+    }
+  });
+
+  const renderExportMenu = (target: ConversationExportTarget) => (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>
+        <Download size={14} className="mr-2" />
+        {t('conversation_transfer.export')}
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent>
+        <DropdownMenuItem onClick={() => exportConversation(target, 'markdown')}>
+          {t('conversation_transfer.formats.markdown')}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportConversation(target, 'json')}>
+          {t('conversation_transfer.formats.json')}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportConversation(target, 'html')}>
+          {t('conversation_transfer.formats.html')}
+        </DropdownMenuItem>
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+
+  const renderSession = (session: ChatSession) => (
+    <div
+      key={session.id}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(SESSION_DRAG_TYPE, session.id);
+        e.dataTransfer.effectAllowed = 'move';
+        setDragging(true);
+      }}
+      onDragEnd={() => {
+        setDragging(false);
+        setDropTarget(null);
+      }}
+      className={cn(
+        "group mx-4 mb-1 rounded-lg cursor-pointer transition-colors",
+        "hover:bg-accent/50",
+        currentSessionId === session.id && "bg-accent"
+      )}
+      onClick={() => onSessionSelect(session.id)}
+    >
+      <div className="flex items-center gap-2 p-1">
+
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium truncate">
+            {session.title || 'Untitled Chat'}
+          </div>
+          {session.tags && session.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-0.5">
+              {session.tags.map(tag => (
+                <span key={tag} className="text-[10px] leading-tight text-muted-foreground">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6 p-0"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <MoreVertical size={14} />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+            <DropdownMenuItem onClick={() => setSessionPinned(session.id, !session.pinned)}>
+              {session.pinned ? (
+                <PinOff size={14} className="mr-2" />
+              ) : (
+                <Pin size={14} className="mr-2" />
+              )}
+              {session.pinned ? t('chat_list.unpin') : t('chat_list.pin')}
+            </DropdownMenuItem>
+
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <FolderInput size={14} className="mr-2" />
+                {t('chat_list.folders.move_to')}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuItem
+                  disabled={!session.folder_id}
+                  onClick={() => moveSessionToFolder(session.id, null)}
+                >
+                  {t('chat_list.folders.none')}
+                </DropdownMenuItem>
+                {folders.map(folder => (
+                  <DropdownMenuItem
+                    key={folder.id}
+                    disabled={session.folder_id === folder.id}
+                    onClick={() => moveSessionToFolder(session.id, folder.id)}
+                  >
+                    <FolderIcon size={14} className="mr-2" />
+                    <span className="truncate">{folder.name}</span>
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => setFolderDialog({ mode: 'create', sessionId: session.id })}>
+                  <FolderPlus size={14} className="mr-2" />
+                  {t('chat_list.folders.new')}
+                </DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+
+            <DropdownMenuItem onClick={() => setTagsSession(session)}>
+              <Tag size={14} className="mr-2" />
+              {t('chat_list.tags.edit')}
+            </DropdownMenuItem>
+
+            {renderExportMenu({ type: 'session', id: session.id })}
+
+            <DropdownMenuSeparator />
+
+            <DropdownMenuItem
+              onClick={() => onDeleteChat(session.id)}
+              className="text-destructive focus:text-destructive"
+            >
+              <Trash2 size={14} className="mr-2" />
+              Delete Chat
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  );
+
+  const sortByRecent = (list: ChatSession[]) =>
+    [...list].sort((a, b) => b.updated_at - a.updated_at);
+
   return (
     <div className="flex flex-col h-full">
       {/* Header with New Chat button */}
@@ -113,6 +392,41 @@ export function ChatList({
             className="pl-9"
           />
         </div>
+
+        {/* Full-text search across all messages */}
+        {onSearchMessages && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onSearchMessages}
+            className="w-full mt-2 justify-start gap-2 text-muted-foreground"
+          >
+            <TextSearch size={16} />
+            {t('chat_list.search_messages')}
+            {searchShortcut && (
+              <kbd className="ml-auto text-xs tracking-widest">
+                {formatShortcut(searchShortcut, IS_MAC)}
+              </kbd>
+            )}
+          </Button>
+        )}
+
+        {/* Tag filter */}
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2" aria-label={t('chat_list.tags.filter')}>
+            {allTags.map(tag => (
+              <Badge
+                key={tag}
+                variant={tagFilter === tag ? 'default' : 'outline'}
+                className="cursor-pointer font-normal"
+                onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              >
+                #{tag}
+                {tagFilter === tag && <X className="ml-1 h-3 w-3" />}
+              </Badge>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Chat List */}
@@ -121,70 +435,165 @@ export function ChatList({
           <div className="p-4 text-center text-muted-foreground">
             {t('chat_list.loading')}
           </div>
-        ) : filteredSessions.length === 0 ? (
-          <div className="p-4 text-center text-muted-foreground">
-            {searchQuery ? t('chat_list.no_results') : t('chat_list.no_chats')}
-          </div>
         ) : (
-          sortedGroupKeys.map(groupKey => (
-            <div key={groupKey}>
-              {/* Group Header */}
-              <div className="px-4 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
-                {t(`chat_list.groups.${groupKey}`)}
+          <>
+            {/* Pinned */}
+            {(pinnedSessions.length > 0 || dragging) && (
+              <div
+                {...dropZoneProps('pinned')}
+                className={cn('pb-1', dropTarget === 'pinned' && 'bg-accent/30')}
+              >
+                <div className="flex items-center gap-1 px-4 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                  <Pin size={12} />
+                  {t('chat_list.pinned')}
+                </div>
+                {pinnedSessions.length === 0 ? (
+                  <div className="mx-4 mb-1 rounded-lg border border-dashed p-2 text-center text-xs text-muted-foreground">
+                    {t('chat_list.drop_here')}
+                  </div>
+                ) : (
+                  sortByRecent(pinnedSessions).map(renderSession)
+                )}
+              </div>
+            )}
+
+            {/* Folders */}
+            <div className="flex items-center justify-between px-4 py-2">
+              <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                {t('chat_list.folders.title')}
+              </span>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  title={t('conversation_transfer.import')}
+                  onClick={importConversations}
+                >
+                  <Upload size={14} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  title={t('chat_list.folders.new')}
+                  onClick={() => setFolderDialog({ mode: 'create' })}
+                >
+                  <FolderPlus size={14} />
+                </Button>
               </div>
+            </div>
+
+            {folders.map(folder => {
+              const folderSessions = sessionsByFolder[folder.id] || [];
+              // Hide empty folders while filtering so results stay compact
+              if (isFiltering && folderSessions.length === 0) return null;
+              const expanded = isFiltering || !collapsedFolders.has(folder.id);
 
-              {/* Sessions in Group */}
-              {groupedSessions[groupKey]
-                .sort((a, b) => b.updated_at - a.updated_at) // Most recent first
-                .map(session => (
+              return (
+                <div
+                  key={folder.id}
+                  {...dropZoneProps(folder.id)}
+                  className={cn('pb-1', dropTarget === folder.id && 'bg-accent/30')}
+                >
                   <div
-                    key={session.id}
-                    className={cn(
-                      "group mx-4 mb-1 rounded-lg cursor-pointer transition-colors",
-                      "hover:bg-accent/50",
-                      currentSessionId === session.id && "bg-accent"
-                    )}
-                    onClick={() => onSessionSelect(session.id)}
+                    className="group flex items-center gap-1 mx-4 mb-1 p-1 rounded-lg cursor-pointer hover:bg-accent/50"
+                    onClick={() => toggleFolder(folder.id)}
                   >
-                    <div className="flex items-center gap-2 p-1">
-
-                      <div className="flex-1 min-w-0">
-                        <div className="text-sm font-medium truncate">
-                          {session.title || 'Untitled Chat'}
-                        </div>
-                      </div>
-
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6 p-0"
-                            onClick={(e) => e.stopPropagation()}
-                          >
-                            <MoreVertical size={14} />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              onDeleteChat(session.id);
-                            }}
-                            className="text-destructive focus:text-destructive"
-                          >
-                            <Trash2 size={14} className="mr-2" />
-                            Delete Chat
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
+                    <ChevronRight
+                      size={14}
+                      className={cn('shrink-0 transition-transform text-muted-foreground', expanded && 'rotate-90')}
+                    />
+                    <FolderIcon size={14} className="shrink-0 text-muted-foreground" />
+                    <span className="flex-1 min-w-0 text-sm truncate">{folder.name}</span>
+                    <span className="text-xs text-muted-foreground tabular-nums">
+                      {folderSessions.length}
+                    </span>
+
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6 p-0"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <MoreVertical size={14} />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        <DropdownMenuItem onClick={() => setFolderDialog({ mode: 'rename', folder })}>
+                          <Pencil size={14} className="mr-2" />
+                          {t('chat_list.folders.rename')}
+                        </DropdownMenuItem>
+                        {folderSessions.length > 0 && renderExportMenu({ type: 'folder', id: folder.id })}
+                        <DropdownMenuItem
+                          onClick={() => deleteFolder(folder.id)}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Trash2 size={14} className="mr-2" />
+                          {t('chat_list.folders.delete')}
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+
+                  {expanded && (
+                    <div className="pl-4">
+                      {sortByRecent(folderSessions).map(renderSession)}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {/* Unfiled chats, grouped by date */}
+            <div
+              {...dropZoneProps('unfiled')}
+              className={cn('min-h-[3rem]', dropTarget === 'unfiled' && 'bg-accent/30')}
+            >
+              {filteredSessions.length === 0 ? (
+                <div className="p-4 text-center text-muted-foreground">
+                  {isFiltering ? t('chat_list.no_results') : (
+                    <span className="inline-flex items-center gap-2">
+                      <MessageSquare size={16} />
+                      {t('chat_list.no_chats')}
+                    </span>
+                  )}
+                </div>
+              ) : (
+                sortedGroupKeys.map(groupKey => (
+                  <div key={groupKey}>
+                    {/* Group Header */}
+                    <div className="px-4 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                      {t(`chat_list.groups.${groupKey}`)}
                     </div>
+
+                    {/* Sessions in Group */}
+                    {sortByRecent(groupedSessions[groupKey]).map(renderSession)}
                   </div>
-                ))}
+                ))
+              )}
             </div>
-          ))
+          </>
         )}
       </div>
+
+      <FolderNameDialog
+        open={folderDialog !== null}
+        mode={folderDialog?.mode ?? 'create'}
+        initialName={folderDialog?.mode === 'rename' ? folderDialog.folder.name : ''}
+        onOpenChange={(open) => !open && setFolderDialog(null)}
+        onSubmit={handleFolderDialogSubmit}
+      />
+
+      <SessionTagsDialog
+        open={tagsSession !== null}
+        tags={tagsSession?.tags ?? []}
+        suggestions={allTags}
+        onOpenChange={(open) => !open && setTagsSession(null)}
+        onSubmit={(tags) => tagsSession && setSessionTags(tagsSession.id, tags)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
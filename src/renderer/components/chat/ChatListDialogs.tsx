@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface FolderNameDialogProps {
+  open: boolean;
+  mode: 'create' | 'rename';
+  initialName?: string;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (name: string) => void;
+}
+
+/**
+ * Ask for the name of a new folder, or a new name for an existing one
+ */
+export function FolderNameDialog({
+  open,
+  mode,
+  initialName = '',
+  onOpenChange,
+  onSubmit,
+}: FolderNameDialogProps) {
+  const { t } = useTranslation('chat');
+  const [name, setName] = useState(initialName);
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSubmit(name.trim());
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>
+              {mode === 'create' ? t('chat_list.folders.new') : t('chat_list.folders.rename')}
+            </DialogTitle>
+          </DialogHeader>
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t('chat_list.folders.name_placeholder')}
+          />
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              {t('chat_list.dialog.cancel')}
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              {t('chat_list.dialog.save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SessionTagsDialogProps {
+  open: boolean;
+  tags: string[];
+  suggestions: string[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (tags: string[]) => void;
+}
+
+/**
+ * Edit the tags of a chat, suggesting tags already used elsewhere
+ */
+export function SessionTagsDialog({
+  open,
+  tags: initialTags,
+  suggestions,
+  onOpenChange,
+  onSubmit,
+}: SessionTagsDialogProps) {
+  const { t } = useTranslation('chat');
+  const [tags, setTags] = useState<string[]>(initialTags);
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setTags(initialTags);
+      setDraft('');
+    }
+  }, [open, initialTags]);
+
+  const addTag = (value: string) => {
+    const tag = value.trim();
+    if (tag && !tags.includes(tag)) {
+      setTags([...tags, tag]);
+    }
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',') && draft.trim()) {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      setTags(tags.slice(0, -1));
+    }
+  };
+
+  const handleSave = () => {
+    // Keep a tag that was typed but not confirmed with Enter
+    const finalTags = draft.trim() && !tags.includes(draft.trim()) ? [...tags, draft.trim()] : tags;
+    onSubmit(finalTags);
+    onOpenChange(false);
+  };
+
+  const unusedSuggestions = suggestions.filter((tag) => !tags.includes(tag));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{t('chat_list.tags.edit')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-1">
+            {tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="gap-1">
+                {tag}
+                <button
+                  type="button"
+                  aria-label={t('chat_list.tags.remove', { tag })}
+                  onClick={() => setTags(tags.filter((existing) => existing !== tag))}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+
+          <Input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t('chat_list.tags.placeholder')}
+          />
+
+          {unusedSuggestions.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {unusedSuggestions.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant="outline"
+                  className="cursor-pointer font-normal"
+                  onClick={() => addTag(tag)}
+                >
+                  + {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            {t('chat_list.dialog.cancel')}
+          </Button>
+          <Button onClick={handleSave}>{t('chat_list.dialog.save')}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,9 +8,27 @@ import {
 } from '@/components/ai-elements/prompt-input';
 import { ModelSearchableSelect } from '@/components/ai-elements/model-searchable-select';
 import { ToolsMenu } from '@/components/chat/ToolsMenu';
+import { AgentSelector } from '@/components/chat/AgentSelector';
+import { ReasoningSelector } from '@/components/chat/ReasoningSelector';
+import { GenerationParamsPopover } from '@/components/chat/GenerationParamsPopover';
+import { SlashCommandMenu, type SlashCommandItem } from '@/components/chat/SlashCommandMenu';
+import { PromptVariablesDialog } from '@/components/chat/PromptVariablesDialog';
+import { usePromptStore } from '@/stores/promptStore';
+import { useMCPCatalog, type MCPCatalogPrompt, type MCPCatalogResource } from '@/hooks/useMCPCatalog';
+import { promptResultToInput, resourceContentsToFiles } from '@/lib/mcpContent';
+import { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import type { Model } from '../../../types/models';
-import type { ChatStatus } from 'ai';
+import { FileText, Paperclip, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { resolveModelId, type Model } from '../../../types/models';
+import {
+  extractPromptVariables,
+  fillPromptTemplate,
+  type PromptTemplate,
+} from '../../../types/prompts';
+import type { GenerationParams } from '../../../types/preferences';
+import type { ChatStatus, FileUIPart } from 'ai';
 
 interface ChatPromptInputProps {
   input: string;
@@ -22,9 +40,33 @@ interface ChatPromptInputProps {
   onMCPChange: (enabled: boolean) => void;
   model: string;
   onModelChange: (modelId: string) => void;
+  agentId?: string | null;
+  onAgentChange?: (agentId: string | null) => void;
+  generation?: GenerationParams | null;
+  onGenerationChange?: (generation: GenerationParams | null) => void;
   availableModels: Model[];
   modelsLoading: boolean;
   status?: ChatStatus;
+  attachments?: FileUIPart[];
+  onAttachFiles?: (files: File[]) => void;
+  onRemoveAttachment?: (index: number) => void;
+}
+
+// Maximum number of entries in the / and @ menus
+const MAX_MENU_ITEMS = 20;
+
+type MenuKind = 'slash' | 'mention';
+
+interface MenuEntry {
+  item: SlashCommandItem;
+  select: () => void;
+}
+
+// Template (library or MCP server prompt) waiting for its variables
+interface PendingVariables {
+  title: string;
+  variables: string[];
+  submit: (values: Record<string, string>) => void;
 }
 
 export function ChatPromptInput({
@@ -37,44 +79,349 @@ export function ChatPromptInput({
   onMCPChange,
   model,
   onModelChange,
+  agentId = null,
+  onAgentChange,
+  generation = null,
+  onGenerationChange,
   availableModels,
   modelsLoading,
-  status
+  status,
+  attachments = [],
+  onAttachFiles,
+  onRemoveAttachment
 }: ChatPromptInputProps) {
   const { t } = useTranslation('chat');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const prompts = usePromptStore((state) => state.prompts);
+  const promptsLoaded = usePromptStore((state) => state.loaded);
+  const loadPrompts = usePromptStore((state) => state.loadPrompts);
+  const mcpCatalog = useMCPCatalog();
+  const [menuIndex, setMenuIndex] = useState(0);
+  const [menuDismissed, setMenuDismissed] = useState(false);
+  const [pendingVariables, setPendingVariables] = useState<PendingVariables | null>(null);
+
+  useEffect(() => {
+    if (!promptsLoaded) loadPrompts();
+  }, [promptsLoaded, loadPrompts]);
+
+  // "/query" on a single line opens the prompt menu, "@query" at the end of the input the resource menu
+  const slashQuery = /^\/([^\n]*)$/.exec(input)?.[1] ?? null;
+  const mentionQuery =
+    slashQuery === null && onAttachFiles ? /(?:^|\s)@([^\s@]*)$/.exec(input)?.[1] ?? null : null;
+  const menuKind: MenuKind | null = slashQuery !== null ? 'slash' : mentionQuery !== null ? 'mention' : null;
+  const menuQuery = (slashQuery ?? mentionQuery ?? '').trim().toLowerCase();
+
+  // MCP prompts and resources are only fetched once a menu opens
+  const loadCatalog = mcpCatalog.load;
+  useEffect(() => {
+    if (menuKind) loadCatalog();
+  }, [menuKind, loadCatalog]);
+
+  useEffect(() => {
+    setMenuIndex(0);
+    if (menuKind === null) setMenuDismissed(false);
+  }, [menuKind, menuQuery]);
+
+  const applyPrompt = (prompt: PromptTemplate, values: Record<string, string> = {}) => {
+    onInputChange(fillPromptTemplate(prompt.content, values));
+
+    // Shared prompts may name the model without its provider
+    const promptModel = resolveModelId(availableModels, prompt.defaultModel);
+    if (promptModel) {
+      onModelChange(promptModel);
+    }
+    if (typeof prompt.enableMCP === 'boolean') onMCPChange(prompt.enableMCP);
+    if (typeof prompt.webSearch === 'boolean') onWebSearchChange(prompt.webSearch);
+  };
+
+  const selectLibraryPrompt = (prompt: PromptTemplate) => {
+    const variables = extractPromptVariables(prompt.content);
+    if (variables.length > 0) {
+      setPendingVariables({ title: prompt.name, variables, submit: (values) => applyPrompt(prompt, values) });
+    } else {
+      applyPrompt(prompt);
+    }
+  };
+
+  const runServerPrompt = async (prompt: MCPCatalogPrompt, values: Record<string, string>) => {
+    onInputChange('');
+
+    // Optional arguments left empty are not sent
+    const args = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== ''));
+    const result = await window.levante.mcp.getPrompt(prompt.serverId, prompt.name, args);
+    if (!result.success || !result.data) {
+      toast.error(t('mcp_context.prompt_failed', { name: prompt.name }), { description: result.error });
+      return;
+    }
+
+    const { text, files } = promptResultToInput(result.data, prompt.name);
+    onInputChange(text);
+    if (files.length > 0) onAttachFiles?.(files);
+  };
+
+  const selectServerPrompt = (prompt: MCPCatalogPrompt) => {
+    const variables = (prompt.arguments ?? []).map((arg) => arg.name);
+    if (variables.length > 0) {
+      setPendingVariables({
+        title: prompt.title || prompt.name,
+        variables,
+        submit: (values) => runServerPrompt(prompt, values),
+      });
+    } else {
+      runServerPrompt(prompt, {});
+    }
+  };
+
+  const attachResource = async (resource: MCPCatalogResource) => {
+    onInputChange(input.replace(/@[^\s@]*$/, `@${resource.name} `));
+
+    const result = await window.levante.mcp.readResource(resource.serverId, resource.uri);
+    const files = result.success && result.data ? resourceContentsToFiles(result.data, resource.name) : [];
+    if (files.length === 0) {
+      toast.error(t('mcp_context.resource_failed', { name: resource.name }), { description: result.error });
+      return;
+    }
+    onAttachFiles?.(files);
+  };
+
+  const matches = (...values: Array<string | undefined>) =>
+    values.some((value) => value?.toLowerCase().includes(menuQuery));
+
+  let menuEntries: MenuEntry[] = [];
+  if (menuKind === 'slash') {
+    menuEntries = [
+      ...prompts
+        .filter((prompt) => matches(prompt.name, ...prompt.tags))
+        .map((prompt) => ({
+          item: {
+            id: `library:${prompt.id}`,
+            label: prompt.name,
+            description: prompt.description || prompt.content,
+            tags: prompt.tags,
+          },
+          select: () => selectLibraryPrompt(prompt),
+        })),
+      ...mcpCatalog.prompts
+        .filter((prompt) => matches(prompt.name, prompt.title, prompt.serverName))
+        .map((prompt) => ({
+          item: {
+            id: `mcp:${prompt.serverId}:${prompt.name}`,
+            label: prompt.name,
+            description: prompt.description,
+            tags: [prompt.serverName],
+          },
+          select: () => selectServerPrompt(prompt),
+        })),
+    ];
+  } else if (menuKind === 'mention') {
+    menuEntries = mcpCatalog.resources
+      .filter((resource) => matches(resource.name, resource.title, resource.uri))
+      .map((resource) => ({
+        item: {
+          id: `${resource.serverId}:${resource.uri}`,
+          label: resource.name,
+          description: resource.description || resource.uri,
+          tags: [resource.serverName],
+        },
+        select: () => attachResource(resource),
+      }));
+  }
+  menuEntries = menuEntries.slice(0, MAX_MENU_ITEMS);
+
+  // Messages that merely start with "/" are not hijacked once they contain a space
+  const menuOpen =
+    menuKind !== null &&
+    !menuDismissed &&
+    (menuEntries.length > 0 || menuKind === 'mention' || !slashQuery?.includes(' '));
+
+  const getMenuEmptyLabel = () => {
+    if (mcpCatalog.loading) return t('mcp_context.loading');
+    if (menuKind === 'mention') {
+      return mcpCatalog.resources.length === 0 ? t('mcp_context.no_resources') : t('prompts.slash.no_match');
+    }
+    return prompts.length === 0 && mcpCatalog.prompts.length === 0
+      ? t('prompts.slash.empty_library')
+      : t('prompts.slash.no_match');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!menuOpen) return;
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setMenuDismissed(true);
+    } else if (menuEntries.length === 0) {
+      return;
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setMenuIndex((index) => (index + 1) % menuEntries.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setMenuIndex((index) => (index - 1 + menuEntries.length) % menuEntries.length);
+    } else if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+      e.preventDefault();
+      menuEntries[Math.min(menuIndex, menuEntries.length - 1)].select();
+    }
+  };
+
+  const handleMenuSelect = (item: SlashCommandItem) => {
+    menuEntries.find((entry) => entry.item.id === item.id)?.select();
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLFormElement>) => {
+    if (!onAttachFiles || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLFormElement>) => {
+    if (!onAttachFiles) return;
+    e.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) {
+      onAttachFiles(files);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (!onAttachFiles) return;
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      // Pasted screenshots and files become attachments instead of text
+      e.preventDefault();
+      onAttachFiles(files);
+    }
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      onAttachFiles?.(files);
+    }
+    // Allow selecting the same file again
+    e.target.value = '';
+  };
 
   return (
-    <PromptInput onSubmit={onSubmit} className="max-w-3xl mx-auto w-full p-2">
-      <PromptInputTextarea
-        onChange={(e) => onInputChange(e.target.value)}
-        value={input}
-        rows={1}
-        className="p-2 border-none"
-        placeholder={t('input.placeholder')}
+    <div className="relative max-w-3xl mx-auto w-full">
+      {menuOpen && (
+        <SlashCommandMenu
+          items={menuEntries.map((entry) => entry.item)}
+          activeIndex={menuIndex}
+          prefix={menuKind === 'mention' ? '@' : '/'}
+          emptyLabel={getMenuEmptyLabel()}
+          onSelect={handleMenuSelect}
+          onActiveIndexChange={setMenuIndex}
+        />
+      )}
+      <PromptInput
+        onSubmit={onSubmit}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          'w-full p-2',
+          isDragging && 'ring-2 ring-primary/50'
+        )}
+      >
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 p-2 border-none">
+            {attachments.map((attachment, index) => (
+              <div
+                key={`${attachment.filename}-${index}`}
+                className="group relative flex items-center gap-2 rounded-md border bg-muted/40 p-1 pr-2 text-xs max-w-[200px]"
+              >
+                {attachment.mediaType.startsWith('image/') ? (
+                  <img
+                    src={attachment.url}
+                    alt={attachment.filename}
+                    className="h-8 w-8 rounded object-cover"
+                  />
+                ) : (
+                  <FileText className="h-4 w-4 ml-1 flex-shrink-0 text-muted-foreground" />
+                )}
+                <span className="truncate">{attachment.filename}</span>
+                {onRemoveAttachment && (
+                  <button
+                    type="button"
+                    onClick={() => onRemoveAttachment(index)}
+                    className="absolute -top-1.5 -right-1.5 hidden group-hover:flex h-4 w-4 items-center justify-center rounded-full bg-foreground text-background"
+                    aria-label={t('attachments.remove')}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <PromptInputTextarea
+          onChange={(e) => onInputChange(e.target.value)}
+          onPaste={handlePaste}
+          onKeyDown={handleKeyDown}
+          value={input}
+          rows={1}
+          className="p-2 border-none"
+          placeholder={t('input.placeholder')}
+        />
+        <PromptInputToolbar className="p-0 border-none">
+          <PromptInputTools>
+            {onAttachFiles && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={handleFileInputChange}
+                />
+                <PromptInputButton
+                  onClick={() => fileInputRef.current?.click()}
+                  title={t('attachments.add')}
+                >
+                  <Paperclip className="size-4" />
+                </PromptInputButton>
+              </>
+            )}
+            <ToolsMenu
+              webSearch={webSearch}
+              enableMCP={enableMCP}
+              onWebSearchChange={onWebSearchChange}
+              onMCPChange={onMCPChange}
+            />
+            {onAgentChange && (
+              <AgentSelector agentId={agentId} onAgentChange={onAgentChange} />
+            )}
+            <ReasoningSelector model={model} />
+          </PromptInputTools>
+          <div className="flex items-center gap-2">
+            {onGenerationChange && (
+              <GenerationParamsPopover model={model} value={generation} onChange={onGenerationChange} />
+            )}
+            <ModelSearchableSelect
+              value={model}
+              onValueChange={onModelChange}
+              models={availableModels}
+              loading={modelsLoading}
+              placeholder={availableModels.length === 0 ? t('model_selector.no_models') : t('model_selector.label')}
+            />
+            <PromptInputSubmit
+              disabled={status !== 'streaming' && !input && attachments.length === 0}
+              status={status}
+            />
+          </div>
+        </PromptInputToolbar>
+      </PromptInput>
+
+      <PromptVariablesDialog
+        open={!!pendingVariables}
+        title={pendingVariables?.title ?? ''}
+        variables={pendingVariables?.variables ?? []}
+        onOpenChange={(open) => !open && setPendingVariables(null)}
+        onSubmit={(values) => pendingVariables?.submit(values)}
       />
-      <PromptInputToolbar className="p-0 border-none">
-        <PromptInputTools>
-          <ToolsMenu
-            webSearch={webSearch}
-            enableMCP={enableMCP}
-            onWebSearchChange={onWebSearchChange}
-            onMCPChange={onMCPChange}
-          />
-        </PromptInputTools>
-        <div className="flex items-center gap-2">
-          <ModelSearchableSelect
-            value={model}
-            onValueChange={onModelChange}
-            models={availableModels}
-            loading={modelsLoading}
-            placeholder={availableModels.length === 0 ? t('model_selector.no_models') : t('model_selector.label')}
-          />
-          <PromptInputSubmit
-            disabled={status !== 'streaming' && !input}
-            status={status}
-          />
-        </div>
-      </PromptInputToolbar>
-    </PromptInput>
+    </div>
   );
 }
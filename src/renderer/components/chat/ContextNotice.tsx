@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { Layers } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { ChatMessageMetadata } from '@/lib/usage';
+
+interface ContextNoticeProps {
+  context?: ChatMessageMetadata['context'];
+  summary?: string | null;
+}
+
+/**
+ * Shown when older messages were left out, or replaced by a summary, to fit
+ * the model's context window
+ */
+export function ContextNotice({ context, summary }: ContextNoticeProps) {
+  const { t } = useTranslation('chat');
+  const [open, setOpen] = useState(false);
+
+  const summaryText = context?.summary ?? summary;
+  if (!context && !summaryText) {
+    return null;
+  }
+
+  const label = !context
+    ? t('context.summarized_before')
+    : context.strategy === 'summarize'
+      ? t('context.summarized', { count: context.droppedMessages })
+      : t('context.truncated', { count: context.droppedMessages });
+
+  return (
+    <>
+      <div className="mx-auto mb-2 flex max-w-3xl items-center justify-center gap-2 text-xs text-muted-foreground">
+        <Layers className="h-3.5 w-3.5" />
+        <span>{label}</span>
+        {summaryText && (
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setOpen(true)}>
+            {t('context.view_summary')}
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{t('context.summary_title')}</DialogTitle>
+            <DialogDescription>{t('context.summary_description')}</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-sm">
+            {summaryText}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
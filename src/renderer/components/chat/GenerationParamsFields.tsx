@@ -0,0 +1,108 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { useTranslation } from 'react-i18next';
+import {
+  toGenerationDraft,
+  type GenerationDraft,
+  type GenerationDraftField,
+} from '@/lib/generationParams';
+import type { GenerationParams } from '../../../types/preferences';
+
+interface GenerationParamsFieldsProps {
+  draft: GenerationDraft;
+  onChange: (draft: GenerationDraft) => void;
+  defaults?: GenerationParams | null; // Shown as placeholders for the empty fields
+  invalidField?: GenerationDraftField;
+  idPrefix: string;
+  className?: string;
+}
+
+const NUMBER_FIELDS: Array<{ field: GenerationDraftField; min?: number; max?: number; step: number }> = [
+  { field: 'temperature', min: 0, max: 2, step: 0.1 },
+  { field: 'topP', min: 0, max: 1, step: 0.05 },
+  { field: 'maxOutputTokens', min: 1, step: 256 },
+  { field: 'seed', step: 1 },
+];
+
+/**
+ * Temperature, top-p, max tokens, seed, stop sequences and provider options.
+ * Empty fields are unset and fall back to the defaults.
+ */
+export function GenerationParamsFields({
+  draft,
+  onChange,
+  defaults,
+  invalidField,
+  idPrefix,
+  className,
+}: GenerationParamsFieldsProps) {
+  const { t } = useTranslation('chat');
+  const placeholders = toGenerationDraft(defaults);
+
+  const update = (field: GenerationDraftField, value: string) => onChange({ ...draft, [field]: value });
+
+  const fieldId = (field: GenerationDraftField) => `${idPrefix}-${field}`;
+
+  const renderError = (field: GenerationDraftField) =>
+    invalidField === field && (
+      <p className="text-[11px] text-destructive">{t(`generation.invalid.${field}`)}</p>
+    );
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="grid grid-cols-2 gap-3">
+        {NUMBER_FIELDS.map(({ field, min, max, step }) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={fieldId(field)} className="text-xs">
+              {t(`generation.fields.${field}`)}
+            </Label>
+            <Input
+              id={fieldId(field)}
+              type="number"
+              min={min}
+              max={max}
+              step={step}
+              value={draft[field]}
+              placeholder={placeholders[field] || t('generation.provider_default')}
+              onChange={(e) => update(field, e.target.value)}
+              aria-invalid={invalidField === field}
+              className="h-8"
+            />
+            {renderError(field)}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={fieldId('stopSequences')} className="text-xs">
+          {t('generation.fields.stopSequences')}
+        </Label>
+        <Textarea
+          id={fieldId('stopSequences')}
+          value={draft.stopSequences}
+          placeholder={placeholders.stopSequences || t('generation.stop_sequences_placeholder')}
+          onChange={(e) => update('stopSequences', e.target.value)}
+          className="min-h-[48px] font-mono text-xs"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={fieldId('providerOptions')} className="text-xs">
+          {t('generation.fields.providerOptions')}
+        </Label>
+        <Textarea
+          id={fieldId('providerOptions')}
+          value={draft.providerOptions}
+          placeholder={placeholders.providerOptions || '{ "openai": { "parallelToolCalls": false } }'}
+          onChange={(e) => update('providerOptions', e.target.value)}
+          aria-invalid={invalidField === 'providerOptions'}
+          className="min-h-[60px] font-mono text-xs"
+        />
+        {renderError('providerOptions')}
+        <p className="text-[11px] text-muted-foreground">{t('generation.provider_options_hint')}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SlidersHorizontal } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useTranslation } from 'react-i18next';
+import { getRendererLogger } from '@/services/logger';
+import {
+  parseGenerationDraft,
+  toGenerationDraft,
+  type GenerationDraft,
+  type GenerationDraftField,
+} from '@/lib/generationParams';
+import { updateModelSettings } from '@/lib/modelSettings';
+import { GenerationParamsFields } from './GenerationParamsFields';
+import type { GenerationParams, ModelSettings } from '../../../types/preferences';
+
+const logger = getRendererLogger();
+
+interface GenerationParamsPopoverProps {
+  model: string;
+  value: GenerationParams | null;
+  onChange: (value: GenerationParams | null) => void;
+  className?: string;
+}
+
+/**
+ * Generation parameters of the current chat. Empty fields use the model's
+ * defaults, then the global defaults from Settings.
+ */
+export function GenerationParamsPopover({ model, value, onChange, className }: GenerationParamsPopoverProps) {
+  const { t } = useTranslation('chat');
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<GenerationDraft>(toGenerationDraft(value));
+  const [invalidField, setInvalidField] = useState<GenerationDraftField>();
+  const [defaults, setDefaults] = useState<GenerationParams | null>(null);
+
+  const loadDefaults = async () => {
+    const [aiResult, modelSettingsResult] = await Promise.all([
+      window.levante.preferences.get('ai'),
+      window.levante.preferences.get('modelSettings'),
+    ]);
+    const settings = (modelSettingsResult.success && modelSettingsResult.data) || {};
+    setDefaults({ ...aiResult.data?.generation, ...settings[model]?.generation });
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setDraft(toGenerationDraft(value));
+      setInvalidField(undefined);
+      loadDefaults();
+    }
+  };
+
+  const parseDraft = () => {
+    const result = parseGenerationDraft(draft);
+    setInvalidField(result.invalidField);
+    return result;
+  };
+
+  const handleApply = () => {
+    const result = parseDraft();
+    if (result.invalidField) return;
+    onChange(result.params);
+    setOpen(false);
+  };
+
+  const handleReset = () => {
+    onChange(null);
+    setOpen(false);
+  };
+
+  const handleSaveModelDefault = async () => {
+    const result = parseDraft();
+    if (result.invalidField || !model) return;
+
+    const saved = await updateModelSettings(model, (current) => {
+      const next: ModelSettings = { ...current, generation: result.params ?? undefined };
+      if (!result.params) delete next.generation;
+      return next;
+    });
+    if (!saved.success) {
+      logger.preferences.error('Failed to save model generation defaults', { model, error: saved.error });
+      toast.error(t('generation.save_model_default_failed'));
+      return;
+    }
+
+    toast.success(t('generation.saved_model_default'));
+    // The values now come from the model's defaults
+    onChange(null);
+    setOpen(false);
+  };
+
+  if (!model) {
+    return null;
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn('rounded-lg text-muted-foreground', value && 'text-foreground', className)}
+          type="button"
+          title={t('generation.label')}
+          aria-label={t('generation.label')}
+        >
+          <SlidersHorizontal size={16} />
+          {value && <span className="size-1.5 rounded-full bg-primary" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <h4 className="text-sm font-medium">{t('generation.label')}</h4>
+          <p className="text-xs text-muted-foreground">{t('generation.description')}</p>
+        </div>
+
+        <GenerationParamsFields
+          idPrefix="session-generation"
+          draft={draft}
+          onChange={setDraft}
+          defaults={defaults}
+          invalidField={invalidField}
+        />
+
+        <div className="flex flex-wrap items-center justify-between gap-2 pt-1">
+          <Button variant="link" size="sm" className="h-auto px-0 text-xs" onClick={handleSaveModelDefault}>
+            {t('generation.save_model_default')}
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleReset} disabled={!value}>
+              {t('generation.reset')}
+            </Button>
+            <Button size="sm" onClick={handleApply}>
+              {t('generation.apply')}
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
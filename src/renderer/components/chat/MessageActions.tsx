@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { Check, ChevronLeft, ChevronRight, Copy, Pencil, RefreshCw } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Action, Actions } from '@/components/ai-elements/actions';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { formatCost, formatTokens } from '@/lib/usage';
+import type { MessageUsage } from '../../../types/database';
+
+interface MessageActionsProps {
+  messageId: string;
+  role: 'user' | 'assistant' | 'system';
+  text: string;
+  siblingIds?: string[];
+  usage?: MessageUsage;
+  disabled?: boolean;
+  onRegenerate?: () => void;
+  onEdit?: () => void;
+  onSwitchBranch: (messageId: string) => void;
+}
+
+/**
+ * Copy / regenerate / edit buttons plus the branch switcher shown under a message
+ */
+export function MessageActions({
+  messageId,
+  role,
+  text,
+  siblingIds,
+  usage,
+  disabled = false,
+  onRegenerate,
+  onEdit,
+  onSwitchBranch,
+}: MessageActionsProps) {
+  const { t } = useTranslation('chat');
+  const [copied, setCopied] = useState(false);
+
+  const branchIndex = siblingIds ? siblingIds.indexOf(messageId) : -1;
+  const hasBranches = !!siblingIds && siblingIds.length > 1 && branchIndex !== -1;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <Actions
+      className={cn(
+        'mt-1 opacity-0 transition-opacity group-hover/message:opacity-100 focus-within:opacity-100',
+        role === 'user' ? 'justify-end' : 'justify-start',
+        hasBranches && 'opacity-100'
+      )}
+    >
+      {hasBranches && (
+        <div className="flex items-center gap-1">
+          <Action
+            tooltip={t('branches.previous')}
+            className="size-7"
+            disabled={disabled || branchIndex === 0}
+            onClick={() => onSwitchBranch(siblingIds![branchIndex - 1])}
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </Action>
+          <span className="text-xs font-medium tabular-nums text-muted-foreground">
+            {t('branches.page', { current: branchIndex + 1, total: siblingIds!.length })}
+          </span>
+          <Action
+            tooltip={t('branches.next')}
+            className="size-7"
+            disabled={disabled || branchIndex === siblingIds!.length - 1}
+            onClick={() => onSwitchBranch(siblingIds![branchIndex + 1])}
+          >
+            <ChevronRight className="h-3.5 w-3.5" />
+          </Action>
+        </div>
+      )}
+
+      {text && (
+        <Action tooltip={t('actions.copy')} className="size-7" onClick={handleCopy}>
+          {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+        </Action>
+      )}
+
+      {onRegenerate && (
+        <Action
+          tooltip={t('actions.regenerate')}
+          className="size-7"
+          disabled={disabled}
+          onClick={onRegenerate}
+        >
+          <RefreshCw className="h-3.5 w-3.5" />
+        </Action>
+      )}
+
+      {onEdit && (
+        <Action tooltip={t('actions.edit')} className="size-7" disabled={disabled} onClick={onEdit}>
+          <Pencil className="h-3.5 w-3.5" />
+        </Action>
+      )}
+
+      {usage && <UsageBadge usage={usage} />}
+    </Actions>
+  );
+}
+
+/**
+ * Cost and token count of an assistant answer, with the breakdown in a tooltip
+ */
+function UsageBadge({ usage }: { usage: MessageUsage }) {
+  const { t } = useTranslation('chat');
+  const totalTokens = usage.input_tokens + usage.output_tokens;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className="ml-1 cursor-default rounded-md px-1.5 py-0.5 text-xs tabular-nums text-muted-foreground hover:bg-accent">
+            {usage.cost !== null ? formatCost(usage.cost) : '—'} · {formatTokens(totalTokens)}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent>
+          <div className="space-y-0.5 text-xs">
+            <p className="font-medium">{usage.model}</p>
+            <p>{t('usage_badge.input', { count: usage.input_tokens })}</p>
+            <p>{t('usage_badge.output', { count: usage.output_tokens })}</p>
+            {usage.reasoning_tokens > 0 && (
+              <p>{t('usage_badge.reasoning', { count: usage.reasoning_tokens })}</p>
+            )}
+            {usage.cached_input_tokens > 0 && (
+              <p>{t('usage_badge.cached', { count: usage.cached_input_tokens })}</p>
+            )}
+            <p>
+              {usage.cost !== null
+                ? t('usage_badge.cost', { cost: formatCost(usage.cost) })
+                : t('usage_badge.unpriced')}
+            </p>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
+
+interface MessageEditFormProps {
+  initialText: string;
+  onCancel: () => void;
+  onSubmit: (text: string) => void;
+}
+
+/**
+ * Inline editor for a user message. Submitting sends the edited text as a new branch.
+ */
+export function MessageEditForm({ initialText, onCancel, onSubmit }: MessageEditFormProps) {
+  const { t } = useTranslation('chat');
+  const [text, setText] = useState(initialText);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    } else if (e.key === 'Enter' && !e.shiftKey && text.trim()) {
+      e.preventDefault();
+      onSubmit(text);
+    }
+  };
+
+  return (
+    <div className="my-6 ml-auto w-full max-w-[80%] space-y-2">
+      <Textarea
+        autoFocus
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="min-h-[80px] resize-none"
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          {t('edit.cancel')}
+        </Button>
+        <Button size="sm" disabled={!text.trim()} onClick={() => onSubmit(text)}>
+          {t('edit.submit')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { Bot, User } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useChatStore } from '@/stores/chatStore';
+import { getRendererLogger } from '@/services/logger';
+import type { MessageSearchResult, SearchMessagesQuery } from '../../../types/database';
+
+const logger = getRendererLogger();
+
+const SEARCH_DEBOUNCE_MS = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Select value meaning "no filter"
+const ANY = 'any';
+
+type DateRange = typeof ANY | '7d' | '30d' | '365d';
+
+const DATE_RANGE_DAYS: Record<Exclude<DateRange, typeof ANY>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '365d': 365,
+};
+
+interface MessageSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelectResult: (result: MessageSearchResult) => void;
+}
+
+/**
+ * Render an FTS snippet, turning <mark> delimiters into highlights.
+ * Snippet text is never injected as HTML.
+ */
+function SnippetText({ snippet }: { snippet: string }) {
+  const segments = snippet.split(/(<mark>.*?<\/mark>)/g);
+
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.startsWith('<mark>') && segment.endsWith('</mark>') ? (
+          <mark key={i} className="rounded-sm bg-yellow-200/70 px-0.5 text-foreground dark:bg-yellow-500/30">
+            {segment.slice('<mark>'.length, -'</mark>'.length)}
+          </mark>
+        ) : (
+          <Fragment key={i}>{segment}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+export function MessageSearchDialog({ open, onOpenChange, onSelectResult }: MessageSearchDialogProps) {
+  const { t } = useTranslation('chat');
+  const sessions = useChatStore((state) => state.sessions);
+  const currentSessionId = useChatStore((state) => state.currentSession?.id);
+
+  const [query, setQuery] = useState('');
+  const [role, setRole] = useState<typeof ANY | 'user' | 'assistant'>(ANY);
+  const [model, setModel] = useState<string>(ANY);
+  const [dateRange, setDateRange] = useState<DateRange>(ANY);
+  const [currentChatOnly, setCurrentChatOnly] = useState(false);
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  // Models offered as filter are the ones used by existing sessions
+  const sessionModels = useMemo(
+    () => Array.from(new Set(sessions.map((session) => session.model))).sort(),
+    [sessions]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (!query.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+
+    const timeout = setTimeout(async () => {
+      const searchQuery: SearchMessagesQuery = {
+        query,
+        limit: 50,
+        session_id: currentChatOnly && currentSessionId ? currentSessionId : undefined,
+        role: role === ANY ? undefined : role,
+        model: model === ANY ? undefined : model,
+        date_from: dateRange === ANY ? undefined : Date.now() - DATE_RANGE_DAYS[dateRange] * DAY_MS,
+      };
+
+      try {
+        const result = await window.levante.db.messages.search(searchQuery);
+        if (cancelled) return;
+
+        if (result.success) {
+          setResults(result.data);
+        } else {
+          logger.database.error('Message search failed', { error: result.error });
+          setResults([]);
+        }
+      } catch (error) {
+        logger.database.error('Message search error', {
+          error: error instanceof Error ? error.message : error,
+        });
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [open, query, role, model, dateRange, currentChatOnly, currentSessionId]);
+
+  const handleSelect = (result: MessageSearchResult) => {
+    onOpenChange(false);
+    onSelectResult(result);
+  };
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 max-w-2xl">
+        <DialogTitle className="sr-only">{t('message_search.title')}</DialogTitle>
+
+        {/* Results come ranked from the database, so cmdk must not filter them again */}
+        <Command shouldFilter={false} className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12">
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder={t('message_search.placeholder')}
+          />
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2">
+            <Select value={role} onValueChange={(value) => setRole(value as typeof role)}>
+              <SelectTrigger className="h-8 w-[130px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t('message_search.filters.any_role')}</SelectItem>
+                <SelectItem value="user">{t('message.user')}</SelectItem>
+                <SelectItem value="assistant">{t('message.assistant')}</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={model} onValueChange={setModel}>
+              <SelectTrigger className="h-8 w-[180px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t('message_search.filters.any_model')}</SelectItem>
+                {sessionModels.map((sessionModel) => (
+                  <SelectItem key={sessionModel} value={sessionModel}>
+                    {sessionModel}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={dateRange} onValueChange={(value) => setDateRange(value as DateRange)}>
+              <SelectTrigger className="h-8 w-[140px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t('message_search.filters.any_time')}</SelectItem>
+                <SelectItem value="7d">{t('message_search.filters.last_7_days')}</SelectItem>
+                <SelectItem value="30d">{t('message_search.filters.last_30_days')}</SelectItem>
+                <SelectItem value="365d">{t('message_search.filters.last_year')}</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {currentSessionId && (
+              <label className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+                <Switch checked={currentChatOnly} onCheckedChange={setCurrentChatOnly} />
+                {t('message_search.filters.current_chat')}
+              </label>
+            )}
+          </div>
+
+          <CommandList className="max-h-[420px]">
+            {query.trim() && !searching && (
+              <CommandEmpty>{t('message_search.no_results')}</CommandEmpty>
+            )}
+
+            {results.map((result) => (
+              <CommandItem
+                key={result.id}
+                value={result.id}
+                onSelect={() => handleSelect(result)}
+                className="flex flex-col items-start gap-1 px-3 py-2"
+              >
+                <div className="flex w-full items-center gap-2 text-xs text-muted-foreground">
+                  {result.role === 'user' ? <User className="h-3 w-3" /> : <Bot className="h-3 w-3" />}
+                  <span className="truncate font-medium text-foreground">
+                    {result.session_title || t('message_search.untitled')}
+                  </span>
+                  <span className="ml-auto shrink-0">{formatDate(result.created_at)}</span>
+                </div>
+                <p className="line-clamp-2 text-sm">
+                  <SnippetText snippet={result.snippet} />
+                </p>
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import type { SourceUrlUIPart, UIMessage } from 'ai';
+import { ChevronDownIcon } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Source, Sources, SourcesContent, SourcesTrigger } from '@/components/ai-elements/source';
+import {
+  InlineCitation,
+  InlineCitationCard,
+  InlineCitationCardBody,
+  InlineCitationCardTrigger,
+  InlineCitationSource,
+} from '@/components/ai-elements/inline-citation';
+import { getSourceSnippet } from '@/lib/sources';
+
+interface MessageSourcesProps {
+  message: UIMessage;
+}
+
+/**
+ * Web pages an answer is based on: a collapsible list and a row of numbered
+ * citation cards matching the [n] markers in the text
+ */
+export function MessageSources({ message }: MessageSourcesProps) {
+  const { t } = useTranslation('chat');
+
+  const seen = new Set<string>();
+  const sources = message.parts.filter((part): part is SourceUrlUIPart => {
+    if (part.type !== 'source-url' || seen.has(part.url)) return false;
+    seen.add(part.url);
+    return true;
+  });
+
+  if (sources.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="not-prose mt-2 space-y-2 px-2">
+      <div className="flex flex-wrap items-center gap-y-1">
+        {sources.map((source, index) => (
+          <InlineCitation key={source.url}>
+            <InlineCitationCard>
+              <InlineCitationCardTrigger sources={[source.url]} title={`[${index + 1}]`} />
+              <InlineCitationCardBody>
+                <div className="p-4">
+                  <InlineCitationSource
+                    title={`[${index + 1}] ${source.title || source.url}`}
+                    url={source.url}
+                    description={getSourceSnippet(source)}
+                  />
+                </div>
+              </InlineCitationCardBody>
+            </InlineCitationCard>
+          </InlineCitation>
+        ))}
+      </div>
+
+      <Sources className="mb-0">
+        <SourcesTrigger count={sources.length}>
+          <p className="font-medium">{t('sources.used', { count: sources.length })}</p>
+          <ChevronDownIcon className="h-4 w-4" />
+        </SourcesTrigger>
+        <SourcesContent>
+          {sources.map((source, index) => (
+            <Source
+              key={source.url}
+              href={source.url}
+              title={`${index + 1}. ${source.title || source.url}`}
+            />
+          ))}
+        </SourcesContent>
+      </Sources>
+    </div>
+  );
+}
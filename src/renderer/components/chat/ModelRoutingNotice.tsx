@@ -0,0 +1,47 @@
+import type { UIMessage } from 'ai';
+import { Shuffle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import type { ChatMessageMetadata } from '@/lib/usage';
+import { parseModelId, type Model } from '../../../types/models';
+
+interface ModelRoutingNoticeProps {
+  message: UIMessage;
+  models: Model[];
+}
+
+/**
+ * Says which model answered when the requested one was unavailable and a
+ * fallback took over, or when the answer needed retries
+ */
+export function ModelRoutingNotice({ message, models }: ModelRoutingNoticeProps) {
+  const { t } = useTranslation('chat');
+  const routing = (message.metadata as ChatMessageMetadata | undefined)?.routing;
+
+  if (!routing) {
+    return null;
+  }
+
+  const modelName = (id: string) => models.find((model) => model.id === id)?.name ?? parseModelId(id).modelId;
+  const reason = routing.reason ? t(`routing.reasons.${routing.reason}`) : undefined;
+
+  const label =
+    routing.model !== routing.requestedModel
+      ? t('routing.fallback', {
+          model: modelName(routing.model),
+          requested: modelName(routing.requestedModel),
+          reason,
+        })
+      : t('routing.retried', { count: routing.retries, reason });
+
+  return (
+    <div className="not-prose mt-1 flex items-center gap-1.5 px-2 text-xs text-muted-foreground">
+      <Shuffle className="h-3.5 w-3.5 shrink-0" />
+      <span>{label}</span>
+      {routing.actualModelId && (
+        <span className="font-mono opacity-70" title={t('routing.actual_model')}>
+          ({routing.actualModelId})
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { modelService } from '@/services/modelService';
+import type { Model } from '../../../types/models';
+import {
+  extractPromptVariables,
+  type CreatePromptTemplateInput,
+} from '../../../types/prompts';
+
+// Select values for the optional model and toggles
+const NONE = '__none__';
+type ToggleValue = typeof NONE | 'on' | 'off';
+
+const toToggleValue = (value: boolean | null | undefined): ToggleValue =>
+  value === true ? 'on' : value === false ? 'off' : NONE;
+
+const fromToggleValue = (value: ToggleValue): boolean | null =>
+  value === 'on' ? true : value === 'off' ? false : null;
+
+interface PromptTemplateDialogProps {
+  open: boolean;
+  mode: 'create' | 'edit' | 'shared';
+  initial?: Partial<CreatePromptTemplateInput>;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (input: CreatePromptTemplateInput) => Promise<void>;
+}
+
+/**
+ * Create or edit a prompt template. Also used to review templates shared
+ * through a levante://prompt/add link before they are saved.
+ */
+export function PromptTemplateDialog({
+  open,
+  mode,
+  initial,
+  onOpenChange,
+  onSubmit,
+}: PromptTemplateDialogProps) {
+  const { t } = useTranslation('chat');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [content, setContent] = useState('');
+  const [tags, setTags] = useState('');
+  const [defaultModel, setDefaultModel] = useState<string>(NONE);
+  const [enableMCP, setEnableMCP] = useState<ToggleValue>(NONE);
+  const [webSearch, setWebSearch] = useState<ToggleValue>(NONE);
+  const [models, setModels] = useState<Model[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName(initial?.name ?? '');
+    setDescription(initial?.description ?? '');
+    setContent(initial?.content ?? '');
+    setTags((initial?.tags ?? []).join(', '));
+    setDefaultModel(initial?.defaultModel || NONE);
+    setEnableMCP(toToggleValue(initial?.enableMCP));
+    setWebSearch(toToggleValue(initial?.webSearch));
+    setError(null);
+
+    modelService.getAvailableModels().then(setModels).catch(() => setModels([]));
+  }, [open, initial]);
+
+  const variables = extractPromptVariables(content);
+
+  // A shared template may name a model that is not configured here
+  const modelOptions =
+    defaultModel !== NONE && !models.some((m) => m.id === defaultModel)
+      ? [...models, { id: defaultModel, name: defaultModel } as Model]
+      : models;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !content.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        content,
+        tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+        defaultModel: defaultModel === NONE ? null : defaultModel,
+        enableMCP: fromToggleValue(enableMCP),
+        webSearch: fromToggleValue(webSearch),
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{t(`prompts.dialog.title_${mode}`)}</DialogTitle>
+            {mode === 'shared' && (
+              <DialogDescription>{t('prompts.dialog.shared_description')}</DialogDescription>
+            )}
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="prompt-name">{t('prompts.dialog.name')}</Label>
+              <Input id="prompt-name" autoFocus value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prompt-tags">{t('prompts.dialog.tags')}</Label>
+              <Input
+                id="prompt-tags"
+                value={tags}
+                placeholder={t('prompts.dialog.tags_placeholder')}
+                onChange={(e) => setTags(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="prompt-description">{t('prompts.dialog.description')}</Label>
+            <Input
+              id="prompt-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="prompt-content">{t('prompts.dialog.content')}</Label>
+            <Textarea
+              id="prompt-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder={t('prompts.dialog.content_placeholder', { example: '{{code}}' })}
+              className="min-h-[160px] font-mono text-sm"
+            />
+            {variables.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                {t('prompts.dialog.variables')}
+                {variables.map((variable) => (
+                  <Badge key={variable} variant="secondary">
+                    {variable}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>{t('prompts.dialog.model')}</Label>
+              <Select value={defaultModel} onValueChange={setDefaultModel}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>{t('prompts.dialog.keep_current')}</SelectItem>
+                  {modelOptions.map((model) => (
+                    <SelectItem key={model.id} value={model.id}>
+                      {model.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ToggleSelect label={t('prompts.dialog.mcp')} value={enableMCP} onChange={setEnableMCP} />
+            <ToggleSelect label={t('prompts.dialog.web_search')} value={webSearch} onChange={setWebSearch} />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              {t('prompts.dialog.cancel')}
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim() || !content.trim()}>
+              {mode === 'shared' ? t('prompts.dialog.add') : t('prompts.dialog.save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ToggleSelect({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: ToggleValue;
+  onChange: (value: ToggleValue) => void;
+}) {
+  const { t } = useTranslation('chat');
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={(v) => onChange(v as ToggleValue)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>{t('prompts.dialog.keep_current')}</SelectItem>
+          <SelectItem value="on">{t('prompts.dialog.on')}</SelectItem>
+          <SelectItem value="off">{t('prompts.dialog.off')}</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
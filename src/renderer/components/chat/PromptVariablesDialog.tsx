@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface PromptVariablesDialogProps {
+  open: boolean;
+  title: string;
+  variables: string[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: Record<string, string>) => void;
+}
+
+/**
+ * Ask for the {{variables}} of a prompt template before inserting it
+ */
+export function PromptVariablesDialog({
+  open,
+  title,
+  variables,
+  onOpenChange,
+  onSubmit,
+}: PromptVariablesDialogProps) {
+  const { t } = useTranslation('chat');
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (open) setValues({});
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(Object.fromEntries(variables.map((name) => [name, values[name] ?? ''])));
+    onOpenChange(false);
+  };
+
+  // Ctrl/Cmd+Enter submits from any field; Enter alone adds a new line
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{t('prompts.variables.description')}</DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+            {variables.map((name, index) => (
+              <div key={name} className="space-y-1">
+                <Label htmlFor={`prompt-variable-${name}`}>{name}</Label>
+                <Textarea
+                  id={`prompt-variable-${name}`}
+                  autoFocus={index === 0}
+                  rows={2}
+                  value={values[name] ?? ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                  onKeyDown={handleKeyDown}
+                  className="min-h-[60px] resize-y"
+                />
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              {t('prompts.dialog.cancel')}
+            </Button>
+            <Button type="submit">{t('prompts.variables.insert')}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { BrainIcon, Check, ChevronDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useTranslation } from 'react-i18next';
+import { getRendererLogger } from '@/services/logger';
+import { updateModelSettings } from '@/lib/modelSettings';
+import type { ModelSettings, ReasoningEffort, ReasoningSetting } from '../../../types/preferences';
+
+const logger = getRendererLogger();
+
+const EFFORTS: ReasoningEffort[] = ['off', 'low', 'medium', 'high'];
+
+interface ReasoningSelectorProps {
+  model: string;
+  className?: string;
+}
+
+/**
+ * Reasoning effort and thinking budget of the selected model, saved per model
+ * in the modelSettings preference. "Default" sends no reasoning options.
+ */
+export function ReasoningSelector({ model, className }: ReasoningSelectorProps) {
+  const { t } = useTranslation('chat');
+  const [modelSettings, setModelSettings] = useState<Record<string, ModelSettings>>({});
+  const [budgetInput, setBudgetInput] = useState('');
+
+  useEffect(() => {
+    window.levante.preferences.get('modelSettings').then((result) => {
+      if (result.success) setModelSettings(result.data ?? {});
+    });
+  }, []);
+
+  const setting = model ? modelSettings[model]?.reasoning : undefined;
+
+  useEffect(() => {
+    setBudgetInput(setting?.budgetTokens ? String(setting.budgetTokens) : '');
+  }, [model, setting?.budgetTokens]);
+
+  const saveSetting = async (reasoning: ReasoningSetting | undefined) => {
+    if (!model) return;
+
+    const result = await updateModelSettings(model, (current) => {
+      const next: ModelSettings = { ...current, reasoning };
+      if (!reasoning) delete next.reasoning;
+      return next;
+    });
+    if (!result.success) {
+      logger.preferences.error('Failed to save reasoning setting', { model, error: result.error });
+      return;
+    }
+    setModelSettings(result.data ?? {});
+  };
+
+  const handleBudgetCommit = () => {
+    if (!setting || setting.effort === 'off') return;
+
+    const budget = Number.parseInt(budgetInput, 10);
+    const budgetTokens = Number.isFinite(budget) && budget >= 1024 ? budget : undefined;
+    if (budgetTokens !== setting.budgetTokens) {
+      saveSetting({ effort: setting.effort, budgetTokens });
+    }
+  };
+
+  if (!model) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu onOpenChange={(open) => !open && handleBudgetCommit()}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            'gap-1.5 rounded-lg text-muted-foreground',
+            setting && setting.effort !== 'off' && 'text-foreground',
+            className
+          )}
+          type="button"
+          title={t('reasoning_selector.label')}
+        >
+          <BrainIcon size={16} />
+          <span>{setting ? t(`reasoning_selector.efforts.${setting.effort}`) : t('reasoning_selector.default')}</span>
+          <ChevronDown size={14} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>{t('reasoning_selector.label')}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => saveSetting(undefined)} className="gap-2">
+          <span className="flex-1">{t('reasoning_selector.default')}</span>
+          {!setting && <Check size={14} />}
+        </DropdownMenuItem>
+        {EFFORTS.map((effort) => (
+          <DropdownMenuItem
+            key={effort}
+            onSelect={() =>
+              saveSetting({
+                effort,
+                budgetTokens: effort === setting?.effort ? setting.budgetTokens : undefined,
+              })
+            }
+            className="gap-2"
+          >
+            <span className="flex-1">{t(`reasoning_selector.efforts.${effort}`)}</span>
+            {setting?.effort === effort && <Check size={14} />}
+          </DropdownMenuItem>
+        ))}
+
+        {setting && setting.effort !== 'off' && (
+          <>
+            <DropdownMenuSeparator />
+            <div className="space-y-1 p-2">
+              <label htmlFor="reasoning-budget" className="text-xs text-muted-foreground">
+                {t('reasoning_selector.budget_label')}
+              </label>
+              <Input
+                id="reasoning-budget"
+                type="number"
+                min={1024}
+                step={1024}
+                value={budgetInput}
+                placeholder={t('reasoning_selector.budget_placeholder')}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                onBlur={handleBudgetCommit}
+                // Keep typing in the field instead of the menu's type-ahead
+                onKeyDown={(e) => e.stopPropagation()}
+                className="h-8"
+              />
+              <p className="text-[11px] text-muted-foreground">{t('reasoning_selector.budget_hint')}</p>
+            </div>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
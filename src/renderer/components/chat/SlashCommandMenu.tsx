@@ -0,0 +1,80 @@
+import { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+
+export interface SlashCommandItem {
+  id: string;
+  label: string;
+  description?: string;
+  tags?: string[];
+}
+
+interface SlashCommandMenuProps {
+  items: SlashCommandItem[];
+  activeIndex: number;
+  prefix?: string; // Trigger character shown before each label
+  emptyLabel: string;
+  onSelect: (item: SlashCommandItem) => void;
+  onActiveIndexChange: (index: number) => void;
+}
+
+/**
+ * Floating list shown above the prompt input while typing "/name" or "@name"
+ */
+export function SlashCommandMenu({
+  items,
+  activeIndex,
+  prefix = '/',
+  emptyLabel,
+  onSelect,
+  onActiveIndexChange,
+}: SlashCommandMenuProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the highlighted item visible while navigating with the keyboard
+  useEffect(() => {
+    const active = listRef.current?.querySelector<HTMLElement>('[data-active="true"]');
+    active?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  return (
+    <div
+      ref={listRef}
+      role="listbox"
+      className="absolute bottom-full left-0 right-0 z-20 mb-2 max-h-64 overflow-y-auto rounded-lg border bg-popover p-1 shadow-md"
+    >
+      {items.length === 0 ? (
+        <p className="px-2 py-1.5 text-sm text-muted-foreground">{emptyLabel}</p>
+      ) : (
+        items.map((item, index) => (
+          <button
+            key={item.id}
+            type="button"
+            role="option"
+            aria-selected={index === activeIndex}
+            data-active={index === activeIndex}
+            // Keep focus in the textarea
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => onActiveIndexChange(index)}
+            onClick={() => onSelect(item)}
+            className={cn(
+              'flex w-full flex-col items-start rounded-md px-2 py-1.5 text-left text-sm',
+              index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+            )}
+          >
+            <span className="flex w-full items-center gap-2">
+              <span className="font-medium">{prefix}{item.label}</span>
+              {item.tags?.map((tag) => (
+                <span key={tag} className="rounded bg-muted px-1 text-[10px] text-muted-foreground">
+                  {tag}
+                </span>
+              ))}
+            </span>
+            {item.description && (
+              <span className="line-clamp-1 text-xs text-muted-foreground">{item.description}</span>
+            )}
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
@@ -13,8 +13,9 @@ import {
   SidebarTrigger,
   useSidebar
 } from '@/components/ui/sidebar'
-import { MessageSquare, Settings, User, Bot, Store, Plus, PanelLeftClose, PanelLeft } from 'lucide-react'
+import { MessageSquare, Settings, User, Bot, Store, Plus, PanelLeftClose, PanelLeft, BarChart3 } from 'lucide-react'
 import { getRendererLogger } from '@/services/logger'
+import { useShortcutHandlers } from '@/hooks/useShortcutHandlers'
 import { Button } from '@/components/ui/button'
 import { useTranslation } from 'react-i18next'
 // @ts-ignore - PNG import
@@ -33,9 +34,11 @@ interface MainLayoutProps {
 
 // Inner component that has access to useSidebar
 function MainLayoutContent({ children, title, currentPage, onPageChange, sidebarContent, onNewChat, version, platform }: MainLayoutProps & { version: string; platform: string }) {
-  const { open } = useSidebar()
+  const { open, toggleSidebar } = useSidebar()
   const { t } = useTranslation('common')
 
+  useShortcutHandlers({ toggleSidebar })
+
   return (
     <>
       <Sidebar>
@@ -115,6 +118,15 @@ function MainLayoutContent({ children, title, currentPage, onPageChange, sidebar
                 {t('navigation.models')}
               </SidebarMenuButton>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                onClick={() => onPageChange?.('usage')}
+                isActive={currentPage === 'usage'}
+              >
+                <BarChart3 className="w-4 h-4" />
+                {t('navigation.usage')}
+              </SidebarMenuButton>
+            </SidebarMenuItem>
             <SidebarMenuItem>
               <SidebarMenuButton
                 onClick={() => onPageChange?.('settings')}
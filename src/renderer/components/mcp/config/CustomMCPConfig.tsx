@@ -3,7 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, AlertCircle } from 'lucide-react';
-import { useMCPStore } from '@/stores/mcpStore';
+import { useMCPStore, isConnectedStatus } from '@/stores/mcpStore';
 import { MCPServerConfig, MCPTool } from '@/types/mcp';
 import { MCPServerPreview } from './mcp-server-preview';
 import { useTranslation } from 'react-i18next';
@@ -17,7 +17,7 @@ interface CustomMCPConfigProps {
 
 export function CustomMCPConfig({ serverId, onClose, initialConfig, onConfigChange }: CustomMCPConfigProps) {
   const { t } = useTranslation('mcp');
-  const { getServerById, getRegistryEntryById, updateServer, addServer, connectionStatus } = useMCPStore();
+  const { getServerById, getRegistryEntryById, updateServer, addServer, connectionStatus, toolsVersion } = useMCPStore();
 
   const [jsonText, setJsonText] = useState('');
   const [jsonError, setJsonError] = useState<string | null>(null);
@@ -78,17 +78,17 @@ export function CustomMCPConfig({ serverId, onClose, initialConfig, onConfigChan
     }
   }, [serverId, server, registryEntry, isCustomNewServer, initialConfig]);
 
-  // Sync tools with global connection status
+  // Sync tools with global connection status and tool list changes
   useEffect(() => {
     if (serverId && !isCustomNewServer && !hasUserEdits) {
-      if (connectionStatus[serverId] === 'connected') {
+      if (isConnectedStatus(connectionStatus[serverId])) {
         loadToolsFromConnectedServer(serverId);
       } else {
         setTestResult(null);
         setTools([]);
       }
     }
-  }, [serverId, connectionStatus, isCustomNewServer, hasUserEdits]);
+  }, [serverId, connectionStatus, toolsVersion, isCustomNewServer, hasUserEdits]);
 
   const loadToolsFromConnectedServer = async (serverId: string) => {
     setIsLoadingTools(true);
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Dialog,
   DialogContent,
@@ -18,6 +19,7 @@ import {
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
   Download,
+  ShieldOff,
   Upload,
   FileText,
   AlertCircle,
@@ -48,12 +50,14 @@ export function ImportExport({ variant = 'dropdown', onRefresh, isRefreshing = f
   const [importFile, setImportFile] = useState<File | null>(null);
   const [importPreview, setImportPreview] = useState<any>(null);
   const [importError, setImportError] = useState<string | null>(null);
+  const [stripImportedSecrets, setStripImportedSecrets] = useState(false);
 
-  const handleExport = async () => {
+  // Without stripping, tokens and API keys are written to the file in plaintext
+  const handleExport = async (stripSecrets: boolean = false) => {
     setIsExporting(true);
     
     try {
-      const config = await exportConfiguration();
+      const config = await exportConfiguration({ stripSecrets });
       
       if (!config) {
         throw new Error('No configuration to export');
@@ -67,7 +71,7 @@ export function ImportExport({ variant = 'dropdown', onRefresh, isRefreshing = f
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `levante-mcp-config-${new Date().toISOString().split('T')[0]}.json`;
+      a.download = `levante-mcp-config${stripSecrets ? '-no-secrets' : ''}-${new Date().toISOString().split('T')[0]}.json`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -111,7 +115,7 @@ export function ImportExport({ variant = 'dropdown', onRefresh, isRefreshing = f
     setIsImporting(true);
 
     try {
-      await importConfiguration(importPreview);
+      await importConfiguration(importPreview, { stripSecrets: stripImportedSecrets });
       toast.success(t('import_export.import_success'));
       handleCloseImportDialog();
 
@@ -132,6 +136,7 @@ export function ImportExport({ variant = 'dropdown', onRefresh, isRefreshing = f
     setImportFile(null);
     setImportPreview(null);
     setImportError(null);
+    setStripImportedSecrets(false);
   };
 
   const getImportServerCount = () => {
@@ -146,6 +151,24 @@ export function ImportExport({ variant = 'dropdown', onRefresh, isRefreshing = f
     return importServerIds.filter(id => activeServerIds.includes(id));
   };
 
+  const stripSecretsOption = (
+    <div className="flex items-start gap-2">
+      <Checkbox
+        id="strip-imported-secrets"
+        checked={stripImportedSecrets}
+        onCheckedChange={(checked) => setStripImportedSecrets(checked === true)}
+      />
+      <div className="space-y-1">
+        <Label htmlFor="strip-imported-secrets" className="text-sm">
+          {t('import_export.strip_secrets')}
+        </Label>
+        <p className="text-xs text-muted-foreground">
+          {t('import_export.strip_secrets_description')}
+        </p>
+      </div>
+    </div>
+  );
+
   if (variant === 'dropdown') {
     return (
       <>
@@ -167,12 +190,19 @@ export function ImportExport({ variant = 'dropdown', onRefresh, isRefreshing = f
               </DropdownMenuItem>
             )}
             <DropdownMenuItem
-              onClick={handleExport}
+              onClick={() => handleExport()}
               disabled={isExporting || activeServers.length === 0}
             >
               <Download className="w-4 h-4 mr-2" />
               {isExporting ? t('import_export.exporting') : t('import_export.export')}
             </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => handleExport(true)}
+              disabled={isExporting || activeServers.length === 0}
+            >
+              <ShieldOff className="w-4 h-4 mr-2" />
+              {t('import_export.export_without_secrets')}
+            </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => setShowImportDialog(true)}
               disabled={isImporting}
@@ -251,6 +281,8 @@ export function ImportExport({ variant = 'dropdown', onRefresh, isRefreshing = f
                       ))}
                     </ul>
                   </div>
+
+                  {stripSecretsOption}
                 </div>
               )}
             </div>
@@ -288,13 +320,22 @@ export function ImportExport({ variant = 'dropdown', onRefresh, isRefreshing = f
         <div className="flex gap-2">
           <Button
             variant="outline"
-            onClick={handleExport}
+            onClick={() => handleExport()}
             disabled={isExporting || activeServers.length === 0}
           >
             <Download className="w-4 h-4 mr-2" />
             {isExporting ? t('import_export.exporting') : t('import_export.export')}
           </Button>
 
+          <Button
+            variant="outline"
+            onClick={() => handleExport(true)}
+            disabled={isExporting || activeServers.length === 0}
+          >
+            <ShieldOff className="w-4 h-4 mr-2" />
+            {t('import_export.export_without_secrets')}
+          </Button>
+
           <Button
             variant="outline"
             onClick={() => setShowImportDialog(true)}
@@ -373,6 +414,8 @@ export function ImportExport({ variant = 'dropdown', onRefresh, isRefreshing = f
                       ))}
                     </ul>
                   </div>
+
+                  {stripSecretsOption}
                 </div>
               )}
             </div>
@@ -5,8 +5,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, AlertCircle } from 'lucide-react';
 import { useMCPStore } from '@/stores/mcpStore';
-import { MCPServerConfig, MCPTool } from '@/types/mcp';
+import { MCPSandboxPolicy, MCPServerConfig, MCPTool, ToolConsentPolicies } from '@/types/mcp';
 import { MCPServerPreview } from './mcp-server-preview';
+import { ToolPermissions } from './tool-permissions';
+import { ServerAuth } from './server-auth';
+import { SandboxPolicyEditor } from './sandbox-policy';
 
 interface JSONEditorPanelProps {
   serverId: string | null;
@@ -24,6 +27,8 @@ export function JSONEditorPanel({ serverId, isOpen, onClose }: JSONEditorPanelPr
   const [isSaving, setIsSaving] = useState(false);
   const [tools, setTools] = useState<MCPTool[]>([]);
   const [isLoadingTools, setIsLoadingTools] = useState(false);
+  const [toolPolicies, setToolPolicies] = useState<ToolConsentPolicies>({});
+  const [sandbox, setSandbox] = useState<MCPSandboxPolicy | undefined>(undefined);
 
   const server = serverId ? getServerById(serverId) : null;
   const registryEntry = serverId ? getRegistryEntryById(serverId) : null;
@@ -43,6 +48,15 @@ export function JSONEditorPanel({ serverId, isOpen, onClose }: JSONEditorPanelPr
           ...(server.headers && { headers: server.headers })
         };
         setJsonText(JSON.stringify(config, null, 2));
+        setToolPolicies(server.toolPolicies || {});
+        setSandbox(server.sandbox);
+
+        // Load tools of a connected server so their permissions can be edited
+        window.levante.mcp.listTools(server.id).then(result => {
+          if (result.success && result.data) {
+            setTools(result.data);
+          }
+        });
       } else if (registryEntry?.configuration?.template) {
         // New server - load template
         setJsonText(JSON.stringify(registryEntry.configuration.template, null, 2));
@@ -55,6 +69,10 @@ export function JSONEditorPanel({ serverId, isOpen, onClose }: JSONEditorPanelPr
           env: {}
         }, null, 2));
       }
+      if (!server) {
+        setToolPolicies({});
+        setSandbox(undefined);
+      }
       setJsonError(null);
       setTestResult(null);
     }
@@ -110,7 +128,8 @@ export function JSONEditorPanel({ serverId, isOpen, onClose }: JSONEditorPanelPr
         args: validation.data.args || [],
         env: validation.data.env || {},
         baseUrl: validation.data.baseUrl,
-        headers: validation.data.headers
+        headers: validation.data.headers,
+        sandbox: validation.data.type === 'stdio' ? sandbox : undefined
       };
 
       // Call IPC directly to get tools
@@ -156,7 +175,9 @@ export function JSONEditorPanel({ serverId, isOpen, onClose }: JSONEditorPanelPr
         args: validation.data.args || [],
         env: validation.data.env || {},
         baseUrl: validation.data.baseUrl,
-        headers: validation.data.headers
+        headers: validation.data.headers,
+        toolPolicies,
+        sandbox: validation.data.type === 'stdio' ? sandbox : undefined
       };
 
       if (isNewServer) {
@@ -169,7 +190,9 @@ export function JSONEditorPanel({ serverId, isOpen, onClose }: JSONEditorPanelPr
           env: serverConfig.env,
           transport: serverConfig.transport,
           baseUrl: serverConfig.baseUrl,
-          headers: serverConfig.headers
+          headers: serverConfig.headers,
+          toolPolicies: serverConfig.toolPolicies,
+          sandbox: serverConfig.sandbox
         });
       }
 
@@ -232,6 +255,26 @@ export function JSONEditorPanel({ serverId, isOpen, onClose }: JSONEditorPanelPr
                 isLoadingTools={isLoadingTools}
                 onTestConnection={handleTestConnection}
               />
+
+              {server && (server.transport === 'http' || server.transport === 'sse') && (
+                <div className="mt-4">
+                  <ServerAuth serverId={server.id} />
+                </div>
+              )}
+
+              {validation.data?.type === 'stdio' && (
+                <div className="mt-4">
+                  <SandboxPolicyEditor policy={sandbox} onChange={setSandbox} />
+                </div>
+              )}
+
+              <div className="mt-4">
+                <ToolPermissions
+                  policies={toolPolicies}
+                  tools={tools}
+                  onChange={setToolPolicies}
+                />
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { Box, Plus, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { DEFAULT_SANDBOX_ENV } from '@/constants/mcpSecurity';
+import { MCPSandboxPolicy } from '@/types/mcp';
+
+interface SandboxPolicyEditorProps {
+  policy?: MCPSandboxPolicy;
+  onChange: (policy: MCPSandboxPolicy) => void;
+}
+
+const isAbsolutePath = (value: string) => value.startsWith('/') || value.startsWith('~/') || value === '~';
+
+/**
+ * Sandbox of a stdio server: runtime, network, mounted paths and the host
+ * variables it may see. Takes effect the next time the server starts.
+ */
+export function SandboxPolicyEditor({ policy, onChange }: SandboxPolicyEditorProps) {
+  const { t } = useTranslation('mcp');
+  const current: MCPSandboxPolicy = policy ?? { enabled: false };
+  const [newPath, setNewPath] = useState('');
+  const [envText, setEnvText] = useState('');
+
+  // Edited as text and parsed on blur, so typing a separator is not undone
+  const envList = (current.envAllowlist ?? DEFAULT_SANDBOX_ENV).join(', ');
+  useEffect(() => {
+    setEnvText(envList);
+  }, [envList]);
+
+  const update = (changes: Partial<MCPSandboxPolicy>) => onChange({ ...current, ...changes });
+
+  const allowedPaths = current.allowedPaths ?? [];
+  const pathValid = isAbsolutePath(newPath.trim());
+
+  const addPath = () => {
+    const path = newPath.trim();
+    if (!isAbsolutePath(path) || allowedPaths.some(entry => entry.path === path)) return;
+    update({ allowedPaths: [...allowedPaths, { path, writable: false }] });
+    setNewPath('');
+  };
+
+  const commitEnv = () => {
+    const names = envText
+      .split(/[\s,]+/)
+      .map(name => name.trim())
+      .filter(Boolean);
+    update({ envAllowlist: Array.from(new Set(names)) });
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="font-semibold text-sm flex items-center gap-2">
+            <Box className="w-4 h-4" />
+            {t('sandbox.title')}
+          </h4>
+          <p className="text-xs text-muted-foreground mt-1">
+            {t('sandbox.description')}
+          </p>
+        </div>
+        <Switch
+          checked={current.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+        />
+      </div>
+
+      {current.enabled && (
+        <div className="space-y-3 border-t pt-3">
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm">{t('sandbox.runtime.label')}</span>
+            <Select
+              value={current.runtime || 'bubblewrap'}
+              onValueChange={(runtime) => update({ runtime: runtime as MCPSandboxPolicy['runtime'] })}
+            >
+              <SelectTrigger className="h-8 w-[180px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="bubblewrap">{t('sandbox.runtime.bubblewrap')}</SelectItem>
+                <SelectItem value="container">{t('sandbox.runtime.container')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {current.runtime === 'container' && (
+            <div className="space-y-1">
+              <span className="text-sm">{t('sandbox.image.label')}</span>
+              <Input
+                value={current.image || ''}
+                onChange={(e) => update({ image: e.target.value.trim() || undefined })}
+                placeholder={t('sandbox.image.placeholder')}
+                className="h-8 text-xs font-mono"
+              />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <span className="text-sm">{t('sandbox.network.label')}</span>
+              <p className="text-xs text-muted-foreground">{t('sandbox.network.description')}</p>
+            </div>
+            <Switch
+              checked={Boolean(current.network)}
+              onCheckedChange={(network) => update({ network })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm">{t('sandbox.paths.label')}</span>
+            {allowedPaths.length === 0 ? (
+              <p className="text-xs text-muted-foreground">{t('sandbox.paths.none')}</p>
+            ) : (
+              <ul className="space-y-1">
+                {allowedPaths.map((entry, index) => (
+                  <li key={entry.path} className="flex items-center gap-2">
+                    <span className="flex-1 font-mono text-xs truncate" title={entry.path}>{entry.path}</span>
+                    <Select
+                      value={entry.writable ? 'rw' : 'ro'}
+                      onValueChange={(mode) => update({
+                        allowedPaths: allowedPaths.map((item, i) =>
+                          i === index ? { ...item, writable: mode === 'rw' } : item
+                        )
+                      })}
+                    >
+                      <SelectTrigger className="h-7 w-[130px] text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ro">{t('sandbox.paths.read_only')}</SelectItem>
+                        <SelectItem value="rw">{t('sandbox.paths.read_write')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => update({ allowedPaths: allowedPaths.filter((_, i) => i !== index) })}
+                      title={t('sandbox.paths.remove')}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex items-center gap-2">
+              <Input
+                value={newPath}
+                onChange={(e) => setNewPath(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addPath();
+                  }
+                }}
+                placeholder={t('sandbox.paths.placeholder')}
+                className="h-8 text-xs font-mono"
+              />
+              <Button variant="outline" size="sm" onClick={addPath} disabled={!pathValid}>
+                <Plus className="w-3.5 h-3.5 mr-1" />
+                {t('sandbox.paths.add')}
+              </Button>
+            </div>
+            {newPath.trim() !== '' && !pathValid && (
+              <p className="text-xs text-destructive">{t('sandbox.paths.absolute')}</p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-sm">{t('sandbox.env.label')}</span>
+            <Input
+              value={envText}
+              onChange={(e) => setEnvText(e.target.value)}
+              onBlur={commitEnv}
+              className="h-8 text-xs font-mono"
+            />
+            <p className="text-xs text-muted-foreground">{t('sandbox.env.description')}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { useMCPStore } from '@/stores/mcpStore';
+import { MCPAuthStatus } from '@/types/mcp';
+
+interface ServerAuthProps {
+  serverId: string;
+}
+
+/**
+ * OAuth sign-in of a remote server. Servers that do not use OAuth stay
+ * "not signed in" and connect with their configured headers.
+ */
+export function ServerAuth({ serverId }: ServerAuthProps) {
+  const { t } = useTranslation('mcp');
+  const refreshConnectionStatus = useMCPStore(state => state.refreshConnectionStatus);
+  const [status, setStatus] = useState<MCPAuthStatus | null>(null);
+  const [pending, setPending] = useState<'sign-in' | 'sign-out' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    window.levante.mcp.getAuthStatus(serverId).then(result => {
+      if (result.success && result.data) {
+        setStatus(result.data);
+      }
+    });
+  }, [serverId]);
+
+  const run = async (action: 'sign-in' | 'sign-out') => {
+    setPending(action);
+    setError(null);
+
+    try {
+      const result = action === 'sign-in'
+        ? await window.levante.mcp.signIn(serverId)
+        : await window.levante.mcp.signOut(serverId);
+
+      if (result.success && result.data) {
+        setStatus(result.data);
+      } else {
+        setError(result.error || t('auth.failed'));
+      }
+      await refreshConnectionStatus();
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const description = status?.signedIn
+    ? status.expiresAt
+      ? t('auth.signed_in_until', { date: new Date(status.expiresAt).toLocaleString() })
+      : t('auth.signed_in')
+    : status?.authorizationRequired
+      ? t('auth.required')
+      : t('auth.signed_out');
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="font-semibold text-sm flex items-center gap-2">
+            <KeyRound className="w-4 h-4" />
+            {t('auth.title')}
+          </h4>
+          <p className="text-xs text-muted-foreground mt-1">{description}</p>
+          {status?.signedIn && status.scope && (
+            <p className="text-xs text-muted-foreground mt-1 font-mono break-all">
+              {t('auth.scope', { scope: status.scope })}
+            </p>
+          )}
+        </div>
+
+        {status?.signedIn ? (
+          <Button variant="outline" size="sm" onClick={() => run('sign-out')} disabled={pending !== null}>
+            {pending === 'sign-out' && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            {t('auth.sign_out')}
+          </Button>
+        ) : (
+          <Button size="sm" onClick={() => run('sign-in')} disabled={pending !== null}>
+            {pending === 'sign-in' && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            {pending === 'sign-in' ? t('auth.waiting') : t('auth.sign_in')}
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { ShieldCheck } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { MCPTool, ToolConsentPolicies, ToolConsentPolicy } from '@/types/mcp';
+
+interface ToolPermissionsProps {
+  policies: ToolConsentPolicies;
+  tools: MCPTool[];
+  onChange: (policies: ToolConsentPolicies) => void;
+}
+
+// Value used in the per-tool select to fall back to the server default
+const INHERIT = 'inherit';
+
+export function ToolPermissions({ policies, tools, onChange }: ToolPermissionsProps) {
+  const { t } = useTranslation('mcp');
+
+  // Tools with a stored policy stay editable even when the server is not connected
+  const toolNames = Array.from(new Set([
+    ...tools.map(tool => tool.name),
+    ...Object.keys(policies.tools || {})
+  ])).sort();
+
+  const handleDefaultChange = (value: string) => {
+    onChange({ ...policies, default: value as ToolConsentPolicy });
+  };
+
+  const handleToolChange = (toolName: string, value: string) => {
+    const { [toolName]: _previous, ...rest } = policies.tools || {};
+    onChange({
+      ...policies,
+      tools: value === INHERIT ? rest : { ...rest, [toolName]: value as ToolConsentPolicy }
+    });
+  };
+
+  const policyOptions = (
+    <>
+      <SelectItem value="allow">{t('permissions.policy.allow')}</SelectItem>
+      <SelectItem value="ask">{t('permissions.policy.ask')}</SelectItem>
+      <SelectItem value="deny">{t('permissions.policy.deny')}</SelectItem>
+    </>
+  );
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div>
+        <h4 className="font-semibold text-sm flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4" />
+          {t('permissions.title')}
+        </h4>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('permissions.description')}
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm">{t('permissions.default')}</span>
+        <Select value={policies.default || 'ask'} onValueChange={handleDefaultChange}>
+          <SelectTrigger className="h-8 w-[160px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>{policyOptions}</SelectContent>
+        </Select>
+      </div>
+
+      {toolNames.length > 0 ? (
+        <div className="space-y-2 border-t pt-3">
+          {toolNames.map(toolName => (
+            <div key={toolName} className="flex items-center justify-between gap-4">
+              <span className="font-mono text-xs truncate">{toolName}</span>
+              <Select
+                value={policies.tools?.[toolName] || INHERIT}
+                onValueChange={(value) => handleToolChange(toolName, value)}
+              >
+                <SelectTrigger className="h-8 w-[160px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={INHERIT}>{t('permissions.policy.inherit')}</SelectItem>
+                  {policyOptions}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground border-t pt-3">
+          {t('permissions.no_tools')}
+        </p>
+      )}
+    </div>
+  );
+}
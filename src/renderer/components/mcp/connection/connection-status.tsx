@@ -1,14 +1,16 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import {
   CheckCircle,
   Loader2,
   XCircle,
   AlertCircle,
+  AlertTriangle,
   Wifi,
   WifiOff
 } from 'lucide-react';
 import { MCPConnectionStatus } from '@/types/mcp';
+import { useMCPStore } from '@/stores/mcpStore';
 import { useTranslation } from 'react-i18next';
 
 interface ConnectionStatusProps {
@@ -37,6 +39,22 @@ const getStatusConfig = (t: any) => ({
     badgeVariant: 'secondary' as const,
     dotColor: 'bg-yellow-500'
   },
+  degraded: {
+    color: 'text-yellow-600',
+    bgColor: 'bg-yellow-100',
+    icon: AlertTriangle,
+    label: t('connection.status.degraded'),
+    badgeVariant: 'secondary' as const,
+    dotColor: 'bg-yellow-500'
+  },
+  crashed: {
+    color: 'text-red-500',
+    bgColor: 'bg-red-100',
+    icon: AlertCircle,
+    label: t('connection.status.crashed'),
+    badgeVariant: 'destructive' as const,
+    dotColor: 'bg-red-500'
+  },
   disconnected: {
     color: 'text-gray-500',
     bgColor: 'bg-gray-100',
@@ -132,6 +150,54 @@ export function ConnectionStatus({
   );
 }
 
+// Error, restart countdown and stderr tail of a server that is not healthy
+export function ServerStatusDetails({ serverId }: { serverId: string }) {
+  const { t } = useTranslation('mcp');
+  const details = useMCPStore(state => state.serverStatus[serverId]);
+  const [now, setNow] = useState(Date.now());
+
+  const nextRestartAt = details?.nextRestartAt;
+  useEffect(() => {
+    if (!nextRestartAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [nextRestartAt]);
+
+  if (!details || (details.state !== 'degraded' && details.state !== 'crashed')) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 space-y-1 text-xs">
+      {details.error && (
+        <p className="text-muted-foreground line-clamp-2" title={details.error}>
+          {details.error}
+        </p>
+      )}
+      {details.state === 'crashed' && (
+        <p className="text-muted-foreground">
+          {nextRestartAt
+            ? t('connection.details.restarting', {
+                seconds: Math.max(0, Math.ceil((nextRestartAt - now) / 1000)),
+                attempt: details.restarts
+              })
+            : t('connection.details.gave_up')}
+        </p>
+      )}
+      {details.stderr.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-muted-foreground">
+            {t('connection.details.stderr', { count: details.stderr.length })}
+          </summary>
+          <pre className="mt-1 max-h-40 overflow-auto rounded bg-muted p-2 font-mono text-[11px] whitespace-pre-wrap break-all">
+            {details.stderr.join('\n')}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
+
 // Network status indicator for the overall MCP system
 interface NetworkStatusProps {
   connectedCount: number;
@@ -11,7 +11,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
-import type { MCPServerConfig } from '../../../types/mcp';
+import type { MCPSandboxPolicy, MCPServerConfig } from '../../../types/mcp';
 import type { AISecurityAnalysis } from '@/constants/mcpSecurity';
 import { TrustBadge } from './TrustBadge';
 import { ServerInfoPanel } from './ServerInfoPanel';
@@ -33,6 +33,14 @@ interface MCPDeepLinkModalProps {
   sourceUrl?: string;
 }
 
+// Sandbox offered for servers added from links: no files, but the network npx/uvx need to download
+const DEEP_LINK_SANDBOX: MCPSandboxPolicy = {
+  enabled: true,
+  runtime: 'bubblewrap',
+  network: true,
+  allowedPaths: []
+};
+
 export function MCPDeepLinkModal({
   open,
   onOpenChange,
@@ -41,6 +49,7 @@ export function MCPDeepLinkModal({
   sourceUrl
 }: MCPDeepLinkModalProps) {
   const [addAsDisabled, setAddAsDisabled] = useState(false);
+  const [runSandboxed, setRunSandboxed] = useState(false);
   const [isAdding, setIsAdding] = useState(false);
   const [aiAnalysis, setAiAnalysis] = useState<AISecurityAnalysis>({
     isAnalyzing: false,
@@ -171,7 +180,7 @@ Provide a 2-3 sentence security assessment that:
       const loadingToast = toast.loading(`Adding ${serverName}...`);
 
       // Add the server
-      const result = await window.levante.mcp.addServer(config as MCPServerConfig);
+      const result = await window.levante.mcp.addServer(finalConfig as MCPServerConfig);
 
       toast.dismiss(loadingToast);
 
@@ -194,7 +203,8 @@ Provide a 2-3 sentence security assessment that:
         logger.mcp.info('MCP server added via deep link', {
           serverId: config.id,
           trustLevel: validation.trustLevel,
-          addedAsDisabled: addAsDisabled
+          addedAsDisabled: addAsDisabled,
+          sandboxed: Boolean(finalConfig?.sandbox?.enabled)
         });
 
         onOpenChange(false);
@@ -214,6 +224,11 @@ Provide a 2-3 sentence security assessment that:
     }
   };
 
+  const isStdio = config?.transport === 'stdio';
+  const finalConfig = config && isStdio && runSandboxed
+    ? { ...config, sandbox: DEEP_LINK_SANDBOX }
+    : config;
+
   const canProceed = validation.structureValid && !validation.errors.length;
 
   return (
@@ -251,8 +266,23 @@ Provide a 2-3 sentence security assessment that:
           {/* AI Security Analysis */}
           <AISecurityPanel analysis={aiAnalysis} />
 
+          {/* Sandbox */}
+          {isStdio && (
+            <div className="flex items-start space-x-2">
+              <Checkbox
+                id="run-sandboxed"
+                checked={runSandboxed}
+                onCheckedChange={(checked) => setRunSandboxed(checked as boolean)}
+              />
+              <Label htmlFor="run-sandboxed" className="text-sm font-normal cursor-pointer leading-snug">
+                Run in a sandbox (Linux, requires bubblewrap). The server gets network access but none of your files;
+                adjust the policy later in the server settings.
+              </Label>
+            </div>
+          )}
+
           {/* Security Warnings */}
-          <SecurityWarnings />
+          <SecurityWarnings config={finalConfig} />
 
           {/* Source Information */}
           {sourceUrl && (
@@ -1,14 +1,36 @@
 import { AlertTriangle } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { DEFAULT_SANDBOX_ENV } from '@/constants/mcpSecurity';
+import type { MCPServerConfig } from '../../../types/mcp';
+
+interface SecurityWarningsProps {
+  config?: Partial<MCPServerConfig> | null;
+}
+
+export function SecurityWarnings({ config }: SecurityWarningsProps) {
+  const sandbox = config?.transport === 'stdio' && config.sandbox?.enabled ? config.sandbox : null;
+  const allowedPaths = sandbox?.allowedPaths ?? [];
 
-export function SecurityWarnings() {
   return (
     <Alert variant="default" className="border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20">
       <AlertTriangle className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
       <AlertDescription className="text-sm text-yellow-800 dark:text-yellow-200">
         <p className="font-medium mb-2">Security Reminders:</p>
         <ul className="space-y-1 text-xs">
-          <li>• This server will run with your system permissions</li>
+          {sandbox ? (
+            <>
+              <li>• This server will run in a {sandbox.runtime === 'container' ? 'container' : 'bubblewrap'} sandbox</li>
+              <li>• Network access: {sandbox.network ? 'allowed' : 'blocked'}</li>
+              <li>
+                • File access: {allowedPaths.length > 0
+                  ? allowedPaths.map(entry => `${entry.path} (${entry.writable ? 'read/write' : 'read only'})`).join(', ')
+                  : 'none'}
+              </li>
+              <li>• Environment variables: {(sandbox.envAllowlist ?? DEFAULT_SANDBOX_ENV).join(', ') || 'none'}</li>
+            </>
+          ) : (
+            <li>• This server will run with your system permissions</li>
+          )}
           <li>• Only install servers from trusted sources</li>
           <li>• Review the configuration before proceeding</li>
           <li>• Verify package names match official documentation</li>
@@ -13,8 +13,17 @@ import {
   Globe,
   Cloud,
   Plus,
-  Trash2
+  Trash2,
+  Package,
+  ArrowUpCircle
 } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -26,7 +35,8 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { MCPRegistryEntry, MCPServerConfig, MCPConnectionStatus } from '@/types/mcp';
-import { ConnectionStatus } from '../connection/connection-status';
+import { ConnectionStatus, ServerStatusDetails } from '../connection/connection-status';
+import { isConnectedStatus } from '@/stores/mcpStore';
 import { useTranslation } from 'react-i18next';
 
 interface IntegrationCardProps {
@@ -37,10 +47,14 @@ interface IntegrationCardProps {
   isActive: boolean;
   onToggle: () => void;
   onConfigure: () => void;
-  onAddToActive?: () => void;
+  onAddToActive?: (version?: string) => void; // A version pins the server to it
   onDelete?: () => void;
+  updateAvailable?: boolean;
+  onUpdate?: () => void;
 }
 
+const LATEST_VERSION = 'latest';
+
 const iconMap = {
   folder: FolderOpen,
   search: Search,
@@ -49,6 +63,7 @@ const iconMap = {
   'message-square': MessageSquare,
   globe: Globe,
   cloud: Cloud,
+  package: Package,
 };
 
 export function IntegrationCard({
@@ -60,7 +75,9 @@ export function IntegrationCard({
   onToggle,
   onConfigure,
   onAddToActive,
-  onDelete
+  onDelete,
+  updateAvailable = false,
+  onUpdate
 }: IntegrationCardProps) {
   const { t } = useTranslation('mcp');
   const displayName = entry?.name || server?.name || server?.id || t('server.unknown');
@@ -71,6 +88,10 @@ export function IntegrationCard({
   const IconComponent = iconMap[iconName as keyof typeof iconMap] || FolderOpen;
 
   const [showDeleteDialog, setShowDeleteDialog] = React.useState(false);
+  const [selectedVersion, setSelectedVersion] = React.useState(LATEST_VERSION);
+
+  const versions = entry?.versions ?? [];
+  const installedVersion = server?.registry?.version;
 
   const handleDeleteClick = () => {
     setShowDeleteDialog(true);
@@ -91,15 +112,22 @@ export function IntegrationCard({
             </div>
             <div>
               <h3 className="font-semibold text-lg">{displayName}</h3>
-              <Badge variant="secondary" className="text-xs">
-                {category}
-              </Badge>
+              <div className="flex items-center gap-1">
+                <Badge variant="secondary" className="text-xs">
+                  {category}
+                </Badge>
+                {(installedVersion || entry?.version) && (
+                  <span className="text-xs text-muted-foreground font-mono">
+                    v{installedVersion || entry?.version}
+                  </span>
+                )}
+              </div>
             </div>
           </div>
           {/* Switch solo en modo Active */}
           {mode === 'active' && (
             <Switch
-              checked={status === 'connected'}
+              checked={isConnectedStatus(status)}
               disabled={status === 'connecting'}
               onCheckedChange={onToggle}
             />
@@ -124,13 +152,52 @@ export function IntegrationCard({
             </Badge>
           </div>
         )}
+        {mode === 'active' && server && (
+          <ServerStatusDetails serverId={server.id} />
+        )}
 
         {/* Badge en modo Store */}
         {mode === 'store' && (
           <Badge variant={isActive ? 'default' : 'outline'}>
-            {isActive ? t('server.already_added') : 'Available'}
+            {isActive ? t('server.already_added') : t('server.available')}
           </Badge>
         )}
+
+        {updateAvailable && (
+          <div className="flex items-center justify-between gap-2 mt-3">
+            <Badge variant="outline" className="border-blue-300 text-blue-700 dark:border-blue-700 dark:text-blue-300">
+              <ArrowUpCircle className="w-3 h-3 mr-1" />
+              {t('server.update_available', { version: entry?.version })}
+            </Badge>
+            {onUpdate && (
+              <Button variant="ghost" size="sm" onClick={onUpdate} disabled={status === 'connecting'}>
+                {t('server.update')}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Elegir versión antes de añadir */}
+        {mode === 'store' && !isActive && versions.length > 1 && (
+          <div className="flex items-center justify-between gap-2 mt-3">
+            <span className="text-xs text-muted-foreground">{t('server.version')}</span>
+            <Select value={selectedVersion} onValueChange={setSelectedVersion}>
+              <SelectTrigger className="h-7 w-[160px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={LATEST_VERSION}>
+                  {t('server.latest_version', { version: entry?.version })}
+                </SelectItem>
+                {versions.map(version => (
+                  <SelectItem key={version} value={version}>
+                    {t('server.pin_version', { version })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </CardContent>
 
       <CardFooter className="p-6 pt-0">
@@ -143,7 +210,7 @@ export function IntegrationCard({
                 variant="default"
                 size="sm"
                 className="flex-1"
-                onClick={onAddToActive}
+                onClick={() => onAddToActive?.(selectedVersion === LATEST_VERSION ? undefined : selectedVersion)}
               >
                 <Plus className="w-4 h-4 mr-2" />
                 {t('server.add_to_active')}
@@ -0,0 +1,59 @@
+import { AlertTriangle, Loader2, RefreshCw, ShieldCheck } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { useMCPStore } from '@/stores/mcpStore';
+
+/**
+ * Where the Store's registry came from, with a button to sync it again
+ */
+export function RegistryStatus() {
+  const { t } = useTranslation('mcp');
+  const registryStatus = useMCPStore(state => state.registryStatus);
+  const isSyncingRegistry = useMCPStore(state => state.isSyncingRegistry);
+  const syncRegistry = useMCPStore(state => state.syncRegistry);
+
+  if (!registryStatus) return null;
+
+  const fetchedAt = registryStatus.fetchedAt
+    ? new Date(registryStatus.fetchedAt).toLocaleString()
+    : null;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border px-3 py-2 text-xs">
+      <div className="space-y-1 min-w-0">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <span>
+            {t(`registry.source.${registryStatus.source}`)}
+            {fetchedAt && ` · ${t('registry.fetched_at', { date: fetchedAt })}`}
+          </span>
+          {registryStatus.verified && (
+            <span className="flex items-center gap-1 text-green-600">
+              <ShieldCheck className="w-3.5 h-3.5" />
+              {t('registry.verified')}
+            </span>
+          )}
+        </div>
+        {registryStatus.url && (
+          <p className="font-mono text-muted-foreground truncate" title={registryStatus.url}>
+            {registryStatus.url}
+          </p>
+        )}
+        {registryStatus.error && (
+          <p className="flex items-center gap-1 text-yellow-700 dark:text-yellow-400">
+            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+            {t('registry.sync_failed', { error: registryStatus.error })}
+          </p>
+        )}
+      </div>
+
+      {registryStatus.url && (
+        <Button variant="ghost" size="sm" onClick={syncRegistry} disabled={isSyncingRegistry}>
+          {isSyncingRegistry
+            ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            : <RefreshCw className="w-4 h-4 mr-2" />}
+          {t('registry.sync')}
+        </Button>
+      )}
+    </div>
+  );
+}
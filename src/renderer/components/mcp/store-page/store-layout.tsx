@@ -1,10 +1,19 @@
-import { useEffect, useState } from 'react';
-import { useMCPStore } from '@/stores/mcpStore';
+import { useEffect, useMemo, useState } from 'react';
+import { useMCPStore, isConnectedStatus } from '@/stores/mcpStore';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Loader2, AlertCircle } from 'lucide-react';
+import { Plus, Loader2, AlertCircle, Search } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
 import { IntegrationCard } from './integration-card';
+import { RegistryStatus } from './registry-status';
 import { JSONEditorPanel } from '../config/json-editor-panel';
 import { FullJSONEditorPanel } from '../config/full-json-editor-panel';
 import { ImportExport } from '../config/import-export';
@@ -12,7 +21,14 @@ import { NetworkStatus } from '../connection/connection-status';
 import { SystemDiagnosticAlert } from '../SystemDiagnosticAlert';
 import { getRendererLogger } from '@/services/logger';
 import { toast } from 'sonner';
-import { MCPServerConfig } from '@/types/mcp';
+import { MCPRegistryEntry, MCPServerConfig } from '@/types/mcp';
+import {
+  buildServerConfig,
+  getRegistryCategories,
+  hasRegistryUpdate,
+  searchRegistryEntries,
+  withPackageVersion
+} from '@/lib/mcpRegistry';
 import { useTranslation } from 'react-i18next';
 
 const logger = getRendererLogger();
@@ -35,12 +51,24 @@ export function StoreLayout({ mode }: StoreLayoutProps) {
     connectServer,
     disconnectServer,
     addServer,
+    updateServer,
     removeServer
   } = useMCPStore();
 
   const [configServerId, setConfigServerId] = useState<string | null>(null);
   const [isFullJSONEditorOpen, setIsFullJSONEditorOpen] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+
+  const categories = useMemo(() => getRegistryCategories(registry.entries), [registry.entries]);
+  const visibleEntries = useMemo(
+    () => searchRegistryEntries(registry.entries, query, category),
+    [registry.entries, query, category]
+  );
+
+  const findEntry = (server: MCPServerConfig) =>
+    registry.entries.find(entry => entry.id === (server.registry?.entryId ?? server.id));
 
   useEffect(() => {
     // Load initial data
@@ -54,7 +82,7 @@ export function StoreLayout({ mode }: StoreLayoutProps) {
 
   const handleToggleServer = async (serverId: string) => {
     const server = activeServers.find(s => s.id === serverId);
-    const isActive = connectionStatus[serverId] === 'connected';
+    const isActive = isConnectedStatus(connectionStatus[serverId]);
 
     if (isActive) {
       await disconnectServer(serverId);
@@ -74,20 +102,13 @@ export function StoreLayout({ mode }: StoreLayoutProps) {
     setConfigServerId(serverId);
   };
 
-  const handleAddToActive = async (entryId: string) => {
+  const handleAddToActive = async (entryId: string, version?: string) => {
     const registryEntry = registry.entries.find(e => e.id === entryId);
     if (!registryEntry) return;
 
     try {
-      // Construir config desde template
-      const serverConfig: MCPServerConfig = {
-        id: entryId,
-        name: registryEntry.name,
-        transport: registryEntry.configuration?.template?.type || 'stdio',
-        command: registryEntry.configuration?.template?.command || '',
-        args: registryEntry.configuration?.template?.args || [],
-        env: registryEntry.configuration?.template?.env || {}
-      };
+      // Construir config desde template, fijando la versión si se eligió una
+      const serverConfig = buildServerConfig(registryEntry, version);
 
       // Guardar directo en .mcp.json (sin test, sin connect)
       await addServer(serverConfig);
@@ -102,6 +123,27 @@ export function StoreLayout({ mode }: StoreLayoutProps) {
     }
   };
 
+  const handleUpdateServer = async (server: MCPServerConfig, registryEntry: MCPRegistryEntry) => {
+    const changes = {
+      args: withPackageVersion(registryEntry, server.args || [], registryEntry.version),
+      registry: { entryId: registryEntry.id, version: registryEntry.version }
+    };
+
+    try {
+      await updateServer(server.id, changes);
+
+      // A running server keeps the old version until it is started again
+      if (isConnectedStatus(connectionStatus[server.id])) {
+        await connectServer({ ...server, ...changes });
+      }
+
+      toast.success(t('messages.updated', { name: registryEntry.name, version: registryEntry.version }));
+    } catch (error) {
+      logger.mcp.error('Failed to update server', { serverId: server.id, error });
+      toast.error(t('messages.update_failed'));
+    }
+  };
+
   const handleDeleteServer = async (serverId: string) => {
     try {
       await removeServer(serverId);
@@ -181,7 +223,7 @@ export function StoreLayout({ mode }: StoreLayoutProps) {
           <div className="flex items-center gap-4">
             {mode === 'active' && (
               <NetworkStatus
-                connectedCount={Object.values(connectionStatus).filter(s => s === 'connected').length}
+                connectedCount={Object.values(connectionStatus).filter(isConnectedStatus).length}
                 totalCount={activeServers.length}
                 size="md"
               />
@@ -232,7 +274,7 @@ export function StoreLayout({ mode }: StoreLayoutProps) {
                   </div>
                 </Card>
                 {activeServers.map(server => {
-                  const registryEntry = registry.entries.find(entry => entry.id === server.id);
+                  const registryEntry = findEntry(server);
                   const status = connectionStatus[server.id] || 'disconnected';
 
                   return (
@@ -246,6 +288,8 @@ export function StoreLayout({ mode }: StoreLayoutProps) {
                       onToggle={() => handleToggleServer(server.id)}
                       onConfigure={() => handleConfigureServer(server.id)}
                       onDelete={() => handleDeleteServer(server.id)}
+                      updateAvailable={hasRegistryUpdate(registryEntry, server)}
+                      onUpdate={registryEntry ? () => handleUpdateServer(server, registryEntry) : undefined}
                     />
                   );
                 })}
@@ -282,35 +326,72 @@ export function StoreLayout({ mode }: StoreLayoutProps) {
 
       {/* Store Mode: Show available servers */}
       {mode === 'store' && (
-        <section>
-          <div className="flex items-center justify-between mb-4">
+        <section className="space-y-4">
+          <div className="flex items-center justify-between">
             <h2 className="text-2xl font-bold">{t('store.available_integrations')}</h2>
             <Badge variant="outline">
               {t('store.available', { count: registry.entries.length })}
             </Badge>
           </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {/* Registry Cards */}
-            {registry.entries.map(entry => {
-              const server = activeServers.find(s => s.id === entry.id);
-              const status = connectionStatus[entry.id] || 'disconnected';
-              const isActive = !!server;
-
-              return (
-                <IntegrationCard
-                  key={entry.id}
-                  mode="store"
-                  entry={entry}
-                  server={server}
-                  status={status}
-                  isActive={isActive}
-                  onToggle={() => handleToggleServer(entry.id)}
-                  onConfigure={() => handleConfigureServer(entry.id)}
-                  onAddToActive={() => handleAddToActive(entry.id)}
-                />
-              );
-            })}
+
+          <RegistryStatus />
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t('store.search_placeholder')}
+                className="pl-9"
+              />
+            </div>
+            <Select
+              value={category ?? 'all'}
+              onValueChange={(value) => setCategory(value === 'all' ? null : value)}
+            >
+              <SelectTrigger className="sm:w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('store.all_categories')}</SelectItem>
+                {categories.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
+
+          {visibleEntries.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-8">
+              {t('store.no_results')}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {/* Registry Cards */}
+              {visibleEntries.map(entry => {
+                const server = activeServers.find(s => (s.registry?.entryId ?? s.id) === entry.id);
+                const status = (server && connectionStatus[server.id]) || 'disconnected';
+                const isActive = !!server;
+
+                return (
+                  <IntegrationCard
+                    key={entry.id}
+                    mode="store"
+                    entry={entry}
+                    server={server}
+                    status={status}
+                    isActive={isActive}
+                    onToggle={() => handleToggleServer(entry.id)}
+                    onConfigure={() => handleConfigureServer(entry.id)}
+                    onAddToActive={(version) => handleAddToActive(entry.id, version)}
+                    updateAvailable={hasRegistryUpdate(entry, server)}
+                    onUpdate={server ? () => handleUpdateServer(server, entry) : undefined}
+                  />
+                );
+              })}
+            </div>
+          )}
         </section>
       )}
 
@@ -1,9 +1,18 @@
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { CheckCircle, Settings } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useAIConfig } from '@/hooks/useAIConfig';
+import { GenerationParamsFields } from '@/components/chat/GenerationParamsFields';
+import type { ContextStrategy } from '../../../types/preferences';
 import { SettingsSection } from './SettingsSection';
 
 export const AIConfigSection = () => {
@@ -66,6 +75,44 @@ export const AIConfigSection = () => {
           </div>
         </div>
 
+        <div className="space-y-2">
+          <Label htmlFor="contextStrategy">{t('settings:ai_config.context_strategy.label')}</Label>
+          <Select
+            value={config.contextStrategy}
+            onValueChange={(value) => setConfig(prev => ({
+              ...prev,
+              contextStrategy: value as ContextStrategy
+            }))}
+          >
+            <SelectTrigger id="contextStrategy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(['summarize', 'truncate', 'fail'] as const).map((strategy) => (
+                <SelectItem key={strategy} value={strategy}>
+                  {t(`settings:ai_config.context_strategy.options.${strategy}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {t('settings:ai_config.context_strategy.description')}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">{t('settings:ai_config.generation.title')}</h4>
+          <p className="text-xs text-muted-foreground">
+            {t('settings:ai_config.generation.description')}
+          </p>
+          <GenerationParamsFields
+            idPrefix="global-generation"
+            draft={config.generation}
+            onChange={(generation) => setConfig(prev => ({ ...prev, generation }))}
+            invalidField={state.invalidField}
+          />
+        </div>
+
         <div className="flex items-center gap-4 pt-2">
           <Button
             onClick={handleSave}
@@ -0,0 +1,369 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { modelService } from '@/services/modelService';
+import { useMCPStore, isConnectedStatus } from '@/stores/mcpStore';
+import type { Model } from '../../../types/models';
+import type { MCPTool } from '@/types/mcp';
+import {
+  DEFAULT_AGENT_ICON,
+  MAX_AGENT_STEPS,
+  type Agent,
+  type CreateAgentInput,
+} from '../../../types/agents';
+
+// Select value for "keep the current model"
+const NONE = '__none__';
+
+interface AgentDialogProps {
+  open: boolean;
+  agent?: Agent | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (input: CreateAgentInput) => Promise<void>;
+}
+
+/**
+ * Create or edit an agent: persona, model defaults and the MCP tools it may use
+ */
+export function AgentDialog({ open, agent, onOpenChange, onSubmit }: AgentDialogProps) {
+  const { t } = useTranslation('settings');
+  const activeServers = useMCPStore((state) => state.activeServers);
+  const connectionStatus = useMCPStore((state) => state.connectionStatus);
+  const loadActiveServers = useMCPStore((state) => state.loadActiveServers);
+
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState(DEFAULT_AGENT_ICON);
+  const [description, setDescription] = useState('');
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [model, setModel] = useState<string>(NONE);
+  const [temperature, setTemperature] = useState('');
+  const [maxSteps, setMaxSteps] = useState('');
+  const [mcpServers, setMcpServers] = useState<string[] | null>(null);
+  const [tools, setTools] = useState<string[] | null>(null);
+  const [serverTools, setServerTools] = useState<Record<string, MCPTool[]>>({});
+  const [models, setModels] = useState<Model[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName(agent?.name ?? '');
+    setIcon(agent?.icon ?? DEFAULT_AGENT_ICON);
+    setDescription(agent?.description ?? '');
+    setSystemPrompt(agent?.systemPrompt ?? '');
+    setModel(agent?.model || NONE);
+    setTemperature(agent?.temperature != null ? String(agent.temperature) : '');
+    setMaxSteps(agent?.maxSteps != null ? String(agent.maxSteps) : '');
+    setMcpServers(agent?.mcpServers ?? null);
+    setTools(agent?.tools ?? null);
+    setError(null);
+
+    modelService.getAvailableModels().then(setModels).catch(() => setModels([]));
+    loadActiveServers();
+  }, [open, agent, loadActiveServers]);
+
+  // Tools can only be listed for connected servers
+  const connectedIds = activeServers
+    .filter((server) => isConnectedStatus(connectionStatus[server.id]))
+    .map((server) => server.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!open || !connectedIds) return;
+
+    let cancelled = false;
+    Promise.all(
+      connectedIds.split(',').map(async (serverId) => {
+        const result = await window.levante.mcp.listTools(serverId);
+        return [serverId, result.success && result.data ? result.data : []] as const;
+      })
+    )
+      .then((entries) => {
+        if (!cancelled) setServerTools(Object.fromEntries(entries));
+      })
+      .catch(() => {
+        if (!cancelled) setServerTools({});
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, connectedIds]);
+
+  const allowedServers = activeServers.filter(
+    (server) => mcpServers === null || mcpServers.includes(server.id)
+  );
+
+  const toggleServer = (serverId: string, checked: boolean) => {
+    const current = mcpServers ?? [];
+    setMcpServers(checked ? [...current, serverId] : current.filter((id) => id !== serverId));
+    // Drop tools of servers that are no longer allowed
+    if (!checked && tools) {
+      setTools(tools.filter((toolId) => !toolId.startsWith(`${serverId}_`)));
+    }
+  };
+
+  const toggleTool = (toolId: string, checked: boolean) => {
+    const current = tools ?? [];
+    setTools(checked ? [...current, toolId] : current.filter((id) => id !== toolId));
+  };
+
+  const parseOptionalNumber = (value: string): number | null =>
+    value.trim() === '' ? null : Number(value);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !systemPrompt.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        name: name.trim(),
+        icon: icon.trim() || DEFAULT_AGENT_ICON,
+        description: description.trim() || undefined,
+        systemPrompt,
+        model: model === NONE ? null : model,
+        temperature: parseOptionalNumber(temperature),
+        maxSteps: parseOptionalNumber(maxSteps),
+        mcpServers,
+        tools,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The agent may name a model that is not configured here
+  const modelOptions =
+    model !== NONE && !models.some((m) => m.id === model)
+      ? [...models, { id: model, name: model } as Model]
+      : models;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{agent ? t('agents.dialog.title_edit') : t('agents.dialog.title_create')}</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-[80px_1fr]">
+            <div className="space-y-2">
+              <Label htmlFor="agent-icon">{t('agents.dialog.icon')}</Label>
+              <Input
+                id="agent-icon"
+                value={icon}
+                maxLength={16}
+                className="text-center"
+                onChange={(e) => setIcon(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="agent-name">{t('agents.dialog.name')}</Label>
+              <Input
+                id="agent-name"
+                autoFocus
+                value={name}
+                placeholder={t('agents.dialog.name_placeholder')}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="agent-description">{t('agents.dialog.description')}</Label>
+            <Input
+              id="agent-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="agent-prompt">{t('agents.dialog.system_prompt')}</Label>
+            <Textarea
+              id="agent-prompt"
+              value={systemPrompt}
+              placeholder={t('agents.dialog.system_prompt_placeholder')}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              className="min-h-[140px]"
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>{t('agents.dialog.model')}</Label>
+              <Select value={model} onValueChange={setModel}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>{t('agents.dialog.keep_current')}</SelectItem>
+                  {modelOptions.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {m.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="agent-temperature">{t('agents.dialog.temperature')}</Label>
+              <Input
+                id="agent-temperature"
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={temperature}
+                placeholder={t('agents.dialog.provider_default')}
+                onChange={(e) => setTemperature(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="agent-max-steps">{t('agents.dialog.max_steps')}</Label>
+              <Input
+                id="agent-max-steps"
+                type="number"
+                min={1}
+                max={MAX_AGENT_STEPS}
+                step={1}
+                value={maxSteps}
+                placeholder={t('agents.dialog.automatic')}
+                onChange={(e) => setMaxSteps(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* MCP servers */}
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="agent-restrict-servers">{t('agents.dialog.restrict_servers')}</Label>
+                <p className="text-xs text-muted-foreground">{t('agents.dialog.restrict_servers_description')}</p>
+              </div>
+              <Switch
+                id="agent-restrict-servers"
+                checked={mcpServers !== null}
+                onCheckedChange={(checked) => {
+                  setMcpServers(checked ? activeServers.map((server) => server.id) : null);
+                  if (!checked) setTools(null);
+                }}
+              />
+            </div>
+
+            {mcpServers !== null && (
+              activeServers.length === 0 ? (
+                <p className="text-xs text-muted-foreground italic">{t('agents.dialog.no_servers')}</p>
+              ) : (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {activeServers.map((server) => (
+                    <label key={server.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={mcpServers.includes(server.id)}
+                        onCheckedChange={(checked) => toggleServer(server.id, checked === true)}
+                      />
+                      <span className="truncate">{server.name || server.id}</span>
+                    </label>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
+
+          {/* Individual tools */}
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="agent-restrict-tools">{t('agents.dialog.restrict_tools')}</Label>
+                <p className="text-xs text-muted-foreground">{t('agents.dialog.restrict_tools_description')}</p>
+              </div>
+              <Switch
+                id="agent-restrict-tools"
+                checked={tools !== null}
+                onCheckedChange={(checked) =>
+                  setTools(
+                    checked
+                      ? allowedServers.flatMap((server) =>
+                          (serverTools[server.id] ?? []).map((tool) => `${server.id}_${tool.name}`)
+                        )
+                      : null
+                  )
+                }
+              />
+            </div>
+
+            {tools !== null && (
+              <div className="max-h-60 space-y-3 overflow-y-auto">
+                {allowedServers.map((server) => (
+                  <div key={server.id} className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">{server.name || server.id}</p>
+                    {serverTools[server.id]?.length ? (
+                      serverTools[server.id].map((tool) => {
+                        const toolId = `${server.id}_${tool.name}`;
+                        return (
+                          <label key={toolId} className="flex items-start gap-2 text-sm">
+                            <Checkbox
+                              className="mt-0.5"
+                              checked={tools.includes(toolId)}
+                              onCheckedChange={(checked) => toggleTool(toolId, checked === true)}
+                            />
+                            <span className="min-w-0">
+                              <span className="font-mono text-xs">{tool.name}</span>
+                              {tool.description && (
+                                <span className="block line-clamp-1 text-xs text-muted-foreground">
+                                  {tool.description}
+                                </span>
+                              )}
+                            </span>
+                          </label>
+                        );
+                      })
+                    ) : (
+                      <p className="text-xs text-muted-foreground italic">{t('agents.dialog.connect_to_list_tools')}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              {t('agents.dialog.cancel')}
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim() || !systemPrompt.trim()}>
+              {t('agents.dialog.save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { Bot, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAgentStore } from '@/stores/agentStore';
+import { AgentDialog } from './AgentDialog';
+import { SettingsSection } from './SettingsSection';
+import type { Agent, CreateAgentInput } from '../../../types/agents';
+
+export const AgentsSection = () => {
+  const { t } = useTranslation('settings');
+  const { agents, loaded, loadAgents, createAgent, updateAgent, deleteAgent } = useAgentStore();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Agent | null>(null);
+
+  useEffect(() => {
+    if (!loaded) loadAgents();
+  }, [loaded, loadAgents]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (agent: Agent) => {
+    setEditing(agent);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (input: CreateAgentInput) => {
+    if (editing) {
+      await updateAgent({ ...input, id: editing.id });
+    } else {
+      await createAgent(input);
+    }
+    toast.success(t('agents.saved'));
+  };
+
+  const handleDelete = async (agent: Agent) => {
+    if (!window.confirm(t('agents.delete_confirm', { name: agent.name }))) return;
+
+    try {
+      await deleteAgent(agent.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <SettingsSection
+      icon={<Bot className="w-5 h-5" />}
+      title={t('sections.agents')}
+    >
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-muted-foreground">{t('agents.description')}</p>
+        <Button variant="outline" size="sm" onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-1" />
+          {t('agents.new')}
+        </Button>
+      </div>
+
+      {agents.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">{t('agents.empty')}</p>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {agents.map((agent) => (
+            <div key={agent.id} className="flex items-start justify-between gap-4 p-3">
+              <div className="flex min-w-0 flex-1 items-start gap-3">
+                <span className="text-xl leading-none">{agent.icon}</span>
+                <div className="min-w-0 space-y-1">
+                  <div className="font-medium">{agent.name}</div>
+                  <p className="line-clamp-2 text-xs text-muted-foreground">
+                    {agent.description || agent.systemPrompt}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {agent.model && (
+                      <Badge variant="secondary" className="text-[10px]">{agent.model}</Badge>
+                    )}
+                    {agent.temperature != null && (
+                      <Badge variant="secondary" className="text-[10px]">
+                        {t('agents.badges.temperature', { value: agent.temperature })}
+                      </Badge>
+                    )}
+                    {agent.mcpServers && (
+                      <Badge variant="secondary" className="text-[10px]">
+                        {t('agents.badges.servers', { count: agent.mcpServers.length })}
+                      </Badge>
+                    )}
+                    {agent.tools && (
+                      <Badge variant="secondary" className="text-[10px]">
+                        {t('agents.badges.tools', { count: agent.tools.length })}
+                      </Badge>
+                    )}
+                    {agent.maxSteps != null && (
+                      <Badge variant="secondary" className="text-[10px]">
+                        {t('agents.badges.max_steps', { value: agent.maxSteps })}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title={t('agents.edit')}
+                  onClick={() => openEdit(agent)}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  title={t('agents.delete')}
+                  onClick={() => handleDelete(agent)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AgentDialog
+        open={dialogOpen}
+        agent={editing}
+        onOpenChange={setDialogOpen}
+        onSubmit={handleSubmit}
+      />
+    </SettingsSection>
+  );
+};
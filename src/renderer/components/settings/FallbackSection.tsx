@@ -0,0 +1,230 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, CheckCircle, RefreshCw, Trash2, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useFallbackSettings, type FallbackChain } from '@/hooks/useFallbackSettings';
+import { parseModelId, type Model } from '../../../types/models';
+import { SettingsSection } from './SettingsSection';
+
+interface ModelPickerProps {
+  models: Model[];
+  exclude: string[];
+  placeholder: string;
+  onSelect: (modelId: string) => void;
+}
+
+// Select that resets after each pick
+const ModelPicker = ({ models, exclude, placeholder, onSelect }: ModelPickerProps) => (
+  <Select value="" onValueChange={onSelect}>
+    <SelectTrigger className="h-8 w-full sm:w-64">
+      <SelectValue placeholder={placeholder} />
+    </SelectTrigger>
+    <SelectContent>
+      {models
+        .filter((model) => !exclude.includes(model.id))
+        .map((model) => (
+          <SelectItem key={model.id} value={model.id}>
+            {model.name}
+          </SelectItem>
+        ))}
+    </SelectContent>
+  </Select>
+);
+
+export const FallbackSection = () => {
+  const { t } = useTranslation(['settings', 'common']);
+  const {
+    policy,
+    setPolicy,
+    chains,
+    models,
+    updateChain,
+    addChain,
+    removeChain,
+    state,
+    handleSave
+  } = useFallbackSettings();
+
+  // Models removed from their provider are still shown by id
+  const modelName = (id: string) => models.find((model) => model.id === id)?.name ?? parseModelId(id).modelId;
+
+  const moveFallback = (index: number, chain: FallbackChain, from: number, to: number) => {
+    const fallbacks = [...chain.fallbacks];
+    const [moved] = fallbacks.splice(from, 1);
+    fallbacks.splice(to, 0, moved);
+    updateChain(index, { ...chain, fallbacks });
+  };
+
+  return (
+    <SettingsSection
+      icon={<RefreshCw className="w-5 h-5" />}
+      title={t('settings:sections.fallbacks')}
+    >
+      <div className="space-y-4">
+        <p className="text-muted-foreground text-sm">
+          {t('settings:fallbacks.description')}
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="maxRetries">{t('settings:fallbacks.max_retries.label')}</Label>
+            <Input
+              id="maxRetries"
+              type="number"
+              min="0"
+              max="10"
+              value={policy.maxRetries}
+              onChange={(e) => setPolicy(prev => ({
+                ...prev,
+                maxRetries: Math.max(0, parseInt(e.target.value) || 0)
+              }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t('settings:fallbacks.max_retries.description')}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="initialDelay">{t('settings:fallbacks.initial_delay.label')}</Label>
+            <Input
+              id="initialDelay"
+              type="number"
+              min="0.1"
+              step="0.5"
+              value={policy.initialDelayMs / 1000}
+              onChange={(e) => setPolicy(prev => ({
+                ...prev,
+                initialDelayMs: Math.round((parseFloat(e.target.value) || 1) * 1000)
+              }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t('settings:fallbacks.initial_delay.description')}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="maxDelay">{t('settings:fallbacks.max_delay.label')}</Label>
+            <Input
+              id="maxDelay"
+              type="number"
+              min="1"
+              value={policy.maxDelayMs / 1000}
+              onChange={(e) => setPolicy(prev => ({
+                ...prev,
+                maxDelayMs: Math.round((parseFloat(e.target.value) || 30) * 1000)
+              }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t('settings:fallbacks.max_delay.description')}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">{t('settings:fallbacks.chains.title')}</h4>
+          <p className="text-xs text-muted-foreground">
+            {t('settings:fallbacks.chains.description')}
+          </p>
+
+          {chains.map((chain, index) => (
+            <div key={chain.model} className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{modelName(chain.model)}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => removeChain(index)}
+                  title={t('settings:fallbacks.chains.remove')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <ol className="space-y-1">
+                {chain.fallbacks.map((fallback, position) => (
+                  <li key={fallback} className="flex items-center gap-2 text-sm">
+                    <span className="w-5 text-right text-xs text-muted-foreground">{position + 1}.</span>
+                    <span className="flex-1 truncate">{modelName(fallback)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      disabled={position === 0}
+                      onClick={() => moveFallback(index, chain, position, position - 1)}
+                      title={t('settings:fallbacks.chains.move_up')}
+                    >
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      disabled={position === chain.fallbacks.length - 1}
+                      onClick={() => moveFallback(index, chain, position, position + 1)}
+                      title={t('settings:fallbacks.chains.move_down')}
+                    >
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => updateChain(index, {
+                        ...chain,
+                        fallbacks: chain.fallbacks.filter((id) => id !== fallback)
+                      })}
+                      title={t('settings:fallbacks.chains.remove_fallback')}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+
+              <ModelPicker
+                models={models}
+                exclude={[chain.model, ...chain.fallbacks]}
+                placeholder={t('settings:fallbacks.chains.add_fallback')}
+                onSelect={(modelId) => updateChain(index, { ...chain, fallbacks: [...chain.fallbacks, modelId] })}
+              />
+            </div>
+          ))}
+
+          <ModelPicker
+            models={models}
+            exclude={chains.map((chain) => chain.model)}
+            placeholder={t('settings:fallbacks.chains.add_chain')}
+            onSelect={addChain}
+          />
+        </div>
+
+        <div className="flex items-center gap-4 pt-2">
+          <Button
+            onClick={handleSave}
+            disabled={state.saving}
+            variant="outline"
+            size="sm"
+          >
+            {state.saving ? t('settings:personalization.saving') : t('settings:fallbacks.save_button')}
+          </Button>
+
+          {state.saved && (
+            <div className="flex items-center text-green-600 text-sm">
+              <CheckCircle className="w-4 h-4 mr-1" />
+              {t('settings:personalization.saved')}
+            </div>
+          )}
+        </div>
+      </div>
+    </SettingsSection>
+  );
+};
@@ -0,0 +1,116 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CheckCircle, ScrollText } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useLoggingSettings } from '@/hooks/useLoggingSettings';
+import type { LogCategory, LogLevel } from '@preload/preload';
+import { SettingsSection } from './SettingsSection';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const CATEGORIES: LogCategory[] = ['core', 'ai-sdk', 'mcp', 'database', 'ipc', 'preferences', 'models'];
+
+interface LoggingSectionProps {
+  onOpenLogViewer?: () => void;
+}
+
+export const LoggingSection = ({ onOpenLogViewer }: LoggingSectionProps) => {
+  const { t } = useTranslation(['settings', 'common']);
+  const {
+    settings,
+    updateSettings,
+    state,
+    handleSave
+  } = useLoggingSettings();
+
+  const setCategory = (category: LogCategory, enabled: boolean) => {
+    updateSettings({ categories: { ...settings.categories, [category]: enabled } });
+  };
+
+  return (
+    <SettingsSection
+      icon={<ScrollText className="w-5 h-5" />}
+      title={t('settings:sections.logging')}
+    >
+      <div className="space-y-4">
+        <p className="text-muted-foreground text-sm">
+          {t('settings:logging.description')}
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="logLevel">{t('settings:logging.level.label')}</Label>
+          <Select
+            value={settings.level}
+            onValueChange={(value) => updateSettings({ level: value as LogLevel })}
+          >
+            <SelectTrigger id="logLevel" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LEVELS.map((level) => (
+                <SelectItem key={level} value={level}>
+                  {t(`settings:logging.level.options.${level}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {t('settings:logging.level.description')}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <Label className="text-base">{t('settings:logging.categories.label')}</Label>
+          {CATEGORIES.map((category) => (
+            <div key={category} className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor={`logCategory-${category}`}>
+                  {t(`settings:logging.categories.${category}.label`)}
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  {t(`settings:logging.categories.${category}.description`)}
+                </p>
+              </div>
+              <Switch
+                id={`logCategory-${category}`}
+                checked={settings.categories[category]}
+                onCheckedChange={(checked) => setCategory(category, checked)}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 pt-2">
+          <Button
+            onClick={handleSave}
+            disabled={state.saving}
+            variant="outline"
+            size="sm"
+          >
+            {state.saving ? t('settings:personalization.saving') : t('settings:logging.save_button')}
+          </Button>
+
+          {onOpenLogViewer && (
+            <Button onClick={onOpenLogViewer} variant="ghost" size="sm">
+              {t('settings:logging.open_viewer')}
+            </Button>
+          )}
+
+          {state.saved && (
+            <div className="flex items-center text-green-600 text-sm">
+              <CheckCircle className="w-4 h-4 mr-1" />
+              {t('settings:personalization.saved')}
+            </div>
+          )}
+        </div>
+      </div>
+    </SettingsSection>
+  );
+};
@@ -0,0 +1,163 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CheckCircle, Library, Loader2, XCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useMCPRegistrySettings } from '@/hooks/useMCPRegistrySettings';
+import type { MCPRegistryFormat } from '../../../types/preferences';
+import { SettingsSection } from './SettingsSection';
+
+const FORMATS: MCPRegistryFormat[] = ['levante', 'official'];
+
+export const MCPRegistrySection = () => {
+  const { t } = useTranslation(['settings', 'common']);
+  const {
+    settings,
+    updateSettings,
+    state,
+    testState,
+    handleSave,
+    handleTest
+  } = useMCPRegistrySettings();
+
+  const hasUrl = Boolean(settings.url?.trim());
+
+  return (
+    <SettingsSection
+      icon={<Library className="w-5 h-5" />}
+      title={t('settings:sections.mcp_registry')}
+    >
+      <div className="space-y-4">
+        <p className="text-muted-foreground text-sm">
+          {t('settings:mcp_registry.description')}
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="mcpRegistryUrl">{t('settings:mcp_registry.url.label')}</Label>
+          <Input
+            id="mcpRegistryUrl"
+            value={settings.url ?? ''}
+            placeholder="https://registry.modelcontextprotocol.io/v0/servers"
+            onChange={(e) => updateSettings({ url: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">
+            {t('settings:mcp_registry.url.description')}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="mcpRegistryFormat">{t('settings:mcp_registry.format.label')}</Label>
+          <Select
+            value={settings.format}
+            onValueChange={(value) => updateSettings({ format: value as MCPRegistryFormat })}
+          >
+            <SelectTrigger id="mcpRegistryFormat">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORMATS.map((format) => (
+                <SelectItem key={format} value={format}>
+                  {t(`settings:mcp_registry.format.options.${format}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="mcpRegistrySha256">{t('settings:mcp_registry.sha256.label')}</Label>
+          <Input
+            id="mcpRegistrySha256"
+            value={settings.sha256 ?? ''}
+            className="font-mono text-xs"
+            onChange={(e) => updateSettings({ sha256: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">
+            {t('settings:mcp_registry.sha256.description')}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="mcpRegistryPublicKey">{t('settings:mcp_registry.public_key.label')}</Label>
+          <Textarea
+            id="mcpRegistryPublicKey"
+            value={settings.publicKey ?? ''}
+            placeholder="-----BEGIN PUBLIC KEY-----"
+            rows={4}
+            className="font-mono text-xs"
+            onChange={(e) => updateSettings({ publicKey: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">
+            {t('settings:mcp_registry.public_key.description')}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="mcpRegistryRefresh">{t('settings:mcp_registry.refresh_hours.label')}</Label>
+          <Input
+            id="mcpRegistryRefresh"
+            type="number"
+            min="1"
+            value={settings.refreshHours}
+            onChange={(e) => updateSettings({ refreshHours: Math.max(1, parseInt(e.target.value) || 24) })}
+            className="w-32"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 pt-2">
+          <Button
+            onClick={handleSave}
+            disabled={state.saving}
+            variant="outline"
+            size="sm"
+          >
+            {state.saving ? t('settings:personalization.saving') : t('settings:mcp_registry.save_button')}
+          </Button>
+
+          {hasUrl && (
+            <Button
+              onClick={handleTest}
+              disabled={testState.testing}
+              variant="ghost"
+              size="sm"
+            >
+              {testState.testing && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              {t('settings:mcp_registry.test_button')}
+            </Button>
+          )}
+
+          {state.saved && (
+            <div className="flex items-center text-green-600 text-sm">
+              <CheckCircle className="w-4 h-4 mr-1" />
+              {t('settings:personalization.saved')}
+            </div>
+          )}
+
+          {testState.result && (
+            testState.result.success ? (
+              <div className="flex items-center text-green-600 text-sm">
+                <CheckCircle className="w-4 h-4 mr-1" />
+                {testState.result.verified
+                  ? t('settings:mcp_registry.test_success_verified', { count: testState.result.entryCount })
+                  : t('settings:mcp_registry.test_success', { count: testState.result.entryCount })}
+              </div>
+            ) : (
+              <div className="flex items-center text-destructive text-sm">
+                <XCircle className="w-4 h-4 mr-1" />
+                {t('settings:mcp_registry.test_failed', { error: testState.result.error })}
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </SettingsSection>
+  );
+};
@@ -0,0 +1,84 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Bell, CheckCircle, XCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useNotificationSettings } from '@/hooks/useNotificationSettings';
+import type { UIPreferences } from '../../../types/preferences';
+import { SettingsSection } from './SettingsSection';
+
+const OPTIONS: Array<keyof UIPreferences['notifications']> = ['showDesktop', 'showInApp', 'soundEnabled'];
+
+export const NotificationsSection = () => {
+  const { t } = useTranslation(['settings', 'common']);
+  const {
+    settings,
+    updateSettings,
+    state,
+    handleSave,
+    handleTest
+  } = useNotificationSettings();
+
+  return (
+    <SettingsSection
+      icon={<Bell className="w-5 h-5" />}
+      title={t('settings:sections.notifications')}
+    >
+      <div className="space-y-4">
+        <p className="text-muted-foreground text-sm">
+          {t('settings:notifications.description')}
+        </p>
+
+        <div className="space-y-3">
+          {OPTIONS.map((option) => (
+            <div key={option} className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor={`notifications-${option}`} className="text-base">
+                  {t(`settings:notifications.${option}.label`)}
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  {t(`settings:notifications.${option}.description`)}
+                </p>
+              </div>
+              <Switch
+                id={`notifications-${option}`}
+                checked={settings[option]}
+                disabled={option === 'soundEnabled' && !settings.showDesktop}
+                onCheckedChange={(checked) => updateSettings({ [option]: checked })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 pt-2">
+          <Button
+            onClick={handleSave}
+            disabled={state.saving}
+            variant="outline"
+            size="sm"
+          >
+            {state.saving ? t('settings:personalization.saving') : t('settings:notifications.save_button')}
+          </Button>
+
+          <Button onClick={handleTest} variant="ghost" size="sm">
+            {t('settings:notifications.test_button')}
+          </Button>
+
+          {state.saved && (
+            <div className="flex items-center text-green-600 text-sm">
+              <CheckCircle className="w-4 h-4 mr-1" />
+              {t('settings:personalization.saved')}
+            </div>
+          )}
+
+          {state.testError && (
+            <div className="flex items-center text-destructive text-sm">
+              <XCircle className="w-4 h-4 mr-1" />
+              {t('settings:notifications.test_failed', { error: state.testError })}
+            </div>
+          )}
+        </div>
+      </div>
+    </SettingsSection>
+  );
+};
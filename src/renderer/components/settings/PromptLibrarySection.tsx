@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { BookText, Link2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PromptTemplateDialog } from '@/components/chat/PromptTemplateDialog';
+import { usePromptStore } from '@/stores/promptStore';
+import { SettingsSection } from './SettingsSection';
+import type { CreatePromptTemplateInput, PromptTemplate } from '../../../types/prompts';
+
+/**
+ * Build a levante://prompt/add link that imports the template on another machine
+ */
+const buildShareLink = (prompt: PromptTemplate): string => {
+  const params = new URLSearchParams({ name: prompt.name, content: prompt.content });
+  if (prompt.description) params.set('description', prompt.description);
+  if (prompt.tags.length > 0) params.set('tags', prompt.tags.join(','));
+  if (prompt.defaultModel) params.set('model', prompt.defaultModel);
+  if (typeof prompt.enableMCP === 'boolean') params.set('mcp', String(prompt.enableMCP));
+  if (typeof prompt.webSearch === 'boolean') params.set('webSearch', String(prompt.webSearch));
+  return `levante://prompt/add?${params.toString()}`;
+};
+
+export const PromptLibrarySection = () => {
+  const { t } = useTranslation('settings');
+  const { prompts, loaded, loadPrompts, createPrompt, updatePrompt, deletePrompt } = usePromptStore();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+
+  useEffect(() => {
+    if (!loaded) loadPrompts();
+  }, [loaded, loadPrompts]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (prompt: PromptTemplate) => {
+    setEditing(prompt);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (input: CreatePromptTemplateInput) => {
+    if (editing) {
+      await updatePrompt({ ...input, id: editing.id });
+    } else {
+      await createPrompt(input);
+    }
+    toast.success(t('prompt_library.saved'));
+  };
+
+  const handleDelete = async (prompt: PromptTemplate) => {
+    if (!window.confirm(t('prompt_library.delete_confirm', { name: prompt.name }))) return;
+
+    try {
+      await deletePrompt(prompt.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleCopyLink = async (prompt: PromptTemplate) => {
+    try {
+      await navigator.clipboard.writeText(buildShareLink(prompt));
+      toast.success(t('prompt_library.link_copied'));
+    } catch {
+      toast.error(t('prompt_library.link_copy_failed'));
+    }
+  };
+
+  return (
+    <SettingsSection
+      icon={<BookText className="w-5 h-5" />}
+      title={t('sections.prompt_library')}
+    >
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {t('prompt_library.description', { example: '{{name}}' })}
+        </p>
+        <Button variant="outline" size="sm" onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-1" />
+          {t('prompt_library.new')}
+        </Button>
+      </div>
+
+      {prompts.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">{t('prompt_library.empty')}</p>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {prompts.map((prompt) => (
+            <div key={prompt.id} className="flex items-start justify-between gap-4 p-3">
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">/{prompt.name}</span>
+                  {prompt.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="text-[10px]">
+                      {tag}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="line-clamp-2 text-xs text-muted-foreground">
+                  {prompt.description || prompt.content}
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title={t('prompt_library.copy_link')}
+                  onClick={() => handleCopyLink(prompt)}
+                >
+                  <Link2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title={t('prompt_library.edit')}
+                  onClick={() => openEdit(prompt)}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  title={t('prompt_library.delete')}
+                  onClick={() => handleDelete(prompt)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <PromptTemplateDialog
+        open={dialogOpen}
+        mode={editing ? 'edit' : 'create'}
+        initial={editing ?? undefined}
+        onOpenChange={setDialogOpen}
+        onSubmit={handleSubmit}
+      />
+    </SettingsSection>
+  );
+};
@@ -0,0 +1,68 @@
+import { useState, type KeyboardEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { IS_MAC } from '@/stores/shortcutStore';
+import { acceleratorFromEvent, formatShortcut } from '../../../types/shortcuts';
+
+interface ShortcutRecorderProps {
+  id?: string;
+  value: string;
+  onChange: (accelerator: string) => void;
+  disabled?: boolean;
+  invalid?: boolean;
+}
+
+/**
+ * Button that records the next key combination pressed while it is focused.
+ * Escape cancels; Backspace or Delete on their own clear the shortcut.
+ */
+export const ShortcutRecorder = ({ id, value, onChange, disabled, invalid }: ShortcutRecorderProps) => {
+  const { t } = useTranslation('settings');
+  const [recording, setRecording] = useState(false);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+    if (!recording) return;
+
+    // Keeps the key press from running the shortcut it is being bound to
+    event.preventDefault();
+    event.stopPropagation();
+
+    const hasModifier = event.metaKey || event.ctrlKey || event.altKey || event.shiftKey;
+    if (event.key === 'Escape' && !hasModifier) {
+      setRecording(false);
+      return;
+    }
+    if ((event.key === 'Backspace' || event.key === 'Delete') && !hasModifier) {
+      onChange('');
+      setRecording(false);
+      return;
+    }
+
+    const accelerator = acceleratorFromEvent(event.nativeEvent, IS_MAC);
+    if (accelerator) {
+      onChange(accelerator);
+      setRecording(false);
+    }
+  };
+
+  return (
+    <Button
+      id={id}
+      type="button"
+      variant="outline"
+      size="sm"
+      disabled={disabled}
+      onClick={() => setRecording(true)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => setRecording(false)}
+      className={cn('min-w-36 font-mono', invalid && 'border-destructive text-destructive')}
+    >
+      {recording
+        ? t('shortcuts.recorder.press_keys')
+        : value
+          ? formatShortcut(value, IS_MAC)
+          : t('shortcuts.recorder.not_set')}
+    </Button>
+  );
+};
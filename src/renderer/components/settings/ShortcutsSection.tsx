@@ -0,0 +1,152 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { AlertTriangle, CheckCircle, Keyboard, XCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useShortcutSettings } from '@/hooks/useShortcutSettings';
+import { SHORTCUT_ACTIONS, type ShortcutProblem, type ShortcutSlot } from '../../../types/shortcuts';
+import { SettingsSection } from './SettingsSection';
+import { ShortcutRecorder } from './ShortcutRecorder';
+
+export const ShortcutsSection = () => {
+  const { t } = useTranslation(['settings', 'common']);
+  const {
+    settings,
+    updateSettings,
+    problems,
+    hasProblems,
+    globalRegistered,
+    state,
+    handleSave,
+    handleReset
+  } = useShortcutSettings();
+
+  const describeProblem = (problem: ShortcutProblem) => {
+    switch (problem.type) {
+      case 'invalid':
+        return t('settings:shortcuts.problems.invalid');
+      case 'duplicate':
+        return t('settings:shortcuts.problems.duplicate', {
+          action: t(`settings:shortcuts.slots.${problem.slot}.label`)
+        });
+      case 'reserved':
+        return t('settings:shortcuts.problems.reserved', {
+          name: t(`settings:shortcuts.reserved.${problem.name}`)
+        });
+    }
+  };
+
+  const renderProblem = (slot: ShortcutSlot) => {
+    const problem = problems[slot];
+    if (!problem) return null;
+    return (
+      <p className="flex items-center gap-1 text-xs text-destructive">
+        <XCircle className="w-3.5 h-3.5 shrink-0" />
+        {describeProblem(problem)}
+      </p>
+    );
+  };
+
+  return (
+    <SettingsSection
+      icon={<Keyboard className="w-5 h-5" />}
+      title={t('settings:sections.shortcuts')}
+    >
+      <div className="space-y-4">
+        <p className="text-muted-foreground text-sm">
+          {t('settings:shortcuts.description')}
+        </p>
+
+        <div className="space-y-3">
+          {SHORTCUT_ACTIONS.map((action) => (
+            <div key={action} className="space-y-1">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor={`shortcut-${action}`}>
+                  {t(`settings:shortcuts.slots.${action}.label`)}
+                </Label>
+                <ShortcutRecorder
+                  id={`shortcut-${action}`}
+                  value={settings[action]}
+                  onChange={(accelerator) => updateSettings({ [action]: accelerator })}
+                  invalid={Boolean(problems[action])}
+                />
+              </div>
+              {renderProblem(action)}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="globalShortcutEnabled" className="text-base">
+                {t('settings:shortcuts.slots.globalNewChat.label')}
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                {t('settings:shortcuts.slots.globalNewChat.description')}
+              </p>
+            </div>
+            <Switch
+              id="globalShortcutEnabled"
+              checked={settings.globalEnabled}
+              onCheckedChange={(checked) => updateSettings({ globalEnabled: checked })}
+            />
+          </div>
+
+          {settings.globalEnabled && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="shortcut-globalNewChat">
+                  {t('settings:shortcuts.global_accelerator')}
+                </Label>
+                <ShortcutRecorder
+                  id="shortcut-globalNewChat"
+                  value={settings.globalNewChat}
+                  onChange={(accelerator) => updateSettings({ globalNewChat: accelerator })}
+                  invalid={Boolean(problems.globalNewChat)}
+                />
+              </div>
+              {renderProblem('globalNewChat')}
+            </div>
+          )}
+
+          {!globalRegistered && (
+            <p className="flex items-center gap-1 text-xs text-yellow-700 dark:text-yellow-400">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+              {t('settings:shortcuts.global_unavailable')}
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 pt-2">
+          <Button
+            onClick={handleSave}
+            disabled={state.saving || hasProblems}
+            variant="outline"
+            size="sm"
+          >
+            {state.saving ? t('settings:personalization.saving') : t('settings:shortcuts.save_button')}
+          </Button>
+
+          <Button onClick={handleReset} variant="ghost" size="sm">
+            {t('settings:shortcuts.reset_button')}
+          </Button>
+
+          {state.saved && (
+            <div className="flex items-center text-green-600 text-sm">
+              <CheckCircle className="w-4 h-4 mr-1" />
+              {t('settings:personalization.saved')}
+            </div>
+          )}
+
+          {state.error && (
+            <div className="flex items-center text-destructive text-sm">
+              <XCircle className="w-4 h-4 mr-1" />
+              {t('settings:shortcuts.save_failed', { error: state.error })}
+            </div>
+          )}
+        </div>
+      </div>
+    </SettingsSection>
+  );
+};
@@ -0,0 +1,179 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CheckCircle, Globe, Loader2, XCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useWebSearchSettings } from '@/hooks/useWebSearchSettings';
+import type { WebSearchProvider } from '../../../types/preferences';
+import { SettingsSection } from './SettingsSection';
+
+const PROVIDERS: WebSearchProvider[] = ['native', 'searxng', 'brave', 'tavily'];
+
+export const WebSearchSection = () => {
+  const { t } = useTranslation(['settings', 'common']);
+  const {
+    settings,
+    updateSettings,
+    state,
+    testState,
+    handleSave,
+    handleTest
+  } = useWebSearchSettings();
+
+  const isNative = settings.provider === 'native';
+
+  return (
+    <SettingsSection
+      icon={<Globe className="w-5 h-5" />}
+      title={t('settings:sections.web_search')}
+    >
+      <div className="space-y-4">
+        <p className="text-muted-foreground text-sm">
+          {t('settings:web_search.description')}
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="webSearchProvider">{t('settings:web_search.provider.label')}</Label>
+          <Select
+            value={settings.provider}
+            onValueChange={(value) => updateSettings({ provider: value as WebSearchProvider })}
+          >
+            <SelectTrigger id="webSearchProvider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROVIDERS.map((provider) => (
+                <SelectItem key={provider} value={provider}>
+                  {t(`settings:web_search.provider.options.${provider}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {t(`settings:web_search.provider.descriptions.${settings.provider}`)}
+          </p>
+        </div>
+
+        {settings.provider === 'searxng' && (
+          <div className="space-y-2">
+            <Label htmlFor="searxngUrl">{t('settings:web_search.searxng_url.label')}</Label>
+            <Input
+              id="searxngUrl"
+              value={settings.searxngUrl}
+              placeholder="http://localhost:8080"
+              onChange={(e) => updateSettings({ searxngUrl: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t('settings:web_search.searxng_url.description')}
+            </p>
+          </div>
+        )}
+
+        {settings.provider === 'brave' && (
+          <div className="space-y-2">
+            <Label htmlFor="braveApiKey">{t('settings:web_search.api_key.label')}</Label>
+            <Input
+              id="braveApiKey"
+              type="password"
+              value={settings.braveApiKey ?? ''}
+              onChange={(e) => updateSettings({ braveApiKey: e.target.value })}
+            />
+          </div>
+        )}
+
+        {settings.provider === 'tavily' && (
+          <div className="space-y-2">
+            <Label htmlFor="tavilyApiKey">{t('settings:web_search.api_key.label')}</Label>
+            <Input
+              id="tavilyApiKey"
+              type="password"
+              value={settings.tavilyApiKey ?? ''}
+              onChange={(e) => updateSettings({ tavilyApiKey: e.target.value })}
+            />
+          </div>
+        )}
+
+        {(settings.provider === 'brave' || settings.provider === 'tavily') && (
+          <div className="space-y-2">
+            <Label htmlFor="webSearchBaseUrl">{t('settings:web_search.base_url.label')}</Label>
+            <Input
+              id="webSearchBaseUrl"
+              value={settings.baseUrl ?? ''}
+              placeholder={t('settings:web_search.base_url.placeholder')}
+              onChange={(e) => updateSettings({ baseUrl: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t('settings:web_search.base_url.description')}
+            </p>
+          </div>
+        )}
+
+        {!isNative && (
+          <div className="space-y-2">
+            <Label htmlFor="webSearchMaxResults">{t('settings:web_search.max_results.label')}</Label>
+            <Input
+              id="webSearchMaxResults"
+              type="number"
+              min="1"
+              max="20"
+              value={settings.maxResults}
+              onChange={(e) => updateSettings({ maxResults: parseInt(e.target.value) || 5 })}
+              className="w-32"
+            />
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4 pt-2">
+          <Button
+            onClick={handleSave}
+            disabled={state.saving}
+            variant="outline"
+            size="sm"
+          >
+            {state.saving ? t('settings:personalization.saving') : t('settings:web_search.save_button')}
+          </Button>
+
+          {!isNative && (
+            <Button
+              onClick={handleTest}
+              disabled={testState.testing}
+              variant="ghost"
+              size="sm"
+            >
+              {testState.testing && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              {t('settings:web_search.test_button')}
+            </Button>
+          )}
+
+          {state.saved && (
+            <div className="flex items-center text-green-600 text-sm">
+              <CheckCircle className="w-4 h-4 mr-1" />
+              {t('settings:personalization.saved')}
+            </div>
+          )}
+
+          {testState.result && (
+            testState.result.success ? (
+              <div className="flex items-center text-green-600 text-sm">
+                <CheckCircle className="w-4 h-4 mr-1" />
+                {t('settings:web_search.test_success', { count: testState.result.resultCount })}
+              </div>
+            ) : (
+              <div className="flex items-center text-destructive text-sm">
+                <XCircle className="w-4 h-4 mr-1" />
+                {t('settings:web_search.test_failed', { error: testState.result.error })}
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </SettingsSection>
+  );
+};
@@ -1,5 +1,13 @@
 export { SettingsSection } from './SettingsSection';
 export { PersonalizationSection } from './PersonalizationSection';
 export { AppearanceSection } from './AppearanceSection';
+export { ShortcutsSection } from './ShortcutsSection';
+export { NotificationsSection } from './NotificationsSection';
 export { SecuritySection } from './SecuritySection';
 export { AIConfigSection } from './AIConfigSection';
+export { WebSearchSection } from './WebSearchSection';
+export { MCPRegistrySection } from './MCPRegistrySection';
+export { LoggingSection } from './LoggingSection';
+export { FallbackSection } from './FallbackSection';
+export { PromptLibrarySection } from './PromptLibrarySection';
+export { AgentsSection } from './AgentsSection';
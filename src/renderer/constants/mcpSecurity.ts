@@ -44,3 +44,9 @@ export interface AISecurityAnalysis {
   recommendations?: string[];
   error?: string;
 }
+
+/**
+ * Host variables a sandboxed server gets when its policy has no allowlist
+ * (mirrors DEFAULT_SANDBOX_ENV in the main process)
+ */
+export const DEFAULT_SANDBOX_ENV = ['HOME', 'LANG', 'LC_ALL', 'TERM', 'TMPDIR', 'USER'];
@@ -1,5 +1,13 @@
 import { useState, useEffect } from 'react';
 import { getRendererLogger } from '@/services/logger';
+import {
+  EMPTY_GENERATION_DRAFT,
+  parseGenerationDraft,
+  toGenerationDraft,
+  type GenerationDraft,
+  type GenerationDraftField,
+} from '@/lib/generationParams';
+import type { ContextStrategy } from '../../types/preferences';
 
 const logger = getRendererLogger();
 
@@ -7,11 +15,14 @@ export const useAIConfig = () => {
   const [config, setConfig] = useState({
     baseSteps: 5,
     maxSteps: 20,
+    contextStrategy: 'summarize' as ContextStrategy,
+    generation: EMPTY_GENERATION_DRAFT as GenerationDraft,
   });
 
   const [state, setState] = useState({
     saving: false,
-    saved: false
+    saved: false,
+    invalidField: undefined as GenerationDraftField | undefined
   });
 
   useEffect(() => {
@@ -24,7 +35,9 @@ export const useAIConfig = () => {
       setConfig(prev => ({
         ...prev,
         baseSteps: aiConfig?.data?.baseSteps || 5,
-        maxSteps: aiConfig?.data?.maxSteps || 20
+        maxSteps: aiConfig?.data?.maxSteps || 20,
+        contextStrategy: aiConfig?.data?.contextStrategy || 'summarize',
+        generation: toGenerationDraft(aiConfig?.data?.generation)
       }));
     } catch (error) {
       logger.preferences.error('Error loading AI steps configuration', {
@@ -34,12 +47,23 @@ export const useAIConfig = () => {
   };
 
   const handleSave = async () => {
-    setState(prev => ({ ...prev, saving: true, saved: false }));
+    const generation = parseGenerationDraft(config.generation);
+    if (generation.invalidField) {
+      setState(prev => ({ ...prev, invalidField: generation.invalidField }));
+      return;
+    }
+
+    setState(prev => ({ ...prev, saving: true, saved: false, invalidField: undefined }));
 
     try {
+      // Keep fields of the ai preference this section does not edit
+      const current = await window.levante.preferences.get('ai');
       await window.levante.preferences.set('ai', {
+        ...current?.data,
         baseSteps: config.baseSteps,
-        maxSteps: config.maxSteps
+        maxSteps: config.maxSteps,
+        contextStrategy: config.contextStrategy,
+        generation: generation.params ?? undefined
       });
 
       setState(prev => ({ ...prev, saving: false, saved: true }));
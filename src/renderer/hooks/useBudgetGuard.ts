@@ -0,0 +1,104 @@
+import { useCallback, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { getRendererLogger } from '@/services/logger';
+import { formatCost, startOfMonth } from '@/lib/usage';
+import type { UIPreferences } from '../../types/preferences';
+
+const logger = getRendererLogger();
+
+export interface BudgetWarning {
+  spent: number;
+  limit: number;
+  estimate: number | null;
+}
+
+/**
+ * Checks the monthly budget before a message is sent. Going over the limit
+ * asks for confirmation; crossing the warning threshold only shows a toast.
+ * Models without pricing cannot be counted, which is also shown as a toast.
+ */
+export function useBudgetGuard() {
+  const { t } = useTranslation('usage');
+  const [budgetWarning, setBudgetWarning] = useState<BudgetWarning | null>(null);
+  const resolveRef = useRef<((proceed: boolean) => void) | null>(null);
+  // Month for which the threshold toast was already shown
+  const warnedMonthRef = useRef<number | null>(null);
+  // Models for which the "cannot be enforced" toast was already shown
+  const warnedUnpricedRef = useRef(new Set<string>());
+
+  /**
+   * Resolves to false when the user decides not to send
+   */
+  const checkBudget = useCallback(
+    async (estimatedCost: number | null, modelName: string): Promise<boolean> => {
+      try {
+        const budgetResult = await window.levante.preferences.get('budget');
+        const budget = budgetResult?.data as UIPreferences['budget'] | undefined;
+        if (!budget?.monthlyLimit) {
+          return true;
+        }
+
+        // No pricing means this send adds nothing to the spend, so say so instead of passing silently
+        if (estimatedCost === null && !warnedUnpricedRef.current.has(modelName)) {
+          warnedUnpricedRef.current.add(modelName);
+          logger.core.warn('Monthly budget cannot be enforced for unpriced model', { model: modelName });
+          toast.warning(t('budget.unpriced_title', { model: modelName }), {
+            description: t('budget.unpriced_description'),
+          });
+        }
+
+        const monthStart = startOfMonth();
+        const statsResult = await window.levante.db.usage.stats({ date_from: monthStart });
+        if (!statsResult.success || !statsResult.data) {
+          return true;
+        }
+
+        const spent = statsResult.data.totals.cost;
+        const projected = spent + (estimatedCost ?? 0);
+
+        if (projected > budget.monthlyLimit) {
+          logger.core.warn('Send would exceed monthly budget', {
+            spent,
+            estimate: estimatedCost,
+            limit: budget.monthlyLimit,
+          });
+          return new Promise<boolean>((resolve) => {
+            resolveRef.current = resolve;
+            setBudgetWarning({ spent, limit: budget.monthlyLimit!, estimate: estimatedCost });
+          });
+        }
+
+        if (
+          projected >= (budget.monthlyLimit * budget.warnAtPercent) / 100 &&
+          warnedMonthRef.current !== monthStart
+        ) {
+          warnedMonthRef.current = monthStart;
+          toast.warning(t('budget.threshold_reached', { percent: budget.warnAtPercent }), {
+            description: t('budget.spent_of', {
+              spent: formatCost(spent),
+              limit: formatCost(budget.monthlyLimit),
+            }),
+          });
+        }
+
+        return true;
+      } catch (error) {
+        // Never block sending because the check itself failed
+        logger.core.error('Failed to check monthly budget', {
+          error: error instanceof Error ? error.message : error,
+        });
+        return true;
+      }
+    },
+    [t]
+  );
+
+  const resolveBudgetWarning = useCallback((proceed: boolean) => {
+    resolveRef.current?.(proceed);
+    resolveRef.current = null;
+    setBudgetWarning(null);
+  }, []);
+
+  return { checkBudget, budgetWarning, resolveBudgetWarning };
+}
@@ -0,0 +1,80 @@
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { useChatStore } from '@/stores/chatStore';
+import { getRendererLogger } from '@/services/logger';
+import type {
+  ConversationExportFormat,
+  ConversationExportTarget,
+  ConversationImportResult,
+} from '../../types/conversationExport';
+
+const logger = getRendererLogger();
+
+/**
+ * Export and import conversations through the main process file dialogs,
+ * reporting the outcome with a toast
+ */
+export function useConversationTransfer() {
+  const { t } = useTranslation('chat');
+
+  const exportConversation = useCallback(
+    async (target: ConversationExportTarget, format: ConversationExportFormat) => {
+      try {
+        const result = await window.levante.conversations.export(target, format);
+
+        if (!result.success) {
+          throw new Error(result.error || 'Export failed');
+        }
+        // null means the save dialog was cancelled
+        if (result.data) {
+          toast.success(t('conversation_transfer.exported'), { description: result.data });
+        }
+      } catch (error) {
+        logger.database.error('Failed to export conversation', {
+          target,
+          format,
+          error: error instanceof Error ? error.message : error,
+        });
+        toast.error(t('conversation_transfer.export_failed'), {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      }
+    },
+    [t]
+  );
+
+  const importConversations = useCallback(async (): Promise<ConversationImportResult | null> => {
+    try {
+      const result = await window.levante.conversations.import();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Import failed');
+      }
+      if (!result.data) {
+        return null;
+      }
+
+      const { refreshSessions, refreshFolders, refreshTags, loadSession } = useChatStore.getState();
+      await Promise.all([refreshSessions(), refreshFolders(), refreshTags()]);
+
+      // A single imported chat is opened right away
+      if (result.data.sessions.length === 1) {
+        await loadSession(result.data.sessions[0].id);
+      }
+
+      toast.success(t('conversation_transfer.imported', { count: result.data.sessions.length }));
+      return result.data;
+    } catch (error) {
+      logger.database.error('Failed to import conversations', {
+        error: error instanceof Error ? error.message : error,
+      });
+      toast.error(t('conversation_transfer.import_failed'), {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return null;
+    }
+  }, [t]);
+
+  return { exportConversation, importConversations };
+}
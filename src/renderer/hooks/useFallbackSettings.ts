@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { getRendererLogger } from '@/services/logger';
+import { modelService } from '@/services/modelService';
+import type { Model } from '../../types/models';
+import {
+  DEFAULT_PREFERENCES,
+  DEFAULT_RETRY_POLICY,
+  type ModelSettings,
+  type RetryPolicy
+} from '../../types/preferences';
+
+const logger = getRendererLogger();
+
+export interface FallbackChain {
+  model: string;
+  fallbacks: string[];
+}
+
+export const useFallbackSettings = () => {
+  const [policy, setPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+  const [chains, setChains] = useState<FallbackChain[]>([]);
+  const [models, setModels] = useState<Model[]>([]);
+
+  const [state, setState] = useState({
+    saving: false,
+    saved: false
+  });
+
+  useEffect(() => {
+    loadSettings();
+    modelService.getAvailableModels().then(setModels).catch(() => setModels([]));
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const [aiConfig, modelSettings] = await Promise.all([
+        window.levante.preferences.get('ai'),
+        window.levante.preferences.get('modelSettings')
+      ]);
+      setPolicy({ ...DEFAULT_RETRY_POLICY, ...aiConfig?.data?.retry });
+      setChains(
+        Object.entries((modelSettings?.data ?? {}) as Record<string, ModelSettings>)
+          .filter(([, settings]) => settings.fallbacks?.length)
+          .map(([model, settings]) => ({ model, fallbacks: settings.fallbacks ?? [] }))
+      );
+    } catch (error) {
+      logger.preferences.error('Error loading retry and fallback settings', {
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  };
+
+  const updateChain = (index: number, chain: FallbackChain) => {
+    setChains(prev => prev.map((current, i) => (i === index ? chain : current)));
+  };
+
+  const addChain = (model: string) => {
+    setChains(prev => (prev.some((chain) => chain.model === model) ? prev : [...prev, { model, fallbacks: [] }]));
+  };
+
+  const removeChain = (index: number) => {
+    setChains(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    setState(prev => ({ ...prev, saving: true, saved: false }));
+
+    try {
+      // Both preferences hold other settings, so merge into what is stored
+      const [aiConfig, modelSettings] = await Promise.all([
+        window.levante.preferences.get('ai'),
+        window.levante.preferences.get('modelSettings')
+      ]);
+
+      // Chains removed from the list are cleared
+      const nextModelSettings: Record<string, ModelSettings> = {};
+      for (const [model, settings] of Object.entries((modelSettings?.data ?? {}) as Record<string, ModelSettings>)) {
+        nextModelSettings[model] = { ...settings };
+        delete nextModelSettings[model].fallbacks;
+      }
+      for (const chain of chains) {
+        const fallbacks = chain.fallbacks.filter((fallback) => fallback && fallback !== chain.model);
+        if (fallbacks.length > 0) {
+          nextModelSettings[chain.model] = { ...nextModelSettings[chain.model], fallbacks };
+        }
+      }
+
+      await window.levante.preferences.set('ai', { ...DEFAULT_PREFERENCES.ai, ...aiConfig?.data, retry: policy });
+      await window.levante.preferences.set('modelSettings', nextModelSettings);
+
+      setState(prev => ({ ...prev, saving: false, saved: true }));
+
+      setTimeout(() => {
+        setState(prev => ({ ...prev, saved: false }));
+      }, 3000);
+    } catch (error) {
+      logger.preferences.error('Error saving retry and fallback settings', {
+        error: error instanceof Error ? error.message : error
+      });
+      setState(prev => ({ ...prev, saving: false }));
+    }
+  };
+
+  return {
+    policy,
+    setPolicy,
+    chains,
+    models,
+    updateChain,
+    addChain,
+    removeChain,
+    state,
+    handleSave
+  };
+};
@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import { getRendererLogger } from '@/services/logger';
+import type { LoggingSettings } from '../../types/preferences';
+
+const logger = getRendererLogger();
+
+const DEFAULT_SETTINGS: LoggingSettings = {
+  level: 'debug',
+  categories: {
+    'ai-sdk': false,
+    mcp: false,
+    database: false,
+    ipc: false,
+    preferences: false,
+    models: false,
+    core: true,
+  },
+};
+
+export const useLoggingSettings = () => {
+  const [settings, setSettings] = useState<LoggingSettings>(DEFAULT_SETTINGS);
+
+  const [state, setState] = useState({
+    saving: false,
+    saved: false
+  });
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  // Shows what the logger is running with, including environment defaults
+  const loadSettings = async () => {
+    try {
+      const result = await window.levante.logger.getConfig();
+      if (result?.data) {
+        setSettings({
+          level: result.data.level,
+          categories: { ...DEFAULT_SETTINGS.categories, ...result.data.categories },
+        });
+      }
+    } catch (error) {
+      logger.preferences.error('Error loading logging settings', {
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  };
+
+  const updateSettings = (update: Partial<LoggingSettings>) => {
+    setSettings(prev => ({ ...prev, ...update }));
+  };
+
+  const handleSave = async () => {
+    setState(prev => ({ ...prev, saving: true, saved: false }));
+
+    try {
+      await window.levante.preferences.set('logging', settings);
+      // Applies right away, without a restart
+      await window.levante.logger.configure(settings);
+
+      setState(prev => ({ ...prev, saving: false, saved: true }));
+
+      setTimeout(() => {
+        setState(prev => ({ ...prev, saved: false }));
+      }, 3000);
+    } catch (error) {
+      logger.preferences.error('Error saving logging settings', {
+        error: error instanceof Error ? error.message : error
+      });
+      setState(prev => ({ ...prev, saving: false }));
+    }
+  };
+
+  return {
+    settings,
+    updateSettings,
+    state,
+    handleSave
+  };
+};
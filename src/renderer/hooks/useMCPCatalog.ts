@@ -0,0 +1,87 @@
+import { useCallback, useRef, useState } from 'react';
+import { getRendererLogger } from '@/services/logger';
+import type { MCPPrompt, MCPResource } from '@/types/mcp';
+import { isConnectedStatus } from '@/stores/mcpStore';
+
+const logger = getRendererLogger();
+
+// Lists are refetched when a menu opens and the last load is older than this
+const CATALOG_TTL_MS = 30_000;
+
+export interface MCPCatalogResource extends MCPResource {
+  serverId: string;
+  serverName: string;
+}
+
+export interface MCPCatalogPrompt extends MCPPrompt {
+  serverId: string;
+  serverName: string;
+}
+
+/**
+ * Resources and prompts offered by the connected MCP servers, loaded on demand
+ * for the @ mention and / menus of the chat input
+ */
+export function useMCPCatalog() {
+  const [resources, setResources] = useState<MCPCatalogResource[]>([]);
+  const [prompts, setPrompts] = useState<MCPCatalogPrompt[]>([]);
+  const [loading, setLoading] = useState(false);
+  const loadedAtRef = useRef(0);
+  const loadingRef = useRef(false);
+
+  const load = useCallback(async (force = false) => {
+    if (loadingRef.current) return;
+    if (!force && Date.now() - loadedAtRef.current < CATALOG_TTL_MS) return;
+
+    loadingRef.current = true;
+    setLoading(true);
+    try {
+      const [statusResult, serversResult] = await Promise.all([
+        window.levante.mcp.connectionStatus(),
+        window.levante.mcp.listServers(),
+      ]);
+
+      const names = new Map((serversResult.data ?? []).map((server) => [server.id, server.name || server.id]));
+      const connected = Object.entries(statusResult.data ?? {})
+        .filter(([, status]) => isConnectedStatus(status))
+        .map(([serverId]) => serverId);
+
+      // One failing server must not hide what the others offer
+      const perServer = await Promise.all(
+        connected.map(async (serverId) => {
+          const serverName = names.get(serverId) ?? serverId;
+          const [resourceResult, promptResult] = await Promise.all([
+            window.levante.mcp.listResources(serverId).catch(() => null),
+            window.levante.mcp.listPrompts(serverId).catch(() => null),
+          ]);
+
+          return {
+            resources: (resourceResult?.success ? resourceResult.data ?? [] : []).map((resource) => ({
+              ...resource,
+              serverId,
+              serverName,
+            })),
+            prompts: (promptResult?.success ? promptResult.data ?? [] : []).map((prompt) => ({
+              ...prompt,
+              serverId,
+              serverName,
+            })),
+          };
+        })
+      );
+
+      setResources(perServer.flatMap((entry) => entry.resources));
+      setPrompts(perServer.flatMap((entry) => entry.prompts));
+      loadedAtRef.current = Date.now();
+    } catch (error) {
+      logger.mcp.error('Failed to load MCP resources and prompts', {
+        error: error instanceof Error ? error.message : error,
+      });
+    } finally {
+      loadingRef.current = false;
+      setLoading(false);
+    }
+  }, []);
+
+  return { resources, prompts, loading, load };
+}
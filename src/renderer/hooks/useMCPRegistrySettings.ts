@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { getRendererLogger } from '@/services/logger';
+import { useMCPStore } from '@/stores/mcpStore';
+import type { MCPRegistrySettings } from '../../types/preferences';
+
+const logger = getRendererLogger();
+
+const DEFAULT_SETTINGS: MCPRegistrySettings = {
+  format: 'levante',
+  refreshHours: 24,
+};
+
+export const useMCPRegistrySettings = () => {
+  const [settings, setSettings] = useState<MCPRegistrySettings>(DEFAULT_SETTINGS);
+
+  const [state, setState] = useState({
+    saving: false,
+    saved: false
+  });
+
+  const [testState, setTestState] = useState<{
+    testing: boolean;
+    result?: { success: boolean; entryCount?: number; verified?: boolean; error?: string };
+  }>({ testing: false });
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const result = await window.levante.preferences.get('mcpRegistry');
+      if (result?.data) {
+        setSettings({ ...DEFAULT_SETTINGS, ...result.data });
+      }
+    } catch (error) {
+      logger.preferences.error('Error loading MCP registry settings', {
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  };
+
+  const updateSettings = (update: Partial<MCPRegistrySettings>) => {
+    setSettings(prev => ({ ...prev, ...update }));
+    setTestState({ testing: false });
+  };
+
+  const handleSave = async () => {
+    setState(prev => ({ ...prev, saving: true, saved: false }));
+
+    try {
+      await window.levante.preferences.set('mcpRegistry', {
+        ...settings,
+        // Empty fields are stored as unset
+        url: settings.url?.trim() || undefined,
+        sha256: settings.sha256?.trim() || undefined,
+        publicKey: settings.publicKey?.trim() || undefined,
+      });
+
+      setState(prev => ({ ...prev, saving: false, saved: true }));
+
+      // The Store switches to the new registry right away
+      void useMCPStore.getState().syncRegistry();
+
+      setTimeout(() => {
+        setState(prev => ({ ...prev, saved: false }));
+      }, 3000);
+    } catch (error) {
+      logger.preferences.error('Error saving MCP registry settings', {
+        error: error instanceof Error ? error.message : error
+      });
+      setState(prev => ({ ...prev, saving: false }));
+    }
+  };
+
+  // Fetches and verifies the registry with the settings shown, saved or not
+  const handleTest = async () => {
+    setTestState({ testing: true });
+
+    const result = await window.levante.mcp.testRegistry(settings);
+    setTestState({
+      testing: false,
+      result: result.success
+        ? { success: true, entryCount: result.data?.entryCount ?? 0, verified: result.data?.verified }
+        : { success: false, error: result.error },
+    });
+  };
+
+  return {
+    settings,
+    updateSettings,
+    state,
+    testState,
+    handleSave,
+    handleTest
+  };
+};
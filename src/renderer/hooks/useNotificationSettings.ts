@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react';
+import { getRendererLogger } from '@/services/logger';
+import { DEFAULT_PREFERENCES, type UIPreferences } from '../../types/preferences';
+
+const logger = getRendererLogger();
+
+type NotificationSettings = UIPreferences['notifications'];
+
+export const useNotificationSettings = () => {
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_PREFERENCES.notifications);
+
+  const [state, setState] = useState({
+    saving: false,
+    saved: false,
+    testError: null as string | null
+  });
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const result = await window.levante.preferences.get('notifications');
+      if (result?.data) {
+        setSettings({ ...DEFAULT_PREFERENCES.notifications, ...result.data });
+      }
+    } catch (error) {
+      logger.preferences.error('Error loading notification settings', {
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  };
+
+  const updateSettings = (update: Partial<NotificationSettings>) => {
+    setSettings(prev => ({ ...prev, ...update }));
+  };
+
+  const handleSave = async () => {
+    setState(prev => ({ ...prev, saving: true, saved: false }));
+
+    try {
+      await window.levante.preferences.set('notifications', settings);
+
+      setState(prev => ({ ...prev, saving: false, saved: true }));
+
+      setTimeout(() => {
+        setState(prev => ({ ...prev, saved: false }));
+      }, 3000);
+    } catch (error) {
+      logger.preferences.error('Error saving notification settings', {
+        error: error instanceof Error ? error.message : error
+      });
+      setState(prev => ({ ...prev, saving: false }));
+    }
+  };
+
+  const handleTest = async () => {
+    const result = await window.levante.notifications.test(settings);
+    setState(prev => ({ ...prev, testError: result.success ? null : result.error || 'Unknown error' }));
+  };
+
+  return {
+    settings,
+    updateSettings,
+    state,
+    handleSave,
+    handleTest
+  };
+};
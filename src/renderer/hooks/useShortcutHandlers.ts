@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import { useShortcutStore, IS_MAC } from '@/stores/shortcutStore';
+import { SHORTCUT_ACTIONS, matchesShortcut } from '../../types/shortcuts';
+import type { ShortcutAction } from '../../types/preferences';
+
+/**
+ * Run handlers when their action's shortcut is pressed or its menu item is
+ * picked. Components only pass the actions they can perform.
+ */
+export const useShortcutHandlers = (handlers: Partial<Record<ShortcutAction, () => void>>) => {
+  const shortcuts = useShortcutStore(state => state.shortcuts);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Already handled, e.g. by the shortcut recorder in Settings
+      if (event.defaultPrevented || event.repeat) return;
+
+      for (const action of SHORTCUT_ACTIONS) {
+        const handler = handlersRef.current[action];
+        if (handler && matchesShortcut(event, shortcuts[action], IS_MAC)) {
+          // Also keeps the menu accelerator from running the action a second time
+          event.preventDefault();
+          handler();
+          return;
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts]);
+
+  useEffect(() => {
+    return window.levante.shortcuts.onAction((action) => {
+      handlersRef.current[action]?.();
+    });
+  }, []);
+};
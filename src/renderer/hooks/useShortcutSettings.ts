@@ -0,0 +1,71 @@
+import { useState, useEffect, useMemo } from 'react';
+import { getRendererLogger } from '@/services/logger';
+import { useShortcutStore, IS_MAC } from '@/stores/shortcutStore';
+import { findShortcutConflicts } from '../../types/shortcuts';
+import { DEFAULT_PREFERENCES, type ShortcutSettings } from '../../types/preferences';
+
+const logger = getRendererLogger();
+
+export const useShortcutSettings = () => {
+  const storedShortcuts = useShortcutStore(state => state.shortcuts);
+  const globalRegistered = useShortcutStore(state => state.globalRegistered);
+  const [settings, setSettings] = useState<ShortcutSettings>(storedShortcuts);
+
+  const [state, setState] = useState<{ saving: boolean; saved: boolean; error?: string }>({
+    saving: false,
+    saved: false
+  });
+
+  // Follow the saved shortcuts once they load or change in another window
+  useEffect(() => {
+    setSettings(storedShortcuts);
+  }, [storedShortcuts]);
+
+  const problems = useMemo(() => findShortcutConflicts(settings, IS_MAC), [settings]);
+  const hasProblems = Object.keys(problems).length > 0;
+
+  const updateSettings = (update: Partial<ShortcutSettings>) => {
+    setSettings(prev => ({ ...prev, ...update }));
+    setState(prev => ({ ...prev, error: undefined }));
+  };
+
+  const handleReset = () => {
+    setSettings({ ...DEFAULT_PREFERENCES.shortcuts, globalEnabled: settings.globalEnabled });
+  };
+
+  const handleSave = async () => {
+    if (hasProblems) return;
+    setState({ saving: true, saved: false });
+
+    try {
+      const result = await window.levante.shortcuts.update(settings);
+      if (!result.success || !result.data) {
+        setState({ saving: false, saved: false, error: result.error });
+        return;
+      }
+
+      useShortcutStore.getState().applyStatus(result.data);
+      setState({ saving: false, saved: true });
+
+      setTimeout(() => {
+        setState(prev => ({ ...prev, saved: false }));
+      }, 3000);
+    } catch (error) {
+      logger.preferences.error('Error saving shortcuts', {
+        error: error instanceof Error ? error.message : error
+      });
+      setState({ saving: false, saved: false });
+    }
+  };
+
+  return {
+    settings,
+    updateSettings,
+    problems,
+    hasProblems,
+    globalRegistered,
+    state,
+    handleSave,
+    handleReset
+  };
+};
@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react';
+import { getRendererLogger } from '@/services/logger';
+import type { WebSearchSettings } from '../../types/preferences';
+
+const logger = getRendererLogger();
+
+const DEFAULT_SETTINGS: WebSearchSettings = {
+  provider: 'native',
+  searxngUrl: '',
+  maxResults: 5,
+};
+
+export const useWebSearchSettings = () => {
+  const [settings, setSettings] = useState<WebSearchSettings>(DEFAULT_SETTINGS);
+
+  const [state, setState] = useState({
+    saving: false,
+    saved: false
+  });
+
+  const [testState, setTestState] = useState<{
+    testing: boolean;
+    result?: { success: boolean; resultCount?: number; error?: string };
+  }>({ testing: false });
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const result = await window.levante.preferences.get('webSearch');
+      if (result?.data) {
+        setSettings({ ...DEFAULT_SETTINGS, ...result.data });
+      }
+    } catch (error) {
+      logger.preferences.error('Error loading web search settings', {
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  };
+
+  const updateSettings = (update: Partial<WebSearchSettings>) => {
+    setSettings(prev => ({ ...prev, ...update }));
+    setTestState({ testing: false });
+  };
+
+  const handleSave = async () => {
+    setState(prev => ({ ...prev, saving: true, saved: false }));
+
+    try {
+      await window.levante.preferences.set('webSearch', {
+        ...settings,
+        // Empty fields are stored as unset
+        braveApiKey: settings.braveApiKey?.trim() || undefined,
+        tavilyApiKey: settings.tavilyApiKey?.trim() || undefined,
+        baseUrl: settings.baseUrl?.trim() || undefined,
+      });
+
+      setState(prev => ({ ...prev, saving: false, saved: true }));
+
+      setTimeout(() => {
+        setState(prev => ({ ...prev, saved: false }));
+      }, 3000);
+    } catch (error) {
+      logger.preferences.error('Error saving web search settings', {
+        provider: settings.provider,
+        error: error instanceof Error ? error.message : error
+      });
+      setState(prev => ({ ...prev, saving: false }));
+    }
+  };
+
+  // Runs a sample query with the settings shown, saved or not
+  const handleTest = async () => {
+    setTestState({ testing: true });
+
+    const result = await window.levante.webSearch.test(settings);
+    setTestState({
+      testing: false,
+      result: result.success
+        ? { success: true, resultCount: result.data?.resultCount ?? 0 }
+        : { success: false, error: result.error },
+    });
+  };
+
+  return {
+    settings,
+    updateSettings,
+    state,
+    testState,
+    handleSave,
+    handleTest
+  };
+};
@@ -0,0 +1,95 @@
+import type { FileUIPart } from 'ai';
+import type { Model } from '../../types/models';
+
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024; // 20 MB, same limit as the main process
+
+// Non-text/* media types that are still plain text
+const TEXT_MEDIA_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/yaml',
+  'application/x-yaml',
+  'application/javascript',
+  'application/typescript',
+  'application/sql',
+];
+
+/**
+ * Model capability needed to send an attachment, or null when any model can read it
+ * (text files are inlined as plain text before reaching the provider)
+ */
+export function getRequiredCapability(mediaType: string): 'vision' | 'files' | null {
+  if (mediaType.startsWith('image/')) return 'vision';
+  if (mediaType.startsWith('text/') || TEXT_MEDIA_TYPES.includes(mediaType)) return null;
+  return 'files';
+}
+
+/**
+ * Find the first attachment the model cannot accept
+ */
+export function findUnsupportedAttachment(
+  attachments: FileUIPart[],
+  model: Model | undefined
+): { attachment: FileUIPart; capability: 'vision' | 'files' } | null {
+  for (const attachment of attachments) {
+    const capability = getRequiredCapability(attachment.mediaType);
+    if (capability && !model?.capabilities.includes(capability)) {
+      return { attachment, capability };
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a dropped or pasted file into a file part with a data URL
+ */
+export function readFileAsPart(file: File): Promise<FileUIPart> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({
+      type: 'file',
+      mediaType: file.type || guessMediaType(file.name),
+      filename: file.name,
+      url: reader.result as string,
+    });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Extract the base64 payload of a data URL
+ */
+export function getDataUrlBase64(url: string): string | null {
+  const match = url.match(/^data:[^,]*;base64,(.*)$/);
+  return match ? match[1] : null;
+}
+
+// Browsers leave File.type empty for some common text formats
+function guessMediaType(filename: string): string {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'md':
+      return 'text/markdown';
+    case 'csv':
+      return 'text/csv';
+    case 'json':
+      return 'application/json';
+    case 'yaml':
+    case 'yml':
+      return 'application/yaml';
+    case 'pdf':
+      return 'application/pdf';
+    case 'txt':
+    case 'log':
+    case 'py':
+    case 'ts':
+    case 'tsx':
+    case 'js':
+    case 'jsx':
+    case 'sh':
+      return 'text/plain';
+    default:
+      return 'application/octet-stream';
+  }
+}
@@ -0,0 +1,85 @@
+import type { GenerationParams } from '../../types/preferences';
+
+/**
+ * Generation parameters as edited in text fields; empty fields are unset
+ */
+export interface GenerationDraft {
+  temperature: string;
+  maxOutputTokens: string;
+  topP: string;
+  seed: string;
+  stopSequences: string; // One per line
+  providerOptions: string; // JSON object keyed by provider name
+}
+
+export type GenerationDraftField = keyof GenerationDraft;
+
+export const EMPTY_GENERATION_DRAFT: GenerationDraft = {
+  temperature: '',
+  maxOutputTokens: '',
+  topP: '',
+  seed: '',
+  stopSequences: '',
+  providerOptions: '',
+};
+
+export function toGenerationDraft(params?: GenerationParams | null): GenerationDraft {
+  return {
+    temperature: params?.temperature?.toString() ?? '',
+    maxOutputTokens: params?.maxOutputTokens?.toString() ?? '',
+    topP: params?.topP?.toString() ?? '',
+    seed: params?.seed?.toString() ?? '',
+    stopSequences: params?.stopSequences?.join('\n') ?? '',
+    providerOptions: params?.providerOptions ? JSON.stringify(params.providerOptions, null, 2) : '',
+  };
+}
+
+/**
+ * Validate a draft. Returns the parameters (null when every field is empty)
+ * or the first invalid field.
+ */
+export function parseGenerationDraft(
+  draft: GenerationDraft
+): { params: GenerationParams | null; invalidField?: undefined } | { params?: undefined; invalidField: GenerationDraftField } {
+  const params: GenerationParams = {};
+
+  const parseNumber = (value: string, isValid: (n: number) => boolean): number | undefined | null => {
+    if (!value.trim()) return undefined;
+    const n = Number(value);
+    return Number.isFinite(n) && isValid(n) ? n : null;
+  };
+
+  const temperature = parseNumber(draft.temperature, (n) => n >= 0 && n <= 2);
+  if (temperature === null) return { invalidField: 'temperature' };
+  if (temperature !== undefined) params.temperature = temperature;
+
+  const maxOutputTokens = parseNumber(draft.maxOutputTokens, (n) => Number.isInteger(n) && n > 0);
+  if (maxOutputTokens === null) return { invalidField: 'maxOutputTokens' };
+  if (maxOutputTokens !== undefined) params.maxOutputTokens = maxOutputTokens;
+
+  const topP = parseNumber(draft.topP, (n) => n > 0 && n <= 1);
+  if (topP === null) return { invalidField: 'topP' };
+  if (topP !== undefined) params.topP = topP;
+
+  const seed = parseNumber(draft.seed, Number.isInteger);
+  if (seed === null) return { invalidField: 'seed' };
+  if (seed !== undefined) params.seed = seed;
+
+  const stopSequences = draft.stopSequences.split('\n').filter((sequence) => sequence.length > 0);
+  if (stopSequences.length > 0) params.stopSequences = stopSequences;
+
+  if (draft.providerOptions.trim()) {
+    try {
+      const options = JSON.parse(draft.providerOptions);
+      const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+      if (!isObject(options) || !Object.values(options).every(isObject)) {
+        return { invalidField: 'providerOptions' };
+      }
+      if (Object.keys(options).length > 0) params.providerOptions = options;
+    } catch {
+      return { invalidField: 'providerOptions' };
+    }
+  }
+
+  return { params: Object.keys(params).length > 0 ? params : null };
+}
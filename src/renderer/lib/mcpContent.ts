@@ -0,0 +1,85 @@
+import type { MCPContent, MCPPromptResult, MCPResourceContent, MCPToolOutput } from '@/types/mcp';
+
+/**
+ * Turn the contents of an MCP resource into files that can be attached to a message.
+ * Text stays text (and is inlined for the model); blobs keep their media type.
+ */
+export function resourceContentsToFiles(contents: MCPResourceContent[], name: string): File[] {
+  return contents.flatMap((content, index) => {
+    const filename = contents.length > 1 ? `${name} (${index + 1})` : name;
+
+    if (typeof content.text === 'string') {
+      return [new File([content.text], filename, { type: content.mimeType || 'text/plain' })];
+    }
+    if (typeof content.blob === 'string') {
+      return [new File([base64ToBytes(content.blob)], filename, {
+        type: content.mimeType || 'application/octet-stream',
+      })];
+    }
+    return [];
+  });
+}
+
+/**
+ * Flatten a rendered server prompt into chat input text.
+ * Embedded text resources are inlined; images and other binary parts are returned as files.
+ */
+export function promptResultToInput(result: MCPPromptResult, name: string): { text: string; files: File[] } {
+  const texts: string[] = [];
+  const files: File[] = [];
+
+  for (const { content } of result.messages) {
+    if (content.type === 'text' && content.text) {
+      texts.push(content.text);
+    } else if (content.type === 'resource' && content.resource) {
+      if (typeof content.resource.text === 'string') {
+        texts.push(`${content.resource.uri}:\n\`\`\`\n${content.resource.text}\n\`\`\``);
+      } else {
+        files.push(...resourceContentsToFiles([content.resource], content.resource.uri));
+      }
+    } else if (content.data && content.mimeType) {
+      files.push(new File([base64ToBytes(content.data)], `${name}-${files.length + 1}`, {
+        type: content.mimeType,
+      }));
+    }
+  }
+
+  return { text: texts.join('\n\n'), files };
+}
+
+/**
+ * Content items of an MCP tool result. Returns null for other outputs, such as
+ * built-in tools or results stored as plain strings by older versions.
+ */
+export function getToolResultContent(output: unknown): MCPContent[] | null {
+  const content = (output as MCPToolOutput | null)?.content;
+  return Array.isArray(content) ? content : null;
+}
+
+/**
+ * Whether a content item is an image or audio clip that can be shown inline
+ */
+export function isMediaContent(item: MCPContent): boolean {
+  const mimeType = item.type === 'resource' ? item.resource?.mimeType : item.mimeType;
+  const data = item.type === 'resource' ? item.resource?.blob : item.data;
+  return !!data && !!mimeType && (mimeType.startsWith('image/') || mimeType.startsWith('audio/'));
+}
+
+/**
+ * data: URL of an image or audio content item
+ */
+export function toMediaUrl(item: MCPContent): string | null {
+  if (!isMediaContent(item)) return null;
+  return item.type === 'resource'
+    ? `data:${item.resource!.mimeType};base64,${item.resource!.blob}`
+    : `data:${item.mimeType};base64,${item.data}`;
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,85 @@
+import type { MCPRegistryEntry, MCPServerConfig } from '@/types/mcp';
+
+/**
+ * Entries matching every word of the query in their name, description,
+ * category or package, optionally limited to one category
+ */
+export function searchRegistryEntries(
+  entries: MCPRegistryEntry[],
+  query: string,
+  category: string | null
+): MCPRegistryEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return entries.filter((entry) => {
+    if (category && entry.category !== category) return false;
+    if (terms.length === 0) return true;
+
+    const text = [
+      entry.id,
+      entry.name,
+      entry.description,
+      entry.category,
+      entry.npmPackage,
+      entry.pypiPackage,
+    ].join(' ').toLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+}
+
+/**
+ * Categories present in the registry, sorted by name
+ */
+export function getRegistryCategories(entries: MCPRegistryEntry[]): string[] {
+  return Array.from(new Set(entries.map((entry) => entry.category).filter(Boolean))).sort();
+}
+
+/**
+ * Server configuration for an entry, running `version` when given (pinned)
+ * and the registry's latest version otherwise
+ */
+export function buildServerConfig(entry: MCPRegistryEntry, version?: string): MCPServerConfig {
+  const template = entry.configuration?.template;
+  const installedVersion = version || entry.version;
+
+  return {
+    id: entry.id,
+    name: entry.name,
+    transport: template?.type || 'stdio',
+    command: template?.command || '',
+    args: withPackageVersion(entry, template?.args || [], installedVersion),
+    env: template?.env || {},
+    ...(template?.baseUrl ? { baseUrl: template.baseUrl, headers: template.headers || {} } : {}),
+    registry: {
+      entryId: entry.id,
+      version: installedVersion,
+      pinned: Boolean(version)
+    }
+  };
+}
+
+/**
+ * Arguments of an installed server moved to another version of its package
+ */
+export function withPackageVersion(entry: MCPRegistryEntry, args: string[], version?: string): string[] {
+  if (!version) return args;
+
+  if (entry.npmPackage) {
+    const name = entry.npmPackage;
+    return args.map((arg) => (arg === name || arg.startsWith(`${name}@`) ? `${name}@${version}` : arg));
+  }
+  if (entry.pypiPackage) {
+    const name = entry.pypiPackage;
+    return args.map((arg) => (arg === name || arg.startsWith(`${name}==`) ? `${name}==${version}` : arg));
+  }
+  return args;
+}
+
+/**
+ * Whether the registry's latest version differs from the one a server was
+ * installed with. Pinned servers never get updates offered.
+ */
+export function hasRegistryUpdate(entry: MCPRegistryEntry | undefined, server: MCPServerConfig | undefined): boolean {
+  const origin = server?.registry;
+  return Boolean(entry?.version && origin?.version && !origin.pinned && origin.version !== entry.version);
+}
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { updateModelSettings } from './modelSettings';
+import type { ModelSettings } from '../../types/preferences';
+
+let stored: Record<string, ModelSettings>;
+
+beforeEach(() => {
+  stored = {};
+  vi.stubGlobal('window', {
+    levante: {
+      preferences: {
+        get: vi.fn(async () => ({ success: true, data: structuredClone(stored) })),
+        set: vi.fn(async (_key: string, value: Record<string, ModelSettings>) => {
+          stored = structuredClone(value);
+          return { success: true, data: value };
+        }),
+      },
+    },
+  });
+});
+
+describe('updateModelSettings', () => {
+  it('keeps a saved generation default when the reasoning effort changes', async () => {
+    // Both controls are mounted before anything is saved
+    await updateModelSettings('openai::gpt-5', (current) => ({ ...current, generation: { temperature: 0.2 } }));
+    await updateModelSettings('openai::gpt-5', (current) => ({ ...current, reasoning: { effort: 'high' } }));
+
+    expect(stored['openai::gpt-5']).toEqual({ generation: { temperature: 0.2 }, reasoning: { effort: 'high' } });
+  });
+
+  it('keeps the settings of other models, such as a fallback chain saved from Settings', async () => {
+    stored = { 'anthropic::claude': { fallbacks: ['openai::gpt-5'] } };
+
+    const result = await updateModelSettings('openai::gpt-5', () => ({ reasoning: { effort: 'low' } }));
+
+    expect(result.data).toEqual({
+      'anthropic::claude': { fallbacks: ['openai::gpt-5'] },
+      'openai::gpt-5': { reasoning: { effort: 'low' } },
+    });
+    expect(stored).toEqual(result.data);
+  });
+
+  it('does not write when the stored settings cannot be read', async () => {
+    window.levante.preferences.get = vi.fn(async () => ({ success: false, error: 'Store unavailable' }));
+
+    const result = await updateModelSettings('openai::gpt-5', () => ({ reasoning: { effort: 'low' } }));
+
+    expect(result).toEqual({ success: false, error: 'Store unavailable' });
+    expect(window.levante.preferences.set).not.toHaveBeenCalled();
+  });
+});
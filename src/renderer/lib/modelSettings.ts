@@ -0,0 +1,22 @@
+import type { ModelSettings } from '../../types/preferences';
+
+type ModelSettingsMap = Record<string, ModelSettings>;
+
+/**
+ * Change the settings of one model. The modelSettings preference also holds
+ * what other views save (generation defaults, reasoning, fallback chains), so
+ * it is read again right before writing instead of reusing an older copy.
+ */
+export async function updateModelSettings(
+  model: string,
+  update: (current: ModelSettings) => ModelSettings
+): Promise<{ success: boolean; data?: ModelSettingsMap; error?: string }> {
+  const stored = await window.levante.preferences.get('modelSettings');
+  if (!stored.success) {
+    return { success: false, error: stored.error };
+  }
+
+  const next: ModelSettingsMap = { ...stored.data, [model]: update({ ...stored.data?.[model] }) };
+  const saved = await window.levante.preferences.set('modelSettings', next);
+  return saved.success ? { success: true, data: next } : { success: false, error: saved.error };
+}
@@ -0,0 +1,34 @@
+import type { ReasoningUIPart, UIMessage } from 'ai';
+import type { MessageReasoning } from '../../types/database';
+
+/**
+ * Thinking time of a reasoning part. The transport stores it in the part's
+ * provider metadata under "levante" when the block completes.
+ */
+export function getReasoningDurationMs(part: ReasoningUIPart): number | undefined {
+  const durationMs = part.providerMetadata?.levante?.durationMs;
+  return typeof durationMs === 'number' ? durationMs : undefined;
+}
+
+/**
+ * Reasoning blocks of a message, in the shape stored in the database
+ */
+export function getMessageReasoning(message: UIMessage): MessageReasoning[] {
+  return message.parts
+    .filter((part): part is ReasoningUIPart => part.type === 'reasoning' && !!part.text.trim())
+    .map((part) => ({ text: part.text, durationMs: getReasoningDurationMs(part) }));
+}
+
+/**
+ * Rebuild the reasoning parts of a stored message
+ */
+export function toReasoningParts(reasoning: MessageReasoning[]): ReasoningUIPart[] {
+  return reasoning.map((block) => ({
+    type: 'reasoning',
+    text: block.text,
+    state: 'done',
+    ...(block.durationMs !== undefined
+      ? { providerMetadata: { levante: { durationMs: block.durationMs } } }
+      : {}),
+  }));
+}
@@ -0,0 +1,40 @@
+import type { SourceUrlUIPart, UIMessage } from 'ai';
+import type { MessageSource } from '../../types/database';
+
+/**
+ * Snippet of a web source. The transport stores it in the part's provider
+ * metadata under "levante".
+ */
+export function getSourceSnippet(part: SourceUrlUIPart): string | undefined {
+  const snippet = part.providerMetadata?.levante?.snippet;
+  return typeof snippet === 'string' ? snippet : undefined;
+}
+
+/**
+ * Web sources of a message in citation order, one per URL
+ */
+export function getMessageSources(message: UIMessage): MessageSource[] {
+  const seen = new Set<string>();
+  const sources: MessageSource[] = [];
+
+  for (const part of message.parts) {
+    if (part.type !== 'source-url' || seen.has(part.url)) continue;
+    seen.add(part.url);
+    sources.push({ url: part.url, title: part.title, snippet: getSourceSnippet(part) });
+  }
+
+  return sources;
+}
+
+/**
+ * Rebuild the source parts of a stored message
+ */
+export function toSourceParts(sources: MessageSource[]): SourceUrlUIPart[] {
+  return sources.map((source) => ({
+    type: 'source-url',
+    sourceId: source.url,
+    url: source.url,
+    title: source.title,
+    ...(source.snippet ? { providerMetadata: { levante: { snippet: source.snippet } } } : {}),
+  }));
+}
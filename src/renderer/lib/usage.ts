@@ -0,0 +1,99 @@
+import type { UIMessage } from 'ai';
+import type { Model } from '../../types/models';
+import type { MessageUsage } from '../../types/database';
+import type { ChatStreamChunk } from '../../preload/types';
+
+/**
+ * Metadata attached to UI messages. Usage arrives with the last stream chunk
+ * and is loaded back from the database for older messages. Context and
+ * routing are only known while the answer is streamed.
+ */
+export interface ChatMessageMetadata {
+  usage?: MessageUsage;
+  context?: NonNullable<ChatStreamChunk['context']>;
+  routing?: NonNullable<ChatStreamChunk['routing']>;
+}
+
+// Rough average for English text and code, good enough for budget estimates
+const CHARS_PER_TOKEN = 4;
+
+// Assumed answer length when estimating what a send will cost
+const ESTIMATED_OUTPUT_TOKENS = 1_000;
+
+/**
+ * Cost in USD. Model pricing is expressed per million tokens.
+ * Returns null when the model has no pricing (most direct cloud providers).
+ */
+export function calculateCost(
+  inputTokens: number,
+  outputTokens: number,
+  model: Model | undefined
+): number | null {
+  if (!model?.pricing) return null;
+  return (inputTokens * model.pricing.input + outputTokens * model.pricing.output) / 1_000_000;
+}
+
+/**
+ * Turn the usage reported by the main process into what gets stored with the message
+ */
+export function toMessageUsage(
+  usage: NonNullable<ChatStreamChunk['usage']>,
+  models: Model[]
+): MessageUsage {
+  const model = models.find((m) => m.id === usage.model);
+
+  return {
+    model: usage.model,
+    provider: model?.provider ?? null,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    reasoning_tokens: usage.reasoningTokens,
+    cached_input_tokens: usage.cachedInputTokens,
+    cost: calculateCost(usage.inputTokens, usage.outputTokens, model),
+  };
+}
+
+export function getMessageUsage(message: UIMessage): MessageUsage | undefined {
+  return (message.metadata as ChatMessageMetadata | undefined)?.usage;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Upper-bound guess of what sending `text` after `messages` will cost.
+ * The whole history is sent again with every request.
+ */
+export function estimateSendCost(
+  messages: UIMessage[],
+  text: string,
+  model: Model | undefined
+): number | null {
+  const historyText = messages
+    .flatMap((message) => message.parts)
+    .map((part) => (part.type === 'text' || part.type === 'reasoning' ? part.text : ''))
+    .join('');
+
+  return calculateCost(estimateTokens(historyText + text), ESTIMATED_OUTPUT_TOKENS, model);
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0.00';
+  // Single answers often cost fractions of a cent
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+/**
+ * First millisecond of the current month, local time
+ */
+export function startOfMonth(date: Date = new Date()): number {
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
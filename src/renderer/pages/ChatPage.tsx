@@ -20,10 +20,17 @@ import {
 } from '@/components/ai-elements/conversation';
 import { useState, useEffect, useMemo, useRef } from 'react';
 import { useChatStore } from '@/stores/chatStore';
+import { useAgentStore } from '@/stores/agentStore';
 import { StreamingProvider, useStreamingContext } from '@/contexts/StreamingContext';
 import { ChatList } from '@/components/chat/ChatList';
 import { WelcomeScreen } from '@/components/chat/WelcomeScreen';
 import { ChatPromptInput } from '@/components/chat/ChatPromptInput';
+import { MessageActions, MessageEditForm } from '@/components/chat/MessageActions';
+import { BudgetWarningDialog } from '@/components/chat/BudgetWarningDialog';
+import { ContextNotice } from '@/components/chat/ContextNotice';
+import { MessageSources } from '@/components/chat/MessageSources';
+import { ModelRoutingNotice } from '@/components/chat/ModelRoutingNotice';
+import { useBudgetGuard } from '@/hooks/useBudgetGuard';
 import { useTranslation } from 'react-i18next';
 import {
   Dialog,
@@ -34,13 +41,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { AlertTriangle, ExternalLink } from 'lucide-react';
-import {
-  Source,
-  Sources,
-  SourcesContent,
-  SourcesTrigger,
-} from '@/components/ai-elements/source';
+import { AlertTriangle, ExternalLink, FileText } from 'lucide-react';
 import {
   Reasoning,
   ReasoningContent,
@@ -49,9 +50,21 @@ import {
 import { BreathingLogo } from '@/components/ai-elements/breathing-logo';
 import { ToolCall } from '@/components/ai-elements/tool-call';
 import { modelService } from '@/services/modelService';
-import type { Model } from '../../types/models';
+import { resolveModelId, type Model } from '../../types/models';
+import type { GenerationParams } from '../../types/preferences';
 import { getRendererLogger } from '@/services/logger';
 import { cn } from '@/lib/utils';
+import { estimateSendCost, getMessageUsage, type ChatMessageMetadata } from '@/lib/usage';
+import { getReasoningDurationMs } from '@/lib/reasoning';
+import { getToolResultContent } from '@/lib/mcpContent';
+import {
+  MAX_ATTACHMENT_SIZE,
+  findUnsupportedAttachment,
+  readFileAsPart,
+} from '@/lib/attachments';
+import { toast } from 'sonner';
+import { generateId } from 'ai';
+import type { FileUIPart, UIMessage } from 'ai';
 
 // AI SDK v5 imports
 import { useChat } from '@ai-sdk/react';
@@ -59,18 +72,54 @@ import { createElectronChatTransport } from '@/transports/ElectronChatTransport'
 
 const logger = getRendererLogger();
 
+interface PendingUserMessage {
+  text: string;
+  files: FileUIPart[];
+}
+
+/**
+ * Build the user message sent through useChat and persisted with the same id,
+ * so later branches can point at it
+ */
+const buildUserMessage = ({ text, files }: PendingUserMessage): UIMessage => ({
+  id: generateId(),
+  role: 'user',
+  parts: [...files, { type: 'text', text }],
+});
+
+/**
+ * Id of the message before the given one in the displayed branch (its parent)
+ */
+const getParentId = (messages: UIMessage[], messageId: string): string | null => {
+  const index = messages.findIndex((m) => m.id === messageId);
+  return index > 0 ? messages[index - 1].id : null;
+};
+
+/**
+ * Plain text of a message, for copying and editing
+ */
+const getMessageText = (message: UIMessage): string =>
+  message.parts
+    .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n');
+
 const ChatPage = () => {
   const { t } = useTranslation('chat');
   const [input, setInput] = useState('');
   const [model, setModel] = useState<string>('');
   const [webSearch, setWebSearch] = useState(false);
   const [enableMCP, setEnableMCP] = useState(false);
+  const [agentId, setAgentId] = useState<string | null>(null);
+  const [generation, setGeneration] = useState<GenerationParams | null>(null);
   const [availableModels, setAvailableModels] = useState<Model[]>([]);
   const [modelsLoading, setModelsLoading] = useState(true);
   const [userName, setUserName] = useState<string>(t('welcome.default_user_name'));
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
-  const [pendingFirstMessage, setPendingFirstMessage] = useState<string | null>(null);
-  const [pendingMessageAfterStop, setPendingMessageAfterStop] = useState<string | null>(null);
+  const [pendingFirstMessage, setPendingFirstMessage] = useState<PendingUserMessage | null>(null);
+  const [pendingMessageAfterStop, setPendingMessageAfterStop] = useState<PendingUserMessage | null>(null);
+  const [attachments, setAttachments] = useState<FileUIPart[]>([]);
+  const { checkBudget, budgetWarning, resolveBudgetWarning } = useBudgetGuard();
 
   // Chat store
   const currentSession = useChatStore((state) => state.currentSession);
@@ -79,6 +128,24 @@ const ChatPage = () => {
   const loadHistoricalMessages = useChatStore((state) => state.loadHistoricalMessages);
   const pendingPrompt = useChatStore((state) => state.pendingPrompt);
   const setPendingPrompt = useChatStore((state) => state.setPendingPrompt);
+  const pendingMessageFocus = useChatStore((state) => state.pendingMessageFocus);
+  const clearPendingMessageFocus = useChatStore((state) => state.clearPendingMessageFocus);
+  const branchSiblings = useChatStore((state) => state.branchSiblings);
+  const historyVersion = useChatStore((state) => state.historyVersion);
+  const switchBranch = useChatStore((state) => state.switchBranch);
+  const refreshBranches = useChatStore((state) => state.refreshBranches);
+  const setSessionAgent = useChatStore((state) => state.setSessionAgent);
+  const setSessionGenerationParams = useChatStore((state) => state.setSessionGenerationParams);
+  const agents = useAgentStore((state) => state.agents);
+
+  // User message being edited inline
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+
+  // Set when the next response adds a branch (regenerate), so sibling info is refreshed
+  const branchingRef = useRef(false);
+
+  // Message briefly highlighted after jumping to it from search
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
 
   // Track previous session ID to detect changes
   const previousSessionIdRef = useRef<string | null>(null);
@@ -106,14 +173,53 @@ const ChatPage = () => {
       model: model || 'openai/gpt-4o',
       webSearch,
       enableMCP,
+      models: availableModels,
+      agentId,
+      generation,
     });
-  }, [model, webSearch, enableMCP, transport]);
+  }, [model, webSearch, enableMCP, availableModels, agentId, generation, transport]);
+
+  // Each session remembers its agent; a new chat starts with the default assistant
+  useEffect(() => {
+    setAgentId(currentSession?.agent_id ?? null);
+  }, [currentSession?.id, currentSession?.agent_id]);
+
+  // Same for its generation parameters; a new chat starts with the defaults
+  useEffect(() => {
+    setGeneration(currentSession?.generation_params ?? null);
+  }, [currentSession?.id, currentSession?.generation_params]);
+
+  const handleGenerationChange = (nextGeneration: GenerationParams | null) => {
+    setGeneration(nextGeneration);
+    if (currentSession) {
+      setSessionGenerationParams(currentSession.id, nextGeneration);
+    }
+  };
+
+  // Apply the agent's defaults and bind it to the open session
+  const handleAgentChange = (nextAgentId: string | null) => {
+    setAgentId(nextAgentId);
+
+    const agent = agents.find((a) => a.id === nextAgentId);
+    const agentModel = resolveModelId(availableModels, agent?.model);
+    if (agentModel) {
+      setModel(agentModel);
+    }
+    if (agent?.mcpServers?.length || agent?.tools?.length) {
+      setEnableMCP(true);
+    }
+
+    if (currentSession) {
+      setSessionAgent(currentSession.id, nextAgentId);
+    }
+  };
 
   // Use AI SDK native useChat hook
   const {
     messages,
     setMessages,
     sendMessage: sendMessageAI,
+    regenerate,
     status,
     stop,
     error: chatError,
@@ -122,7 +228,7 @@ const ChatPage = () => {
     transport,
 
     // Persist messages after AI finishes
-    onFinish: async ({ message }) => {
+    onFinish: async ({ message, messages: finishedMessages }) => {
       logger.aiSdk.info('AI response finished', {
         sessionId: currentSession?.id,
         messageId: message.id,
@@ -130,9 +236,14 @@ const ChatPage = () => {
         partsCount: message.parts?.length,
       });
 
-      // Persist the AI response
+      // Persist the AI response under the message it answers
       if (currentSession) {
-        await persistMessage(message);
+        await persistMessage(message, getParentId(finishedMessages, message.id));
+
+        if (branchingRef.current) {
+          branchingRef.current = false;
+          await refreshBranches();
+        }
       }
 
       // Trigger mermaid processing
@@ -143,23 +254,21 @@ const ChatPage = () => {
   // Handle pending message after stop
   useEffect(() => {
     if (pendingMessageAfterStop && status !== 'streaming' && status !== 'submitted') {
-      const messageText = pendingMessageAfterStop;
+      const pending = pendingMessageAfterStop;
       setPendingMessageAfterStop(null);
 
+      const userMessage = buildUserMessage(pending);
+      const parentId = messages.length > 0 ? messages[messages.length - 1].id : null;
+
       // Send the message
-      sendMessageAI({ text: messageText });
+      sendMessageAI(userMessage);
 
       // Persist user message to database
-      const userMessage = {
-        id: `user-${Date.now()}`,
-        role: 'user' as const,
-        parts: [{ type: 'text' as const, text: messageText }],
-      };
-      persistMessage(userMessage).catch((err) => {
+      persistMessage(userMessage, parentId).catch((err) => {
         logger.database.error('Failed to persist message after stop', { error: err });
       });
     }
-  }, [pendingMessageAfterStop, status, sendMessageAI, persistMessage]);
+  }, [pendingMessageAfterStop, status, messages, sendMessageAI, persistMessage]);
 
   // Load messages when session changes
   useEffect(() => {
@@ -205,15 +314,69 @@ const ChatPage = () => {
     }
   }, [currentSession?.id, loadHistoricalMessages, setMessages]);
 
+  /**
+   * Explain why the selected model cannot take these attachments, if it can't
+   */
+  const getAttachmentError = (files: FileUIPart[]): string | null => {
+    const selectedModel = availableModels.find((m) => m.id === model);
+    const unsupported = findUnsupportedAttachment(files, selectedModel);
+    if (!unsupported) {
+      return null;
+    }
+
+    return t(
+      unsupported.capability === 'vision' ? 'attachments.no_vision' : 'attachments.no_files',
+      {
+        filename: unsupported.attachment.filename,
+        model: selectedModel?.name || model,
+      }
+    );
+  };
+
+  const handleAttachFiles = async (files: File[]) => {
+    for (const file of files) {
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        toast.error(t('attachments.too_large', { filename: file.name }));
+        continue;
+      }
+
+      try {
+        const part = await readFileAsPart(file);
+        const error = getAttachmentError([part]);
+        if (error) {
+          toast.error(error);
+          continue;
+        }
+        setAttachments((prev) => [...prev, part]);
+      } catch (error) {
+        logger.core.error('Failed to read attachment', {
+          filename: file.name,
+          error: error instanceof Error ? error.message : error,
+        });
+        toast.error(t('attachments.read_failed', { filename: file.name }));
+      }
+    }
+  };
+
+  const handleRemoveAttachment = (index: number) => {
+    setAttachments((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     // If currently streaming
     if (status === 'streaming') {
       // If there's input, we want to stop current stream and send the new message
-      if (input.trim()) {
-        setPendingMessageAfterStop(input);
+      if (input.trim() || attachments.length > 0) {
+        const error = getAttachmentError(attachments);
+        if (error) {
+          toast.error(error);
+          return;
+        }
+        setPendingMessageAfterStop({ text: input, files: attachments });
         setInput(''); // Clear input immediately
+        setAttachments([]);
       }
 
       stop();
@@ -221,11 +384,25 @@ const ChatPage = () => {
     }
 
     // Otherwise, send a new message
-    if (input.trim()) {
+    if (input.trim() || attachments.length > 0) {
+      // The model may have changed since the files were attached
+      const attachmentError = getAttachmentError(attachments);
+      if (attachmentError) {
+        toast.error(attachmentError);
+        return;
+      }
+
+      const selectedModel = availableModels.find((m) => m.id === model);
+      if (!(await checkBudget(estimateSendCost(messages, input, selectedModel), selectedModel?.name ?? model))) {
+        return;
+      }
+
       const messageText = input;
+      const messageFiles = attachments;
 
       try {
         setInput('');
+        setAttachments([]);
 
         // If no session exists, create one and save message for later
         if (!currentSession) {
@@ -235,19 +412,20 @@ const ChatPage = () => {
           // This prevents the useEffect from loading empty history when currentSession updates
           justCreatedSessionRef.current = true;
 
-          const newSession = await createSession('New Chat', model || 'openai/gpt-4o');
+          const newSession = await createSession('New Chat', model || 'openai/gpt-4o', agentId, generation);
 
           if (!newSession) {
             logger.core.error('Failed to create session');
             justCreatedSessionRef.current = false; // Reset flag on error
             setInput(messageText); // Restore input on error
+            setAttachments(messageFiles);
             return;
           }
 
           logger.core.info('Session created, storing pending message', { sessionId: newSession.id });
 
           // Store message to send after re-render (when useChat has the correct ID)
-          setPendingFirstMessage(messageText);
+          setPendingFirstMessage({ text: messageText, files: messageFiles });
 
           // Don't send now - wait for component to re-render with new session ID
           return;
@@ -259,15 +437,13 @@ const ChatPage = () => {
           messageText: messageText.substring(0, 50) + '...',
         });
 
-        sendMessageAI({ text: messageText });
+        const userMessage = buildUserMessage({ text: messageText, files: messageFiles });
+        const parentId = messages.length > 0 ? messages[messages.length - 1].id : null;
+
+        sendMessageAI(userMessage);
 
         // Persist user message to database
-        const userMessage = {
-          id: `user-${Date.now()}`,
-          role: 'user' as const,
-          parts: [{ type: 'text' as const, text: messageText }],
-        };
-        await persistMessage(userMessage);
+        await persistMessage(userMessage, parentId);
       } catch (error) {
         logger.core.error('Error in handleSubmit', {
           error: error instanceof Error ? error.message : error,
@@ -281,27 +457,79 @@ const ChatPage = () => {
     if (pendingFirstMessage && currentSession) {
       logger.core.info('Sending pending first message', {
         sessionId: currentSession.id,
-        messageLength: pendingFirstMessage.length,
+        messageLength: pendingFirstMessage.text.length,
+        attachmentCount: pendingFirstMessage.files.length,
       });
 
-      const messageText = pendingFirstMessage;
+      const pending = pendingFirstMessage;
       setPendingFirstMessage(null);
 
+      const userMessage = buildUserMessage(pending);
+
       // Send the message (now useChat has the correct session ID)
-      sendMessageAI({ text: messageText });
+      sendMessageAI(userMessage);
 
-      // Persist user message to database
-      const userMessage = {
-        id: `user-${Date.now()}`,
-        role: 'user' as const,
-        parts: [{ type: 'text' as const, text: messageText }],
-      };
-      persistMessage(userMessage).catch((err) => {
+      // Persist user message to database as the first message of the session
+      persistMessage(userMessage, null).catch((err) => {
         logger.database.error('Failed to persist pending message', { error: err });
       });
     }
   }, [pendingFirstMessage, currentSession, sendMessageAI, persistMessage]);
 
+  const isChatBusy = status === 'streaming' || status === 'submitted';
+
+  // Regenerate an answer as a new branch next to the current one
+  const handleRegenerate = (messageId: string) => {
+    logger.core.info('Regenerating message', { messageId });
+    branchingRef.current = true;
+    regenerate({ messageId });
+  };
+
+  // Send an edited user message as a new branch next to the original
+  const handleEditSubmit = async (messageId: string, text: string) => {
+    const index = messages.findIndex((m) => m.id === messageId);
+    if (index === -1) return;
+
+    const original = messages[index];
+    const files = original.parts.filter((part): part is FileUIPart => part.type === 'file');
+    const parentId = getParentId(messages, messageId);
+    const userMessage = buildUserMessage({ text, files });
+
+    const selectedModel = availableModels.find((m) => m.id === model);
+    if (!(await checkBudget(estimateSendCost(messages.slice(0, index), text, selectedModel), selectedModel?.name ?? model))) {
+      return;
+    }
+
+    logger.core.info('Sending edited message', { messageId, newMessageId: userMessage.id });
+    setEditingMessageId(null);
+
+    // Drop the old branch from view; it stays in the database
+    setMessages(messages.slice(0, index));
+    sendMessageAI(userMessage);
+
+    await persistMessage(userMessage, parentId);
+    await refreshBranches();
+  };
+
+  // Show a sibling branch of a message
+  const handleSwitchBranch = async (messageId: string) => {
+    const branchMessages = await switchBranch(messageId);
+    if (branchMessages) {
+      setMessages(branchMessages);
+    }
+  };
+
+  // Reload the displayed branch when it was changed from outside (e.g. search)
+  useEffect(() => {
+    if (historyVersion === 0 || !currentSession) return;
+
+    loadHistoricalMessages(currentSession.id)
+      .then(setMessages)
+      .catch((err) => {
+        logger.core.error('Failed to reload messages', { error: err });
+      });
+  }, [historyVersion]);
+
   // Handle pending prompt from deep link
   useEffect(() => {
     if (pendingPrompt) {
@@ -313,6 +541,39 @@ const ChatPage = () => {
     }
   }, [pendingPrompt, setPendingPrompt]);
 
+  // Scroll to a message opened from the search palette once its session is rendered
+  useEffect(() => {
+    if (
+      !pendingMessageFocus ||
+      isLoadingMessages ||
+      currentSession?.id !== pendingMessageFocus.sessionId
+    ) {
+      return;
+    }
+
+    const { messageId } = pendingMessageFocus;
+    if (!messages.some((message) => message.id === messageId)) {
+      return;
+    }
+
+    clearPendingMessageFocus();
+
+    requestAnimationFrame(() => {
+      const element = document.querySelector(`[data-message-id="${CSS.escape(messageId)}"]`);
+      element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+
+    setHighlightedMessageId(messageId);
+  }, [pendingMessageFocus, isLoadingMessages, currentSession?.id, messages, clearPendingMessageFocus]);
+
+  // Fade the search highlight out after a moment
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
   // Load available models on component mount
   useEffect(() => {
     loadAvailableModels();
@@ -355,6 +616,17 @@ const ChatPage = () => {
   // Check if chat is empty
   const isChatEmpty = messages.length === 0 && status !== 'streaming';
 
+  // Latest answer that was sent with condensed history, and the stored summary of the shown branch
+  const condensedContext = [...messages]
+    .reverse()
+    .map((message) => (message.metadata as ChatMessageMetadata | undefined)?.context)
+    .find(Boolean);
+  const contextSummary =
+    currentSession?.context_summary_until &&
+    messages.some((message) => message.id === currentSession.context_summary_until)
+      ? currentSession.context_summary
+      : null;
+
   // Show loading indicator while loading messages
   if (isLoadingMessages) {
     return (
@@ -389,9 +661,16 @@ const ChatPage = () => {
                 onMCPChange={setEnableMCP}
                 model={model}
                 onModelChange={setModel}
+                agentId={agentId}
+                onAgentChange={handleAgentChange}
+                generation={generation}
+                onGenerationChange={handleGenerationChange}
                 availableModels={availableModels}
                 modelsLoading={modelsLoading}
                 status={status}
+                attachments={attachments}
+                onAttachFiles={handleAttachFiles}
+                onRemoveAttachment={handleRemoveAttachment}
               />
             </div>
           </div>
@@ -401,31 +680,23 @@ const ChatPage = () => {
         <>
           <Conversation className="flex-1">
             <ConversationContent className="max-w-3xl mx-auto p-0 pl-4 pr-2 py-4">
-              {messages.map((message) => (
-                  <div key={message.id}>
-                    {/* Sources (web search results) */}
-                    {message.role === 'assistant' && message.parts && (
-                      <Sources>
-                        {message.parts
-                          .filter((part: any) => part?.value?.type === 'source-url')
-                          .map((part: any, i: number) => (
-                            <>
-                              <SourcesTrigger
-                                key={`trigger-${message.id}-${i}`}
-                                count={
-                                  message.parts.filter((p: any) => p.value?.type === 'source-url')
-                                    .length
-                                }
-                              />
-                              <SourcesContent key={`content-${message.id}-${i}`}>
-                                <Source href={part.value.url} title={part.value.title || part.value.url} />
-                              </SourcesContent>
-                            </>
-                          ))}
-                      </Sources>
+              {messages.map((message, messageIndex) => (
+                  <div
+                    key={message.id}
+                    data-message-id={message.id}
+                    className={cn(
+                      'group/message rounded-lg transition-shadow duration-500',
+                      highlightedMessageId === message.id && 'ring-2 ring-primary/50'
                     )}
-
-                    {/* Message */}
+                  >
+                    {/* Message (or its inline editor) */}
+                    {editingMessageId === message.id ? (
+                      <MessageEditForm
+                        initialText={getMessageText(message)}
+                        onCancel={() => setEditingMessageId(null)}
+                        onSubmit={(text) => handleEditSubmit(message.id, text)}
+                      />
+                    ) : (
                     <Message
                       from={message.role}
                       key={message.id}
@@ -452,25 +723,70 @@ const ChatPage = () => {
                               );
                             }
 
-                            // Reasoning (data part)
-                            if (part?.value?.type === 'reasoning') {
-                            return (
-                              <Reasoning
-                                key={`${message.id}-${i}`}
-                                className="w-full"
-                                isStreaming={status === 'streaming'}
-                              >
-                                <ReasoningTrigger />
-                                <ReasoningContent>
-                                  {part.value.text || ''}
-                                </ReasoningContent>
-                              </Reasoning>
-                            );
-                          }
+                            // Attachments
+                            if (part?.type === 'file') {
+                              return part.mediaType?.startsWith('image/') ? (
+                                <img
+                                  key={`${message.id}-${i}`}
+                                  src={part.url}
+                                  alt={part.filename}
+                                  className="max-h-64 max-w-full rounded-md border my-1"
+                                />
+                              ) : (
+                                <div
+                                  key={`${message.id}-${i}`}
+                                  className="not-prose my-1 inline-flex items-center gap-2 rounded-md border bg-muted/40 px-2 py-1 text-xs"
+                                >
+                                  <FileText className="h-4 w-4 text-muted-foreground" />
+                                  {part.filename}
+                                </div>
+                              );
+                            }
+
+                            // Reasoning (thinking output), collapsed once complete
+                            if (part?.type === 'reasoning' && part?.text) {
+                              const durationMs = getReasoningDurationMs(part);
+                              return (
+                                <Reasoning
+                                  key={`${message.id}-${i}`}
+                                  className="w-full"
+                                  isStreaming={part.state === 'streaming'}
+                                  duration={durationMs !== undefined ? Math.max(1, Math.round(durationMs / 1000)) : undefined}
+                                >
+                                  <ReasoningTrigger
+                                    getThinkingMessage={(isStreaming, duration) => (
+                                      <p>
+                                        {isStreaming
+                                          ? t('reasoning.thinking')
+                                          : duration > 0
+                                            ? t('reasoning.thought_for', { seconds: duration })
+                                            : t('reasoning.thought')}
+                                      </p>
+                                    )}
+                                  />
+                                  <ReasoningContent>{part.text}</ReasoningContent>
+                                </Reasoning>
+                              );
+                            }
 
                           // Tool calls (MCP)
                           if (part?.type?.startsWith('tool-')) {
-                            // Only show if output is available or there's an error
+                            // Running calls are shown too, so they can ask for consent
+                            if (part.state === 'input-available') {
+                              return (
+                                <ToolCall
+                                  key={`${message.id}-${i}`}
+                                  toolCall={{
+                                    id: part.toolCallId,
+                                    name: part.toolName,
+                                    arguments: part.input || {},
+                                    status: 'running',
+                                  }}
+                                  className="w-full"
+                                />
+                              );
+                            }
+
                             if (part.state === 'output-available' || part.state === 'output-error') {
                               const toolCall = {
                                 id: part.toolCallId,
@@ -479,6 +795,7 @@ const ChatPage = () => {
                                 result: part.state === 'output-available' ? {
                                   success: true,
                                   content: JSON.stringify(part.output),
+                                  mcpContent: getToolResultContent(part.output),
                                 } : {
                                   success: false,
                                   error: part.errorText,
@@ -508,6 +825,41 @@ const ChatPage = () => {
                         })}
                       </MessageContent>
                     </Message>
+                    )}
+
+                    {/* Web pages the answer cites */}
+                    {message.role === 'assistant' && editingMessageId !== message.id && (
+                      <MessageSources message={message} />
+                    )}
+
+                    {/* Fallback model or retries behind the answer */}
+                    {message.role === 'assistant' && editingMessageId !== message.id && (
+                      <ModelRoutingNotice message={message} models={availableModels} />
+                    )}
+
+                    {/* Actions and branch switcher (hidden on the message being streamed) */}
+                    {editingMessageId !== message.id &&
+                      !(isChatBusy && messageIndex === messages.length - 1) && (
+                      <MessageActions
+                        messageId={message.id}
+                        role={message.role}
+                        text={getMessageText(message)}
+                        siblingIds={branchSiblings[message.id]}
+                        usage={message.role === 'assistant' ? getMessageUsage(message) : undefined}
+                        disabled={isChatBusy}
+                        onRegenerate={
+                          message.role === 'assistant' && currentSession
+                            ? () => handleRegenerate(message.id)
+                            : undefined
+                        }
+                        onEdit={
+                          message.role === 'user' && currentSession
+                            ? () => setEditingMessageId(message.id)
+                            : undefined
+                        }
+                        onSwitchBranch={handleSwitchBranch}
+                      />
+                    )}
                   </div>
               ))}
 
@@ -525,6 +877,7 @@ const ChatPage = () => {
 
           {/* Input */}
           <div className="bg-transparent px-2">
+            <ContextNotice context={condensedContext} summary={contextSummary} />
             <ChatPromptInput
               input={input}
               onInputChange={setInput}
@@ -535,13 +888,22 @@ const ChatPage = () => {
               onMCPChange={setEnableMCP}
               model={model}
               onModelChange={setModel}
+              agentId={agentId}
+              onAgentChange={handleAgentChange}
+              generation={generation}
+              onGenerationChange={handleGenerationChange}
               availableModels={availableModels}
               modelsLoading={modelsLoading}
               status={status}
+              attachments={attachments}
+              onAttachFiles={handleAttachFiles}
+              onRemoveAttachment={handleRemoveAttachment}
             />
           </div>
         </>
       )}
+
+      <BudgetWarningDialog warning={budgetWarning} onResolve={resolveBudgetWarning} />
     </div>
   );
 };
@@ -562,7 +924,8 @@ ChatPageWithProvider.getSidebarContent = (
   onSessionSelect: (sessionId: string) => void,
   onNewChat: () => void,
   onDeleteChat: (sessionId: string) => void,
-  loading: boolean = false
+  loading: boolean = false,
+  onSearchMessages?: () => void
 ) => {
   return (
     <ChatList
@@ -572,6 +935,7 @@ ChatPageWithProvider.getSidebarContent = (
       onNewChat={onNewChat}
       onDeleteChat={onDeleteChat}
       loading={loading}
+      onSearchMessages={onSearchMessages}
     />
   );
 };
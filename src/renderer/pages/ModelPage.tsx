@@ -18,12 +18,14 @@ import {
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, CheckCircle, XCircle, RefreshCw, Search } from 'lucide-react';
+import { Loader2, CheckCircle, XCircle, RefreshCw, Search, Plus, Trash2 } from 'lucide-react';
 import { useModelStore } from '@/stores/modelStore';
 import type { ProviderConfig } from '../../types/models';
 import { useTranslation } from 'react-i18next';
-import { OpenRouterConfig, GatewayConfig, LocalConfig, CloudConfig } from './ModelPage/ProviderConfigs';
+import { OpenRouterConfig, GatewayConfig, LocalConfig, CloudConfig, CustomProviderConfig } from './ModelPage/ProviderConfigs';
 import { ModelList } from './ModelPage/ModelList';
+import { AddProviderDialog } from './ModelPage/AddProviderDialog';
+import { isBuiltInProvider } from '@/services/modelService';
 
 const ModelPage = () => {
   const { t } = useTranslation('models');
@@ -39,10 +41,12 @@ const ModelPage = () => {
     syncProviderModels,
     toggleModelSelection,
     setModelSelections,
+    removeProvider,
     clearMessages
   } = useModelStore();
 
   const [searchQuery, setSearchQuery] = useState('');
+  const [addProviderOpen, setAddProviderOpen] = useState(false);
 
   useEffect(() => {
     initialize();
@@ -53,6 +57,13 @@ const ModelPage = () => {
     setActiveProvider(providerId);
   };
 
+  const handleRemoveProvider = () => {
+    if (!activeProvider) return;
+    if (!window.confirm(t('provider_config.remove_confirm', { name: activeProvider.name }))) return;
+    clearMessages();
+    removeProvider(activeProvider.id);
+  };
+
   const handleModelToggle = (modelId: string, selected: boolean) => {
     if (!activeProvider) return;
     toggleModelSelection(activeProvider.id, modelId, selected);
@@ -88,6 +99,8 @@ const ModelPage = () => {
         return <GatewayConfig provider={provider} />;
       case 'local':
         return <LocalConfig provider={provider} />;
+      case 'openai-compatible':
+        return <CustomProviderConfig provider={provider} />;
       case 'openai':
       case 'anthropic':
       case 'google':
@@ -134,25 +147,31 @@ const ModelPage = () => {
             {/* Provider Selector */}
             <div className="space-y-2">
               <Label htmlFor="provider-select">{t('provider_config.active_provider')}</Label>
-              <Select value={activeProvider?.id || ''} onValueChange={handleProviderChange}>
-                <SelectTrigger>
-                  <SelectValue placeholder={t('provider_config.select_provider')} />
-                </SelectTrigger>
-                <SelectContent>
-                  {providers.map((provider) => (
-                    <SelectItem key={provider.id} value={provider.id}>
-                      <div className="flex items-center gap-2">
-                        <span>{provider.name}</span>
-                        {provider.apiKey && (
-                          <Badge variant="secondary" className="text-xs">
-                            {t('provider_config.configured')}
-                          </Badge>
-                        )}
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <div className="flex gap-2">
+                <Select value={activeProvider?.id || ''} onValueChange={handleProviderChange}>
+                  <SelectTrigger id="provider-select">
+                    <SelectValue placeholder={t('provider_config.select_provider')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {providers.map((provider) => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        <div className="flex items-center gap-2">
+                          <span>{provider.name}</span>
+                          {provider.apiKey && (
+                            <Badge variant="secondary" className="text-xs">
+                              {t('provider_config.configured')}
+                            </Badge>
+                          )}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={() => setAddProviderOpen(true)}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  {t('provider_config.add_provider')}
+                </Button>
+              </div>
             </div>
 
             {/* Provider-specific configuration */}
@@ -164,6 +183,16 @@ const ModelPage = () => {
                   <span className="text-xs text-muted-foreground ml-auto">
                     {t(`provider_types.${activeProvider.type.replace('-', '_')}`)}
                   </span>
+                  {!isBuiltInProvider(activeProvider.id) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleRemoveProvider}
+                      title={t('provider_config.remove_provider')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
                 </div>
                 {renderProviderConfig(activeProvider)}
 
@@ -316,6 +345,8 @@ const ModelPage = () => {
           </Card>
         )}
       </div>
+
+      <AddProviderDialog open={addProviderOpen} onOpenChange={setAddProviderOpen} />
     </div>
   );
 };
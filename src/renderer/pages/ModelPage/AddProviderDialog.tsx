@@ -0,0 +1,112 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useModelStore } from '@/stores/modelStore';
+import type { ProviderType } from '../../../types/models';
+import { useTranslation } from 'react-i18next';
+
+const PROVIDER_TYPES: ProviderType[] = [
+  'openai-compatible',
+  'openrouter',
+  'vercel-gateway',
+  'local',
+  'openai',
+  'anthropic',
+  'google',
+  'groq',
+  'xai'
+];
+
+interface AddProviderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Create another provider instance: a custom OpenAI-compatible endpoint or a
+ * second account of a built-in provider
+ */
+export const AddProviderDialog = ({ open, onOpenChange }: AddProviderDialogProps) => {
+  const { t } = useTranslation('models');
+  const { addProvider } = useModelStore();
+  const [type, setType] = React.useState<ProviderType>('openai-compatible');
+  const [name, setName] = React.useState('');
+
+  React.useEffect(() => {
+    if (open) {
+      setType('openai-compatible');
+      setName('');
+    }
+  }, [open]);
+
+  const handleAdd = async () => {
+    await addProvider(type, name.trim() || t(`provider_names.${type.replace('-', '_')}`));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('add_provider.title')}</DialogTitle>
+          <DialogDescription>{t('add_provider.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="new-provider-type">{t('add_provider.type')}</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ProviderType)}>
+              <SelectTrigger id="new-provider-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDER_TYPES.map((providerType) => (
+                  <SelectItem key={providerType} value={providerType}>
+                    {t(`provider_names.${providerType.replace('-', '_')}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {t(`provider_types.${type.replace('-', '_')}`)}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="new-provider-name">{t('custom_provider.name')}</Label>
+            <Input
+              id="new-provider-name"
+              placeholder={t('add_provider.name_placeholder')}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('add_provider.cancel')}
+          </Button>
+          <Button onClick={handleAdd}>{t('add_provider.add')}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
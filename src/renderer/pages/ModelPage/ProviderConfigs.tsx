@@ -2,7 +2,7 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { ExternalLink, RefreshCw } from 'lucide-react';
+import { ExternalLink, Plus, RefreshCw, X } from 'lucide-react';
 import { useModelStore } from '@/stores/modelStore';
 import { useOpenRouterOAuth } from '@/hooks/useOpenRouterOAuth';
 import type { ProviderConfig } from '../../../types/models';
@@ -178,14 +178,16 @@ export const LocalConfig = ({ provider }: { provider: ProviderConfig }) => {
   const { t } = useTranslation('models');
   const { updateProvider, syncProviderModels, syncing } = useModelStore();
   const [baseUrl, setBaseUrl] = React.useState(provider.baseUrl || 'http://localhost:11434');
+  const [apiKey, setApiKey] = React.useState(provider.apiKey || '');
 
   // Sync local state when provider changes
   React.useEffect(() => {
     setBaseUrl(provider.baseUrl || 'http://localhost:11434');
-  }, [provider.baseUrl]);
+    setApiKey(provider.apiKey || '');
+  }, [provider.baseUrl, provider.apiKey]);
 
   const handleSave = async () => {
-    await updateProvider(provider.id, { baseUrl });
+    await updateProvider(provider.id, { baseUrl, apiKey: apiKey || undefined });
     // Trigger sync after saving
     if (baseUrl) {
       syncProviderModels(provider.id);
@@ -213,6 +215,17 @@ export const LocalConfig = ({ provider }: { provider: ProviderConfig }) => {
         <p className="text-xs text-muted-foreground">{t('base_url.help_local')}</p>
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="local-key">{t('api_key.label_optional')}</Label>
+        <Input
+          id="local-key"
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">{t('api_key.help_local')}</p>
+      </div>
+
       {provider.baseUrl && (
         <Button onClick={handleSync} disabled={syncing} variant="outline">
           <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
@@ -350,3 +363,223 @@ export const CloudConfig = ({ provider }: { provider: ProviderConfig }) => {
     </div>
   );
 };
+
+interface KeyValueRow {
+  name: string;
+  value: string;
+}
+
+const toRows = (record?: Record<string, string>): KeyValueRow[] =>
+  Object.entries(record ?? {}).map(([name, value]) => ({ name, value }));
+
+const toRecord = (rows: KeyValueRow[]): Record<string, string> | undefined => {
+  const entries = rows.filter((row) => row.name.trim()).map((row) => [row.name.trim(), row.value] as const);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+// Editable list of name/value pairs for headers and query parameters
+const KeyValueEditor = ({
+  id,
+  rows,
+  onChange,
+  namePlaceholder,
+  valuePlaceholder,
+  secretValues = false,
+}: {
+  id: string;
+  rows: KeyValueRow[];
+  onChange: (rows: KeyValueRow[]) => void;
+  namePlaceholder: string;
+  valuePlaceholder: string;
+  secretValues?: boolean;
+}) => {
+  const { t } = useTranslation('models');
+
+  const updateRow = (index: number, update: Partial<KeyValueRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...update } : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={`${id}-${index}`} className="flex gap-2">
+          <Input
+            placeholder={namePlaceholder}
+            value={row.name}
+            onChange={(e) => updateRow(index, { name: e.target.value })}
+            className="font-mono text-sm"
+          />
+          <Input
+            type={secretValues ? 'password' : 'text'}
+            placeholder={valuePlaceholder}
+            value={row.value}
+            onChange={(e) => updateRow(index, { value: e.target.value })}
+            className="font-mono text-sm"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            title={t('custom_provider.remove_row')}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...rows, { name: '', value: '' }])}>
+        <Plus className="w-4 h-4 mr-1" />
+        {t('custom_provider.add_row')}
+      </Button>
+    </div>
+  );
+};
+
+export const CustomProviderConfig = ({ provider }: { provider: ProviderConfig }) => {
+  const { t } = useTranslation('models');
+  const { updateProvider, syncProviderModels, addCustomModel, removeCustomModel, syncing } = useModelStore();
+  const [name, setName] = React.useState(provider.name);
+  const [baseUrl, setBaseUrl] = React.useState(provider.baseUrl || '');
+  const [apiKey, setApiKey] = React.useState(provider.apiKey || '');
+  const [headers, setHeaders] = React.useState<KeyValueRow[]>(toRows(provider.headers));
+  const [queryParams, setQueryParams] = React.useState<KeyValueRow[]>(toRows(provider.queryParams));
+  const [newModelId, setNewModelId] = React.useState('');
+
+  // Sync local state when provider changes
+  React.useEffect(() => {
+    setName(provider.name);
+    setBaseUrl(provider.baseUrl || '');
+    setApiKey(provider.apiKey || '');
+    setHeaders(toRows(provider.headers));
+    setQueryParams(toRows(provider.queryParams));
+  }, [provider.id, provider.name, provider.baseUrl, provider.apiKey, provider.headers, provider.queryParams]);
+
+  const handleSave = async () => {
+    await updateProvider(provider.id, {
+      name: name.trim() || provider.name,
+      baseUrl: baseUrl.trim(),
+      apiKey: apiKey || undefined,
+      headers: toRecord(headers),
+      queryParams: toRecord(queryParams),
+    });
+    if (baseUrl.trim()) {
+      syncProviderModels(provider.id);
+    }
+  };
+
+  const handleAddModel = async () => {
+    if (!newModelId.trim()) return;
+    await addCustomModel(provider.id, newModelId);
+    setNewModelId('');
+  };
+
+  const manualModels = provider.models.filter((model) => model.userDefined);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${provider.id}-name`}>{t('custom_provider.name')}</Label>
+        <Input
+          id={`${provider.id}-name`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${provider.id}-url`}>{t('base_url.label')}</Label>
+        <Input
+          id={`${provider.id}-url`}
+          type="url"
+          placeholder="https://api.example.com/v1"
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">{t('base_url.help_custom')}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${provider.id}-key`}>{t('api_key.label_optional')}</Label>
+        <Input
+          id={`${provider.id}-key`}
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">{t('api_key.help_custom')}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t('custom_provider.headers')}</Label>
+        <KeyValueEditor
+          id={`${provider.id}-headers`}
+          rows={headers}
+          onChange={setHeaders}
+          namePlaceholder="api-key"
+          valuePlaceholder={t('custom_provider.value')}
+          secretValues
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t('custom_provider.query_params')}</Label>
+        <KeyValueEditor
+          id={`${provider.id}-query`}
+          rows={queryParams}
+          onChange={setQueryParams}
+          namePlaceholder="api-version"
+          valuePlaceholder="2024-10-21"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleSave}>{t('stats.save')}</Button>
+        {provider.baseUrl && (
+          <Button onClick={() => syncProviderModels(provider.id)} disabled={syncing} variant="outline">
+            <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+            {t('models.sync')}
+          </Button>
+        )}
+      </div>
+
+      {/* Models added by ID, for endpoints without a model list */}
+      <div className="space-y-2 pt-2 border-t">
+        <Label htmlFor={`${provider.id}-model`}>{t('custom_provider.add_model')}</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`${provider.id}-model`}
+            placeholder="deepseek-chat"
+            value={newModelId}
+            onChange={(e) => setNewModelId(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddModel()}
+            className="font-mono text-sm"
+          />
+          <Button onClick={handleAddModel} variant="outline" disabled={!newModelId.trim()}>
+            <Plus className="w-4 h-4 mr-1" />
+            {t('custom_provider.add')}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">{t('custom_provider.add_model_help')}</p>
+        {manualModels.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {manualModels.map((model) => (
+              <span
+                key={model.id}
+                className="inline-flex items-center gap-1 rounded-md border px-2 py-1 font-mono text-xs"
+              >
+                {model.id}
+                <button
+                  type="button"
+                  onClick={() => removeCustomModel(provider.id, model.id)}
+                  title={t('custom_provider.remove_model')}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
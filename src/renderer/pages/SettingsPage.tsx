@@ -1,18 +1,38 @@
 import {
   PersonalizationSection,
   AppearanceSection,
+  ShortcutsSection,
+  NotificationsSection,
   SecuritySection,
-  AIConfigSection
+  AIConfigSection,
+  FallbackSection,
+  WebSearchSection,
+  MCPRegistrySection,
+  LoggingSection,
+  PromptLibrarySection,
+  AgentsSection
 } from '@/components/settings';
 
-const SettingsPage = () => {
+interface SettingsPageProps {
+  onOpenLogViewer?: () => void;
+}
+
+const SettingsPage = ({ onOpenLogViewer }: SettingsPageProps) => {
   return (
     <div className="h-full overflow-y-auto">
       <div className="max-w-4xl mx-auto space-y-6 px-4 mb-10">
         <PersonalizationSection />
         <AppearanceSection />
+        <ShortcutsSection />
+        <NotificationsSection />
         <SecuritySection />
         <AIConfigSection />
+        <FallbackSection />
+        <WebSearchSection />
+        <MCPRegistrySection />
+        <LoggingSection onOpenLogViewer={onOpenLogViewer} />
+        <PromptLibrarySection />
+        <AgentsSection />
       </div>
     </div>
   );
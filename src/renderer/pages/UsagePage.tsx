@@ -0,0 +1,338 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis } from 'recharts';
+import { CheckCircle, Wallet } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { formatCost, formatTokens, startOfMonth } from '@/lib/usage';
+import { getRendererLogger } from '@/services/logger';
+import type { UsageBreakdown, UsageStats } from '../../types/database';
+import { DEFAULT_PREFERENCES, type UIPreferences } from '../../types/preferences';
+
+const logger = getRendererLogger();
+
+type UsageRange = 'month' | 'last30' | 'all';
+
+const RANGES: UsageRange[] = ['month', 'last30', 'all'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getRangeStart = (range: UsageRange): number | undefined => {
+  switch (range) {
+    case 'month':
+      return startOfMonth();
+    case 'last30':
+      return Date.now() - 30 * DAY_MS;
+    default:
+      return undefined;
+  }
+};
+
+const UsagePage = () => {
+  const { t } = useTranslation('usage');
+  const [range, setRange] = useState<UsageRange>('month');
+  const [stats, setStats] = useState<UsageStats | null>(null);
+  const [monthSpend, setMonthSpend] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const loadStats = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [rangeResult, monthResult] = await Promise.all([
+        window.levante.db.usage.stats({ date_from: getRangeStart(range) }),
+        window.levante.db.usage.stats({ date_from: startOfMonth() }),
+      ]);
+
+      if (rangeResult.success) {
+        setStats(rangeResult.data);
+      }
+      if (monthResult.success) {
+        setMonthSpend(monthResult.data.totals.cost);
+      }
+    } catch (error) {
+      logger.database.error('Failed to load usage stats', {
+        range,
+        error: error instanceof Error ? error.message : error,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const chartConfig: ChartConfig = {
+    input_tokens: { label: t('columns.input'), color: 'hsl(var(--chart-1))' },
+    output_tokens: { label: t('columns.output'), color: 'hsl(var(--chart-2))' },
+  };
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="max-w-4xl mx-auto space-y-6 px-4 mb-10">
+        <div className="inline-flex items-center rounded-full bg-muted p-1">
+          {RANGES.map((value) => (
+            <button
+              key={value}
+              onClick={() => setRange(value)}
+              className={cn(
+                'inline-flex items-center justify-center rounded-full px-3 py-1.5 text-sm font-medium transition-all',
+                range === value
+                  ? 'bg-background text-foreground shadow-sm'
+                  : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {t(`ranges.${value}`)}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          <TotalCard
+            title={t('totals.cost')}
+            value={stats ? formatCost(stats.totals.cost) : '—'}
+            hint={stats && stats.totals.unpriced > 0 ? t('totals.unpriced', { count: stats.totals.unpriced }) : undefined}
+          />
+          <TotalCard title={t('totals.input')} value={stats ? formatTokens(stats.totals.input_tokens) : '—'} />
+          <TotalCard
+            title={t('totals.output')}
+            value={stats ? formatTokens(stats.totals.output_tokens) : '—'}
+            hint={
+              stats && stats.totals.reasoning_tokens > 0
+                ? t('totals.reasoning', { tokens: formatTokens(stats.totals.reasoning_tokens) })
+                : undefined
+            }
+          />
+          <TotalCard title={t('totals.messages')} value={stats ? String(stats.totals.messages) : '—'} />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('chart.title')}</CardTitle>
+            <CardDescription>{t('chart.description')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {stats && stats.by_day.length > 0 ? (
+              <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                <BarChart data={stats.by_day}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="key" tickLine={false} axisLine={false} tickMargin={8} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="input_tokens" stackId="tokens" fill="var(--color-input_tokens)" />
+                  <Bar dataKey="output_tokens" stackId="tokens" fill="var(--color-output_tokens)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                {loading ? t('loading') : t('empty')}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <BreakdownTable title={t('breakdown.by_model')} rows={stats?.by_model ?? []} />
+        <BreakdownTable title={t('breakdown.by_provider')} rows={stats?.by_provider ?? []} />
+        <BreakdownTable
+          title={t('breakdown.by_session')}
+          rows={(stats?.by_session ?? []).map((row) => ({ ...row, key: row.label || t('breakdown.untitled') }))}
+        />
+
+        <BudgetCard monthSpend={monthSpend} />
+      </div>
+    </div>
+  );
+};
+
+const TotalCard = ({ title, value, hint }: { title: string; value: string; hint?: string }) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{title}</CardDescription>
+      <CardTitle className="text-2xl tabular-nums">{value}</CardTitle>
+    </CardHeader>
+    {hint && (
+      <CardContent>
+        <p className="text-xs text-muted-foreground">{hint}</p>
+      </CardContent>
+    )}
+  </Card>
+);
+
+const BreakdownTable = ({ title, rows }: { title: string; rows: UsageBreakdown[] }) => {
+  const { t } = useTranslation('usage');
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('columns.name')}</TableHead>
+              <TableHead className="text-right">{t('columns.messages')}</TableHead>
+              <TableHead className="text-right">{t('columns.input')}</TableHead>
+              <TableHead className="text-right">{t('columns.output')}</TableHead>
+              <TableHead className="text-right">{t('columns.cost')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow key={`${row.key}-${index}`}>
+                <TableCell className="max-w-[240px] truncate font-medium">{row.key}</TableCell>
+                <TableCell className="text-right tabular-nums">{row.messages}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatTokens(row.input_tokens)}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatTokens(row.output_tokens)}</TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {row.unpriced === row.messages ? '—' : formatCost(row.cost)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+const BudgetCard = ({ monthSpend }: { monthSpend: number }) => {
+  const { t } = useTranslation('usage');
+  const [budget, setBudget] = useState<UIPreferences['budget']>(DEFAULT_PREFERENCES.budget);
+  const [limitInput, setLimitInput] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    window.levante.preferences
+      .get('budget')
+      .then((result) => {
+        if (result?.data) {
+          const loaded = result.data as UIPreferences['budget'];
+          setBudget(loaded);
+          setLimitInput(loaded.monthlyLimit !== null ? String(loaded.monthlyLimit) : '');
+        }
+      })
+      .catch((error) => {
+        logger.preferences.error('Error loading budget settings', {
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+  }, []);
+
+  const handleSave = async () => {
+    const limit = parseFloat(limitInput);
+    const next: UIPreferences['budget'] = {
+      monthlyLimit: limitInput.trim() && limit > 0 ? limit : null,
+      warnAtPercent: Math.min(100, Math.max(1, Math.round(budget.warnAtPercent) || 80)),
+    };
+
+    try {
+      await window.levante.preferences.set('budget', next);
+      setBudget(next);
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+    } catch (error) {
+      logger.preferences.error('Error saving budget settings', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  };
+
+  const percent = budget.monthlyLimit ? Math.min(100, (monthSpend / budget.monthlyLimit) * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          {t('budget.title')}
+        </CardTitle>
+        <CardDescription>{t('budget.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {budget.monthlyLimit !== null && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>
+                {t('budget.spent_of', {
+                  spent: formatCost(monthSpend),
+                  limit: formatCost(budget.monthlyLimit),
+                })}
+              </span>
+              <span className="tabular-nums text-muted-foreground">{Math.round(percent)}%</span>
+            </div>
+            <Progress
+              value={percent}
+              className={cn(percent >= budget.warnAtPercent && '[&>div]:bg-amber-500')}
+            />
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="monthlyLimit">{t('budget.monthly_limit')}</Label>
+            <Input
+              id="monthlyLimit"
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder={t('budget.no_limit')}
+              value={limitInput}
+              onChange={(e) => setLimitInput(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="warnAtPercent">{t('budget.warn_at')}</Label>
+            <Input
+              id="warnAtPercent"
+              type="number"
+              min={1}
+              max={100}
+              value={budget.warnAtPercent}
+              onChange={(e) => setBudget((prev) => ({ ...prev, warnAtPercent: Number(e.target.value) }))}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" onClick={handleSave}>
+            {t('budget.save')}
+          </Button>
+          {saved && (
+            <div className="flex items-center text-sm text-green-600">
+              <CheckCircle className="mr-1 h-4 w-4" />
+              {t('budget.saved')}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UsagePage;
@@ -22,7 +22,7 @@ export async function fetchAnthropicModels(apiKey: string): Promise<Model[]> {
         name: model.display_name || model.id,
         provider: "anthropic",
         contextLength: 200000, // All Claude models have 200k context
-        capabilities: ["text", "vision", "tools"],
+        capabilities: ["text", "vision", "files", "tools"],
         isAvailable: true,
         userDefined: false,
         pricing: undefined, // Anthropic API doesn't provide pricing
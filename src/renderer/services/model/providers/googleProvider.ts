@@ -50,7 +50,7 @@ function getContextLength(modelId: string): number {
 function getCapabilities(model: any): string[] {
   const caps = ['text', 'tools'];
   if (model.supportedGenerationMethods?.includes('generateContent')) {
-    caps.push('vision');
+    caps.push('vision', 'files');
   }
   return caps;
 }
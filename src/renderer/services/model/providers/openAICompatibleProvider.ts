@@ -0,0 +1,44 @@
+import type { Model, ProviderConfig } from '../../../../types/models';
+import { getRendererLogger } from '@/services/logger';
+
+const logger = getRendererLogger();
+
+// Used when the endpoint does not report a context window
+export const DEFAULT_CONTEXT_LENGTH = 8192;
+
+/**
+ * Fetch models from a custom OpenAI-compatible endpoint
+ */
+export async function fetchOpenAICompatibleModels(provider: ProviderConfig): Promise<Model[]> {
+  try {
+    const result = await window.levante.models.fetchOpenAICompatible({
+      baseUrl: provider.baseUrl,
+      apiKey: provider.apiKey,
+      headers: provider.headers,
+      queryParams: provider.queryParams,
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to fetch models');
+    }
+
+    const data = result.data || [];
+
+    return data.map((model: any): Model => ({
+      id: model.id,
+      name: model.name || model.id,
+      provider: provider.id,
+      // Together, LiteLLM and vLLM report the window under different names
+      contextLength: model.context_length || model.context_window || model.max_model_len || DEFAULT_CONTEXT_LENGTH,
+      capabilities: ['text'],
+      isAvailable: true,
+      userDefined: false
+    }));
+  } catch (error) {
+    logger.models.error('Failed to fetch OpenAI-compatible models', {
+      providerId: provider.id,
+      error: error instanceof Error ? error.message : error
+    });
+    throw error;
+  }
+}
@@ -52,6 +52,11 @@ function parseOpenRouterCapabilities(model: any): string[] {
     capabilities.push('vision');
   }
 
+  // Check for document (PDF) input
+  if (model.architecture?.input_modalities?.includes('file')) {
+    capabilities.push('files');
+  }
+
   // Check for function/tool calling
   if (model.supported_parameters?.includes('tools') ||
     model.supported_parameters?.includes('functions') ||
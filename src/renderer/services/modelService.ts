@@ -1,4 +1,4 @@
-import type { Model, ProviderConfig } from '../../types/models';
+import { qualifyModelId, type Model, type ProviderConfig, type ProviderType } from '../../types/models';
 import { getRendererLogger } from '@/services/logger';
 import { migrateCloudProvider, migrateCloudProvidersToDynamic } from './model/migrations';
 import { fetchOpenRouterModels } from './model/providers/openRouterProvider';
@@ -9,9 +9,24 @@ import { fetchGoogleModels } from './model/providers/googleProvider';
 import { fetchAnthropicModels } from './model/providers/anthropicProvider';
 import { fetchGroqModels } from './model/providers/groqProvider';
 import { fetchXAIModels } from './model/providers/xAIProvider';
+import { fetchOpenAICompatibleModels, DEFAULT_CONTEXT_LENGTH } from './model/providers/openAICompatibleProvider';
 
 const logger = getRendererLogger();
 
+// Providers created on first run; extra instances added by the user can be removed
+const BUILT_IN_PROVIDER_IDS = ['openrouter', 'vercel-gateway', 'local', 'openai', 'anthropic', 'google', 'groq', 'xai'];
+
+// Endpoints filled in for new instances of a provider type
+const DEFAULT_BASE_URLS: Partial<Record<ProviderType, string>> = {
+  'vercel-gateway': 'https://ai-gateway.vercel.sh/v1',
+  groq: 'https://api.groq.com/openai/v1',
+  xai: 'https://api.x.ai/v1',
+};
+
+export function isBuiltInProvider(providerId: string): boolean {
+  return BUILT_IN_PROVIDER_IDS.includes(providerId);
+}
+
 class ModelServiceImpl {
   private providers: ProviderConfig[] = [];
   private activeProviderId: string | null = null;
@@ -156,7 +171,8 @@ class ModelServiceImpl {
     return this.providers.find(p => p.id === this.activeProviderId) || null;
   }
 
-  // Get available models from active provider (only selected ones)
+  // Get available models from active provider (only selected ones).
+  // IDs are qualified with the provider instance so they stay unique across providers.
   async getAvailableModels(): Promise<Model[]> {
     const activeProvider = await this.getActiveProvider();
     if (!activeProvider) return [];
@@ -173,7 +189,9 @@ class ModelServiceImpl {
       }
     }
 
-    return activeProvider.models.filter(m => m.isAvailable && m.isSelected !== false);
+    return activeProvider.models
+      .filter(m => m.isAvailable && m.isSelected !== false)
+      .map(m => ({ ...m, id: qualifyModelId(activeProvider.id, m.id), provider: activeProvider.id }));
   }
 
   // Get all models from active provider (including unselected)
@@ -271,7 +289,12 @@ class ModelServiceImpl {
           break;
         case 'local':
           if (provider.baseUrl) {
-            models = await discoverLocalModels(provider.baseUrl);
+            models = await discoverLocalModels(provider.baseUrl, provider.apiKey);
+          }
+          break;
+        case 'openai-compatible':
+          if (provider.baseUrl) {
+            models = await fetchOpenAICompatibleModels(provider);
           }
           break;
         case 'openai':
@@ -324,6 +347,10 @@ class ModelServiceImpl {
         });
       }
 
+      // Keep models added by hand that the endpoint does not list
+      const fetchedIds = new Set(models.map(m => m.id));
+      models.push(...provider.models.filter(m => m.userDefined && !fetchedIds.has(m.id)));
+
       // Update provider models and sync selected IDs
       provider.models = models;
       provider.selectedModelIds = models.filter(m => m.isSelected).map(m => m.id);
@@ -348,14 +375,19 @@ class ModelServiceImpl {
       const providersToSave = this.providers.map(provider => {
         if (provider.modelSource === 'dynamic') {
           // Extract selected model IDs
-          const selectedModelIds = provider.models
-            .filter(m => m.isSelected === true)
-            .map(m => m.id);
+          const selectedModels = provider.models.filter(m => m.isSelected === true);
+          const selectedModelIds = selectedModels.map(m => m.id);
+          // Fallback models need their context window when the renderer is not asked
+          const contextLengths = Object.fromEntries(
+            selectedModels.filter(m => m.contextLength > 0).map(m => [m.id, m.contextLength])
+          );
 
           return {
             ...provider,
             selectedModelIds,
-            models: [], // Don't save full model list for dynamic providers
+            contextLengths,
+            // Don't save full model list for dynamic providers, only models added by hand
+            models: provider.models.filter(m => m.userDefined),
           };
         }
         // For user-defined providers (cloud), save full model data
@@ -401,6 +433,69 @@ class ModelServiceImpl {
     this.providers[providerIndex] = { ...this.providers[providerIndex], ...updates };
     await this.saveProviders();
   }
+
+  // Add another instance of a provider type (e.g. a second OpenRouter key or a custom endpoint)
+  async addProvider(type: ProviderType, name: string): Promise<ProviderConfig> {
+    const provider: ProviderConfig = {
+      id: `${type}-${Date.now().toString(36)}`,
+      name: name.trim() || type,
+      type,
+      models: [],
+      isActive: false,
+      settings: {},
+      modelSource: type === 'local' ? 'user-defined' : 'dynamic',
+      ...(DEFAULT_BASE_URLS[type] ? { baseUrl: DEFAULT_BASE_URLS[type] } : {}),
+    };
+
+    this.providers.push(provider);
+    await this.saveProviders();
+    return provider;
+  }
+
+  // Remove a provider added by the user. Models qualified with its id stop resolving.
+  async removeProvider(providerId: string): Promise<void> {
+    if (isBuiltInProvider(providerId)) throw new Error('Built-in providers cannot be removed');
+    if (!this.providers.some(p => p.id === providerId)) throw new Error('Provider not found');
+
+    this.providers = this.providers.filter(p => p.id !== providerId);
+    if (this.activeProviderId === providerId) {
+      this.activeProviderId = this.providers[0]?.id ?? null;
+      this.providers.forEach(p => p.isActive = p.id === this.activeProviderId);
+    }
+
+    await this.saveProviders();
+  }
+
+  // Add a model by ID, for endpoints that do not list their models (e.g. Azure deployments)
+  async addCustomModel(providerId: string, modelId: string, contextLength?: number): Promise<void> {
+    const provider = this.providers.find(p => p.id === providerId);
+    if (!provider) throw new Error('Provider not found');
+
+    const id = modelId.trim();
+    if (!id) throw new Error('Model ID is required');
+    if (provider.models.some(m => m.id === id)) throw new Error('Model already exists');
+
+    provider.models.push({
+      id,
+      name: id,
+      provider: providerId,
+      contextLength: contextLength || DEFAULT_CONTEXT_LENGTH,
+      capabilities: ['text'],
+      isAvailable: true,
+      userDefined: true,
+      isSelected: true,
+    });
+
+    await this.saveProviders();
+  }
+
+  async removeCustomModel(providerId: string, modelId: string): Promise<void> {
+    const provider = this.providers.find(p => p.id === providerId);
+    if (!provider) throw new Error('Provider not found');
+
+    provider.models = provider.models.filter(m => !(m.userDefined && m.id === modelId));
+    await this.saveProviders();
+  }
 }
 
 export const modelService = new ModelServiceImpl();
@@ -0,0 +1,64 @@
+import { create } from 'zustand';
+import { getRendererLogger } from '@/services/logger';
+import type { Agent, CreateAgentInput, UpdateAgentInput } from '../../types/agents';
+
+const logger = getRendererLogger();
+
+interface AgentState {
+  // State
+  agents: Agent[];
+  loaded: boolean;
+
+  // Actions
+  loadAgents: () => Promise<void>;
+  createAgent: (input: CreateAgentInput) => Promise<Agent>;
+  updateAgent: (input: UpdateAgentInput) => Promise<Agent>;
+  deleteAgent: (id: string) => Promise<void>;
+}
+
+export const useAgentStore = create<AgentState>((set, get) => ({
+  // Initial state
+  agents: [],
+  loaded: false,
+
+  loadAgents: async () => {
+    try {
+      const result = await window.levante.agents.list();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load agents');
+      }
+      set({ agents: result.data ?? [], loaded: true });
+    } catch (error) {
+      logger.preferences.error('Failed to load agents', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  },
+
+  // Mutations throw so dialogs can show the validation error
+  createAgent: async (input) => {
+    const result = await window.levante.agents.create(input);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to create agent');
+    }
+    await get().loadAgents();
+    return result.data;
+  },
+
+  updateAgent: async (input) => {
+    const result = await window.levante.agents.update(input);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to update agent');
+    }
+    await get().loadAgents();
+    return result.data;
+  },
+
+  deleteAgent: async (id) => {
+    const result = await window.levante.agents.delete(id);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to delete agent');
+    }
+    set({ agents: get().agents.filter((a) => a.id !== id) });
+  },
+}));
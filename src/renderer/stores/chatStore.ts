@@ -14,38 +14,190 @@
 
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { ChatSession, Message, CreateMessageInput } from '../../types/database';
-import type { UIMessage } from 'ai';
+import type {
+  ChatSession,
+  Message,
+  CreateMessageInput,
+  MessageAttachment,
+  MessageReasoning,
+  MessageSource,
+  Folder,
+  UpdateChatSessionInput,
+} from '../../types/database';
+import type { UIMessage, FileUIPart } from 'ai';
 import { getRendererLogger } from '@/services/logger';
+import { getDataUrlBase64 } from '@/lib/attachments';
+import { getMessageUsage, type ChatMessageMetadata } from '@/lib/usage';
+import { getMessageReasoning, toReasoningParts } from '@/lib/reasoning';
+import { getMessageSources, toSourceParts } from '@/lib/sources';
+import type { GenerationParams } from '../../types/preferences';
 
 const logger = getRendererLogger();
 
+/**
+ * Convert a stored message to the UIMessage format used by useChat
+ */
+const toUIMessage = async (dbMsg: Message): Promise<UIMessage> => {
+  const parts: any[] = [];
+
+  // Add attachment parts (read back from disk as data URLs)
+  if (dbMsg.attachments) {
+    try {
+      const attachments: MessageAttachment[] = JSON.parse(dbMsg.attachments);
+      for (const attachment of attachments) {
+        const readResult = await window.levante.attachments.read(attachment);
+        if (readResult.success && readResult.data) {
+          parts.push({
+            type: 'file',
+            mediaType: attachment.mediaType,
+            filename: attachment.filename,
+            url: `data:${attachment.mediaType};base64,${readResult.data}`,
+          });
+        } else {
+          logger.database.warn('Attachment missing on disk', {
+            messageId: dbMsg.id,
+            attachmentId: attachment.id,
+          });
+        }
+      }
+    } catch (err) {
+      logger.database.warn('Failed to parse attachments', {
+        messageId: dbMsg.id,
+        error: err,
+      });
+    }
+  }
+
+  // Add reasoning parts (thinking shown before the answer)
+  if (dbMsg.reasoning) {
+    try {
+      const reasoning: MessageReasoning[] = JSON.parse(dbMsg.reasoning);
+      parts.push(...toReasoningParts(reasoning));
+    } catch (err) {
+      logger.database.warn('Failed to parse reasoning', {
+        messageId: dbMsg.id,
+        error: err,
+      });
+    }
+  }
+
+  // Add text part
+  if (dbMsg.content) {
+    parts.push({
+      type: 'text',
+      text: dbMsg.content,
+    });
+  }
+
+  // Add tool call parts
+  if (dbMsg.tool_calls) {
+    try {
+      const toolCalls = JSON.parse(dbMsg.tool_calls);
+      if (Array.isArray(toolCalls)) {
+        toolCalls.forEach((tc) => {
+          parts.push({
+            type: `tool-${tc.name}`,
+            toolCallId: tc.id,
+            toolName: tc.name,
+            input: tc.arguments,
+            output: tc.result,
+            state: 'output-available',
+          });
+        });
+      }
+    } catch (err) {
+      logger.database.warn('Failed to parse tool calls', {
+        messageId: dbMsg.id,
+        error: err,
+      });
+    }
+  }
+
+  // Add web source parts (listed under the answer)
+  if (dbMsg.sources) {
+    try {
+      const sources: MessageSource[] = JSON.parse(dbMsg.sources);
+      parts.push(...toSourceParts(sources));
+    } catch (err) {
+      logger.database.warn('Failed to parse sources', {
+        messageId: dbMsg.id,
+        error: err,
+      });
+    }
+  }
+
+  const metadata: ChatMessageMetadata | undefined = dbMsg.usage ? { usage: dbMsg.usage } : undefined;
+
+  return {
+    id: dbMsg.id,
+    role: dbMsg.role,
+    parts,
+    metadata,
+  };
+};
+
 interface ChatStore {
   // Session state
   currentSession: ChatSession | null;
   sessions: ChatSession[];
+  folders: Folder[];
+  tags: string[];
   loading: boolean;
   error: string | null;
 
   // Deep link state
   pendingPrompt: string | null;
 
+  // Search state (message to scroll to once its session is shown)
+  pendingMessageFocus: { sessionId: string; messageId: string } | null;
+
+  // Branch state for the messages shown (message id -> sibling ids, oldest first)
+  branchSiblings: Record<string, string[]>;
+  // Bumped when the active branch of the current session changes outside ChatPage
+  historyVersion: number;
+
   // Session actions
   refreshSessions: () => Promise<void>;
-  createSession: (title?: string, model?: string) => Promise<ChatSession | null>;
+  createSession: (
+    title?: string,
+    model?: string,
+    agentId?: string | null,
+    generation?: GenerationParams | null
+  ) => Promise<ChatSession | null>;
   loadSession: (sessionId: string) => Promise<void>;
   deleteSession: (sessionId: string) => Promise<boolean>;
   updateSessionTitle: (sessionId: string, title: string) => Promise<boolean>;
   setCurrentSession: (session: ChatSession | null) => void;
   startNewChat: () => void;
 
+  // Organization actions (folders, pinning, tags)
+  refreshFolders: () => Promise<void>;
+  refreshTags: () => Promise<void>;
+  createFolder: (name: string) => Promise<Folder | null>;
+  renameFolder: (folderId: string, name: string) => Promise<boolean>;
+  deleteFolder: (folderId: string) => Promise<boolean>;
+  moveSessionToFolder: (sessionId: string, folderId: string | null) => Promise<boolean>;
+  setSessionPinned: (sessionId: string, pinned: boolean) => Promise<boolean>;
+  setSessionTags: (sessionId: string, tags: string[]) => Promise<boolean>;
+  setSessionAgent: (sessionId: string, agentId: string | null) => Promise<boolean>;
+  setSessionGenerationParams: (sessionId: string, generation: GenerationParams | null) => Promise<boolean>;
+
   // Message persistence (called by useChat onFinish callback)
-  persistMessage: (message: UIMessage) => Promise<void>;
+  // parentId: previous message in the branch (null for the first one, omit to append to the active branch)
+  persistMessage: (message: UIMessage, parentId?: string | null) => Promise<void>;
   loadHistoricalMessages: (sessionId: string) => Promise<UIMessage[]>;
 
+  // Branch actions
+  switchBranch: (messageId: string) => Promise<UIMessage[] | null>;
+  refreshBranches: () => Promise<void>;
+
   // Deep link actions
   setPendingPrompt: (prompt: string | null) => void;
 
+  // Search actions
+  openMessage: (sessionId: string, messageId: string) => Promise<void>;
+  clearPendingMessageFocus: () => void;
+
   // Utility
   setError: (error: string | null) => void;
   setLoading: (loading: boolean) => void;
@@ -57,15 +209,39 @@ export const useChatStore = create<ChatStore>()(
       // Initial state
       currentSession: null,
       sessions: [],
+      folders: [],
+      tags: [],
       loading: false,
       error: null,
       pendingPrompt: null,
+      pendingMessageFocus: null,
+      branchSiblings: {},
+      historyVersion: 0,
 
       // Basic setters
       setError: (error) => set({ error }),
       setLoading: (loading) => set({ loading }),
       setCurrentSession: (session) => set({ currentSession: session }),
       setPendingPrompt: (prompt) => set({ pendingPrompt: prompt }),
+      clearPendingMessageFocus: () => set({ pendingMessageFocus: null }),
+
+      // Show a session and ask ChatPage to scroll to one of its messages
+      openMessage: async (sessionId: string, messageId: string) => {
+        logger.core.info('Opening message from search', { sessionId, messageId });
+        set({ pendingMessageFocus: { sessionId, messageId } });
+
+        // The match may live on a branch that is not shown
+        const result = await window.levante.db.messages.switchBranch(sessionId, messageId);
+        if (!result.success) {
+          logger.database.warn('Failed to show branch of message', { sessionId, messageId, error: result.error });
+        }
+
+        if (get().currentSession?.id !== sessionId) {
+          await get().loadSession(sessionId);
+        } else {
+          set((state) => ({ historyVersion: state.historyVersion + 1 }));
+        }
+      },
 
       // Session management
       refreshSessions: async () => {
@@ -73,7 +249,8 @@ export const useChatStore = create<ChatStore>()(
         set({ loading: true, error: null });
 
         try {
-          const result = await window.levante.db.sessions.list({});
+          // Folders and pinned chats need more than the most recent page
+          const result = await window.levante.db.sessions.list({ limit: 500 });
 
           if (result.success && result.data) {
             logger.database.info('Sessions refreshed', {
@@ -99,7 +276,7 @@ export const useChatStore = create<ChatStore>()(
         }
       },
 
-      createSession: async (title = 'New Chat', model = 'openai/gpt-4o') => {
+      createSession: async (title = 'New Chat', model = 'openai/gpt-4o', agentId = null, generation = null) => {
         // Validate model is not empty
         if (!model || model.trim() === '') {
           logger.database.error('Cannot create session: model is required', { title, model });
@@ -117,6 +294,8 @@ export const useChatStore = create<ChatStore>()(
           const input = {
             title: title || 'New Chat',
             model: model,
+            agent_id: agentId,
+            generation_params: generation,
           };
 
           logger.database.debug('Calling IPC to create session', { input });
@@ -289,13 +468,111 @@ export const useChatStore = create<ChatStore>()(
         }
       },
 
+      refreshFolders: async () => {
+        try {
+          const result = await window.levante.db.folders.list();
+          if (result.success) {
+            set({ folders: result.data });
+          } else {
+            logger.database.error('Failed to load folders', { error: result.error });
+          }
+        } catch (err) {
+          logger.database.error('Error loading folders', {
+            error: err instanceof Error ? err.message : err,
+          });
+        }
+      },
+
+      refreshTags: async () => {
+        try {
+          const result = await window.levante.db.sessions.tags();
+          if (result.success) {
+            set({ tags: result.data });
+          }
+        } catch (err) {
+          logger.database.error('Error loading tags', {
+            error: err instanceof Error ? err.message : err,
+          });
+        }
+      },
+
+      createFolder: async (name: string) => {
+        const result = await window.levante.db.folders.create({ name });
+
+        if (result.success && result.data) {
+          logger.database.info('Folder created', { folderId: result.data.id });
+          set((state) => ({ folders: [...state.folders, result.data] }));
+          return result.data;
+        }
+
+        logger.database.error('Failed to create folder', { error: result.error });
+        set({ error: result.error || 'Failed to create folder' });
+        return null;
+      },
+
+      renameFolder: async (folderId: string, name: string) => {
+        const result = await window.levante.db.folders.update({ id: folderId, name });
+
+        if (result.success && result.data) {
+          const folder = result.data;
+          set((state) => ({
+            folders: state.folders.map((f) => (f.id === folderId ? folder : f)),
+          }));
+          return true;
+        }
+
+        logger.database.error('Failed to rename folder', { folderId, error: result.error });
+        set({ error: result.error || 'Failed to rename folder' });
+        return false;
+      },
+
+      deleteFolder: async (folderId: string) => {
+        const result = await window.levante.db.folders.delete(folderId);
+
+        if (result.success) {
+          logger.database.info('Folder deleted', { folderId });
+          // Chats in the folder are kept, just unfiled
+          set((state) => ({
+            folders: state.folders.filter((f) => f.id !== folderId),
+            sessions: state.sessions.map((s) =>
+              s.folder_id === folderId ? { ...s, folder_id: null } : s
+            ),
+          }));
+          return true;
+        }
+
+        logger.database.error('Failed to delete folder', { folderId, error: result.error });
+        set({ error: result.error || 'Failed to delete folder' });
+        return false;
+      },
+
+      moveSessionToFolder: (sessionId: string, folderId: string | null) =>
+        updateSessionFields({ id: sessionId, folder_id: folderId }),
+
+      setSessionPinned: (sessionId: string, pinned: boolean) =>
+        updateSessionFields({ id: sessionId, pinned }),
+
+      setSessionTags: async (sessionId: string, tags: string[]) => {
+        const updated = await updateSessionFields({ id: sessionId, tags });
+        if (updated) {
+          await get().refreshTags();
+        }
+        return updated;
+      },
+
+      setSessionAgent: (sessionId: string, agentId: string | null) =>
+        updateSessionFields({ id: sessionId, agent_id: agentId }),
+
+      setSessionGenerationParams: (sessionId: string, generation: GenerationParams | null) =>
+        updateSessionFields({ id: sessionId, generation_params: generation }),
+
       startNewChat: () => {
         logger.core.info('Starting new chat');
-        set({ currentSession: null, error: null });
+        set({ currentSession: null, error: null, pendingMessageFocus: null, branchSiblings: {} });
       },
 
       // Message persistence
-      persistMessage: async (message: UIMessage) => {
+      persistMessage: async (message: UIMessage, parentId?: string | null) => {
         const { currentSession } = get();
 
         if (!currentSession) {
@@ -327,11 +604,43 @@ export const useChatStore = create<ChatStore>()(
             }));
           }
 
+          // Store attached files on disk, keeping only their metadata in the message
+          const fileParts = message.parts.filter((p): p is FileUIPart => p.type === 'file');
+          const attachments: MessageAttachment[] = [];
+          for (const part of fileParts) {
+            const data = getDataUrlBase64(part.url);
+            if (!data) continue;
+
+            const saveResult = await window.levante.attachments.save(currentSession.id, {
+              filename: part.filename || 'attachment',
+              mediaType: part.mediaType,
+              data,
+            });
+
+            if (saveResult.success && saveResult.data) {
+              attachments.push(saveResult.data);
+            } else {
+              logger.database.error('Failed to save attachment', {
+                filename: part.filename,
+                error: saveResult.error,
+              });
+            }
+          }
+
+          const reasoning = getMessageReasoning(message);
+          const sources = getMessageSources(message);
+
           const input: CreateMessageInput = {
+            id: message.id,
+            parent_id: parentId,
             session_id: currentSession.id,
             role: message.role,
             content: content || '', // Fallback to empty string if no text
             tool_calls: toolCallsData,
+            attachments: attachments.length > 0 ? attachments : null,
+            usage: getMessageUsage(message) ?? null,
+            reasoning: reasoning.length > 0 ? reasoning : null,
+            sources: sources.length > 0 ? sources : null,
           };
 
           const result = await window.levante.db.messages.create(input);
@@ -342,6 +651,7 @@ export const useChatStore = create<ChatStore>()(
               sessionId: currentSession.id,
               role: message.role,
               hasToolCalls: !!toolCallsData,
+              attachmentCount: attachments.length,
             });
 
             // Auto-generate title for first user message
@@ -381,15 +691,54 @@ export const useChatStore = create<ChatStore>()(
         }
       },
 
+      // Show another branch; resolves with the messages to display
+      switchBranch: async (messageId: string) => {
+        const { currentSession } = get();
+        if (!currentSession) return null;
+
+        try {
+          const result = await window.levante.db.messages.switchBranch(currentSession.id, messageId);
+
+          if (!result.success || !result.data) {
+            logger.database.error('Failed to switch branch', {
+              sessionId: currentSession.id,
+              messageId,
+              error: result.error,
+            });
+            return null;
+          }
+
+          const uiMessages = await Promise.all(result.data.messages.map(toUIMessage));
+          set({ branchSiblings: result.data.siblings });
+
+          logger.database.info('Branch switched', { sessionId: currentSession.id, messageId });
+          return uiMessages;
+        } catch (err) {
+          logger.database.error('Error switching branch', {
+            messageId,
+            error: err instanceof Error ? err.message : err,
+          });
+          return null;
+        }
+      },
+
+      // Reload sibling info after a regenerate or edit added a branch
+      refreshBranches: async () => {
+        const { currentSession } = get();
+        if (!currentSession) return;
+
+        const result = await window.levante.db.messages.activePath(currentSession.id);
+        if (result.success && result.data) {
+          set({ branchSiblings: result.data.siblings });
+        }
+      },
+
       loadHistoricalMessages: async (sessionId: string): Promise<UIMessage[]> => {
         logger.database.debug('Loading historical messages', { sessionId });
 
         try {
-          const result = await window.levante.db.messages.list({
-            session_id: sessionId,
-            limit: 100,
-            offset: 0,
-          });
+          // Only the branch currently shown, reconstructed from parent links
+          const result = await window.levante.db.messages.activePath(sessionId);
 
           if (!result.success || !result.data) {
             logger.database.error('Failed to load historical messages', {
@@ -399,48 +748,8 @@ export const useChatStore = create<ChatStore>()(
             return [];
           }
 
-          // Convert DB messages to UIMessage format
-          const uiMessages: UIMessage[] = result.data.items.map((dbMsg: Message) => {
-            const parts: any[] = [];
-
-            // Add text part
-            if (dbMsg.content) {
-              parts.push({
-                type: 'text',
-                text: dbMsg.content,
-              });
-            }
-
-            // Add tool call parts
-            if (dbMsg.tool_calls) {
-              try {
-                const toolCalls = JSON.parse(dbMsg.tool_calls);
-                if (Array.isArray(toolCalls)) {
-                  toolCalls.forEach((tc) => {
-                    parts.push({
-                      type: `tool-${tc.name}`,
-                      toolCallId: tc.id,
-                      toolName: tc.name,
-                      input: tc.arguments,
-                      output: tc.result,
-                      state: 'output-available',
-                    });
-                  });
-                }
-              } catch (err) {
-                logger.database.warn('Failed to parse tool calls', {
-                  messageId: dbMsg.id,
-                  error: err,
-                });
-              }
-            }
-
-            return {
-              id: dbMsg.id,
-              role: dbMsg.role,
-              parts,
-            };
-          });
+          const uiMessages = await Promise.all(result.data.messages.map(toUIMessage));
+          set({ branchSiblings: result.data.siblings });
 
           logger.database.info('Historical messages loaded', {
             sessionId,
@@ -461,7 +770,39 @@ export const useChatStore = create<ChatStore>()(
   )
 );
 
+/**
+ * Update session fields and merge the stored result into the session list
+ */
+const updateSessionFields = async (input: UpdateChatSessionInput): Promise<boolean> => {
+  try {
+    const result = await window.levante.db.sessions.update(input);
+
+    if (result.success && result.data) {
+      const session = result.data;
+      useChatStore.setState((state) => ({
+        sessions: state.sessions.map((s) => (s.id === session.id ? session : s)),
+        currentSession:
+          state.currentSession?.id === session.id ? session : state.currentSession,
+      }));
+      return true;
+    }
+
+    logger.database.error('Failed to update session', { sessionId: input.id, error: result.error });
+    useChatStore.setState({ error: result.error || 'Failed to update session' });
+    return false;
+  } catch (err) {
+    logger.database.error('Error updating session', {
+      sessionId: input.id,
+      error: err instanceof Error ? err.message : err,
+    });
+    return false;
+  }
+};
+
 // Export initialization function
 export const initializeChatStore = () => {
-  useChatStore.getState().refreshSessions();
+  const { refreshSessions, refreshFolders, refreshTags } = useChatStore.getState();
+  refreshSessions();
+  refreshFolders();
+  refreshTags();
 };
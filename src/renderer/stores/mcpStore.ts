@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { MCPRegistry, MCPServerConfig, MCPConnectionStatus } from '../types/mcp';
+import { MCPRegistry, MCPRegistryStatus, MCPServerConfig, MCPConnectionStatus, MCPServerStatus } from '../types/mcp';
 import mcpRegistryData from '../data/mcpRegistry.json';
 
 interface SystemDiagnosis {
@@ -12,24 +12,31 @@ interface SystemDiagnosis {
 interface MCPStore {
   // State
   registry: MCPRegistry;
+  registryStatus: MCPRegistryStatus | null; // Null until the main process answered
+  isSyncingRegistry: boolean;
   activeServers: MCPServerConfig[];
   connectionStatus: Record<string, MCPConnectionStatus>;
+  serverStatus: Record<string, MCPServerStatus>; // Errors, stderr and restarts pushed by the main process
+  toolsVersion: Record<string, number>; // Bumped when a server's tool list changes
   isLoading: boolean;
   error: string | null;
   systemDiagnosis: SystemDiagnosis;
 
   // Actions
-  loadRegistry: () => void;
+  loadRegistry: () => Promise<void>;
+  syncRegistry: () => Promise<void>;
   loadActiveServers: () => Promise<void>;
   refreshConnectionStatus: () => Promise<void>;
+  applyServerStatus: (status: MCPServerStatus) => void;
+  markToolsChanged: (serverId: string) => void;
   connectServer: (config: MCPServerConfig) => Promise<void>;
   disconnectServer: (serverId: string) => Promise<void>;
   testConnection: (config: MCPServerConfig) => Promise<boolean>;
   addServer: (config: MCPServerConfig) => Promise<void>;
   updateServer: (serverId: string, config: Partial<Omit<MCPServerConfig, 'id'>>) => Promise<void>;
   removeServer: (serverId: string) => Promise<void>;
-  importConfiguration: (config: any) => Promise<void>;
-  exportConfiguration: () => Promise<any>;
+  importConfiguration: (config: any, options?: { stripSecrets?: boolean }) => Promise<void>;
+  exportConfiguration: (options?: { stripSecrets?: boolean }) => Promise<any>;
   diagnoseSystem: () => Promise<void>;
 
   // Helper methods
@@ -41,8 +48,12 @@ interface MCPStore {
 export const useMCPStore = create<MCPStore>((set, get) => ({
   // Initial state
   registry: mcpRegistryData as MCPRegistry,
+  registryStatus: null,
+  isSyncingRegistry: false,
   activeServers: [],
   connectionStatus: {},
+  serverStatus: {},
+  toolsVersion: {},
   isLoading: false,
   error: null,
   systemDiagnosis: {
@@ -52,14 +63,14 @@ export const useMCPStore = create<MCPStore>((set, get) => ({
     lastChecked: null,
   },
 
-  // Load curated registry from JSON
-  loadRegistry: () => {
-    try {
-      set({ registry: mcpRegistryData as MCPRegistry });
-    } catch (error) {
-      console.error('Failed to load MCP registry:', error);
-      set({ error: 'Failed to load MCP registry' });
-    }
+  // Load the registry in use; the bundled one is shown until the main process answers
+  loadRegistry: async () => {
+    await applyRegistrySync(set, false);
+  },
+
+  // Fetch the configured remote registry now, ignoring the cached copy's age
+  syncRegistry: async () => {
+    await applyRegistrySync(set, true);
   },
 
   // Load active servers from configuration
@@ -87,16 +98,53 @@ export const useMCPStore = create<MCPStore>((set, get) => ({
   // Refresh connection status for all servers
   refreshConnectionStatus: async () => {
     try {
-      const result = await window.levante.mcp.connectionStatus();
+      const [result, statuses] = await Promise.all([
+        window.levante.mcp.connectionStatus(),
+        window.levante.mcp.serverStatuses()
+      ]);
       
       if (result.success && result.data) {
         set({ connectionStatus: result.data });
       }
+      if (statuses.success && statuses.data) {
+        set({
+          serverStatus: Object.fromEntries(statuses.data.map(status => [status.serverId, status]))
+        });
+      }
     } catch (error) {
       console.error('Failed to refresh connection status:', error);
     }
   },
 
+  // Live update from the connection supervisor
+  applyServerStatus: (status: MCPServerStatus) => {
+    set(state => {
+      const serverStatus = { ...state.serverStatus };
+      if (status.state === 'disconnected') {
+        delete serverStatus[status.serverId];
+      } else {
+        serverStatus[status.serverId] = status;
+      }
+
+      return {
+        serverStatus,
+        connectionStatus: {
+          ...state.connectionStatus,
+          [status.serverId]: status.state === 'ready' ? 'connected' : status.state
+        }
+      };
+    });
+  },
+
+  markToolsChanged: (serverId: string) => {
+    set(state => ({
+      toolsVersion: {
+        ...state.toolsVersion,
+        [serverId]: (state.toolsVersion[serverId] ?? 0) + 1
+      }
+    }));
+  },
+
   // Connect to a server
   connectServer: async (config: MCPServerConfig) => {
     set({ isLoading: true, error: null });
@@ -283,11 +331,11 @@ export const useMCPStore = create<MCPStore>((set, get) => ({
   },
 
   // Import configuration
-  importConfiguration: async (config: any) => {
+  importConfiguration: async (config: any, options?: { stripSecrets?: boolean }) => {
     set({ isLoading: true, error: null });
     
     try {
-      const result = await window.levante.mcp.importConfiguration(config);
+      const result = await window.levante.mcp.importConfiguration(config, options);
       
       if (result.success) {
         // Reload everything
@@ -304,9 +352,9 @@ export const useMCPStore = create<MCPStore>((set, get) => ({
   },
 
   // Export configuration
-  exportConfiguration: async () => {
+  exportConfiguration: async (options?: { stripSecrets?: boolean }) => {
     try {
-      const result = await window.levante.mcp.exportConfiguration();
+      const result = await window.levante.mcp.exportConfiguration(options);
       
       if (result.success) {
         return result.data;
@@ -360,4 +408,51 @@ export const useMCPStore = create<MCPStore>((set, get) => ({
       console.error('Failed to diagnose system:', error);
     }
   }
-}));
\ No newline at end of file
+}));
+
+async function applyRegistrySync(
+  set: (partial: Partial<MCPStore>) => void,
+  force: boolean
+): Promise<void> {
+  set({ isSyncingRegistry: true });
+
+  try {
+    const result = await window.levante.mcp.syncRegistry(force);
+
+    if (result.success && result.data) {
+      const { registry, status } = result.data;
+      // The bundled registry is imported here as well, with all its display data
+      set({
+        registry: status.source === 'bundled' ? mcpRegistryData as MCPRegistry : registry,
+        registryStatus: status
+      });
+    } else {
+      console.error('Failed to sync MCP registry:', result.error);
+    }
+  } catch (error) {
+    console.error('Failed to sync MCP registry:', error);
+  } finally {
+    set({ isSyncingRegistry: false });
+  }
+}
+
+/**
+ * A degraded server is still connected and keeps serving tools
+ */
+export const isConnectedStatus = (status?: MCPConnectionStatus) =>
+  status === 'connected' || status === 'degraded';
+
+/**
+ * Follow server status and tool list changes pushed by the main process
+ */
+export const initializeMCPStatusListener = () => {
+  const { applyServerStatus, markToolsChanged } = useMCPStore.getState();
+
+  const cleanupStatus = window.levante.mcp.onServerStatus(applyServerStatus);
+  const cleanupTools = window.levante.mcp.onToolsChanged(markToolsChanged);
+
+  return () => {
+    cleanupStatus();
+    cleanupTools();
+  };
+};
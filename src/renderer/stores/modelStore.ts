@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { modelService } from '@/services/modelService';
-import type { ProviderConfig, Model } from '../../types/models';
+import type { ProviderConfig, Model, ProviderType } from '../../types/models';
 
 interface ModelState {
   // State
@@ -18,6 +18,10 @@ interface ModelState {
   syncProviderModels: (providerId: string) => Promise<void>;
   toggleModelSelection: (providerId: string, modelId: string, selected: boolean) => Promise<void>;
   setModelSelections: (providerId: string, selections: { [modelId: string]: boolean }) => Promise<void>;
+  addProvider: (type: ProviderType, name: string) => Promise<void>;
+  removeProvider: (providerId: string) => Promise<void>;
+  addCustomModel: (providerId: string, modelId: string, contextLength?: number) => Promise<void>;
+  removeCustomModel: (providerId: string, modelId: string) => Promise<void>;
   setError: (error: string | null) => void;
   setSuccess: (message: string | null) => void;
   clearMessages: () => void;
@@ -155,6 +159,62 @@ export const useModelStore = create<ModelState>((set, get) => ({
     }
   },
 
+  // Add a provider instance and switch to it so it can be configured
+  addProvider: async (type: ProviderType, name: string) => {
+    try {
+      set({ error: null });
+      const provider = await modelService.addProvider(type, name);
+      await modelService.setActiveProvider(provider.id);
+      const providers = modelService.getProviders();
+      const activeProvider = await modelService.getActiveProvider();
+      set({ providers, activeProvider });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to add provider';
+      set({ error: errorMessage });
+    }
+  },
+
+  // Remove a provider instance added by the user
+  removeProvider: async (providerId: string) => {
+    try {
+      set({ error: null });
+      await modelService.removeProvider(providerId);
+      const providers = modelService.getProviders();
+      const activeProvider = await modelService.getActiveProvider();
+      set({ providers, activeProvider });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to remove provider';
+      set({ error: errorMessage });
+    }
+  },
+
+  // Add a model the provider does not list
+  addCustomModel: async (providerId: string, modelId: string, contextLength?: number) => {
+    try {
+      set({ error: null });
+      await modelService.addCustomModel(providerId, modelId, contextLength);
+      const providers = modelService.getProviders();
+      const activeProvider = await modelService.getActiveProvider();
+      set({ providers, activeProvider });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to add model';
+      set({ error: errorMessage });
+    }
+  },
+
+  removeCustomModel: async (providerId: string, modelId: string) => {
+    try {
+      set({ error: null });
+      await modelService.removeCustomModel(providerId, modelId);
+      const providers = modelService.getProviders();
+      const activeProvider = await modelService.getActiveProvider();
+      set({ providers, activeProvider });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to remove model';
+      set({ error: errorMessage });
+    }
+  },
+
   // Utility actions
   setError: (error: string | null) => set({ error }),
   setSuccess: (message: string | null) => set({ success: message }),
@@ -0,0 +1,68 @@
+import { create } from 'zustand';
+import { getRendererLogger } from '@/services/logger';
+import type {
+  CreatePromptTemplateInput,
+  PromptTemplate,
+  UpdatePromptTemplateInput,
+} from '../../types/prompts';
+
+const logger = getRendererLogger();
+
+interface PromptState {
+  // State
+  prompts: PromptTemplate[];
+  loaded: boolean;
+
+  // Actions
+  loadPrompts: () => Promise<void>;
+  createPrompt: (input: CreatePromptTemplateInput) => Promise<PromptTemplate>;
+  updatePrompt: (input: UpdatePromptTemplateInput) => Promise<PromptTemplate>;
+  deletePrompt: (id: string) => Promise<void>;
+}
+
+export const usePromptStore = create<PromptState>((set, get) => ({
+  // Initial state
+  prompts: [],
+  loaded: false,
+
+  loadPrompts: async () => {
+    try {
+      const result = await window.levante.prompts.list();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load prompts');
+      }
+      set({ prompts: result.data ?? [], loaded: true });
+    } catch (error) {
+      logger.preferences.error('Failed to load prompt library', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  },
+
+  // Mutations throw so dialogs can show the validation error
+  createPrompt: async (input) => {
+    const result = await window.levante.prompts.create(input);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to create prompt');
+    }
+    await get().loadPrompts();
+    return result.data;
+  },
+
+  updatePrompt: async (input) => {
+    const result = await window.levante.prompts.update(input);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to update prompt');
+    }
+    await get().loadPrompts();
+    return result.data;
+  },
+
+  deletePrompt: async (id) => {
+    const result = await window.levante.prompts.delete(id);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to delete prompt');
+    }
+    set({ prompts: get().prompts.filter((p) => p.id !== id) });
+  },
+}));
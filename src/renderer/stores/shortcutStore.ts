@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import { DEFAULT_PREFERENCES, type ShortcutSettings } from '../../types/preferences';
+import type { ShortcutStatus } from '../../types/shortcuts';
+
+export const IS_MAC = navigator.platform.toUpperCase().includes('MAC');
+
+interface ShortcutState {
+  // State
+  shortcuts: ShortcutSettings;
+  globalRegistered: boolean;
+
+  // Actions
+  applyStatus: (status: ShortcutStatus) => void;
+  load: () => Promise<void>;
+}
+
+export const useShortcutStore = create<ShortcutState>((set) => ({
+  shortcuts: DEFAULT_PREFERENCES.shortcuts,
+  globalRegistered: true,
+
+  applyStatus: (status) => {
+    set({ shortcuts: status.shortcuts, globalRegistered: status.globalRegistered });
+  },
+
+  load: async () => {
+    try {
+      const result = await window.levante.shortcuts.get();
+      if (result.success && result.data) {
+        set({ shortcuts: result.data.shortcuts, globalRegistered: result.data.globalRegistered });
+      }
+    } catch (error) {
+      console.error('Failed to load shortcuts:', error);
+    }
+  },
+}));
+
+/**
+ * Load the shortcuts and follow changes saved from any window.
+ * Returns a cleanup function.
+ */
+export const initializeShortcutStore = () => {
+  const { applyStatus, load } = useShortcutStore.getState();
+
+  const cleanup = window.levante.shortcuts.onChanged(applyStatus);
+  load();
+
+  return cleanup;
+};
@@ -0,0 +1,100 @@
+import { create } from 'zustand';
+import type { ToolConsentRequest, ToolConsentScope } from '@/types/mcp';
+
+interface ToolConsentState {
+  // State
+  requests: Record<string, ToolConsentRequest>;
+
+  // Actions
+  addRequest: (request: ToolConsentRequest) => void;
+  removeRequest: (requestId: string) => void;
+  loadPending: () => Promise<void>;
+  approve: (requestId: string, scope: ToolConsentScope, args?: Record<string, any>) => Promise<string | null>;
+  deny: (requestId: string, scope: ToolConsentScope) => Promise<void>;
+
+  // Helpers
+  getRequestForToolCall: (toolCallId: string) => ToolConsentRequest | undefined;
+}
+
+export const useToolConsentStore = create<ToolConsentState>((set, get) => ({
+  requests: {},
+
+  addRequest: (request) => {
+    set(state => ({
+      requests: { ...state.requests, [request.requestId]: request }
+    }));
+  },
+
+  removeRequest: (requestId) => {
+    set(state => {
+      const { [requestId]: _removed, ...requests } = state.requests;
+      return { requests };
+    });
+  },
+
+  // Recover requests that arrived before the renderer subscribed
+  loadPending: async () => {
+    try {
+      const result = await window.levante.mcp.getPendingToolConsents();
+      if (result.success && result.data) {
+        const requests: Record<string, ToolConsentRequest> = {};
+        result.data.forEach(request => {
+          requests[request.requestId] = request;
+        });
+        set({ requests });
+      }
+    } catch (error) {
+      console.error('Failed to load pending tool consents:', error);
+    }
+  },
+
+  approve: async (requestId, scope, args) => {
+    const result = await window.levante.mcp.respondToolConsent(requestId, {
+      approved: true,
+      scope,
+      arguments: args
+    });
+    if (!result.success) {
+      console.error('Failed to approve tool call:', result.error);
+      // Edited arguments were rejected: keep the request so they can be fixed.
+      // A request answered elsewhere is removed by the resolved event.
+      if (args) {
+        return result.error || 'Unknown error';
+      }
+    }
+    get().removeRequest(requestId);
+    return null;
+  },
+
+  deny: async (requestId, scope) => {
+    const result = await window.levante.mcp.respondToolConsent(requestId, {
+      approved: false,
+      scope
+    });
+    if (!result.success) {
+      console.error('Failed to deny tool call:', result.error);
+    }
+    get().removeRequest(requestId);
+  },
+
+  getRequestForToolCall: (toolCallId) => {
+    return Object.values(get().requests).find(request => request.toolCallId === toolCallId);
+  },
+}));
+
+/**
+ * Subscribe to consent requests pushed from the main process.
+ * Returns a cleanup function.
+ */
+export const initializeToolConsentStore = () => {
+  const { addRequest, removeRequest, loadPending } = useToolConsentStore.getState();
+
+  const cleanupRequest = window.levante.mcp.onToolConsentRequest(addRequest);
+  const cleanupResolved = window.levante.mcp.onToolConsentResolved(removeRequest);
+  loadPending();
+
+  return () => {
+    cleanupRequest();
+    cleanupResolved();
+  };
+};
@@ -5,6 +5,9 @@ import type {
   UIMessageChunk,
 } from 'ai';
 import type { ChatRequest, ChatStreamChunk } from '../../preload/types';
+import type { Model } from '../../types/models';
+import type { GenerationParams } from '../../types/preferences';
+import { toMessageUsage } from '@/lib/usage';
 
 /**
  * Custom ChatTransport implementation for Electron IPC integration with AI SDK v5.
@@ -18,10 +21,16 @@ import type { ChatRequest, ChatStreamChunk } from '../../preload/types';
  * - Transforms Electron streaming chunks to UIMessageChunk format
  * - Supports abort signals for cancellation
  * - Handles tool calls, reasoning, and sources from MCP
+ * - Attaches token usage and cost as message metadata
+ * - Flags answers sent with condensed history (context window management)
+ * - Flags answers from a fallback model or after retries
  */
 export class ElectronChatTransport implements ChatTransport<UIMessage> {
   private hasStartedTextPart = false;
   private currentTextPartId = '';
+  private currentReasoningPartId: string | null = null;
+  private partCount = 0;
+  private sourceUrls = new Set<string>();
   private currentController: ReadableStreamDefaultController<UIMessageChunk> | null = null;
 
   constructor(
@@ -29,6 +38,9 @@ export class ElectronChatTransport implements ChatTransport<UIMessage> {
       model?: string;
       webSearch?: boolean;
       enableMCP?: boolean;
+      models?: Model[]; // Used to price token usage and size the context window
+      agentId?: string | null; // Agent of the current session
+      generation?: GenerationParams | null; // Generation parameters of the current session
     } = {}
   ) {}
 
@@ -58,11 +70,18 @@ export class ElectronChatTransport implements ChatTransport<UIMessage> {
       model,
       webSearch,
       enableMCP,
+      sessionId: chatId,
+      contextLength: this.defaultOptions.models?.find((m) => m.id === model)?.contextLength,
+      agentId: this.defaultOptions.agentId ?? null,
+      generation: this.defaultOptions.generation ?? null,
     };
 
-    // Reset text part tracking for new stream
+    // Reset part tracking for new stream
     this.hasStartedTextPart = false;
     this.currentTextPartId = `text-${Date.now()}`;
+    this.currentReasoningPartId = null;
+    this.partCount = 0;
+    this.sourceUrls.clear();
 
     // Create a ReadableStream that bridges Electron IPC with AI SDK
     return new ReadableStream<UIMessageChunk>({
@@ -79,17 +98,13 @@ export class ElectronChatTransport implements ChatTransport<UIMessage> {
             isAborted = true;
             await window.levante.stopStreaming();
 
-            // Close text part if needed before closing stream
-            if (this.hasStartedTextPart) {
-              try {
-                controller.enqueue({
-                  type: 'text-end',
-                  id: this.currentTextPartId,
-                });
-              } catch (e) {
-                // Controller might already be closed
+            // Close text and reasoning parts if needed before closing stream
+            try {
+              for (const uiChunk of [...this.endReasoningPart(), ...this.endTextPart()]) {
+                controller.enqueue(uiChunk);
               }
-              this.hasStartedTextPart = false;
+            } catch (e) {
+              // Controller might already be closed
             }
 
             try {
@@ -159,7 +174,9 @@ export class ElectronChatTransport implements ChatTransport<UIMessage> {
    *
    * AI SDK v5 uses a specific streaming protocol with typed chunks:
    * - text-start, text-delta, text-end for text content
+   * - reasoning-start, reasoning-delta, reasoning-end for thinking output
    * - tool-input-start, tool-input-delta, tool-input-available for tool calls
+   * - source-url for web search sources
    * - data-part-start, data-part-delta, data-part-available for custom data
    * - error for errors
    */
@@ -168,24 +185,48 @@ export class ElectronChatTransport implements ChatTransport<UIMessage> {
 
     // Handle errors
     if (chunk.error) {
-      // End text part if one was started
+      // End parts that were started
+      chunks.push(...this.endReasoningPart(), ...this.endTextPart());
+
+      chunks.push({
+        type: 'error',
+        errorText: chunk.error,
+      });
+      return chunks;
+    }
+
+    // Handle reasoning deltas (thinking output shown before the answer)
+    if (chunk.reasoning) {
+      // Text after the reasoning goes to a new part so the order is kept
       if (this.hasStartedTextPart) {
+        chunks.push(...this.endTextPart());
+        this.currentTextPartId = `text-${Date.now()}-${++this.partCount}`;
+      }
+
+      if (!this.currentReasoningPartId) {
+        this.currentReasoningPartId = `reasoning-${Date.now()}-${++this.partCount}`;
         chunks.push({
-          type: 'text-end',
-          id: this.currentTextPartId,
+          type: 'reasoning-start',
+          id: this.currentReasoningPartId,
         });
-        this.hasStartedTextPart = false;
       }
 
       chunks.push({
-        type: 'error',
-        errorText: chunk.error,
+        type: 'reasoning-delta',
+        id: this.currentReasoningPartId,
+        delta: chunk.reasoning,
       });
-      return chunks;
+    }
+
+    // The thinking time is kept on the part so it survives reloads
+    if (chunk.reasoningEnd) {
+      chunks.push(...this.endReasoningPart(chunk.reasoningEnd.durationMs));
     }
 
     // Handle text deltas
     if (chunk.delta) {
+      chunks.push(...this.endReasoningPart());
+
       // Emit text-start before first delta
       if (!this.hasStartedTextPart) {
         chunks.push({
@@ -205,18 +246,14 @@ export class ElectronChatTransport implements ChatTransport<UIMessage> {
 
     // Handle stream completion
     if (chunk.done) {
-      // End text part if one was started
-      if (this.hasStartedTextPart) {
-        chunks.push({
-          type: 'text-end',
-          id: this.currentTextPartId,
-        });
-        this.hasStartedTextPart = false;
-      }
+      // End parts that were started
+      chunks.push(...this.endReasoningPart(), ...this.endTextPart());
     }
 
     // Handle tool calls (MCP integration)
     if (chunk.toolCall) {
+      chunks.push(...this.endReasoningPart());
+
       // Start of tool input
       chunks.push({
         type: 'tool-input-start',
@@ -254,38 +291,78 @@ export class ElectronChatTransport implements ChatTransport<UIMessage> {
       }
     }
 
-    // Handle sources (custom data part for RAG/web search)
+    // Handle sources from web search, once per URL so citation numbers stay in order
     if (chunk.sources && chunk.sources.length > 0) {
       for (const source of chunk.sources) {
+        if (this.sourceUrls.has(source.url)) continue;
+        this.sourceUrls.add(source.url);
         chunks.push({
-          type: 'data-part-available',
-          id: `source-${source.url}`,
-          data: {
-            type: 'source-url' as const,
-            url: source.url,
-            title: source.title,
-          },
+          type: 'source-url',
+          sourceId: source.url,
+          url: source.url,
+          title: source.title,
+          ...(source.snippet ? { providerMetadata: { levante: { snippet: source.snippet } } } : {}),
         });
       }
     }
 
-    // Handle reasoning (custom data part for extended thinking)
-    if (chunk.reasoning) {
+    // Handle token usage reported when the stream finishes
+    if (chunk.usage) {
       chunks.push({
-        type: 'data-part-available',
-        id: `reasoning-${Date.now()}`,
-        data: {
-          type: 'reasoning' as const,
-          text: chunk.reasoning,
+        type: 'message-metadata',
+        messageMetadata: {
+          usage: toMessageUsage(chunk.usage, this.defaultOptions.models ?? []),
         },
       });
     }
 
+    // Handle older history left out to fit the context window
+    if (chunk.context) {
+      chunks.push({
+        type: 'message-metadata',
+        messageMetadata: { context: chunk.context },
+      });
+    }
+
+    // Handle answers from a fallback model or after retries
+    if (chunk.routing) {
+      chunks.push({
+        type: 'message-metadata',
+        messageMetadata: { routing: chunk.routing },
+      });
+    }
+
     return chunks;
   }
 
   /**
-   * Updates transport options (model, webSearch, enableMCP)
+   * Close the text part being streamed, if any
+   */
+  private endTextPart(): UIMessageChunk[] {
+    if (!this.hasStartedTextPart) return [];
+
+    this.hasStartedTextPart = false;
+    return [{ type: 'text-end', id: this.currentTextPartId }];
+  }
+
+  /**
+   * Close the reasoning part being streamed, if any. The duration is stored
+   * in the part's provider metadata (stripped before messages reach a model).
+   */
+  private endReasoningPart(durationMs?: number): UIMessageChunk[] {
+    if (!this.currentReasoningPartId) return [];
+
+    const id = this.currentReasoningPartId;
+    this.currentReasoningPartId = null;
+    return [{
+      type: 'reasoning-end',
+      id,
+      ...(durationMs !== undefined ? { providerMetadata: { levante: { durationMs } } } : {}),
+    }];
+  }
+
+  /**
+   * Updates transport options (model, webSearch, enableMCP, models, agentId, generation)
    */
   updateOptions(options: Partial<typeof this.defaultOptions>): void {
     this.defaultOptions = { ...this.defaultOptions, ...options };
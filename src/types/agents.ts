@@ -0,0 +1,39 @@
+/**
+ * User-defined assistant stored in ~/levante/agents.json.
+ * A chat session bound to an agent uses its prompt, model defaults and tool set
+ * instead of the global personalization settings.
+ */
+export interface Agent {
+  id: string;
+  name: string;
+  icon: string; // Emoji shown next to the name
+  description?: string;
+  systemPrompt: string;
+  model?: string | null; // Selected when the agent is picked; null keeps the current model
+  temperature?: number | null; // null uses the provider default
+  mcpServers?: string[] | null; // Allowed MCP server ids; null allows every active server
+  tools?: string[] | null; // Allowed tool ids (`serverId_toolName`); null allows every tool of the allowed servers
+  maxSteps?: number | null; // Overrides the calculated tool step limit
+  created_at: number;
+  updated_at: number;
+}
+
+export interface CreateAgentInput {
+  name: string;
+  icon?: string;
+  description?: string;
+  systemPrompt: string;
+  model?: string | null;
+  temperature?: number | null;
+  mcpServers?: string[] | null;
+  tools?: string[] | null;
+  maxSteps?: number | null;
+}
+
+export interface UpdateAgentInput extends Partial<CreateAgentInput> {
+  id: string;
+}
+
+export const DEFAULT_AGENT_ICON = '🤖';
+export const MAX_AGENT_PROMPT_LENGTH = 50_000;
+export const MAX_AGENT_STEPS = 100;
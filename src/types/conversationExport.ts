@@ -0,0 +1,64 @@
+import type { ChatSession, Folder, MessageAttachment, MessageReasoning, MessageSource, MessageUsage } from './database';
+
+export type ConversationExportFormat = 'markdown' | 'json' | 'html';
+
+export type ConversationExportTarget =
+  | { type: 'session'; id: string }
+  | { type: 'folder'; id: string };
+
+/**
+ * Attachment metadata plus the file content, so the export does not depend
+ * on ~/levante/attachments on the importing machine
+ */
+export interface ExportedAttachment extends MessageAttachment {
+  data?: string; // Base64 encoded content, missing if the file could not be read
+}
+
+export interface ExportedMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  tool_calls: object[] | null;
+  attachments: ExportedAttachment[];
+  parent_id: string | null;
+  created_at: number;
+  usage?: MessageUsage | null;
+  reasoning?: MessageReasoning[] | null;
+  sources?: MessageSource[] | null;
+}
+
+export interface ExportedSession {
+  id: string;
+  title?: string;
+  model: string;
+  created_at: number;
+  updated_at: number;
+  pinned: boolean;
+  tags: string[];
+  active_leaf_id: string | null;
+  messages: ExportedMessage[]; // Every branch, in creation order
+}
+
+/**
+ * Lossless JSON export. Markdown and HTML only contain the branch being shown.
+ */
+export interface ConversationExportFile {
+  format: 'levante-conversations';
+  version: 1;
+  exported_at: number;
+  app_version: string;
+  folder?: { name: string };
+  sessions: ExportedSession[];
+}
+
+export interface ConversationImportResult {
+  sessions: ChatSession[];
+  folder: Folder | null;
+}
+
+/**
+ * Sent by the application menu; the renderer knows which chat is open
+ */
+export type ConversationMenuAction =
+  | { type: 'export'; format: ConversationExportFormat }
+  | { type: 'import' };
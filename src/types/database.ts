@@ -1,5 +1,7 @@
 // Database entity types
 
+import type { GenerationParams } from './preferences';
+
 export interface ChatSession {
   id: string;
   title?: string;
@@ -7,6 +9,21 @@ export interface ChatSession {
   folder_id?: string | null;
   created_at: number;
   updated_at: number;
+  active_leaf_id?: string | null; // Last message of the branch being shown
+  pinned?: boolean;
+  tags?: string[];
+  context_summary?: string | null; // Rolling summary of messages no longer sent to the model
+  context_summary_until?: string | null; // Last message covered by the summary
+  agent_id?: string | null; // Agent from agents.json; null uses the global settings
+  generation_params?: GenerationParams | null; // Stored in one column per parameter; null uses the defaults
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  position: number; // Sort order in the sidebar
+  created_at: number;
+  updated_at: number;
 }
 
 export interface Message {
@@ -16,6 +33,46 @@ export interface Message {
   content: string;
   tool_calls?: string | null; // JSON string or null
   created_at: number;
+  attachments?: string | null; // JSON string of MessageAttachment[] or null
+  parent_id?: string | null; // Previous message in the branch, null for the first one
+  usage?: MessageUsage | null; // Token usage of assistant messages
+  reasoning?: string | null; // JSON string of MessageReasoning[] or null
+  sources?: string | null; // JSON string of MessageSource[] or null
+}
+
+/**
+ * Thinking output of an assistant message, one entry per reasoning block
+ */
+export interface MessageReasoning {
+  text: string;
+  durationMs?: number; // Time from the first to the last reasoning token
+}
+
+/**
+ * Web page an assistant message is based on; the position is its citation number
+ */
+export interface MessageSource {
+  url: string;
+  title?: string;
+  snippet?: string;
+}
+
+export interface MessageUsage {
+  model: string;
+  provider: string | null;
+  input_tokens: number;
+  output_tokens: number; // Includes reasoning tokens
+  reasoning_tokens: number;
+  cached_input_tokens: number;
+  cost: number | null; // USD, null when the model has no pricing
+}
+
+export interface MessageAttachment {
+  id: string;
+  filename: string;
+  mediaType: string;
+  size: number;
+  path: string; // Relative to the attachments directory
 }
 
 export interface Provider {
@@ -70,6 +127,9 @@ export interface CreateChatSessionInput {
   title?: string;
   model: string;
   folder_id?: string | null;
+  agent_id?: string | null;
+  generation_params?: GenerationParams | null;
+  created_at?: number; // Keep the original time when importing
 }
 
 export interface CreateMessageInput {
@@ -77,6 +137,13 @@ export interface CreateMessageInput {
   role: 'user' | 'assistant' | 'system';
   content: string;
   tool_calls?: object[] | null; // Will be JSON stringified or null
+  attachments?: MessageAttachment[] | null; // Will be JSON stringified or null
+  id?: string; // Reuse the renderer's message id so branches can reference it
+  parent_id?: string | null; // Omit to append to the session's active branch
+  created_at?: number; // Keep the original time when importing
+  usage?: MessageUsage | null;
+  reasoning?: MessageReasoning[] | null; // Will be JSON stringified or null
+  sources?: MessageSource[] | null; // Will be JSON stringified or null
 }
 
 export interface CreateProviderInput {
@@ -119,6 +186,20 @@ export interface UpdateChatSessionInput {
   title?: string;
   model?: string;
   folder_id?: string | null;
+  pinned?: boolean;
+  tags?: string[];
+  agent_id?: string | null;
+  generation_params?: GenerationParams | null; // Replaces all parameters; null clears them
+}
+
+export interface CreateFolderInput {
+  name: string;
+}
+
+export interface UpdateFolderInput {
+  id: string;
+  name?: string;
+  position?: number;
 }
 
 export interface UpdateMessageInput {
@@ -131,10 +212,55 @@ export interface UpdateMessageInput {
 export interface SearchMessagesQuery {
   query: string;
   session_id?: string;
+  role?: 'user' | 'assistant' | 'system';
+  model?: string;      // Model that wrote the message (only assistant messages store one)
+  date_from?: number;  // Unix timestamp (ms), inclusive
+  date_to?: number;    // Unix timestamp (ms), inclusive
   limit?: number;
   offset?: number;
 }
 
+export interface MessageSearchResult extends Message {
+  snippet: string;              // Matching excerpt with <mark> highlights
+  rank: number;                 // bm25 score, lower is more relevant
+  session_title: string | null;
+  session_model: string;
+}
+
+// Messages on the branch being shown, first to last
+export interface MessagePath {
+  messages: Message[];
+  siblings: Record<string, string[]>; // Message id -> ids of it and its siblings, oldest first (only when branched)
+}
+
+export interface UsageStatsQuery {
+  date_from?: number;  // Unix timestamp (ms), inclusive
+  date_to?: number;    // Unix timestamp (ms), inclusive
+  session_id?: string;
+}
+
+export interface UsageTotals {
+  messages: number;
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  cost: number;        // USD, messages without pricing count as 0
+  unpriced: number;    // Messages whose model had no pricing
+}
+
+export interface UsageBreakdown extends UsageTotals {
+  key: string;         // Day (YYYY-MM-DD, local time), model id, provider or session id
+  label?: string;      // Session title
+}
+
+export interface UsageStats {
+  totals: UsageTotals;
+  by_day: UsageBreakdown[];
+  by_model: UsageBreakdown[];
+  by_provider: UsageBreakdown[];
+  by_session: UsageBreakdown[]; // Most expensive chats first
+}
+
 export interface GetMessagesQuery {
   session_id: string;
   limit?: number;
@@ -143,6 +269,7 @@ export interface GetMessagesQuery {
 
 export interface GetChatSessionsQuery {
   folder_id?: string;
+  tag?: string;
   limit?: number;
   offset?: number;
 }
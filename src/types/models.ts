@@ -14,7 +14,7 @@ export interface Model {
 }
 
 export type CloudProviderType = 'openai' | 'anthropic' | 'google' | 'groq' | 'xai';
-export type ProviderType = 'openrouter' | 'vercel-gateway' | 'local' | CloudProviderType;
+export type ProviderType = 'openrouter' | 'vercel-gateway' | 'local' | 'openai-compatible' | CloudProviderType;
 
 export interface ProviderConfig {
   id: string;
@@ -24,6 +24,7 @@ export interface ProviderConfig {
   baseUrl?: string;
   models: Model[]; // In-memory: full list. In storage: only selected models for 'dynamic' providers
   selectedModelIds?: string[]; // IDs of selected models (for dynamic providers, saved to disk)
+  contextLengths?: Record<string, number>; // Context windows of the selected models of a dynamic provider, for the main process
   isActive: boolean;
   settings: Record<string, any>;
   modelSource: 'dynamic' | 'user-defined';
@@ -32,6 +33,46 @@ export interface ProviderConfig {
   organizationId?: string; // For OpenAI
   projectId?: string; // For Google, Anthropic
   region?: string; // For AWS Bedrock (future)
+  // OpenAI-compatible endpoints (custom providers)
+  headers?: Record<string, string>; // Sent with every request, e.g. Azure's api-key
+  queryParams?: Record<string, string>; // Appended to every request URL, e.g. api-version
+}
+
+// Connection settings of a custom OpenAI-compatible provider
+export type OpenAICompatibleEndpoint = Pick<ProviderConfig, 'baseUrl' | 'apiKey' | 'headers' | 'queryParams'>;
+
+// Separates the provider instance from the model in qualified IDs: "<providerId>::<modelId>"
+export const MODEL_ID_SEPARATOR = '::';
+
+/**
+ * Model ID that names the provider instance serving it, so the same model
+ * offered by two providers (or two accounts of one provider) does not collide
+ */
+export function qualifyModelId(providerId: string, modelId: string): string {
+  return `${providerId}${MODEL_ID_SEPARATOR}${modelId}`;
+}
+
+/**
+ * Split a model ID into provider instance and provider-side model ID.
+ * IDs saved before qualification have no provider.
+ */
+export function parseModelId(id: string): { providerId?: string; modelId: string } {
+  const index = id.indexOf(MODEL_ID_SEPARATOR);
+  if (index <= 0) {
+    return { modelId: id };
+  }
+  return { providerId: id.slice(0, index), modelId: id.slice(index + MODEL_ID_SEPARATOR.length) };
+}
+
+/**
+ * ID in `models` that `id` refers to. Unqualified IDs from older chats, agents
+ * and prompts match the first model with that provider-side ID.
+ */
+export function resolveModelId(models: Model[], id: string | null | undefined): string | undefined {
+  if (!id) return undefined;
+  if (models.some((model) => model.id === id)) return id;
+  if (parseModelId(id).providerId) return undefined;
+  return models.find((model) => parseModelId(model.id).modelId === id)?.id;
 }
 
 export interface ModelService {
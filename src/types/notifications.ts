@@ -0,0 +1,12 @@
+export type NotificationKind = 'response' | 'error' | 'tool-consent';
+
+/**
+ * Shown as a toast when the window is focused, since the OS notification is
+ * only used while Levante is in the background. The renderer writes the text.
+ */
+export interface InAppNotification {
+  kind: NotificationKind;
+  sessionId: string;
+  sessionTitle?: string;
+  error?: string;
+}
@@ -1,4 +1,107 @@
 import type { ProviderConfig } from './models';
+import type { LogCategory, LogLevel } from '../main/types/logger';
+
+/**
+ * What to do when a conversation no longer fits in the model's context window
+ */
+export type ContextStrategy = 'truncate' | 'summarize' | 'fail';
+
+/**
+ * How much a model should think before answering; 'off' disables thinking where the provider allows it
+ */
+export type ReasoningEffort = 'off' | 'low' | 'medium' | 'high';
+
+export interface ReasoningSetting {
+  effort: ReasoningEffort;
+  budgetTokens?: number; // Thinking budget for Anthropic and Gemini; derived from the effort when missing
+}
+
+/**
+ * Sampling settings sent with each request. Unset fields use the next level of
+ * defaults: session, then agent, then model, then the global defaults.
+ */
+export interface GenerationParams {
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  seed?: number;
+  stopSequences?: string[];
+  providerOptions?: Record<string, Record<string, unknown>>; // Keyed by SDK provider name, e.g. "openai"
+}
+
+/**
+ * How often a request is retried after a rate limit, server or network error
+ * before moving on to the model's fallbacks
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  initialDelayMs: number; // Doubled after each retry
+  maxDelayMs: number; // Longer waits (including Retry-After) skip to the next fallback
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+/**
+ * Settings stored per model id
+ */
+export interface ModelSettings {
+  reasoning?: ReasoningSetting;
+  generation?: GenerationParams; // Defaults for this model, e.g. a low temperature for coding models
+  fallbacks?: string[]; // Models tried in order when this one is unavailable
+}
+
+/**
+ * Backend of the web search tool; 'native' uses the search built into OpenAI, Anthropic and Gemini
+ */
+export type WebSearchProvider = 'native' | 'searxng' | 'brave' | 'tavily';
+
+export interface WebSearchSettings {
+  provider: WebSearchProvider;
+  searxngUrl: string;
+  braveApiKey?: string;
+  tavilyApiKey?: string;
+  baseUrl?: string; // Replaces the Brave or Tavily API endpoint (proxies, local mock servers)
+  maxResults: number;
+}
+
+/**
+ * Shape of the remote registry document; 'official' is the MCP registry API (/v0/servers)
+ */
+export type MCPRegistryFormat = 'levante' | 'official';
+
+export interface MCPRegistrySettings {
+  url?: string; // Unset uses only the registry bundled with the app
+  format: MCPRegistryFormat;
+  sha256?: string; // Expected hash of the response body, for registries published as a static file
+  publicKey?: string; // PEM public key checking the detached signature served at <url>.sig
+  refreshHours: number; // Age of the cached copy before the next sync
+}
+
+/**
+ * In-app actions with a rebindable shortcut
+ */
+export type ShortcutAction = 'newChat' | 'toggleSidebar' | 'search';
+
+/**
+ * Electron accelerators (e.g. "CmdOrCtrl+N") for the in-app actions, plus the
+ * OS-wide shortcut that opens a new chat with the clipboard contents
+ */
+export interface ShortcutSettings extends Record<ShortcutAction, string> {
+  globalNewChat: string;
+  globalEnabled: boolean;
+}
+
+/**
+ * Logging changed in Settings; replaces the DEBUG_* and LOG_LEVEL environment defaults
+ */
+export interface LoggingSettings {
+  level: LogLevel;
+  categories: Record<LogCategory, boolean>;
+}
 
 export interface UIPreferences {
   theme: 'light' | 'dark' | 'system';
@@ -22,21 +125,28 @@ export interface UIPreferences {
     showInApp: boolean;
     soundEnabled: boolean;
   };
-  shortcuts: {
-    newChat: string;
-    toggleSidebar: string;
-    search: string;
-  };
+  shortcuts: ShortcutSettings;
   providers: ProviderConfig[];
   activeProvider: string | null;
   ai: {
     baseSteps: number;
     maxSteps: number;
+    contextStrategy?: ContextStrategy;
+    generation?: GenerationParams; // Global defaults
+    retry?: RetryPolicy;
   };
+  modelSettings: Record<string, ModelSettings>;
+  webSearch: WebSearchSettings;
+  mcpRegistry: MCPRegistrySettings;
+  logging?: LoggingSettings; // Unset keeps the environment defaults
   hasAcceptedFreeModelWarning?: boolean;
   security: {
     encryptApiKeys: boolean;
   };
+  budget: {
+    monthlyLimit: number | null; // USD, null disables the budget
+    warnAtPercent: number;
+  };
 }
 
 export type PreferenceKey = keyof UIPreferences;
@@ -68,18 +178,36 @@ export const DEFAULT_PREFERENCES: UIPreferences = {
     soundEnabled: false
   },
   shortcuts: {
-    newChat: 'Cmd+N',
-    toggleSidebar: 'Cmd+B',
-    search: 'Cmd+F'
+    newChat: 'CmdOrCtrl+N',
+    toggleSidebar: 'CmdOrCtrl+B',
+    search: 'CmdOrCtrl+K',
+    globalNewChat: 'CmdOrCtrl+Shift+Space',
+    globalEnabled: false
   },
   providers: [],
   activeProvider: null,
   ai: {
     baseSteps: 5,
-    maxSteps: 20
+    maxSteps: 20,
+    contextStrategy: 'summarize',
+    retry: DEFAULT_RETRY_POLICY
+  },
+  modelSettings: {},
+  webSearch: {
+    provider: 'native',
+    searxngUrl: '',
+    maxResults: 5
+  },
+  mcpRegistry: {
+    format: 'levante',
+    refreshHours: 24
   },
   hasAcceptedFreeModelWarning: false,
   security: {
     encryptApiKeys: false
+  },
+  budget: {
+    monthlyLimit: null,
+    warnAtPercent: 80
   }
 };
\ No newline at end of file
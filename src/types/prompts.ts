@@ -0,0 +1,48 @@
+/**
+ * Reusable prompt stored in ~/levante/prompt-library.json.
+ * `content` may contain {{variables}} that are asked for when inserting it.
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  content: string;
+  defaultModel?: string | null; // Model selected when the template is inserted
+  enableMCP?: boolean | null; // null leaves the current toggle alone
+  webSearch?: boolean | null;
+  tags: string[];
+  created_at: number;
+  updated_at: number;
+}
+
+export interface CreatePromptTemplateInput {
+  name: string;
+  description?: string;
+  content: string;
+  defaultModel?: string | null;
+  enableMCP?: boolean | null;
+  webSearch?: boolean | null;
+  tags?: string[];
+}
+
+export interface UpdatePromptTemplateInput extends Partial<CreatePromptTemplateInput> {
+  id: string;
+}
+
+export const MAX_PROMPT_CONTENT_LENGTH = 50_000;
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Variable names in order of first appearance
+ */
+export function extractPromptVariables(content: string): string[] {
+  const names = Array.from(content.matchAll(VARIABLE_PATTERN), (match) => match[1]);
+  return Array.from(new Set(names));
+}
+
+export function fillPromptTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+}
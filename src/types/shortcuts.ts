@@ -0,0 +1,310 @@
+import { DEFAULT_PREFERENCES } from './preferences';
+import type { ShortcutAction, ShortcutSettings } from './preferences';
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = ['newChat', 'toggleSidebar', 'search'];
+
+/**
+ * Every shortcut that can clash with another: the in-app actions and the
+ * global new chat shortcut
+ */
+export type ShortcutSlot = ShortcutAction | 'globalNewChat';
+
+export interface ShortcutStatus {
+  shortcuts: ShortcutSettings;
+  globalRegistered: boolean; // False when enabled but taken by another application
+}
+
+export type ShortcutProblem =
+  | { type: 'invalid' }
+  | { type: 'duplicate'; slot: ShortcutSlot }
+  | { type: 'reserved'; name: string };
+
+/**
+ * Key event fields needed to match shortcuts; DOM KeyboardEvents have them all
+ */
+export interface ShortcutKeyEvent {
+  code: string;
+  key: string;
+  metaKey: boolean;
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+}
+
+/**
+ * Shortcuts of the menu roles and text editing, which cannot be rebound
+ */
+export const RESERVED_SHORTCUTS: Array<{ accelerator: string; name: string }> = [
+  { accelerator: 'CmdOrCtrl+Z', name: 'undo' },
+  { accelerator: 'CmdOrCtrl+Shift+Z', name: 'redo' },
+  { accelerator: 'CmdOrCtrl+Y', name: 'redo' },
+  { accelerator: 'CmdOrCtrl+X', name: 'cut' },
+  { accelerator: 'CmdOrCtrl+C', name: 'copy' },
+  { accelerator: 'CmdOrCtrl+V', name: 'paste' },
+  { accelerator: 'CmdOrCtrl+A', name: 'select_all' },
+  { accelerator: 'CmdOrCtrl+R', name: 'reload' },
+  { accelerator: 'CmdOrCtrl+Shift+R', name: 'reload' },
+  { accelerator: 'CmdOrCtrl+Shift+I', name: 'dev_tools' },
+  { accelerator: 'CmdOrCtrl+Alt+I', name: 'dev_tools' },
+  { accelerator: 'CmdOrCtrl+0', name: 'zoom' },
+  { accelerator: 'CmdOrCtrl+=', name: 'zoom' },
+  { accelerator: 'CmdOrCtrl+-', name: 'zoom' },
+  { accelerator: 'CmdOrCtrl+M', name: 'minimize' },
+  { accelerator: 'CmdOrCtrl+W', name: 'close' },
+  { accelerator: 'CmdOrCtrl+Q', name: 'quit' },
+];
+
+// Stored before shortcuts were read anywhere, so never picked by the user.
+// Cmd+F was listed for search, but the search palette has always used Cmd+K.
+const LEGACY_DEFAULTS: Record<ShortcutAction, string> = {
+  newChat: 'Cmd+N',
+  toggleSidebar: 'Cmd+B',
+  search: 'Cmd+F',
+};
+
+const CODE_KEYS: Record<string, string> = {
+  Space: 'Space',
+  Enter: 'Enter',
+  NumpadEnter: 'Enter',
+  Tab: 'Tab',
+  Escape: 'Escape',
+  Backspace: 'Backspace',
+  Delete: 'Delete',
+  Insert: 'Insert',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Semicolon: ';',
+  Quote: "'",
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Minus: '-',
+  Equal: '=',
+  Backquote: '`',
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  return: 'Enter',
+  esc: 'Escape',
+  plus: '=',
+  arrowup: 'Up',
+  arrowdown: 'Down',
+  arrowleft: 'Left',
+  arrowright: 'Right',
+};
+
+interface ParsedAccelerator {
+  primary: boolean; // Cmd on macOS, Ctrl elsewhere
+  ctrl: boolean; // Control on macOS
+  meta: boolean; // Windows or Super key outside macOS
+  alt: boolean;
+  shift: boolean;
+  key: string;
+}
+
+/**
+ * Stored shortcuts completed with the defaults
+ */
+export function resolveShortcuts(stored?: Partial<ShortcutSettings> | null): ShortcutSettings {
+  const defaults = DEFAULT_PREFERENCES.shortcuts;
+  const resolved: ShortcutSettings = { ...defaults, ...stored };
+
+  for (const action of SHORTCUT_ACTIONS) {
+    if (resolved[action] === undefined || resolved[action] === LEGACY_DEFAULTS[action]) {
+      resolved[action] = defaults[action];
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Accelerator for a key press, with the platform's main modifier written as
+ * CmdOrCtrl. Null while only modifiers are held.
+ */
+export function acceleratorFromEvent(event: ShortcutKeyEvent, isMac: boolean): string | null {
+  const key = keyFromEvent(event);
+  if (!key) return null;
+
+  const parts: string[] = [];
+  if (isMac ? event.metaKey : event.ctrlKey) parts.push('CmdOrCtrl');
+  if (isMac && event.ctrlKey) parts.push('Ctrl');
+  if (!isMac && event.metaKey) parts.push('Super');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  parts.push(key);
+
+  return parts.join('+');
+}
+
+/**
+ * Whether a key press triggers the accelerator. Empty accelerators never match.
+ */
+export function matchesShortcut(event: ShortcutKeyEvent, accelerator: string, isMac: boolean): boolean {
+  if (!accelerator) return false;
+  const pressed = acceleratorFromEvent(event, isMac);
+  return pressed !== null && sameShortcut(pressed, accelerator, isMac);
+}
+
+/**
+ * Whether two accelerators are the same keys on this platform
+ * ("Cmd+N" and "CmdOrCtrl+N" on macOS, "Ctrl+N" and "CmdOrCtrl+N" elsewhere)
+ */
+export function sameShortcut(a: string, b: string, isMac: boolean): boolean {
+  const parsedA = parseAccelerator(a, isMac);
+  const parsedB = parseAccelerator(b, isMac);
+  return parsedA !== null && parsedB !== null && signature(parsedA) === signature(parsedB);
+}
+
+/**
+ * Whether an accelerator can be used as a shortcut: one key plus a modifier
+ * other than Shift, or a function key on its own
+ */
+export function isValidShortcut(accelerator: string, isMac: boolean): boolean {
+  const parsed = parseAccelerator(accelerator, isMac);
+  if (!parsed) return false;
+  return parsed.primary || parsed.ctrl || parsed.meta || parsed.alt || /^F\d{1,2}$/.test(parsed.key);
+}
+
+/**
+ * Accelerator as shown to the user: ⌃⌥⇧⌘K on macOS, Ctrl+Shift+K elsewhere
+ */
+export function formatShortcut(accelerator: string, isMac: boolean): string {
+  const parsed = parseAccelerator(accelerator, isMac);
+  if (!parsed) return accelerator;
+
+  if (isMac) {
+    return [
+      parsed.ctrl && '⌃',
+      parsed.alt && '⌥',
+      parsed.shift && '⇧',
+      parsed.primary && '⌘',
+      parsed.key,
+    ].filter(Boolean).join('');
+  }
+
+  return [
+    parsed.primary && 'Ctrl',
+    parsed.meta && 'Super',
+    parsed.alt && 'Alt',
+    parsed.shift && 'Shift',
+    parsed.key,
+  ].filter(Boolean).join('+');
+}
+
+/**
+ * Shortcuts that cannot be saved: malformed, bound twice, or taken by an
+ * editing or menu shortcut. Unbound actions and a disabled global shortcut
+ * are skipped.
+ */
+export function findShortcutConflicts(
+  shortcuts: ShortcutSettings,
+  isMac: boolean
+): Partial<Record<ShortcutSlot, ShortcutProblem>> {
+  const slots: ShortcutSlot[] = [...SHORTCUT_ACTIONS, 'globalNewChat'];
+  const active = slots.filter((slot) =>
+    shortcuts[slot] !== '' && (slot !== 'globalNewChat' || shortcuts.globalEnabled)
+  );
+  const problems: Partial<Record<ShortcutSlot, ShortcutProblem>> = {};
+
+  for (const slot of active) {
+    const accelerator = shortcuts[slot];
+
+    if (!isValidShortcut(accelerator, isMac)) {
+      problems[slot] = { type: 'invalid' };
+      continue;
+    }
+
+    const reserved = RESERVED_SHORTCUTS.find((item) => sameShortcut(item.accelerator, accelerator, isMac));
+    if (reserved) {
+      problems[slot] = { type: 'reserved', name: reserved.name };
+      continue;
+    }
+
+    const duplicate = active.find((other) => other !== slot && sameShortcut(shortcuts[other], accelerator, isMac));
+    if (duplicate) {
+      problems[slot] = { type: 'duplicate', slot: duplicate };
+    }
+  }
+
+  return problems;
+}
+
+function parseAccelerator(accelerator: string, isMac: boolean): ParsedAccelerator | null {
+  const parsed: ParsedAccelerator = { primary: false, ctrl: false, meta: false, alt: false, shift: false, key: '' };
+
+  // "Plus" stands for the + key, so the string can be split on "+"
+  for (const part of accelerator.split('+').map((item) => item.trim())) {
+    switch (part.toLowerCase()) {
+      case 'cmdorctrl':
+      case 'commandorcontrol':
+      case 'cmd':
+      case 'command':
+        parsed.primary = true;
+        break;
+      case 'ctrl':
+      case 'control':
+        if (isMac) parsed.ctrl = true;
+        else parsed.primary = true;
+        break;
+      case 'super':
+      case 'meta':
+        if (isMac) parsed.primary = true;
+        else parsed.meta = true;
+        break;
+      case 'alt':
+      case 'option':
+      case 'altgr':
+        parsed.alt = true;
+        break;
+      case 'shift':
+        parsed.shift = true;
+        break;
+      case '':
+        return null;
+      default:
+        if (parsed.key) return null;
+        parsed.key = normalizeKey(part);
+    }
+  }
+
+  return parsed.key ? parsed : null;
+}
+
+function normalizeKey(key: string): string {
+  if (key.length === 1) return key.toUpperCase();
+  return KEY_ALIASES[key.toLowerCase()] ?? key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+function keyFromEvent(event: ShortcutKeyEvent): string | null {
+  const letter = /^Key([A-Z])$/.exec(event.code);
+  if (letter) return letter[1];
+
+  const digit = /^(?:Digit|Numpad)(\d)$/.exec(event.code);
+  if (digit) return digit[1];
+
+  if (/^F\d{1,2}$/.test(event.code)) return event.code;
+  if (CODE_KEYS[event.code]) return CODE_KEYS[event.code];
+
+  // Layouts without a matching physical key code
+  return event.key.length === 1 && event.key !== ' ' ? event.key.toUpperCase() : null;
+}
+
+function signature(parsed: ParsedAccelerator): string {
+  return [
+    parsed.primary && 'primary',
+    parsed.ctrl && 'ctrl',
+    parsed.meta && 'meta',
+    parsed.alt && 'alt',
+    parsed.shift && 'shift',
+    parsed.key,
+  ].filter(Boolean).join('+');
+}